@@ -0,0 +1,113 @@
+import { isAddress, parseUnits } from "ethers";
+import { maxMultiplier, rewardRatioNumerator, tiersDurations, tiersMultipliers } from "./config";
+
+export type DeploymentNetwork = "hardhat" | "polygonTestnet" | "polygonMainnet";
+
+/** Accounts granted each role of `StakingRoles`, whose admin is the deployer. */
+export interface StakingRolesProfile {
+  pausers: string[];
+  parameterManagers: string[];
+  treasuries: string[];
+}
+
+export interface DeploymentProfile {
+  /** Staking token address, read from LCD_ADDRESS when omitted. */
+  stakingToken?: string;
+  rewardRatioNumerator: bigint;
+  /** Whole staking tokens, scaled by the token decimals at deployment. */
+  stakingTokenCap: string;
+  /** Whole staking tokens, scaled by the token decimals at deployment. */
+  minStakingBoostAmount: string;
+  /** Seconds. */
+  tiersDurations: number[];
+  tiersMultipliers: number[];
+  roles: StakingRolesProfile;
+}
+
+// Tiers and ratio are shared with the tests, amounts are kept in whole tokens so that any token decimals work
+const defaultProfile: DeploymentProfile = {
+  rewardRatioNumerator,
+  stakingTokenCap: "50000000",
+  minStakingBoostAmount: "25000",
+  tiersDurations,
+  tiersMultipliers,
+  roles: { pausers: [], parameterManagers: [], treasuries: [] },
+};
+
+export const deploymentProfiles: Record<DeploymentNetwork, DeploymentProfile> = {
+  hardhat: defaultProfile,
+  polygonTestnet: defaultProfile,
+  polygonMainnet: { ...defaultProfile, stakingToken: "0xc2A45FE7d40bCAc8369371B08419DDAFd3131b4a" },
+};
+
+export class DeploymentProfileError extends Error {
+  constructor(network: string, problems: string[]) {
+    super(`Invalid ${network} deployment profile:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+  }
+}
+
+/** Checks the profile against the constructor and `setTiers` rules, reporting every problem at once. */
+export const validateDeploymentProfile = (network: string, profile: DeploymentProfile) => {
+  const problems: string[] = [];
+
+  if (profile.stakingToken !== undefined && !isAddress(profile.stakingToken)) problems.push(`stakingToken ${profile.stakingToken} is not an address`);
+  if (profile.rewardRatioNumerator <= 0n) problems.push("rewardRatioNumerator must be greater than zero");
+
+  // Both amounts get the same scaling, so comparing them at 18 decimals holds for any token
+  const cap = parseUnits(profile.stakingTokenCap, 18);
+  const boost = parseUnits(profile.minStakingBoostAmount, 18);
+  if (boost <= 0n) problems.push("minStakingBoostAmount must be greater than zero");
+  if (cap < boost) problems.push(`stakingTokenCap ${profile.stakingTokenCap} is lower than minStakingBoostAmount ${profile.minStakingBoostAmount}`);
+
+  const { tiersDurations, tiersMultipliers } = profile;
+  if (tiersDurations.length == 0 || tiersDurations.length != tiersMultipliers.length) {
+    problems.push(`got ${tiersDurations.length} tier durations and ${tiersMultipliers.length} multipliers`);
+  }
+  tiersDurations.forEach((duration, i) => {
+    if (i > 0 && duration <= tiersDurations[i - 1]) problems.push(`tier ${i} duration ${duration} is not greater than ${tiersDurations[i - 1]}`);
+  });
+  tiersMultipliers.forEach((multiplier, i) => {
+    if (multiplier < 100) problems.push(`tier ${i} multiplier ${multiplier} is lower than 100`);
+    if (multiplier > maxMultiplier) problems.push(`tier ${i} multiplier ${multiplier} is greater than ${maxMultiplier}`);
+  });
+
+  for (const [role, accounts] of Object.entries(profile.roles)) {
+    for (const account of accounts) {
+      if (!isAddress(account)) problems.push(`${role} account ${account} is not an address`);
+    }
+  }
+
+  if (problems.length > 0) throw new DeploymentProfileError(network, problems);
+};
+
+export const getDeploymentProfile = (network: string): DeploymentProfile => {
+  if (!(network in deploymentProfiles)) throw new Error(`No deployment profile for network ${network}`);
+  return deploymentProfiles[network as DeploymentNetwork];
+};
+
+const getRolesParameters = (roles: StakingRolesProfile) => ({
+  _pausers: roles.pausers,
+  _parameterManagers: roles.parameterManagers,
+  _treasuries: roles.treasuries,
+});
+
+/** Parameters of `StakingModule` for the profile, with amounts scaled by the actual token decimals. */
+export const getStakingModuleParameters = (profile: DeploymentProfile, stakingToken: string, decimals: bigint) => ({
+  _stakingToken: stakingToken,
+  _rewardRatioNumerator: profile.rewardRatioNumerator,
+  _stakingTokenCap: parseUnits(profile.stakingTokenCap, decimals),
+  _minStakingBoostAmount: parseUnits(profile.minStakingBoostAmount, decimals),
+  _tiersDurations: profile.tiersDurations,
+  _tiersMultipliers: profile.tiersMultipliers,
+  ...getRolesParameters(profile.roles),
+});
+
+/** Parameters of `StakingRolesModule`, which migrates the deployed Staking contract to the roles of the profile. */
+export const getStakingRolesModuleParameters = (profile: DeploymentProfile, staking: string) => ({
+  _staking: staking,
+  ...getRolesParameters(profile.roles),
+});
+
+for (const [network, profile] of Object.entries(deploymentProfiles)) {
+  validateDeploymentProfile(network, profile);
+}
@@ -44,10 +44,12 @@ interface IStaking {
     /// @param rewardRatioNumerator The numerator for calculating the reward rate per time unit.
     /// @param startTimestamp The start timestamp of this staking condition.
     /// @param endTimestamp The end timestamp of this staking condition, after which new conditions may apply.
+    /// @param cumulativeRewardRatio Sum of the reward ratio numerators times the seconds they lasted, up to the end of this condition. Set when it ends.
     struct StakingCondition {
         uint80 startTimestamp;
         uint80 endTimestamp;
         uint256 rewardRatioNumerator;
+        uint256 cumulativeRewardRatio;
     }
 
     /// @dev Represents the tiered reward structure, determining reward multipliers based on staking duration.
@@ -58,11 +60,97 @@ interface IStaking {
         uint256 multiplier;
     }
 
+    /// @dev Represents the tiers in force over a period of time, each `setTiers` ending the current set and starting a new one.
+    /// @param startTimestamp The start timestamp of this tier set, in the future while it is scheduled.
+    /// @param endTimestamp The end timestamp of this tier set, zero while it is the last one.
+    /// @param tiers The tiers of this set, in ascending order of minimum staking duration.
+    struct TierSet {
+        uint80 startTimestamp;
+        uint80 endTimestamp;
+        Tier[] tiers;
+    }
+
+    /// @dev The notice delay of reward ratio and tier changes, a new delay only applying once the current one has passed.
+    /// @param delay The notice delay in force until `scheduledTimestamp`, in seconds.
+    /// @param scheduledDelay The notice delay in force from `scheduledTimestamp`, in seconds.
+    /// @param scheduledTimestamp The timestamp from which `scheduledDelay` applies.
+    struct NoticeDelay {
+        uint80 delay;
+        uint80 scheduledDelay;
+        uint80 scheduledTimestamp;
+    }
+
+    /// @dev An entry of the lock table, offering a fixed multiplier for tokens locked for a fixed duration.
+    /// @param duration The lock duration, in seconds.
+    /// @param multiplier The reward multiplier of positions locked for this duration, fixed when they are opened.
+    struct LockOption {
+        uint256 duration;
+        uint256 multiplier;
+    }
+
+    /// @dev A fixed-term position, staked apart from the flexible stake of its owner.
+    /// @param amount The number of tokens locked in the position, zero once withdrawn.
+    /// @param multiplier The reward multiplier until the position unlocks, the base multiplier applying afterwards.
+    /// @param startTimestamp The timestamp when the position was opened.
+    /// @param unlockTimestamp The timestamp from which the position can be withdrawn.
+    /// @param timeOfLastUpdate The timestamp when the rewards of the position were last claimed.
+    /// @param conditionIdOfLastUpdate The ID of the condition under which the rewards were last claimed.
+    struct Position {
+        uint256 amount;
+        uint256 multiplier;
+        uint80 startTimestamp;
+        uint80 unlockTimestamp;
+        uint80 timeOfLastUpdate;
+        uint64 conditionIdOfLastUpdate;
+    }
+
+    /// @dev A request to withdraw staked tokens after the withdraw cooldown, the tokens earning no rewards meanwhile.
+    /// @param amount The number of tokens requested, zero once completed or cancelled.
+    /// @param unlockTimestamp The timestamp from which the request can be completed.
+    struct WithdrawRequest {
+        uint256 amount;
+        uint80 unlockTimestamp;
+    }
+
+    /// @dev A stream of rewards paid in another token than the staking token, at a flat rate on the flexible stake.
+    /// @param token The reward token, funded apart from the staking token reward surplus.
+    /// @param timeOfLastUpdate The last time the cumulative reward ratio of the stream was updated.
+    /// @param rewardRatioNumerator The current reward ratio of the stream, over `REWARD_RATIO_DENOMINATOR` per `TIME_UNIT`.
+    /// @param cumulativeRewardRatio Sum of the numerators times the seconds they lasted, from the creation of the stream to `timeOfLastUpdate`.
+    /// @param fundedBalance Reward tokens funded and not claimed yet.
+    struct RewardStream {
+        address token;
+        uint80 timeOfLastUpdate;
+        uint256 rewardRatioNumerator;
+        uint256 cumulativeRewardRatio;
+        uint256 fundedBalance;
+    }
+
+    /// @dev The rewards of a staker in a reward stream.
+    /// @param cumulativeRewardRatioPaid The cumulative reward ratio of the stream when the rewards of the staker were last updated.
+    /// @param unclaimedRewards The rewards accumulated and not claimed yet.
+    struct StreamStaker {
+        uint256 cumulativeRewardRatioPaid;
+        uint256 unclaimedRewards;
+    }
+
     /// @dev Emitted when tokens are staked.
     /// @param staker The address of the user staking tokens.
     /// @param amount The amount of tokens staked.
     event TokensStaked(address indexed staker, uint256 amount);
 
+    /// @dev Emitted along with `TokensStaked` when tokens are staked on behalf of another address.
+    /// @param payer The address of the account paying the staked tokens.
+    /// @param beneficiary The address of the staker credited with the tokens.
+    /// @param amount The amount of tokens staked.
+    event TokensStakedFor(address indexed payer, address indexed beneficiary, uint256 amount);
+
+    /// @dev Emitted when flexible stake moves along with a transfer of receipt tokens.
+    /// @param from The address of the staker sending the stake.
+    /// @param to The address of the staker receiving the stake.
+    /// @param amount The amount of tokens moved.
+    event StakeTransferred(address indexed from, address indexed to, uint256 amount);
+
     /// @dev Emitted when tokens are withdrawn.
     /// @param staker The address of the user withdrawing tokens.
     /// @param amount The amount of tokens withdrawn.
@@ -73,11 +161,42 @@ interface IStaking {
     /// @param rewardAmount The amount of rewards claimed.
     event RewardsClaimed(address indexed staker, uint256 rewardAmount);
 
+    /// @dev Emitted when a staker claims the rewards of a reward stream.
+    /// @param staker The address of the staker claiming rewards.
+    /// @param streamId The ID of the reward stream.
+    /// @param rewardAmount The amount of reward tokens claimed.
+    event StreamRewardsClaimed(address indexed staker, uint256 indexed streamId, uint256 rewardAmount);
+
+    /// @dev Emitted when a staker's rewards are added to their stake.
+    /// @param staker The address of the staker whose rewards are compounded.
+    /// @param rewardAmount The amount of rewards staked.
+    event RewardsCompounded(address indexed staker, uint256 rewardAmount);
+
+    /// @dev Emitted when staking tokens are added to the reward reserve.
+    /// @param funder The address the tokens were transferred from.
+    /// @param amount The amount of tokens received.
+    event RewardsFunded(address indexed funder, uint256 amount);
+
+    /// @dev Emitted when rewards paid to a staker, or staked for them, are taken from the reward reserve.
+    /// @param staker The address of the staker receiving the rewards.
+    /// @param amount The amount taken from the reserve, at most the rewards paid.
+    event RewardReserveDrawn(address indexed staker, uint256 amount);
+
     /// @dev Emitted when the reward ratio is updated by the contract admin.
     /// @param oldNumerator Previous reward ratio numerator.
     /// @param newNumerator Updated reward ratio numerator.
     event UpdatedRewardRatio(uint256 oldNumerator, uint256 newNumerator);
 
+    /// @dev Emitted when a reward ratio change is scheduled by the contract admin.
+    /// @param newNumerator Scheduled reward ratio numerator.
+    /// @param effectiveTimestamp The timestamp from which the new reward ratio applies.
+    event RewardRatioScheduled(uint256 newNumerator, uint256 effectiveTimestamp);
+
+    /// @dev Emitted when a scheduled reward ratio change is cancelled by the contract admin.
+    /// @param numerator Reward ratio numerator that was scheduled.
+    /// @param effectiveTimestamp The timestamp it would have applied from.
+    event ScheduledRewardRatioCancelled(uint256 numerator, uint256 effectiveTimestamp);
+
     /// @dev Emitted when excess tokens are withdrawn by the contract admin.
     /// @param tokenAddress The address of the token being withdrawn.
     /// @param amount The amount of tokens withdrawn.
@@ -92,6 +211,99 @@ interface IStaking {
     /// @param newTiers The new set of staking tiers.
     event TiersSet(Tier[] newTiers);
 
+    /// @dev Emitted when new staking tiers are scheduled by the contract admin.
+    /// @param tierSetId The ID of the scheduled tier set, whose tiers `getTierSet` returns.
+    /// @param effectiveTimestamp The timestamp from which the new tiers apply.
+    event TiersScheduled(uint256 indexed tierSetId, uint256 effectiveTimestamp);
+
+    /// @dev Emitted when scheduled staking tiers are cancelled by the contract admin.
+    /// @param effectiveTimestamp The timestamp they would have applied from.
+    event ScheduledTiersCancelled(uint256 effectiveTimestamp);
+
+    /// @dev Emitted when a new lock table is set by the contract admin.
+    /// @param newLockOptions The new lock options.
+    event LockOptionsSet(LockOption[] newLockOptions);
+
+    /// @dev Emitted when a fixed-term position is opened.
+    /// @param staker The address of the owner of the position.
+    /// @param positionId The ID of the position among the positions of its owner.
+    /// @param amount The amount of tokens locked.
+    /// @param unlockTimestamp The timestamp from which the position can be withdrawn.
+    /// @param multiplier The reward multiplier fixed for the lock duration.
+    event PositionOpened(address indexed staker, uint256 indexed positionId, uint256 amount, uint256 unlockTimestamp, uint256 multiplier);
+
+    /// @dev Emitted when an unlocked position is withdrawn.
+    /// @param staker The address of the owner of the position.
+    /// @param positionId The ID of the position among the positions of its owner.
+    /// @param amount The amount of tokens withdrawn.
+    /// @param rewards The rewards of the position added to the unclaimed rewards of its owner.
+    event PositionWithdrawn(address indexed staker, uint256 indexed positionId, uint256 amount, uint256 rewards);
+
+    /// @dev Emitted when the rewards of a position are claimed.
+    /// @param staker The address of the owner of the position.
+    /// @param positionId The ID of the position among the positions of its owner.
+    /// @param rewardAmount The amount of rewards claimed.
+    event PositionRewardsClaimed(address indexed staker, uint256 indexed positionId, uint256 rewardAmount);
+
+    /// @dev Emitted when a withdrawal is requested.
+    /// @param staker The address of the staker requesting the withdrawal.
+    /// @param requestId The ID of the request among the withdraw requests of the staker.
+    /// @param amount The amount of tokens requested.
+    /// @param unlockTimestamp The timestamp from which the request can be completed.
+    event WithdrawRequested(address indexed staker, uint256 indexed requestId, uint256 amount, uint256 unlockTimestamp);
+
+    /// @dev Emitted when a withdraw request is completed and its tokens sent to the staker.
+    /// @param staker The address of the staker completing the withdrawal.
+    /// @param requestId The ID of the request among the withdraw requests of the staker.
+    /// @param amount The amount of tokens withdrawn.
+    event WithdrawCompleted(address indexed staker, uint256 indexed requestId, uint256 amount);
+
+    /// @dev Emitted when a withdraw request is cancelled and its tokens staked again.
+    /// @param staker The address of the staker cancelling the withdrawal.
+    /// @param requestId The ID of the request among the withdraw requests of the staker.
+    /// @param amount The amount of tokens staked again.
+    event WithdrawCancelled(address indexed staker, uint256 indexed requestId, uint256 amount);
+
+    /// @dev Emitted when a reward stream is added by the contract admin.
+    /// @param streamId The ID of the new reward stream.
+    /// @param token The reward token of the stream.
+    /// @param rewardRatioNumerator The initial reward ratio of the stream.
+    event RewardStreamAdded(uint256 indexed streamId, address indexed token, uint256 rewardRatioNumerator);
+
+    /// @dev Emitted when the reward ratio of a reward stream is updated by the contract admin.
+    /// @param streamId The ID of the reward stream.
+    /// @param oldNumerator The previous reward ratio of the stream.
+    /// @param newNumerator The new reward ratio of the stream.
+    event RewardStreamRatioUpdated(uint256 indexed streamId, uint256 oldNumerator, uint256 newNumerator);
+
+    /// @dev Emitted when reward tokens are added to a reward stream.
+    /// @param streamId The ID of the reward stream.
+    /// @param funder The address of the account funding the stream.
+    /// @param amount The amount of reward tokens received.
+    event RewardStreamFunded(uint256 indexed streamId, address indexed funder, uint256 amount);
+
+    /// @dev Emitted when the withdraw cooldown is updated by the contract admin.
+    /// @param withdrawCooldown The new withdraw cooldown, in seconds.
+    event WithdrawCooldownSet(uint256 withdrawCooldown);
+
+    /// @dev Emitted when the notice delay of reward ratio and tier changes is updated by the contract admin.
+    /// @param minNoticeDelay The new notice delay, in seconds.
+    event MinNoticeDelaySet(uint256 minNoticeDelay);
+
+    /// @dev Emitted when a notice delay change is scheduled by the contract admin, the current delay applying until then.
+    /// @param minNoticeDelay The scheduled notice delay, in seconds.
+    /// @param effectiveTimestamp The timestamp from which the new notice delay applies.
+    event MinNoticeDelayScheduled(uint256 minNoticeDelay, uint256 effectiveTimestamp);
+
+    /// @dev Emitted when the allowlist of accounts staking for others is turned on or off by the contract admin.
+    /// @param enabled Whether only allowlisted accounts can stake for others.
+    event StakeForAllowlistEnabledSet(bool enabled);
+
+    /// @dev Emitted when an account is added to or removed from the allowlist of accounts staking for others.
+    /// @param account The address of the account.
+    /// @param allowed Whether the account can stake for others while the allowlist is on.
+    event StakeForAllowedSet(address indexed account, bool allowed);
+
     /// @dev Emitted when the staking token cap is updated by the contract admin.
     /// @param stakingTokenCapSet The new cap on staking tokens.
     event StakingTokenCapSet(uint256 stakingTokenCapSet);
@@ -118,18 +330,75 @@ interface IStaking {
     /// @dev Thrown when there are no excess staking tokens to withdraw.
     error NoExcessStakingToken();
 
+    /// @dev Thrown when a change is scheduled or made while another one of the same parameter is pending.
+    error ChangeAlreadyScheduled();
+
+    /// @dev Thrown when cancelling a change that is not scheduled.
+    error NoScheduledChange();
+
+    /// @dev Thrown when the notice delay exceeds `MAX_NOTICE_DELAY`.
+    error InvalidNoticeDelay();
+
     /// @dev Thrown when the tiers array lengths do not match or are zero.
     error InvalidTiersLength();
 
     /// @dev Thrown when tier durations are not in a proper ascending order.
     error InvalidTiersDurations();
 
+    /// @dev Thrown when a tier set ID has not been created yet.
+    error InvalidTierSetId();
+
+    /// @dev Thrown when the lock table arrays lengths do not match.
+    error InvalidLockOptionsLength();
+
+    /// @dev Thrown when lock durations are zero or not in a proper ascending order.
+    error InvalidLockDurations();
+
+    /// @dev Thrown when a tier or lock multiplier is below the base multiplier of 100 or above `MAX_MULTIPLIER`.
+    error InvalidMultiplier();
+
+    /// @dev Thrown when no lock option matches the requested lock duration.
+    error InvalidLockDuration();
+
+    /// @dev Thrown when a position ID does not belong to the staker.
+    error InvalidPositionId();
+
+    /// @dev Thrown when a position is withdrawn before it unlocks.
+    error PositionLocked();
+
+    /// @dev Thrown when tokens are withdrawn at once while the withdraw cooldown is on.
+    error WithdrawCooldownActive();
+
+    /// @dev Thrown when a withdraw request ID does not belong to the staker.
+    error InvalidWithdrawRequestId();
+
+    /// @dev Thrown when a withdraw request is completed before the end of its cooldown.
+    error WithdrawRequestLocked();
+
+    /// @dev Thrown when a reward stream ID has not been created yet.
+    error InvalidRewardStreamId();
+
+    /// @dev Thrown when a reward stream is added beyond `MAX_REWARD_STREAMS`.
+    error TooManyRewardStreams();
+
+    /// @dev Thrown when the beneficiary of a stake is the zero address.
+    error InvalidBeneficiary();
+
+    /// @dev Thrown when an account outside the allowlist stakes for others while the allowlist is on.
+    error StakeForNotAllowed();
+
+    /// @dev Thrown when a permit fails and the allowance does not cover the staked amount.
+    error InvalidPermit();
+
     /// @dev Thrown when the staking amount exceeds the specified cap.
     error CannotStakeMoreThanCap();
 
     /// @dev Thrown when there are insufficient rewards in the contract to fulfill a claim.
     error MissingRewards();
 
+    /// @dev Thrown when an account other than the receipt token moves stake.
+    error CallerNotReceipt();
+
     /// @dev Allows a user to stake a specified amount of tokens.
     /// @param amount The amount of tokens to stake.
     function stake(uint256 amount) external;
@@ -141,6 +410,12 @@ interface IStaking {
     /// @dev Allows a user to claim their accumulated staking rewards.
     function claimRewards() external;
 
+    /// @dev Moves flexible stake between two stakers, called by the receipt token on every transfer.
+    /// @param from The address of the staker sending the stake.
+    /// @param to The address of the staker receiving the stake.
+    /// @param amount The amount of tokens to move.
+    function transferStake(address from, address to, uint256 amount) external;
+
     /// @dev Provides the total amount staked and the accumulated rewards for a specific staker.
     /// @param staker The address of the staker to query.
     /// @return _tokensStaked The total amount of tokens staked by the user.
@@ -19,8 +19,14 @@ import {ReentrancyGuard} from "@openzeppelin/contracts-v5/utils/ReentrancyGuard.
 import {Math} from "@openzeppelin/contracts-v5/utils/math/Math.sol";
 import {Ownable} from "@openzeppelin/contracts-v5/access/Ownable.sol";
 import {IERC20, SafeERC20} from "@openzeppelin/contracts-v5/token/ERC20/utils/SafeERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts-v5/token/ERC20/extensions/IERC20Metadata.sol";
+import {IERC20Permit} from "@openzeppelin/contracts-v5/token/ERC20/extensions/IERC20Permit.sol";
 import {Pausable} from "@openzeppelin/contracts-v5/utils/Pausable.sol";
+import {EIP712} from "@openzeppelin/contracts-v5/utils/cryptography/EIP712.sol";
+import {Votes} from "@openzeppelin/contracts-v5/governance/utils/Votes.sol";
 import {IStaking} from "./IStaking.sol";
+import {StakingReceipt} from "./StakingReceipt.sol";
+import {StakingParameters} from "./StakingParameters.sol";
 
 /**
  * @title Staking Contract for ERC20 Tokens
@@ -28,6 +34,10 @@ import {IStaking} from "./IStaking.sol";
  * @dev The contract uses a tiered reward system where longer stakes earn higher rewards.
  *      It integrates with OpenZeppelin's security and ownership features to ensure safe operations.
  *      Features include regular staking, emergency withdrawals, and administrative adjustments to staking parameters.
+ *      The flexible stake and the locked positions carry checkpointed voting power through OpenZeppelin's Votes.
+ *      The flexible stake is represented by a transferable receipt token, deployed along with the contract.
+ *      The reward ratio changes, reward tiers, notice delay, lock options and reward streams are validated and stored by the linked StakingParameters library,
+ *      which also credits and pays the stream rewards, looks up the multiplier of the stakers and sends the excess tokens.
  *
  * @author thirdweb (original authors of the base contract)
  * @author Lucidao (modifications and extensions)
@@ -35,11 +45,72 @@ import {IStaking} from "./IStaking.sol";
  * @dev This contract is based on the Staking20Base contract developed by thirdweb and is licensed under the Apache-2.0 license.
  *      See the original contract for more details: https://github.com/thirdweb-dev/contracts
  */
-contract Staking is ReentrancyGuard, Ownable, IStaking, Pausable {
+contract Staking is ReentrancyGuard, Ownable, IStaking, Pausable, Votes {
     using SafeERC20 for IERC20;
 
-    uint256 public constant TIME_UNIT = 360 days;
-    uint256 public constant REWARD_RATIO_DENOMINATOR = 10000;
+    /// @dev Global accounting of the rewards owed to the stakers.
+    /// @param creditedRewards Rewards credited to stakers and not paid yet, i.e. the unclaimed rewards recorded at their last update.
+    /// @param rewardWeight Flexible stake at the maximum multiplier plus the open positions at their lock multiplier, earning rewards at the current ratio.
+    /// @param accountedRewards Rewards of `rewardWeight` up to the last update of each stake and position, which are credited or paid already.
+    /// @param reserve Staking tokens deposited through `fundRewards` and not paid as rewards yet, which `withdrawExcessTokens` cannot take.
+    struct RewardLedger {
+        uint256 creditedRewards;
+        uint256 rewardWeight;
+        uint256 accountedRewards;
+        uint256 reserve;
+    }
+
+    /// @dev Fixed-term positions and the lock table they are opened from.
+    /// @param tokenBalance Total amount of tokens currently locked in positions, counted in the cap along with `stakingTokenBalance`.
+    /// @param balances Mapping of staker addresses to the tokens locked in their open positions, so the voting units do not loop over them.
+    /// @param positions Mapping of staker addresses to their positions, indexed by position ID.
+    /// @param options Lock table, defining the durations positions can be locked for and their multipliers.
+    struct LockedStakes {
+        uint256 tokenBalance;
+        mapping(address => uint256) balances;
+        mapping(address => Position[]) positions;
+        LockOption[] options;
+    }
+
+    /// @dev Withdrawals waiting for the withdraw cooldown.
+    /// @param cooldown Time between a withdraw request and its completion, zero letting stakers withdraw at once.
+    /// @param tokenBalance Total amount of tokens requested for withdrawal and waiting for the end of their cooldown, earning no rewards.
+    /// @param requests Mapping of staker addresses to their withdraw requests, indexed by request ID.
+    struct WithdrawQueue {
+        uint256 cooldown;
+        uint256 tokenBalance;
+        mapping(address => WithdrawRequest[]) requests;
+    }
+
+    /// @dev Accounts allowed to stake on behalf of others, e.g. vesting or airdrop contracts.
+    /// @param enabled Whether only the allowed accounts can stake on behalf of others, anyone can while it is off.
+    /// @param accounts Mapping of addresses to whether they are allowed.
+    struct StakeForAllowlist {
+        bool enabled;
+        mapping(address => bool) accounts;
+    }
+
+    /// @dev Reward streams and the rewards of the stakers in them.
+    /// @param streams Reward streams paid in other tokens than the staking token, indexed by stream ID.
+    /// @param stakers Mapping of stream IDs to the rewards of each staker in that stream.
+    struct StreamLedger {
+        RewardStream[] streams;
+        mapping(uint256 => mapping(address => StreamStaker)) stakers;
+    }
+
+    /// @dev Tier sets, each `setTiers` ending the current set and starting a new one.
+    /// @param nextId The next tier set ID.
+    /// @param sets Mapping of tier set IDs to the reward tiers in force over their period.
+    struct TierSchedule {
+        uint64 nextId;
+        mapping(uint256 => TierSet) sets;
+    }
+
+    uint256 public constant TIME_UNIT = StakingParameters.TIME_UNIT;
+    uint256 public constant REWARD_RATIO_DENOMINATOR = StakingParameters.REWARD_RATIO_DENOMINATOR;
+    uint256 public constant MAX_NOTICE_DELAY = StakingParameters.MAX_NOTICE_DELAY;
+    uint256 public constant MAX_MULTIPLIER = StakingParameters.MAX_MULTIPLIER;
+    uint256 public constant MAX_REWARD_STREAMS = 5;
 
     /// @dev The ERC20 token address used for staking.
     address public stakingToken;
@@ -47,6 +118,9 @@ contract Staking is ReentrancyGuard, Ownable, IStaking, Pausable {
     /// @dev Number of decimal places in the staking token.
     uint16 public stakingTokenDecimals;
 
+    /// @dev The receipt token of the flexible stake, deployed with this contract.
+    StakingReceipt public immutable receipt;
+
     /// @dev Tracks the next condition ID for staking conditions.
     uint64 private nextConditionId;
 
@@ -59,24 +133,54 @@ contract Staking is ReentrancyGuard, Ownable, IStaking, Pausable {
     /// @dev The minimum amount of tokens that must be staked to receive staking boosts.
     uint256 public minStakingBoostAmount;
 
+    /// @dev Fixed-term positions, the tokens locked in them and the lock table.
+    LockedStakes private lockedStakes;
+
+    /// @dev Withdraw cooldown, withdraw requests and the tokens waiting in them.
+    WithdrawQueue private withdrawQueue;
+
+    /// @dev Rewards owed to all the stakers, tracked globally so that `rewardLiabilities` does not loop over them, and the reward reserve.
+    RewardLedger private rewardLedger;
+
+    /// @dev Notice given between a reward ratio or tier change and its effective timestamp, zero applying changes at once.
+    NoticeDelay private noticeDelay;
+
+    /// @dev Accounts allowed to stake on behalf of others.
+    StakeForAllowlist private allowlist;
+
+    /// @dev Reward streams paid in other tokens than the staking token and the rewards of each staker in them.
+    StreamLedger private streamLedger;
+
     /// @dev Mapping of staker addresses to their staking details.
     mapping(address => Staker) public stakers;
 
     /// @dev Mapping of condition IDs to their respective staking conditions.
     mapping(uint256 => StakingCondition) private stakingConditions;
 
-    /// @dev Array of reward tiers, defining minimum staking durations and reward multipliers.
-    Tier[] public tiers;
+    /// @dev Reward tiers in force over time, defining minimum staking durations and reward multipliers.
+    TierSchedule private tierSchedule;
 
     /// @dev Sets initial contract parameters and conditions for staking.
-    constructor(address _stakingToken, uint256 _rewardRatioNumerator, uint256 _stakingTokenCap, uint256 _minStakingBoostAmount) Ownable(_msgSender()) {
+    constructor(address _stakingToken, uint256 _rewardRatioNumerator, uint256 _stakingTokenCap, uint256 _minStakingBoostAmount)
+        Ownable(_msgSender())
+        EIP712("Lucidao Staking", "1")
+    {
         if (_stakingToken == address(0)) revert InvalidTokenAddress();
 
         stakingToken = _stakingToken;
+        stakingTokenDecimals = IERC20Metadata(_stakingToken).decimals();
+        receipt = new StakingReceipt(
+            string.concat("Staked ", IERC20Metadata(_stakingToken).name()),
+            string.concat("s", IERC20Metadata(_stakingToken).symbol()),
+            uint8(stakingTokenDecimals)
+        );
         stakingTokenCap = _stakingTokenCap;
         minStakingBoostAmount = _minStakingBoostAmount;
 
-        _setStakingCondition(_rewardRatioNumerator);
+        StakingParameters.setStakingCondition(stakingConditions, nextConditionId, _rewardRatioNumerator, block.timestamp);
+        nextConditionId += 1;
+        StakingParameters.startTierSet(tierSchedule.sets, tierSchedule.nextId, block.timestamp);
+        tierSchedule.nextId += 1;
     }
 
     /// @dev Pauses all staking and withdrawal operations.
@@ -92,7 +196,33 @@ contract Staking is ReentrancyGuard, Ownable, IStaking, Pausable {
     /// @dev Allows a user to stake a specified amount of ERC20 tokens.
     /// @param _amount The amount of ERC20 tokens to stake.
     function stake(uint256 _amount) external nonReentrant whenNotPaused {
-        _stake(_amount);
+        _stake(_msgSender(), _amount);
+    }
+
+    /// @dev Allows a user to stake a specified amount of ERC20 tokens on behalf of a beneficiary, who is credited with the stake.
+    /// @param _beneficiary The address of the staker to credit.
+    /// @param _amount The amount of ERC20 tokens to stake, paid by the caller.
+    function stakeFor(address _beneficiary, uint256 _amount) external nonReentrant whenNotPaused {
+        if (_beneficiary == address(0)) revert InvalidBeneficiary();
+        if (allowlist.enabled && !allowlist.accounts[_msgSender()]) revert StakeForNotAllowed();
+
+        uint256 actualAmount = _stake(_beneficiary, _amount);
+
+        emit TokensStakedFor(_msgSender(), _beneficiary, actualAmount);
+    }
+
+    /// @dev Allows a user to stake with an EIP-2612 permit instead of a prior approval.
+    ///      A permit already used by a front-runner is ignored as long as the allowance it set covers the amount.
+    /// @param _amount The amount of ERC20 tokens to stake, also the permitted value.
+    /// @param _deadline The permit deadline.
+    /// @param _v The recovery byte of the permit signature.
+    /// @param _r Half of the ECDSA permit signature pair.
+    /// @param _s Half of the ECDSA permit signature pair.
+    function stakeWithPermit(uint256 _amount, uint256 _deadline, uint8 _v, bytes32 _r, bytes32 _s) external nonReentrant whenNotPaused {
+        try IERC20Permit(stakingToken).permit(_msgSender(), address(this), _amount, _deadline, _v, _r, _s) {} catch {
+            if (IERC20(stakingToken).allowance(_msgSender(), address(this)) < _amount) revert InvalidPermit();
+        }
+        _stake(_msgSender(), _amount);
     }
 
     /// @dev Allows a user to withdraw a specified amount of their staked ERC20 tokens.
@@ -101,24 +231,102 @@ contract Staking is ReentrancyGuard, Ownable, IStaking, Pausable {
         _withdraw(_amount);
     }
 
+    /// @dev Moves flexible stake between stakers along with a transfer of receipt tokens.
+    /// @param _from The address of the staker sending the stake.
+    /// @param _to The address of the staker receiving the stake.
+    /// @param _amount The amount of tokens to move.
+    function transferStake(address _from, address _to, uint256 _amount) external nonReentrant whenNotPaused {
+        if (_msgSender() != address(receipt)) revert CallerNotReceipt();
+        if (_from == _to || _amount == 0) return;
+
+        _moveStake(_from, _to, _amount);
+
+        emit StakeTransferred(_from, _to, _amount);
+    }
+
+    /// @dev Allows a user to stop the rewards on a specified amount of their staked ERC20 tokens and withdraw it after the cooldown.
+    /// @param _amount The amount of ERC20 tokens to withdraw.
+    function requestWithdraw(uint256 _amount) external nonReentrant whenNotPaused {
+        _requestWithdraw(_amount);
+    }
+
+    /// @dev Allows a user to withdraw the tokens of a withdraw request once its cooldown is over.
+    /// @param _requestId The ID of the request among the withdraw requests of the user.
+    function completeWithdraw(uint256 _requestId) external nonReentrant whenNotPaused {
+        _completeWithdraw(_requestId);
+    }
+
+    /// @dev Allows a user to cancel a withdraw request, staking its tokens again.
+    /// @param _requestId The ID of the request among the withdraw requests of the user.
+    function cancelWithdraw(uint256 _requestId) external nonReentrant whenNotPaused {
+        _cancelWithdraw(_requestId);
+    }
+
     /// @dev Allows a user to claim all accumulated rewards.
     function claimRewards() external nonReentrant whenNotPaused {
         _claimRewards();
     }
 
-    /// @dev Allows a user to perform an emergency withdrawal of their staked tokens without claiming rewards.
+    /// @dev Allows anyone, e.g. the treasury, to add staking tokens to the reward reserve.
+    /// @param _amount The amount of staking tokens to transfer from the caller.
+    function fundRewards(uint256 _amount) external nonReentrant {
+        _fundRewards(_amount);
+    }
+
+    /// @dev Allows anyone, e.g. a partner project, to add reward tokens to a reward stream.
+    /// @param _streamId The ID of the reward stream.
+    /// @param _amount The amount of reward tokens to transfer from the caller.
+    function fundRewardStream(uint256 _streamId, uint256 _amount) external nonReentrant {
+        _fundRewardStream(_streamId, _amount);
+    }
+
+    /// @dev Allows a user to stake all accumulated rewards, without any token transfer.
+    function compoundRewards() external nonReentrant whenNotPaused {
+        _compoundRewards(_msgSender());
+    }
+
+    /// @dev Stakes the accumulated rewards of several stakers, skipping those without rewards or whose rewards would exceed the staking cap.
+    /// @param _stakers Addresses of the stakers to compound the rewards of.
+    function compoundFor(address[] calldata _stakers) external onlyOwner nonReentrant whenNotPaused {
+        for (uint256 i = 0; i < _stakers.length; i++) {
+            uint256 rewards = _availableRewards(_stakers[i]);
+            if (rewards > 0 && !_exceedsStakingTokenCap(rewards)) _compoundRewards(_stakers[i]);
+        }
+    }
+
+    /// @dev Allows a user to lock a specified amount of ERC20 tokens in a new fixed-term position.
+    /// @param _amount The amount of ERC20 tokens to lock.
+    /// @param _lockDuration The lock duration, matching an entry of the lock table.
+    function openPosition(uint256 _amount, uint256 _lockDuration) external nonReentrant whenNotPaused {
+        _openPosition(_amount, _lockDuration);
+    }
+
+    /// @dev Allows a user to withdraw an unlocked position, adding its rewards to their unclaimed rewards.
+    ///      Only the principal is paid, so it stays available while the contract is paused.
+    /// @param _positionId The ID of the position among the positions of the user.
+    function withdrawPosition(uint256 _positionId) external nonReentrant {
+        _withdrawPosition(_positionId);
+    }
+
+    /// @dev Allows a user to claim the rewards accumulated by a position.
+    /// @param _positionId The ID of the position among the positions of the user.
+    function claimPositionRewards(uint256 _positionId) external nonReentrant whenNotPaused {
+        _claimPositionRewards(_positionId);
+    }
+
+    /// @dev Allows a user to perform an emergency withdrawal of their staked and requested tokens without claiming rewards.
+    ///      While the withdraw cooldown is on, it is only available when the contract is paused.
     function emergencyWithdraw() external nonReentrant {
-        uint256 _amountStaked = stakers[_msgSender()].amountStaked;
-        if (_amountStaked == 0) revert InvalidAmount();
+        if (withdrawQueue.cooldown > 0 && !paused()) revert WithdrawCooldownActive();
 
-        _updateUnclaimedRewardsForStaker(_msgSender());
+        uint256 _amountStaked = stakers[_msgSender()].amountStaked;
+        uint256 _amountRequested = _releaseWithdrawRequests(_msgSender());
+        if (_amountStaked + _amountRequested == 0) revert InvalidAmount();
 
-        stakers[_msgSender()].timeOfLastBoostUpdate = uint80(block.timestamp);
-        stakers[_msgSender()].amountStaked = 0;
-        stakingTokenBalance -= _amountStaked;
-        IERC20(stakingToken).safeTransfer(_msgSender(), _amountStaked);
+        _moveStake(_msgSender(), address(0), _amountStaked);
+        IERC20(stakingToken).safeTransfer(_msgSender(), _amountStaked + _amountRequested);
 
-        emit EmergencyWithdraw(_msgSender(), _amountStaked);
+        emit EmergencyWithdraw(_msgSender(), _amountStaked + _amountRequested);
     }
 
     /// @dev Withdraws tokens not part of the staking pool or tokens in excess of the cap.
@@ -128,36 +336,100 @@ contract Staking is ReentrancyGuard, Ownable, IStaking, Pausable {
         if (tokenAddress == address(0)) revert InvalidTokenAddress();
         if (amount == 0) revert InvalidAmount();
 
-        IERC20 token = IERC20(tokenAddress);
-
-        uint256 withdrawableAmount = token.balanceOf(address(this));
+        uint256 withdrawableAmount = IERC20(tokenAddress).balanceOf(address(this));
         if (tokenAddress == stakingToken) {
-            if (withdrawableAmount <= stakingTokenBalance) revert NoExcessStakingToken();
-            withdrawableAmount = withdrawableAmount - stakingTokenBalance;
+            // Neither staked nor owed to the stakers
+            withdrawableAmount = _freeSurplus();
+            if (withdrawableAmount == 0) revert NoExcessStakingToken();
         }
 
-        if (amount > withdrawableAmount) revert WithdrawAmountExceedsLimit();
-        token.safeTransfer(owner(), amount);
-        emit ExcessTokensWithdrawn(tokenAddress, amount);
+        StakingParameters.withdrawExcessTokens(streamLedger.streams, tokenAddress, amount, withdrawableAmount, owner());
     }
 
-    /// @dev Updates the reward ratio used in reward calculations.
+    /// @dev Updates the reward ratio used in reward calculations, scheduling the change at the end of the notice delay.
     /// @param _numerator The new numerator for the reward ratio.
     function setRewardRatio(uint256 _numerator) external onlyOwner {
-        StakingCondition memory condition = stakingConditions[nextConditionId - 1];
-        if (_numerator == condition.rewardRatioNumerator) revert InvalidRewardRatio();
-        _setStakingCondition(_numerator);
+        _setRewardRatio(_numerator);
+    }
 
-        emit UpdatedRewardRatio(condition.rewardRatioNumerator, _numerator);
+    /// @dev Cancels the scheduled reward ratio change before it applies.
+    function cancelScheduledRewardRatio() external onlyOwner {
+        // The previous condition is overwritten when the next one is set, so only the count is rolled back
+        StakingParameters.cancelScheduledRewardRatio(stakingConditions[nextConditionId - 1]);
+        nextConditionId -= 1;
     }
 
-    /// @dev Defines new tiers for staking rewards, specifying minimum durations and reward multipliers.
+    /// @dev Defines new tiers for staking rewards, specifying minimum durations and reward multipliers, scheduled at the end of the notice delay.
     /// @param _durations Array containing the minimum durations for each tier.
     /// @param _multipliers Array containing the reward multipliers for each tier.
     function setTiers(uint256[] calldata _durations, uint256[] calldata _multipliers) external onlyOwner {
         _setTiers(_durations, _multipliers);
     }
 
+    /// @dev Cancels the scheduled tiers before they apply.
+    function cancelScheduledTiers() external onlyOwner {
+        uint256 tierSetId = tierSchedule.nextId - 1;
+        uint256 startTimestamp = tierSchedule.sets[tierSetId].startTimestamp;
+        if (startTimestamp <= block.timestamp) revert NoScheduledChange();
+
+        StakingParameters.clearTiers(tierSchedule.sets[tierSetId].tiers);
+        tierSchedule.nextId -= 1;
+        tierSchedule.sets[tierSetId - 1].endTimestamp = 0;
+
+        emit ScheduledTiersCancelled(startTimestamp);
+    }
+
+    /// @dev Sets the notice delay of reward ratio and tier changes, the scheduled ones keeping their effective timestamp.
+    ///      The new delay only applies once the current one has passed, so that shortening it gives the same notice.
+    /// @param _minNoticeDelay The new notice delay in seconds, zero to apply changes at once.
+    function setMinNoticeDelay(uint256 _minNoticeDelay) external onlyOwner {
+        StakingParameters.setMinNoticeDelay(noticeDelay, _minNoticeDelay);
+    }
+
+    /// @dev Defines a new lock table for the positions opened from now on, the open positions keep their multiplier.
+    /// @param _durations Array containing the lock durations, empty to stop opening positions.
+    /// @param _multipliers Array containing the reward multipliers for each lock duration.
+    function setLockOptions(uint256[] calldata _durations, uint256[] calldata _multipliers) external onlyOwner {
+        StakingParameters.setLockOptions(lockedStakes.options, _durations, _multipliers);
+    }
+
+    /// @dev Sets the time stakers wait between a withdraw request and its completion, the pending requests keeping their unlock time.
+    /// @param _withdrawCooldown The new withdraw cooldown in seconds, zero to let stakers withdraw at once.
+    function setWithdrawCooldown(uint256 _withdrawCooldown) external onlyOwner {
+        _setWithdrawCooldown(_withdrawCooldown);
+    }
+
+    /// @dev Adds a reward stream paid in `_token` at a flat rate on the flexible stake, earned from now on.
+    /// @param _token The reward token, which cannot be the staking token or the token of another stream.
+    /// @param _numerator The reward ratio numerator of the stream.
+    function addRewardStream(address _token, uint256 _numerator) external onlyOwner {
+        StakingParameters.addRewardStream(streamLedger.streams, _token, stakingToken, _numerator, MAX_REWARD_STREAMS);
+    }
+
+    /// @dev Updates the reward ratio of a reward stream, the rewards accrued so far keeping the previous ratio.
+    /// @param _streamId The ID of the reward stream.
+    /// @param _numerator The new reward ratio numerator of the stream, zero to stop the stream.
+    function setRewardStreamRatio(uint256 _streamId, uint256 _numerator) external onlyOwner {
+        _setRewardStreamRatio(_streamId, _numerator);
+    }
+
+    /// @dev Turns on or off the allowlist of accounts that can stake on behalf of others, anyone can while it is off.
+    /// @param _enabled Whether only allowlisted accounts can stake for others.
+    function setStakeForAllowlistEnabled(bool _enabled) external onlyOwner {
+        allowlist.enabled = _enabled;
+
+        emit StakeForAllowlistEnabledSet(_enabled);
+    }
+
+    /// @dev Adds an account to or removes it from the allowlist of accounts that can stake on behalf of others.
+    /// @param _account The address of the account.
+    /// @param _allowed Whether the account can stake for others while the allowlist is on.
+    function setStakeForAllowed(address _account, bool _allowed) external onlyOwner {
+        allowlist.accounts[_account] = _allowed;
+
+        emit StakeForAllowedSet(_account, _allowed);
+    }
+
     /// @dev Sets the maximum cap for the total amount of tokens that can be staked in this contract.
     /// @param _stakingTokenCap The new staking token cap.
     function setStakingTokenCap(uint256 _stakingTokenCap) external onlyOwner {
@@ -179,34 +451,154 @@ contract Staking is ReentrancyGuard, Ownable, IStaking, Pausable {
         _rewards = _availableRewards(_staker);
     }
 
-    /// @dev Calculate the current reward multiplier based on staking duration and minimum boost amount condition.
-    /// @param _user Address of the user to check.
-    /// @return _multiplier Current reward multiplier for the user.
-    function getCurrentMultiplier(address _user) public view returns (uint256 _multiplier) {
-        Staker memory staker = stakers[_user];
-        uint256 timeElapsed = block.timestamp - staker.timeOfLastBoostUpdate;
+    /// @dev Retrieve the staking tokens that `withdrawExcessTokens` can take.
+    /// @return _surplus Staking tokens held above the staked, locked and unbonding balances and above the larger of the reward reserve and liabilities.
+    function getFreeSurplus() external view returns (uint256 _surplus) {
+        _surplus = _freeSurplus();
+    }
 
-        _multiplier = 100;
-        if (tiers.length == 0 || staker.amountStaked < minStakingBoostAmount || staker.timeOfLastBoostUpdate == 0) {
-            return _multiplier;
-        }
+    /// @dev Retrieve the total amount of tokens currently locked in fixed-term positions.
+    /// @return _lockedTokenBalance Tokens locked in open positions, counted in the cap along with `stakingTokenBalance`.
+    function lockedTokenBalance() external view returns (uint256 _lockedTokenBalance) {
+        _lockedTokenBalance = lockedStakes.tokenBalance;
+    }
 
-        for (uint256 i = 0; i < tiers.length; i++) {
-            if (timeElapsed < tiers[i].minStakingDuration) {
-                return i == 0 ? _multiplier : tiers[i - 1].multiplier; // Return previous tier's multiplier if not enough time has elapsed for the next tier
-            }
+    /// @dev Retrieve the time between a withdraw request and its completion.
+    /// @return _withdrawCooldown Withdraw cooldown in seconds, zero letting stakers withdraw at once.
+    function withdrawCooldown() external view returns (uint256 _withdrawCooldown) {
+        _withdrawCooldown = withdrawQueue.cooldown;
+    }
+
+    /// @dev Retrieve the total amount of tokens requested for withdrawal and waiting for the end of their cooldown.
+    /// @return _unbondingTokenBalance Tokens of the pending withdraw requests, earning no rewards.
+    function unbondingTokenBalance() external view returns (uint256 _unbondingTokenBalance) {
+        _unbondingTokenBalance = withdrawQueue.tokenBalance;
+    }
+
+    /// @dev Retrieve the staking tokens deposited through `fundRewards` and not paid as rewards yet.
+    /// @return _rewardReserve Reward reserve, which `withdrawExcessTokens` cannot take.
+    function rewardReserve() external view returns (uint256 _rewardReserve) {
+        _rewardReserve = rewardLedger.reserve;
+    }
+
+    /// @dev Retrieve whether only the allowlisted accounts can stake on behalf of others.
+    /// @return _enabled Whether the allowlist is on.
+    function stakeForAllowlistEnabled() external view returns (bool _enabled) {
+        _enabled = allowlist.enabled;
+    }
+
+    /// @dev Retrieve whether an account can stake on behalf of others while the allowlist is on.
+    /// @param _account Address of the account.
+    /// @return _allowed Whether the account is allowlisted.
+    function stakeForAllowlist(address _account) external view returns (bool _allowed) {
+        _allowed = allowlist.accounts[_account];
+    }
+
+    /// @dev Retrieve the reward streams.
+    /// @return _rewardStreams The reward streams, indexed by stream ID.
+    function getRewardStreams() external view returns (RewardStream[] memory _rewardStreams) {
+        _rewardStreams = streamLedger.streams;
+    }
+
+    /// @dev Retrieve the rewards of a staker in every reward stream.
+    /// @param _staker Address of the staker.
+    /// @return _tokens Reward token of each stream, indexed by stream ID.
+    /// @return _rewards Rewards accumulated by the staker in each stream.
+    function getStreamRewards(address _staker) external view returns (address[] memory _tokens, uint256[] memory _rewards) {
+        _tokens = new address[](streamLedger.streams.length);
+        _rewards = new uint256[](streamLedger.streams.length);
+        for (uint256 i = 0; i < streamLedger.streams.length; i++) {
+            _tokens[i] = streamLedger.streams[i].token;
+            _rewards[i] = _availableStreamRewards(i, _staker);
         }
+    }
+
+    /// @dev Retrieve a tier of the current tier set.
+    /// @param _index Index of the tier, reverts past the last one.
+    /// @return minStakingDuration Minimum staking duration of the tier.
+    /// @return multiplier Reward multiplier of the tier.
+    function tiers(uint256 _index) external view returns (uint256 minStakingDuration, uint256 multiplier) {
+        Tier storage tier = tierSchedule.sets[_tierSetIdAt(block.timestamp)].tiers[_index];
+        return (tier.minStakingDuration, tier.multiplier);
+    }
+
+    /// @dev Retrieve the number of tier sets, the first one being the empty set in force from deployment.
+    /// @return _count Number of tier sets, the last one being the current set unless it is scheduled.
+    function getTierSetCount() external view returns (uint256 _count) {
+        _count = tierSchedule.nextId;
+    }
+
+    /// @dev Retrieve a scheduled, current or past tier set.
+    /// @param _tierSetId ID of the tier set.
+    /// @return _tierSet Tiers of the set and the period they were in force.
+    function getTierSet(uint256 _tierSetId) external view returns (TierSet memory _tierSet) {
+        if (_tierSetId >= tierSchedule.nextId) revert InvalidTierSetId();
+        _tierSet = tierSchedule.sets[_tierSetId];
+    }
+
+    /// @dev Retrieve the ID of the tier set in force at a timestamp.
+    /// @param _timestamp Timestamp to look up.
+    /// @return _tierSetId ID of the last tier set starting at or before the timestamp, zero for earlier timestamps.
+    function getTierSetIdAt(uint256 _timestamp) external view returns (uint256 _tierSetId) {
+        _tierSetId = _tierSetIdAt(_timestamp);
+    }
+
+    /// @dev Retrieve the scheduled reward ratio change.
+    /// @return _numerator Scheduled reward ratio numerator, zero when no change is scheduled.
+    /// @return _effectiveTimestamp The timestamp from which it applies.
+    function getScheduledRewardRatio() external view returns (uint256 _numerator, uint256 _effectiveTimestamp) {
+        StakingCondition storage condition = stakingConditions[nextConditionId - 1];
+        if (condition.startTimestamp > block.timestamp) (_numerator, _effectiveTimestamp) = (condition.rewardRatioNumerator, condition.startTimestamp);
+    }
+
+    /// @dev Retrieve the scheduled notice delay change.
+    /// @return _minNoticeDelay Scheduled notice delay, zero when no change is scheduled.
+    /// @return _effectiveTimestamp The timestamp from which it applies, zero when no change is scheduled.
+    function getScheduledMinNoticeDelay() external view returns (uint256 _minNoticeDelay, uint256 _effectiveTimestamp) {
+        if (noticeDelay.scheduledTimestamp > block.timestamp) (_minNoticeDelay, _effectiveTimestamp) = (noticeDelay.scheduledDelay, noticeDelay.scheduledTimestamp);
+    }
+
+    /// @dev Retrieve the lock table.
+    /// @return _lockOptions Lock durations positions can be opened with and their multipliers.
+    function getLockOptions() external view returns (LockOption[] memory _lockOptions) {
+        _lockOptions = lockedStakes.options;
+    }
 
-        // If time elapsed surpasses all tier durations, return the multiplier of the last tier
-        return tiers[tiers.length - 1].multiplier;
+    /// @dev Retrieve every position of a staker, including the withdrawn ones.
+    /// @param _staker Address of the staker.
+    /// @return _positions Positions of the staker, indexed by position ID.
+    function getPositions(address _staker) external view returns (Position[] memory _positions) {
+        _positions = lockedStakes.positions[_staker];
+    }
+
+    /// @dev Retrieve the rewards accumulated by a position since its last claim.
+    /// @param _staker Address of the owner of the position.
+    /// @param _positionId ID of the position among the positions of the staker.
+    /// @return _rewards Rewards accumulated by the position.
+    function getPositionRewards(address _staker, uint256 _positionId) external view returns (uint256 _rewards) {
+        _rewards = _calculatePositionRewards(_getPosition(_staker, _positionId));
+    }
+
+    /// @dev Retrieve every withdraw request of a staker, including the completed and cancelled ones.
+    /// @param _staker Address of the staker.
+    /// @return _withdrawRequests Withdraw requests of the staker, indexed by request ID.
+    function getWithdrawRequests(address _staker) external view returns (WithdrawRequest[] memory _withdrawRequests) {
+        _withdrawRequests = withdrawQueue.requests[_staker];
+    }
+
+    /// @dev Calculate the current reward multiplier based on staking duration and minimum boost amount condition.
+    /// @param _user Address of the user to check.
+    /// @return _multiplier Current reward multiplier for the user.
+    function getCurrentMultiplier(address _user) public view returns (uint256 _multiplier) {
+        _multiplier = StakingParameters.currentMultiplier(tierSchedule.sets[_tierSetIdAt(block.timestamp)].tiers, stakers[_user], minStakingBoostAmount);
     }
 
     /// @dev Calculate the Annual Percentage Rate (APR) for staking.
     /// @return _apr Annual Percentage Rate, scaled by 1e18 to maintain precision.
     function calculateAPR() public view returns (uint256 _apr) {
         if (stakingTokenBalance == 0) return 0;
-        StakingCondition memory condition = stakingConditions[nextConditionId - 1];
-        _apr = (condition.rewardRatioNumerator * stakingTokenBalance) / REWARD_RATIO_DENOMINATOR;
+        (uint256 numerator, ) = getRewardRatio();
+        _apr = (numerator * stakingTokenBalance) / REWARD_RATIO_DENOMINATOR;
         return _apr;
     }
 
@@ -214,117 +606,394 @@ contract Staking is ReentrancyGuard, Ownable, IStaking, Pausable {
     /// @return _numerator Reward ratio numerator.
     /// @return _denominator Reward ratio denominator.
     function getRewardRatio() public view returns (uint256 _numerator, uint256 _denominator) {
-        _numerator = stakingConditions[nextConditionId - 1].rewardRatioNumerator;
+        _numerator = stakingConditions[_currentConditionId()].rewardRatioNumerator;
         _denominator = REWARD_RATIO_DENOMINATOR;
     }
 
-    /// @dev Staking logic handling token transfers and updates.
+    /// @dev Retrieve the notice delay in force.
+    /// @return _minNoticeDelay Notice given between a reward ratio or tier change and its effective timestamp, in seconds.
+    function minNoticeDelay() public view returns (uint256 _minNoticeDelay) {
+        _minNoticeDelay = StakingParameters.minNoticeDelay(noticeDelay);
+    }
+
+    /// @dev Retrieve the rewards owed to stakers and not paid yet, which `withdrawExcessTokens` cannot take.
+    /// @return _liabilities Credited rewards plus the rewards accrued since the last update of each stake and position,
+    ///         the flexible stake counted at the maximum multiplier, above any tier it can reach, and the positions at their lock multiplier.
+    function rewardLiabilities() public view returns (uint256 _liabilities) {
+        _liabilities =
+            rewardLedger.creditedRewards +
+            _accruedRewards(rewardLedger.rewardWeight, _currentCumulativeRewardRatio()) -
+            rewardLedger.accountedRewards;
+    }
+
+    /// @dev Stakers vote with their own tokens until they delegate them.
+    /// @param _account Address of the account.
+    /// @return _delegatee Address the votes of the account are counted for.
+    function delegates(address _account) public view override returns (address _delegatee) {
+        _delegatee = super.delegates(_account);
+        if (_delegatee == address(0)) _delegatee = _account;
+    }
+
+    /// @dev Staking logic handling token transfers and updates, the caller paying for the stake of `_staker`.
+    /// @param _staker Address of the staker to credit.
     /// @param _amount Amount of tokens to stake.
-    function _stake(uint256 _amount) internal {
+    /// @return actualAmount Amount of tokens received and staked.
+    function _stake(address _staker, uint256 _amount) internal returns (uint256 actualAmount) {
         if (_amount == 0) revert InvalidAmount();
-        if (stakingTokenBalance + _amount > stakingTokenCap) revert CannotStakeMoreThanCap();
+        _checkStakingTokenCap(_amount);
 
-        uint256 initialAmountStaked = stakers[_msgSender()].amountStaked;
+        actualAmount = _receiveTokens(stakingToken, _amount);
 
-        if (initialAmountStaked < minStakingBoostAmount && initialAmountStaked + _amount >= minStakingBoostAmount) {
-            stakers[_msgSender()].timeOfLastBoostUpdate = uint80(block.timestamp);
-        }
+        _moveStake(address(0), _staker, actualAmount);
+
+        emit TokensStaked(_staker, actualAmount);
+    }
 
-        if (initialAmountStaked > 0) {
-            _updateUnclaimedRewardsForStaker(_msgSender());
+    /// @dev Logic for moving flexible stake, from the zero address when tokens held by the contract are staked
+    ///      and to the zero address when staked tokens leave the stake, with the receipts minted or burned accordingly.
+    ///      Rewards of both sides are settled first. The sender restarts its boost as on a withdrawal,
+    ///      the receiver keeps its own as on a stake, starting it when reaching the minimum boost amount.
+    /// @param _from Address of the staker sending the stake, or the zero address.
+    /// @param _to Address of the staker receiving the stake, or the zero address.
+    /// @param _amount Amount of tokens to move.
+    function _moveStake(address _from, address _to, uint256 _amount) internal {
+        if (_from == address(0)) {
+            stakingTokenBalance += _amount;
+            receipt.mint(_to, _amount);
         } else {
-            stakers[_msgSender()].timeOfLastUpdate = uint80(block.timestamp);
-            stakers[_msgSender()].conditionIdOfLastUpdate = nextConditionId - 1;
+            _updateStreamRewards(_from);
+            _updateUnclaimedRewardsForStaker(_from, stakers[_from].amountStaked - _amount);
+
+            stakers[_from].timeOfLastBoostUpdate = uint80(block.timestamp);
         }
 
-        uint256 balanceBefore = IERC20(stakingToken).balanceOf(address(this));
-        IERC20(stakingToken).safeTransferFrom(_msgSender(), address(this), _amount);
-        uint256 actualAmount = IERC20(stakingToken).balanceOf(address(this)) - balanceBefore;
+        if (_to == address(0)) {
+            stakingTokenBalance -= _amount;
+            receipt.burn(_from, _amount);
+        } else {
+            _updateStreamRewards(_to);
+            uint256 initialAmountStaked = stakers[_to].amountStaked;
 
-        stakers[_msgSender()].amountStaked += actualAmount;
-        stakingTokenBalance += actualAmount;
+            if (initialAmountStaked < minStakingBoostAmount && initialAmountStaked + _amount >= minStakingBoostAmount) {
+                stakers[_to].timeOfLastBoostUpdate = uint80(block.timestamp);
+            }
 
-        emit TokensStaked(_msgSender(), actualAmount);
+            _updateUnclaimedRewardsForStaker(_to, initialAmountStaked + _amount);
+        }
+
+        _transferVotingUnits(_from, _to, _amount);
     }
 
     /// @dev Logic for withdrawing staked tokens.
     /// @param _amount Amount of tokens to withdraw.
     function _withdraw(uint256 _amount) internal {
+        if (withdrawQueue.cooldown > 0) revert WithdrawCooldownActive();
         uint256 _amountStaked = stakers[_msgSender()].amountStaked;
         if (_amount == 0 || _amountStaked < _amount) revert InvalidAmount();
 
-        _updateUnclaimedRewardsForStaker(_msgSender());
-
-        stakers[_msgSender()].timeOfLastBoostUpdate = uint80(block.timestamp);
-        stakers[_msgSender()].amountStaked -= _amount;
-        stakingTokenBalance -= _amount;
+        _moveStake(_msgSender(), address(0), _amount);
         IERC20(stakingToken).safeTransfer(_msgSender(), _amount);
 
         emit TokensWithdrawn(_msgSender(), _amount);
     }
 
-    /// @dev Logic for claiming rewards, integrating reward calculation.
-    function _claimRewards() internal {
-        uint256 rewards = stakers[_msgSender()].unclaimedRewards + _calculateRewards(_msgSender());
+    /// @dev Logic for requesting a withdrawal, moving the tokens out of the stake until the end of the cooldown.
+    /// @param _amount Amount of tokens to withdraw.
+    function _requestWithdraw(uint256 _amount) internal {
+        uint256 _amountStaked = stakers[_msgSender()].amountStaked;
+        if (_amount == 0 || _amountStaked < _amount) revert InvalidAmount();
 
-        if (rewards == 0) revert NoRewards();
-        if (rewards > IERC20(stakingToken).balanceOf(address(this)) - stakingTokenBalance) revert MissingRewards();
+        _moveStake(_msgSender(), address(0), _amount);
+        withdrawQueue.tokenBalance += _amount;
+
+        uint256 unlockTimestamp = block.timestamp + withdrawQueue.cooldown;
+        withdrawQueue.requests[_msgSender()].push(WithdrawRequest({amount: _amount, unlockTimestamp: uint80(unlockTimestamp)}));
+
+        emit WithdrawRequested(_msgSender(), withdrawQueue.requests[_msgSender()].length - 1, _amount, unlockTimestamp);
+    }
+
+    /// @dev Logic for completing a withdraw request once its cooldown is over.
+    /// @param _requestId ID of the request among the withdraw requests of the sender.
+    function _completeWithdraw(uint256 _requestId) internal {
+        WithdrawRequest storage request = _getWithdrawRequest(_msgSender(), _requestId);
+        uint256 amount = request.amount;
+        if (amount == 0) revert InvalidAmount();
+        if (block.timestamp < request.unlockTimestamp) revert WithdrawRequestLocked();
+
+        request.amount = 0;
+        withdrawQueue.tokenBalance -= amount;
+        IERC20(stakingToken).safeTransfer(_msgSender(), amount);
+
+        emit WithdrawCompleted(_msgSender(), _requestId, amount);
+    }
+
+    /// @dev Logic for cancelling a withdraw request, its tokens being staked again like a new stake.
+    /// @param _requestId ID of the request among the withdraw requests of the sender.
+    function _cancelWithdraw(uint256 _requestId) internal {
+        WithdrawRequest storage request = _getWithdrawRequest(_msgSender(), _requestId);
+        uint256 amount = request.amount;
+        if (amount == 0) revert InvalidAmount();
+        _checkStakingTokenCap(amount);
+
+        request.amount = 0;
+        withdrawQueue.tokenBalance -= amount;
+        _moveStake(address(0), _msgSender(), amount);
+
+        emit WithdrawCancelled(_msgSender(), _requestId, amount);
+    }
+
+    /// @dev Empties every pending withdraw request of a staker.
+    /// @param _staker Address of the staker.
+    /// @return _amount Amount of tokens the pending requests held.
+    function _releaseWithdrawRequests(address _staker) internal returns (uint256 _amount) {
+        WithdrawRequest[] storage requests = withdrawQueue.requests[_staker];
+        for (uint256 i = 0; i < requests.length; i++) {
+            _amount += requests[i].amount;
+            requests[i].amount = 0;
+        }
+        withdrawQueue.tokenBalance -= _amount;
+    }
+
+    /// @dev Logic for claiming rewards, integrating reward calculation, along with the rewards of every reward stream.
+    function _claimRewards() internal {
+        _updateUnclaimedRewardsForStaker(_msgSender(), stakers[_msgSender()].amountStaked);
+        uint256 rewards = stakers[_msgSender()].unclaimedRewards;
+
+        if (rewards > _rewardSurplus()) revert MissingRewards();
+        uint256 streamsClaimed = _claimStreamRewards(_msgSender());
+        if (rewards == 0) {
+            if (streamsClaimed == 0) revert NoRewards();
+            return;
+        }
 
-        stakers[_msgSender()].timeOfLastUpdate = uint80(block.timestamp);
         stakers[_msgSender()].unclaimedRewards = 0;
-        stakers[_msgSender()].conditionIdOfLastUpdate = nextConditionId - 1;
+        rewardLedger.creditedRewards -= rewards;
 
         _distributeRewards(_msgSender(), rewards);
 
         emit RewardsClaimed(_msgSender(), rewards);
     }
 
-    /// @dev Logic for updating unclaimed rewards during state changes.
+    /// @dev Logic for claiming the rewards of every reward stream, skipping the streams not funded enough to pay them.
+    /// @param _staker Address of the staker claiming the rewards.
+    /// @return _streamsClaimed Number of reward streams paid.
+    function _claimStreamRewards(address _staker) internal returns (uint256 _streamsClaimed) {
+        // Without reward streams, the library call is skipped
+        if (streamLedger.streams.length > 0) {
+            _streamsClaimed = StakingParameters.claimStreamRewards(streamLedger.streams, streamLedger.stakers, _staker, stakers[_staker].amountStaked);
+        }
+    }
+
+    /// @dev Logic for compounding rewards, moving them from the reward surplus to the stake.
+    /// @param _staker Address of the staker to compound the rewards of.
+    function _compoundRewards(address _staker) internal {
+        _updateUnclaimedRewardsForStaker(_staker, stakers[_staker].amountStaked);
+        uint256 rewards = stakers[_staker].unclaimedRewards;
+
+        if (rewards == 0) revert NoRewards();
+        if (rewards > _rewardSurplus()) revert MissingRewards();
+        _checkStakingTokenCap(rewards);
+
+        stakers[_staker].unclaimedRewards = 0;
+        rewardLedger.creditedRewards -= rewards;
+        _drawRewardReserve(_staker, rewards);
+        _moveStake(address(0), _staker, rewards);
+
+        emit RewardsCompounded(_staker, rewards);
+    }
+
+    /// @dev Logic for opening a fixed-term position at the multiplier of its lock duration.
+    /// @param _amount Amount of tokens to lock.
+    /// @param _lockDuration Lock duration, matching an entry of the lock table.
+    function _openPosition(uint256 _amount, uint256 _lockDuration) internal {
+        if (_amount == 0) revert InvalidAmount();
+        _checkStakingTokenCap(_amount);
+        uint256 multiplier = _lockMultiplier(_lockDuration);
+
+        uint256 actualAmount = _receiveTokens(stakingToken, _amount);
+
+        lockedStakes.positions[_msgSender()].push(
+            Position({
+                amount: actualAmount,
+                multiplier: multiplier,
+                startTimestamp: uint80(block.timestamp),
+                unlockTimestamp: uint80(block.timestamp + _lockDuration),
+                timeOfLastUpdate: uint80(block.timestamp),
+                conditionIdOfLastUpdate: _currentConditionId()
+            })
+        );
+        lockedStakes.tokenBalance += actualAmount;
+        lockedStakes.balances[_msgSender()] += actualAmount;
+        _accountRewardWeight(0, actualAmount * multiplier, _currentCumulativeRewardRatio());
+        _transferVotingUnits(address(0), _msgSender(), actualAmount);
+
+        emit PositionOpened(_msgSender(), lockedStakes.positions[_msgSender()].length - 1, actualAmount, block.timestamp + _lockDuration, multiplier);
+    }
+
+    /// @dev Logic for withdrawing an unlocked position, its rewards being claimed along with the flexible stake rewards.
+    /// @param _positionId ID of the position among the positions of the sender.
+    function _withdrawPosition(uint256 _positionId) internal {
+        Position storage position = _getPosition(_msgSender(), _positionId);
+        uint256 amount = position.amount;
+        if (amount == 0) revert InvalidAmount();
+        if (block.timestamp < position.unlockTimestamp) revert PositionLocked();
+
+        uint256 rewards = _calculatePositionRewards(position);
+        stakers[_msgSender()].unclaimedRewards += rewards;
+        rewardLedger.creditedRewards += rewards;
+        _accountRewardWeight(amount * position.multiplier, 0, _cumulativeRewardRatioAt(position.conditionIdOfLastUpdate, position.timeOfLastUpdate));
+
+        position.amount = 0;
+        position.timeOfLastUpdate = uint80(block.timestamp);
+        position.conditionIdOfLastUpdate = _currentConditionId();
+        lockedStakes.tokenBalance -= amount;
+        lockedStakes.balances[_msgSender()] -= amount;
+        _transferVotingUnits(_msgSender(), address(0), amount);
+        IERC20(stakingToken).safeTransfer(_msgSender(), amount);
+
+        emit PositionWithdrawn(_msgSender(), _positionId, amount, rewards);
+    }
+
+    /// @dev Logic for claiming the rewards of a position.
+    /// @param _positionId ID of the position among the positions of the sender.
+    function _claimPositionRewards(uint256 _positionId) internal {
+        Position storage position = _getPosition(_msgSender(), _positionId);
+        uint256 rewards = _calculatePositionRewards(position);
+
+        if (rewards == 0) revert NoRewards();
+        if (rewards > _rewardSurplus()) revert MissingRewards();
+
+        uint256 weight = position.amount * position.multiplier;
+        _accountRewardWeight(weight, weight, _cumulativeRewardRatioAt(position.conditionIdOfLastUpdate, position.timeOfLastUpdate));
+        position.timeOfLastUpdate = uint80(block.timestamp);
+        position.conditionIdOfLastUpdate = _currentConditionId();
+
+        _distributeRewards(_msgSender(), rewards);
+
+        emit PositionRewardsClaimed(_msgSender(), _positionId, rewards);
+    }
+
+    /// @dev Logic for updating unclaimed rewards during state changes, then setting the new stake of the staker.
     /// @param _staker Address of the staker to update.
-    function _updateUnclaimedRewardsForStaker(address _staker) internal {
+    /// @param _amountStaked Amount staked by the staker from now on.
+    function _updateUnclaimedRewardsForStaker(address _staker, uint256 _amountStaked) internal {
+        Staker storage staker = stakers[_staker];
         uint256 rewards = _calculateRewards(_staker);
-        stakers[_staker].unclaimedRewards += rewards;
-        stakers[_staker].timeOfLastUpdate = uint80(block.timestamp);
-        stakers[_staker].conditionIdOfLastUpdate = nextConditionId - 1;
+        uint256 cumulativeRewardRatio = staker.amountStaked > 0 ? _cumulativeRewardRatioAt(staker.conditionIdOfLastUpdate, staker.timeOfLastUpdate) : 0;
+        // Counted at the maximum multiplier, the flexible stake needs no new weight when it reaches a tier or the tiers change
+        _accountRewardWeight(MAX_MULTIPLIER * staker.amountStaked, MAX_MULTIPLIER * _amountStaked, cumulativeRewardRatio);
+
+        staker.unclaimedRewards += rewards;
+        rewardLedger.creditedRewards += rewards;
+        staker.amountStaked = _amountStaked;
+        staker.timeOfLastUpdate = uint80(block.timestamp);
+        staker.conditionIdOfLastUpdate = _currentConditionId();
     }
 
-    /// @dev Logic for setting new staking conditions.
-    /// @param _numerator New reward ratio numerator.
-    function _setStakingCondition(uint256 _numerator) internal {
-        if (_numerator == 0) revert InvalidRewardRatio();
-        uint256 conditionId = nextConditionId;
-        nextConditionId += 1;
-
-        stakingConditions[conditionId] = StakingCondition({rewardRatioNumerator: _numerator, startTimestamp: uint80(block.timestamp), endTimestamp: 0});
+    /// @dev Logic for accounting a stake or position in the reward liabilities, the rewards of its old weight being accrued up to now.
+    /// @param _oldWeight Weight of the stake or position since its last update, i.e. its amount times its multiplier.
+    /// @param _newWeight Weight of the stake or position from now on.
+    /// @param _oldCumulativeRewardRatio Cumulative reward ratio at the last update of the stake or position.
+    function _accountRewardWeight(uint256 _oldWeight, uint256 _newWeight, uint256 _oldCumulativeRewardRatio) internal {
+        rewardLedger.rewardWeight = rewardLedger.rewardWeight + _newWeight - _oldWeight;
+        rewardLedger.accountedRewards =
+            rewardLedger.accountedRewards +
+            _accruedRewards(_newWeight, _currentCumulativeRewardRatio()) -
+            _accruedRewards(_oldWeight, _oldCumulativeRewardRatio);
+    }
 
-        if (conditionId > 0) {
-            stakingConditions[conditionId - 1].endTimestamp = uint80(block.timestamp);
+    /// @dev Logic for updating the rewards of a staker in every reward stream, before their flexible stake changes.
+    /// @param _staker Address of the staker to update.
+    function _updateStreamRewards(address _staker) internal {
+        // Without reward streams, the library call is skipped
+        if (streamLedger.streams.length > 0) {
+            StakingParameters.updateStreamRewards(streamLedger.streams, streamLedger.stakers, _staker, stakers[_staker].amountStaked);
         }
     }
 
+    /// @dev Logic for updating the reward ratio of a reward stream, closing the cumulative reward ratio of the previous one.
+    /// @param _streamId ID of the reward stream.
+    /// @param _numerator New reward ratio numerator of the stream.
+    function _setRewardStreamRatio(uint256 _streamId, uint256 _numerator) internal {
+        RewardStream storage stream = _getRewardStream(_streamId);
+        uint256 oldNumerator = stream.rewardRatioNumerator;
+        if (_numerator == oldNumerator) revert InvalidRewardRatio();
+
+        stream.cumulativeRewardRatio = StakingParameters.streamCumulativeRewardRatio(stream);
+        stream.timeOfLastUpdate = uint80(block.timestamp);
+        stream.rewardRatioNumerator = _numerator;
+
+        emit RewardStreamRatioUpdated(_streamId, oldNumerator, _numerator);
+    }
+
+    /// @dev Logic for funding the reward reserve, counting the tokens actually received.
+    /// @param _amount Amount of staking tokens to transfer from the sender.
+    function _fundRewards(uint256 _amount) internal {
+        if (_amount == 0) revert InvalidAmount();
+
+        uint256 actualAmount = _receiveTokens(stakingToken, _amount);
+        rewardLedger.reserve += actualAmount;
+
+        emit RewardsFunded(_msgSender(), actualAmount);
+    }
+
+    /// @dev Logic for funding a reward stream, counting the tokens actually received.
+    /// @param _streamId ID of the reward stream.
+    /// @param _amount Amount of reward tokens to transfer from the sender.
+    function _fundRewardStream(uint256 _streamId, uint256 _amount) internal {
+        RewardStream storage stream = _getRewardStream(_streamId);
+        if (_amount == 0) revert InvalidAmount();
+
+        uint256 actualAmount = _receiveTokens(stream.token, _amount);
+        stream.fundedBalance += actualAmount;
+
+        emit RewardStreamFunded(_streamId, _msgSender(), actualAmount);
+    }
+
+    /// @dev Transfers tokens from the sender, counting the tokens actually received for fee-on-transfer tokens.
+    /// @param _token Address of the token.
+    /// @param _amount Amount of tokens to transfer.
+    /// @return _received Amount of tokens received.
+    function _receiveTokens(address _token, uint256 _amount) internal returns (uint256 _received) {
+        uint256 balanceBefore = IERC20(_token).balanceOf(address(this));
+        IERC20(_token).safeTransferFrom(_msgSender(), address(this), _amount);
+        _received = IERC20(_token).balanceOf(address(this)) - balanceBefore;
+    }
+
+    /// @dev Logic for changing the reward ratio now or, with a notice delay, once it has passed.
+    /// @param _numerator New reward ratio numerator.
+    function _setRewardRatio(uint256 _numerator) internal {
+        uint256 effectiveTimestamp = _scheduleAfterNotice(stakingConditions[nextConditionId - 1].startTimestamp);
+        StakingParameters.setRewardRatio(stakingConditions, nextConditionId, _numerator, effectiveTimestamp);
+        nextConditionId += 1;
+    }
+
     /// @dev Logic for distributing ERC20 rewards to stakers.
     /// @param _staker Address for which to distribute rewards.
     /// @param _rewards Amount of tokens to distribute as rewards.
     function _distributeRewards(address _staker, uint256 _rewards) internal {
+        _drawRewardReserve(_staker, _rewards);
         IERC20(stakingToken).safeTransfer(_staker, _rewards);
     }
 
-    /// @dev Logic for setting new reward tiers.
+    /// @dev Logic for taking paid rewards from the reward reserve first, the rest coming from tokens sent to the contract directly.
+    /// @param _staker Address of the staker receiving the rewards.
+    /// @param _rewards Amount of rewards paid.
+    function _drawRewardReserve(address _staker, uint256 _rewards) internal {
+        uint256 amount = Math.min(_rewards, rewardLedger.reserve);
+        if (amount == 0) return;
+
+        rewardLedger.reserve -= amount;
+        emit RewardReserveDrawn(_staker, amount);
+    }
+
+    /// @dev Logic for setting new reward tiers, in force once the notice delay has passed while the rewards accrued until then keep the previous tiers.
     /// @param _durations Array of minimum staking durations for new tiers.
     /// @param _multipliers Array of reward multipliers for new tiers.
     function _setTiers(uint256[] calldata _durations, uint256[] calldata _multipliers) internal {
-        if (_durations.length != _multipliers.length || _durations.length == 0) revert InvalidTiersLength();
-
-        while (tiers.length > 0) {
-            tiers.pop();
-        }
-
-        for (uint256 i; i < _durations.length; i++) {
-            if (i > 0 && _durations[i] <= _durations[i - 1]) revert InvalidTiersDurations();
-            tiers.push(Tier(_durations[i], _multipliers[i]));
-        }
-
-        emit TiersSet(tiers);
+        uint256 effectiveTimestamp = _scheduleAfterNotice(tierSchedule.sets[tierSchedule.nextId - 1].startTimestamp);
+        StakingParameters.setTiers(tierSchedule.sets, tierSchedule.nextId, effectiveTimestamp, _durations, _multipliers);
+        tierSchedule.nextId += 1;
     }
 
     /// @dev Sets the maximum number of tokens that can be staked in the contract.
@@ -335,6 +1004,14 @@ contract Staking is ReentrancyGuard, Ownable, IStaking, Pausable {
         emit StakingTokenCapSet(_stakingTokenCap);
     }
 
+    /// @dev Sets the time between a withdraw request and its completion.
+    /// @param _withdrawCooldown The new withdraw cooldown, in seconds.
+    function _setWithdrawCooldown(uint256 _withdrawCooldown) internal {
+        withdrawQueue.cooldown = _withdrawCooldown;
+
+        emit WithdrawCooldownSet(_withdrawCooldown);
+    }
+
     /// @dev Sets the minimum amount of tokens a user needs to stake in order to start receiving boosted rewards.
     /// @param _minStakingBoostAmount The minimum amount of staking tokens required to start receiving boost benefits.
     function _setMinStakingBoostAmount(uint256 _minStakingBoostAmount) internal {
@@ -345,6 +1022,13 @@ contract Staking is ReentrancyGuard, Ownable, IStaking, Pausable {
         emit MinStakingBoostAmountSet(_minStakingBoostAmount);
     }
 
+    /// @dev Delegating to the zero address gives the votes back to the account, which always has a delegatee.
+    /// @param _account Address of the account delegating.
+    /// @param _delegatee Address to delegate the votes to.
+    function _delegate(address _account, address _delegatee) internal override {
+        super._delegate(_account, _delegatee == address(0) ? _account : _delegatee);
+    }
+
     /// @dev Logic for calculating available rewards for a staker.
     /// @param _staker Address of the staker to calculate rewards for.
     /// @return _rewards Available rewards for the staker.
@@ -356,28 +1040,145 @@ contract Staking is ReentrancyGuard, Ownable, IStaking, Pausable {
         }
     }
 
+    /// @dev Logic for calculating the rewards of a staker in a reward stream.
+    /// @param _streamId ID of the reward stream.
+    /// @param _staker Address of the staker to calculate rewards for.
+    /// @return _rewards Available rewards for the staker in the stream.
+    function _availableStreamRewards(uint256 _streamId, address _staker) internal view returns (uint256 _rewards) {
+        StreamStaker storage streamStaker = streamLedger.stakers[_streamId][_staker];
+        uint256 cumulativeRewardRatio = StakingParameters.streamCumulativeRewardRatio(streamLedger.streams[_streamId]);
+
+        _rewards =
+            streamStaker.unclaimedRewards +
+            StakingParameters.streamRewards(cumulativeRewardRatio - streamStaker.cumulativeRewardRatioPaid, stakers[_staker].amountStaked);
+    }
+
     /// @dev Logic for calculating rewards based on staking conditions.
     /// @param _staker Address of the staker to calculate rewards for.
     /// @return _rewards Calculated rewards for the staker.
     function _calculateRewards(address _staker) internal view returns (uint256 _rewards) {
-        Staker memory staker = stakers[_staker];
+        _rewards = StakingParameters.calculateRewards(stakingConditions, nextConditionId, tierSchedule.sets, tierSchedule.nextId, stakers[_staker], minStakingBoostAmount);
+    }
+
+    /// @dev Logic for calculating the rewards of a position since its last claim.
+    /// @param _position Position to calculate rewards for.
+    /// @return _rewards Calculated rewards for the position.
+    function _calculatePositionRewards(Position storage _position) internal view returns (uint256 _rewards) {
+        _rewards = StakingParameters.calculatePositionRewards(stakingConditions, nextConditionId, _position);
+    }
+
+    /// @dev Reverts when staking `_amount` more tokens would exceed the staking cap, locked tokens included.
+    /// @param _amount Amount of tokens to stake.
+    function _checkStakingTokenCap(uint256 _amount) internal view {
+        if (_exceedsStakingTokenCap(_amount)) revert CannotStakeMoreThanCap();
+    }
+
+    /// @dev Whether staking `_amount` more tokens would exceed the staking cap, locked tokens included.
+    /// @param _amount Amount of tokens to stake.
+    /// @return _exceeds Whether the cap would be exceeded.
+    function _exceedsStakingTokenCap(uint256 _amount) internal view returns (bool _exceeds) {
+        _exceeds = stakingTokenBalance + lockedStakes.tokenBalance + _amount > stakingTokenCap;
+    }
 
-        uint256 _stakerConditionId = staker.conditionIdOfLastUpdate;
-        uint256 _nextConditionId = nextConditionId;
+    /// @dev Staking tokens held above the staked, locked and unbonding balances, from which rewards are paid.
+    /// @return _surplus Staking tokens available for rewards.
+    function _rewardSurplus() internal view returns (uint256 _surplus) {
+        _surplus = IERC20(stakingToken).balanceOf(address(this)) - stakingTokenBalance - lockedStakes.tokenBalance - withdrawQueue.tokenBalance;
+    }
+
+    /// @dev Staking tokens neither staked nor owed to the stakers, the reward reserve and liabilities both being set aside.
+    /// @return _surplus Staking tokens the owner can withdraw.
+    function _freeSurplus() internal view returns (uint256 _surplus) {
+        uint256 committed = stakingTokenBalance + lockedStakes.tokenBalance + withdrawQueue.tokenBalance + Math.max(rewardLedger.reserve, rewardLiabilities());
+        uint256 balance = IERC20(stakingToken).balanceOf(address(this));
+        _surplus = balance > committed ? balance - committed : 0;
+    }
 
-        for (uint256 i = _stakerConditionId; i < _nextConditionId; i++) {
-            StakingCondition memory condition = stakingConditions[i];
+    /// @dev Voting units of an account, moved at once when it delegates: its flexible stake and locked positions.
+    /// @param _account Address of the account.
+    /// @return _units Staking tokens of the account carrying voting power.
+    function _getVotingUnits(address _account) internal view override returns (uint256 _units) {
+        _units = stakers[_account].amountStaked + lockedStakes.balances[_account];
+    }
 
-            uint256 startTime = i != _stakerConditionId ? condition.startTimestamp : staker.timeOfLastUpdate;
-            uint256 endTime = condition.endTimestamp != 0 ? condition.endTimestamp : block.timestamp;
+    /// @dev Retrieve a reward stream, reverting when it does not exist.
+    /// @param _streamId ID of the reward stream.
+    /// @return _stream Storage pointer to the reward stream.
+    function _getRewardStream(uint256 _streamId) internal view returns (RewardStream storage _stream) {
+        if (_streamId >= streamLedger.streams.length) revert InvalidRewardStreamId();
+        _stream = streamLedger.streams[_streamId];
+    }
 
-            uint256 rewardRatioNumerator = (condition.rewardRatioNumerator * getCurrentMultiplier(_staker)) / 100;
+    /// @dev Retrieve a position of a staker, reverting when it does not exist.
+    /// @param _staker Address of the owner of the position.
+    /// @param _positionId ID of the position among the positions of the staker.
+    /// @return _position Storage pointer to the position.
+    function _getPosition(address _staker, uint256 _positionId) internal view returns (Position storage _position) {
+        if (_positionId >= lockedStakes.positions[_staker].length) revert InvalidPositionId();
+        _position = lockedStakes.positions[_staker][_positionId];
+    }
 
-            (bool noOverflowProduct, uint256 rewardsProductPartial) = Math.tryMul((endTime - startTime), staker.amountStaked);
-            (bool noOverflowProduct2, uint256 rewardsProduct) = Math.tryMul(rewardsProductPartial, rewardRatioNumerator);
-            uint256 rewards = _rewards + rewardsProduct / (TIME_UNIT * REWARD_RATIO_DENOMINATOR);
+    /// @dev Retrieve a withdraw request of a staker, reverting when it does not exist.
+    /// @param _staker Address of the staker.
+    /// @param _requestId ID of the request among the withdraw requests of the staker.
+    /// @return _request Storage pointer to the withdraw request.
+    function _getWithdrawRequest(address _staker, uint256 _requestId) internal view returns (WithdrawRequest storage _request) {
+        if (_requestId >= withdrawQueue.requests[_staker].length) revert InvalidWithdrawRequestId();
+        _request = withdrawQueue.requests[_staker][_requestId];
+    }
 
-            _rewards = (noOverflowProduct && noOverflowProduct2) ? rewards : _rewards;
+    /// @dev Finds the multiplier of a lock duration in the lock table.
+    /// @param _lockDuration Lock duration to look up.
+    /// @return _multiplier Reward multiplier of the lock duration, reverts when it is not in the table.
+    function _lockMultiplier(uint256 _lockDuration) internal view returns (uint256 _multiplier) {
+        for (uint256 i = 0; i < lockedStakes.options.length; i++) {
+            if (lockedStakes.options[i].duration == _lockDuration) return lockedStakes.options[i].multiplier;
         }
+        revert InvalidLockDuration();
+    }
+
+    /// @dev Timestamp a change applies from, reverting while a change of the same parameter is scheduled.
+    /// @param _lastStartTimestamp Start timestamp of the last condition or tier set of the parameter.
+    /// @return _effectiveTimestamp The end of the notice delay, the current timestamp without one.
+    function _scheduleAfterNotice(uint256 _lastStartTimestamp) internal view returns (uint256 _effectiveTimestamp) {
+        if (_lastStartTimestamp > block.timestamp) revert ChangeAlreadyScheduled();
+        _effectiveTimestamp = block.timestamp + minNoticeDelay();
+    }
+
+    /// @dev ID of the condition in force, the last one unless it is scheduled.
+    /// @return _conditionId ID of the current condition.
+    function _currentConditionId() internal view returns (uint64 _conditionId) {
+        _conditionId = nextConditionId - 1;
+        if (stakingConditions[_conditionId].startTimestamp > block.timestamp) _conditionId -= 1;
+    }
+
+    /// @dev Finds the tier set in force at a timestamp by binary search.
+    /// @param _timestamp Timestamp to look up.
+    /// @return _tierSetId ID of the last tier set starting at or before the timestamp, zero for earlier timestamps.
+    function _tierSetIdAt(uint256 _timestamp) internal view returns (uint256 _tierSetId) {
+        _tierSetId = StakingParameters.tierSetIdAt(tierSchedule.sets, tierSchedule.nextId, _timestamp);
+    }
+
+    /// @dev Cumulative reward ratio from the first condition up to a timestamp within the given condition.
+    /// @param _conditionId ID of the condition the timestamp falls in.
+    /// @param _timestamp Timestamp between the start and the end of the condition.
+    /// @return _cumulativeRewardRatio Sum of the reward ratio numerators times the seconds they lasted.
+    function _cumulativeRewardRatioAt(uint256 _conditionId, uint256 _timestamp) internal view returns (uint256 _cumulativeRewardRatio) {
+        _cumulativeRewardRatio = StakingParameters.cumulativeRewardRatioAt(stakingConditions, _conditionId, _timestamp);
+    }
+
+    /// @dev Cumulative reward ratio from the first condition up to now.
+    /// @return _cumulativeRewardRatio Sum of the reward ratio numerators times the seconds they lasted.
+    function _currentCumulativeRewardRatio() internal view returns (uint256 _cumulativeRewardRatio) {
+        _cumulativeRewardRatio = _cumulativeRewardRatioAt(_currentConditionId(), block.timestamp);
+    }
+
+    /// @dev Converts a cumulative reward ratio into the rewards of a weight since the first condition.
+    /// @param _weight Amount of tokens times their multiplier.
+    /// @param _cumulativeRewardRatio Cumulative reward ratio up to the timestamp of the rewards.
+    /// @return _rewards Rewards of the weight rounded down, split by the divisor so that the product of large stakes does not overflow.
+    function _accruedRewards(uint256 _weight, uint256 _cumulativeRewardRatio) internal pure returns (uint256 _rewards) {
+        uint256 divisor = 100 * TIME_UNIT * REWARD_RATIO_DENOMINATOR;
+        _rewards = (_weight / divisor) * _cumulativeRewardRatio + ((_weight % divisor) * _cumulativeRewardRatio) / divisor;
     }
 }
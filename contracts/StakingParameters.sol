@@ -0,0 +1,517 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.24;
+
+/*
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+import {Math} from "@openzeppelin/contracts-v5/utils/math/Math.sol";
+import {SafeCast} from "@openzeppelin/contracts-v5/utils/math/SafeCast.sol";
+import {IERC20, SafeERC20} from "@openzeppelin/contracts-v5/token/ERC20/utils/SafeERC20.sol";
+import {IStaking} from "./IStaking.sol";
+
+/**
+ * @title Staking Parameters
+ * @notice Validation and storage of the reward ratio changes, reward tiers, notice delay, lock options and reward streams of a Staking contract,
+ *         along with the rewards of its stakers, positions and reward streams, the multiplier of its stakers and its excess token withdrawals.
+ * @dev External library linked to the Staking contract, which keeps its deployed bytecode under the contract size limit.
+ *      Its functions run in the context of the Staking contract, on the storage passed to them.
+ *
+ * @author Lucidao
+ */
+library StakingParameters {
+    using SafeERC20 for IERC20;
+
+    /// @dev Running state of a reward calculation, advanced period by period at the multiplier in force.
+    struct RewardAccrual {
+        uint256 timestamp;
+        uint256 conditionId;
+        uint256 cumulativeRewardRatio;
+        uint256 boostedRewardRatio;
+    }
+
+    uint256 internal constant TIME_UNIT = 360 days;
+    uint256 internal constant REWARD_RATIO_DENOMINATOR = 10000;
+    uint256 internal constant MAX_NOTICE_DELAY = 90 days;
+    uint256 internal constant MAX_MULTIPLIER = 1000;
+
+    /// @dev Changes the reward ratio now or schedules it at a future timestamp.
+    /// @param _stakingConditions The staking conditions of the Staking contract, indexed by condition ID.
+    /// @param _conditionId ID of the new condition, following the last one.
+    /// @param _numerator New reward ratio numerator.
+    /// @param _startTimestamp The start timestamp of the new condition, in the future for scheduled changes.
+    function setRewardRatio(
+        mapping(uint256 => IStaking.StakingCondition) storage _stakingConditions,
+        uint256 _conditionId,
+        uint256 _numerator,
+        uint256 _startTimestamp
+    ) external {
+        uint256 oldNumerator = _stakingConditions[_conditionId - 1].rewardRatioNumerator;
+        if (_numerator == oldNumerator) revert IStaking.InvalidRewardRatio();
+        setStakingCondition(_stakingConditions, _conditionId, _numerator, _startTimestamp);
+
+        if (_startTimestamp == block.timestamp) {
+            emit IStaking.UpdatedRewardRatio(oldNumerator, _numerator);
+        } else {
+            emit IStaking.RewardRatioScheduled(_numerator, _startTimestamp);
+        }
+    }
+
+    /// @dev Checks that the last staking condition is scheduled before its count is rolled back.
+    /// @param _condition The last staking condition.
+    function cancelScheduledRewardRatio(IStaking.StakingCondition storage _condition) external {
+        (uint256 numerator, uint256 startTimestamp) = (_condition.rewardRatioNumerator, _condition.startTimestamp);
+        if (startTimestamp <= block.timestamp) revert IStaking.NoScheduledChange();
+
+        emit IStaking.ScheduledRewardRatioCancelled(numerator, startTimestamp);
+    }
+
+    /// @dev Starts a new tier set now or at a future timestamp, with new tiers sorted by increasing minimum staking duration.
+    /// @param _tierSets The tier sets of the Staking contract, indexed by tier set ID.
+    /// @param _tierSetId ID of the new tier set, following the last one.
+    /// @param _startTimestamp The start timestamp of the new tier set, in the future for scheduled changes.
+    /// @param _durations Array of minimum staking durations for the new tiers.
+    /// @param _multipliers Array of reward multipliers for the new tiers, from the base multiplier up to `MAX_MULTIPLIER`.
+    function setTiers(
+        mapping(uint256 => IStaking.TierSet) storage _tierSets,
+        uint256 _tierSetId,
+        uint256 _startTimestamp,
+        uint256[] calldata _durations,
+        uint256[] calldata _multipliers
+    ) external {
+        if (_durations.length != _multipliers.length || _durations.length == 0) revert IStaking.InvalidTiersLength();
+
+        startTierSet(_tierSets, _tierSetId, _startTimestamp);
+        IStaking.Tier[] storage tiers = _tierSets[_tierSetId].tiers;
+        for (uint256 i; i < _durations.length; i++) {
+            if (i > 0 && _durations[i] <= _durations[i - 1]) revert IStaking.InvalidTiersDurations();
+            if (_multipliers[i] < 100 || _multipliers[i] > MAX_MULTIPLIER) revert IStaking.InvalidMultiplier();
+            tiers.push(IStaking.Tier(_durations[i], _multipliers[i]));
+        }
+
+        if (_startTimestamp == block.timestamp) {
+            emit IStaking.TiersSet(tiers);
+        } else {
+            emit IStaking.TiersScheduled(_tierSetId, _startTimestamp);
+        }
+    }
+
+    /// @dev Empties the tiers of a cancelled tier set.
+    /// @param _tiers The tiers of the cancelled tier set.
+    function clearTiers(IStaking.Tier[] storage _tiers) external {
+        while (_tiers.length > 0) _tiers.pop();
+    }
+
+    /// @dev Changes the notice delay once the current one has passed, at once without a current delay.
+    /// @param _noticeDelay The notice delay of the Staking contract.
+    /// @param _minNoticeDelay The new notice delay in seconds, at most `MAX_NOTICE_DELAY`.
+    function setMinNoticeDelay(IStaking.NoticeDelay storage _noticeDelay, uint256 _minNoticeDelay) external {
+        if (_minNoticeDelay > MAX_NOTICE_DELAY) revert IStaking.InvalidNoticeDelay();
+
+        uint256 currentDelay = minNoticeDelay(_noticeDelay);
+        uint256 effectiveTimestamp = block.timestamp + currentDelay;
+        _noticeDelay.delay = SafeCast.toUint80(currentDelay);
+        _noticeDelay.scheduledDelay = SafeCast.toUint80(_minNoticeDelay);
+        _noticeDelay.scheduledTimestamp = SafeCast.toUint80(effectiveTimestamp);
+
+        if (effectiveTimestamp == block.timestamp) {
+            emit IStaking.MinNoticeDelaySet(_minNoticeDelay);
+        } else {
+            emit IStaking.MinNoticeDelayScheduled(_minNoticeDelay, effectiveTimestamp);
+        }
+    }
+
+    /// @dev Replaces the lock table, sorted by increasing lock duration.
+    /// @param _lockOptions The lock table of the Staking contract.
+    /// @param _durations Array of lock durations for the new lock options.
+    /// @param _multipliers Array of reward multipliers for the new lock options, from the base multiplier up to `MAX_MULTIPLIER`.
+    function setLockOptions(IStaking.LockOption[] storage _lockOptions, uint256[] calldata _durations, uint256[] calldata _multipliers) external {
+        if (_durations.length != _multipliers.length) revert IStaking.InvalidLockOptionsLength();
+
+        while (_lockOptions.length > 0) _lockOptions.pop();
+        for (uint256 i; i < _durations.length; i++) {
+            if (_durations[i] <= (i == 0 ? 0 : _durations[i - 1])) revert IStaking.InvalidLockDurations();
+            if (_multipliers[i] < 100 || _multipliers[i] > MAX_MULTIPLIER) revert IStaking.InvalidMultiplier();
+            _lockOptions.push(IStaking.LockOption(_durations[i], _multipliers[i]));
+        }
+
+        emit IStaking.LockOptionsSet(_lockOptions);
+    }
+
+    /// @dev Adds a reward stream, with a cumulative reward ratio starting from zero now.
+    /// @param _rewardStreams The reward streams of the Staking contract.
+    /// @param _token Reward token of the stream, which cannot be the staking token or the token of another stream.
+    /// @param _stakingToken The staking token of the Staking contract.
+    /// @param _numerator Reward ratio numerator of the stream.
+    /// @param _maxRewardStreams Maximum number of reward streams.
+    function addRewardStream(
+        IStaking.RewardStream[] storage _rewardStreams,
+        address _token,
+        address _stakingToken,
+        uint256 _numerator,
+        uint256 _maxRewardStreams
+    ) external {
+        if (_token == address(0) || _token == _stakingToken) revert IStaking.InvalidTokenAddress();
+        if (_numerator == 0) revert IStaking.InvalidRewardRatio();
+        if (_rewardStreams.length >= _maxRewardStreams) revert IStaking.TooManyRewardStreams();
+        for (uint256 i = 0; i < _rewardStreams.length; i++) {
+            if (_rewardStreams[i].token == _token) revert IStaking.InvalidTokenAddress();
+        }
+
+        _rewardStreams.push(
+            IStaking.RewardStream({
+                token: _token,
+                timeOfLastUpdate: uint80(block.timestamp),
+                rewardRatioNumerator: _numerator,
+                cumulativeRewardRatio: 0,
+                fundedBalance: 0
+            })
+        );
+
+        emit IStaking.RewardStreamAdded(_rewardStreams.length - 1, _token, _numerator);
+    }
+
+    /// @dev Pays the rewards of a staker in every reward stream, skipping the streams not funded enough to pay them.
+    /// @param _rewardStreams The reward streams of the Staking contract.
+    /// @param _streamStakers The rewards of each staker in each stream, indexed by stream ID.
+    /// @param _staker Address of the staker claiming the rewards.
+    /// @param _amountStaked Flexible stake of the staker since their last update.
+    /// @return _streamsClaimed Number of reward streams paid.
+    function claimStreamRewards(
+        IStaking.RewardStream[] storage _rewardStreams,
+        mapping(uint256 => mapping(address => IStaking.StreamStaker)) storage _streamStakers,
+        address _staker,
+        uint256 _amountStaked
+    ) external returns (uint256 _streamsClaimed) {
+        updateStreamRewards(_rewardStreams, _streamStakers, _staker, _amountStaked);
+
+        for (uint256 i = 0; i < _rewardStreams.length; i++) {
+            IStaking.RewardStream storage stream = _rewardStreams[i];
+            uint256 rewards = _streamStakers[i][_staker].unclaimedRewards;
+            if (rewards == 0 || rewards > stream.fundedBalance) continue;
+
+            _streamStakers[i][_staker].unclaimedRewards = 0;
+            stream.fundedBalance -= rewards;
+            IERC20(stream.token).safeTransfer(_staker, rewards);
+            _streamsClaimed++;
+
+            emit IStaking.StreamRewardsClaimed(_staker, i, rewards);
+        }
+    }
+
+    /// @dev Transfers tokens held in excess to a recipient, leaving the funded stream rewards, which belong to the stakers.
+    /// @param _rewardStreams The reward streams of the Staking contract.
+    /// @param _token Address of the token to withdraw.
+    /// @param _amount Amount of tokens to withdraw.
+    /// @param _withdrawableAmount Tokens held that are not staked nor owed to the stakers, the funded stream rewards included.
+    /// @param _recipient Address receiving the tokens.
+    function withdrawExcessTokens(
+        IStaking.RewardStream[] storage _rewardStreams,
+        address _token,
+        uint256 _amount,
+        uint256 _withdrawableAmount,
+        address _recipient
+    ) external {
+        for (uint256 i = 0; i < _rewardStreams.length; i++) {
+            if (_rewardStreams[i].token != _token) continue;
+            // The held balance can fall short of the funded one, e.g. with a token that rebases down
+            if (_rewardStreams[i].fundedBalance > _withdrawableAmount) revert IStaking.WithdrawAmountExceedsLimit();
+            _withdrawableAmount -= _rewardStreams[i].fundedBalance;
+        }
+
+        if (_amount > _withdrawableAmount) revert IStaking.WithdrawAmountExceedsLimit();
+        IERC20(_token).safeTransfer(_recipient, _amount);
+        emit IStaking.ExcessTokensWithdrawn(_token, _amount);
+    }
+
+    /// @dev Calculates the multiplier a staker has reached in the tiers in force.
+    /// @param _tiers The tiers in force.
+    /// @param _staker The staking details of the staker.
+    /// @param _minStakingBoostAmount The minimum amount of tokens that must be staked to receive staking boosts.
+    /// @return _multiplier Multiplier of the last tier reached, the base multiplier below the first tier or the minimum boost amount.
+    function currentMultiplier(
+        IStaking.Tier[] storage _tiers,
+        IStaking.Staker storage _staker,
+        uint256 _minStakingBoostAmount
+    ) external view returns (uint256 _multiplier) {
+        uint256 timeElapsed = block.timestamp - _staker.timeOfLastBoostUpdate;
+
+        _multiplier = 100;
+        if (_tiers.length == 0 || _staker.amountStaked < _minStakingBoostAmount || _staker.timeOfLastBoostUpdate == 0) {
+            return _multiplier;
+        }
+
+        for (uint256 i = 0; i < _tiers.length; i++) {
+            if (timeElapsed < _tiers[i].minStakingDuration) {
+                return i == 0 ? _multiplier : _tiers[i - 1].multiplier; // Return previous tier's multiplier if not enough time has elapsed for the next tier
+            }
+        }
+
+        // If time elapsed surpasses all tier durations, return the multiplier of the last tier
+        return _tiers[_tiers.length - 1].multiplier;
+    }
+
+    /// @dev Calculates the rewards of the flexible stake of a staker since their last update, each period at the multiplier in force.
+    /// @param _stakingConditions The staking conditions of the Staking contract, indexed by condition ID.
+    /// @param _nextConditionId ID of the next staking condition.
+    /// @param _tierSets The tier sets of the Staking contract, indexed by tier set ID.
+    /// @param _nextTierSetId ID of the next tier set.
+    /// @param _staker The staking details of the staker.
+    /// @param _minStakingBoostAmount The minimum amount of tokens that must be staked to receive staking boosts.
+    /// @return _rewards Rewards of the staker.
+    function calculateRewards(
+        mapping(uint256 => IStaking.StakingCondition) storage _stakingConditions,
+        uint256 _nextConditionId,
+        mapping(uint256 => IStaking.TierSet) storage _tierSets,
+        uint256 _nextTierSetId,
+        IStaking.Staker storage _staker,
+        uint256 _minStakingBoostAmount
+    ) external view returns (uint256 _rewards) {
+        if (_staker.amountStaked == 0) return 0;
+
+        RewardAccrual memory accrual = RewardAccrual({
+            timestamp: _staker.timeOfLastUpdate,
+            conditionId: _staker.conditionIdOfLastUpdate,
+            cumulativeRewardRatio: cumulativeRewardRatioAt(_stakingConditions, _staker.conditionIdOfLastUpdate, _staker.timeOfLastUpdate),
+            boostedRewardRatio: 0
+        });
+
+        if (_staker.amountStaked >= _minStakingBoostAmount && _staker.timeOfLastBoostUpdate != 0) {
+            // Each tier set only applies over the period it was in force, each of its multipliers from the time the staker reached that tier
+            for (uint256 tierSetId = tierSetIdAt(_tierSets, _nextTierSetId, accrual.timestamp); tierSetId < _nextTierSetId; tierSetId++) {
+                IStaking.TierSet storage tierSet = _tierSets[tierSetId];
+                uint256 tierSetEnd = tierSet.endTimestamp == 0 ? block.timestamp : Math.min(tierSet.endTimestamp, block.timestamp);
+                uint256 multiplier = 100;
+
+                for (uint256 i = 0; i < tierSet.tiers.length; i++) {
+                    uint256 tierStart = _staker.timeOfLastBoostUpdate + tierSet.tiers[i].minStakingDuration;
+                    if (tierStart > tierSetEnd) break;
+
+                    if (tierStart > accrual.timestamp) accrueRewardRatio(_stakingConditions, _nextConditionId, accrual, tierStart, multiplier);
+                    multiplier = tierSet.tiers[i].multiplier;
+                }
+                accrueRewardRatio(_stakingConditions, _nextConditionId, accrual, tierSetEnd, multiplier);
+            }
+        } else {
+            accrueRewardRatio(_stakingConditions, _nextConditionId, accrual, block.timestamp, 100);
+        }
+
+        _rewards = boostedRewards(accrual.boostedRewardRatio, _staker.amountStaked);
+    }
+
+    /// @dev Calculates the rewards of a locked position since its last update, at its lock multiplier until it unlocks.
+    /// @param _stakingConditions The staking conditions of the Staking contract, indexed by condition ID.
+    /// @param _nextConditionId ID of the next staking condition.
+    /// @param _position The locked position.
+    /// @return _rewards Rewards of the position.
+    function calculatePositionRewards(
+        mapping(uint256 => IStaking.StakingCondition) storage _stakingConditions,
+        uint256 _nextConditionId,
+        IStaking.Position storage _position
+    ) external view returns (uint256 _rewards) {
+        if (_position.amount == 0) return 0;
+
+        RewardAccrual memory accrual = RewardAccrual({
+            timestamp: _position.timeOfLastUpdate,
+            conditionId: _position.conditionIdOfLastUpdate,
+            cumulativeRewardRatio: cumulativeRewardRatioAt(_stakingConditions, _position.conditionIdOfLastUpdate, _position.timeOfLastUpdate),
+            boostedRewardRatio: 0
+        });
+
+        // The lock multiplier only applies until the position unlocks
+        if (accrual.timestamp < _position.unlockTimestamp) {
+            accrueRewardRatio(_stakingConditions, _nextConditionId, accrual, Math.min(_position.unlockTimestamp, block.timestamp), _position.multiplier);
+        }
+        accrueRewardRatio(_stakingConditions, _nextConditionId, accrual, block.timestamp, 100);
+
+        _rewards = boostedRewards(accrual.boostedRewardRatio, _position.amount);
+    }
+
+    /// @dev Credits the rewards of a staker in every reward stream, before their flexible stake changes.
+    /// @param _rewardStreams The reward streams of the Staking contract.
+    /// @param _streamStakers The rewards of each staker in each stream, indexed by stream ID.
+    /// @param _staker Address of the staker to update.
+    /// @param _amountStaked Flexible stake of the staker since their last update.
+    function updateStreamRewards(
+        IStaking.RewardStream[] storage _rewardStreams,
+        mapping(uint256 => mapping(address => IStaking.StreamStaker)) storage _streamStakers,
+        address _staker,
+        uint256 _amountStaked
+    ) public {
+        for (uint256 i = 0; i < _rewardStreams.length; i++) {
+            IStaking.StreamStaker storage streamStaker = _streamStakers[i][_staker];
+            uint256 cumulativeRewardRatio = streamCumulativeRewardRatio(_rewardStreams[i]);
+
+            streamStaker.unclaimedRewards += streamRewards(cumulativeRewardRatio - streamStaker.cumulativeRewardRatioPaid, _amountStaked);
+            streamStaker.cumulativeRewardRatioPaid = cumulativeRewardRatio;
+        }
+    }
+
+    /// @dev Sets a new staking condition, ending the last one at the start of the new one.
+    /// @param _stakingConditions The staking conditions of the Staking contract, indexed by condition ID.
+    /// @param _conditionId ID of the new condition, following the last one.
+    /// @param _numerator New reward ratio numerator.
+    /// @param _startTimestamp The start timestamp of the new condition, in the future for scheduled changes.
+    function setStakingCondition(
+        mapping(uint256 => IStaking.StakingCondition) storage _stakingConditions,
+        uint256 _conditionId,
+        uint256 _numerator,
+        uint256 _startTimestamp
+    ) internal {
+        if (_numerator == 0) revert IStaking.InvalidRewardRatio();
+
+        if (_conditionId > 0) {
+            IStaking.StakingCondition storage lastCondition = _stakingConditions[_conditionId - 1];
+            uint256 cumulativeRewardRatio = _conditionId > 1 ? _stakingConditions[_conditionId - 2].cumulativeRewardRatio : 0;
+            lastCondition.cumulativeRewardRatio = cumulativeRewardRatio + lastCondition.rewardRatioNumerator * (_startTimestamp - lastCondition.startTimestamp);
+            lastCondition.endTimestamp = SafeCast.toUint80(_startTimestamp);
+        }
+
+        _stakingConditions[_conditionId] = IStaking.StakingCondition({
+            rewardRatioNumerator: _numerator,
+            startTimestamp: SafeCast.toUint80(_startTimestamp),
+            endTimestamp: 0,
+            cumulativeRewardRatio: 0
+        });
+    }
+
+    /// @dev Ends the last tier set, if any, and starts an empty one at the same time.
+    /// @param _tierSets The tier sets of the Staking contract, indexed by tier set ID.
+    /// @param _tierSetId ID of the new tier set, following the last one.
+    /// @param _startTimestamp The start timestamp of the new tier set, in the future for scheduled changes.
+    function startTierSet(mapping(uint256 => IStaking.TierSet) storage _tierSets, uint256 _tierSetId, uint256 _startTimestamp) internal {
+        if (_tierSetId > 0) {
+            _tierSets[_tierSetId - 1].endTimestamp = SafeCast.toUint80(_startTimestamp);
+        }
+
+        _tierSets[_tierSetId].startTimestamp = SafeCast.toUint80(_startTimestamp);
+    }
+
+    /// @dev Notice delay in force now.
+    /// @param _noticeDelay The notice delay of the Staking contract.
+    /// @return _minNoticeDelay The scheduled delay once its timestamp has passed, the previous delay until then.
+    function minNoticeDelay(IStaking.NoticeDelay storage _noticeDelay) internal view returns (uint256 _minNoticeDelay) {
+        _minNoticeDelay = block.timestamp >= _noticeDelay.scheduledTimestamp ? _noticeDelay.scheduledDelay : _noticeDelay.delay;
+    }
+
+    /// @dev Finds the tier set in force at a timestamp, by binary search over the start timestamps of the tier sets.
+    /// @param _tierSets The tier sets of the Staking contract, indexed by tier set ID.
+    /// @param _nextTierSetId ID of the next tier set.
+    /// @param _timestamp Timestamp to look up.
+    /// @return _tierSetId ID of the last tier set starting at or before the timestamp.
+    function tierSetIdAt(
+        mapping(uint256 => IStaking.TierSet) storage _tierSets,
+        uint256 _nextTierSetId,
+        uint256 _timestamp
+    ) internal view returns (uint256 _tierSetId) {
+        uint256 high = _nextTierSetId - 1;
+        while (_tierSetId < high) {
+            uint256 mid = (_tierSetId + high + 1) / 2;
+            if (_tierSets[mid].startTimestamp <= _timestamp) {
+                _tierSetId = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+    }
+
+    /// @dev Cumulative reward ratio at a timestamp within a staking condition.
+    /// @param _stakingConditions The staking conditions of the Staking contract, indexed by condition ID.
+    /// @param _conditionId ID of the condition in force at the timestamp.
+    /// @param _timestamp Timestamp within the condition.
+    /// @return _cumulativeRewardRatio Sum of the numerators times the seconds they lasted, from the first condition up to the timestamp.
+    function cumulativeRewardRatioAt(
+        mapping(uint256 => IStaking.StakingCondition) storage _stakingConditions,
+        uint256 _conditionId,
+        uint256 _timestamp
+    ) internal view returns (uint256 _cumulativeRewardRatio) {
+        IStaking.StakingCondition storage condition = _stakingConditions[_conditionId];
+        if (_conditionId > 0) {
+            _cumulativeRewardRatio = _stakingConditions[_conditionId - 1].cumulativeRewardRatio;
+        }
+        _cumulativeRewardRatio += condition.rewardRatioNumerator * (_timestamp - condition.startTimestamp);
+    }
+
+    /// @dev Adds the reward ratio from the accrual timestamp up to a later timestamp at a multiplier, then moves the accrual there.
+    /// @param _stakingConditions The staking conditions of the Staking contract, indexed by condition ID.
+    /// @param _nextConditionId ID of the next staking condition.
+    /// @param _accrual Reward calculation to advance.
+    /// @param _timestamp Timestamp to advance to, at most the current block timestamp.
+    /// @param _multiplier Reward multiplier in force over the period.
+    function accrueRewardRatio(
+        mapping(uint256 => IStaking.StakingCondition) storage _stakingConditions,
+        uint256 _nextConditionId,
+        RewardAccrual memory _accrual,
+        uint256 _timestamp,
+        uint256 _multiplier
+    ) internal view {
+        _accrual.conditionId = conditionIdAt(_stakingConditions, _nextConditionId, _timestamp, _accrual.conditionId);
+        uint256 cumulativeRewardRatio = cumulativeRewardRatioAt(_stakingConditions, _accrual.conditionId, _timestamp);
+
+        _accrual.boostedRewardRatio += _multiplier * (cumulativeRewardRatio - _accrual.cumulativeRewardRatio);
+        _accrual.timestamp = _timestamp;
+        _accrual.cumulativeRewardRatio = cumulativeRewardRatio;
+    }
+
+    /// @dev Finds the condition in force at a timestamp, the last one or by binary search from a condition known to start before it.
+    /// @param _stakingConditions The staking conditions of the Staking contract, indexed by condition ID.
+    /// @param _nextConditionId ID of the next staking condition.
+    /// @param _timestamp Timestamp to look up.
+    /// @param _fromConditionId ID of a condition starting at or before the timestamp.
+    /// @return _conditionId ID of the last condition starting at or before the timestamp.
+    function conditionIdAt(
+        mapping(uint256 => IStaking.StakingCondition) storage _stakingConditions,
+        uint256 _nextConditionId,
+        uint256 _timestamp,
+        uint256 _fromConditionId
+    ) internal view returns (uint256 _conditionId) {
+        uint256 high = _nextConditionId - 1;
+        if (_stakingConditions[high].startTimestamp <= _timestamp) return high;
+        _conditionId = _fromConditionId;
+        while (_conditionId < high) {
+            uint256 mid = (_conditionId + high + 1) / 2;
+            if (_stakingConditions[mid].startTimestamp <= _timestamp) {
+                _conditionId = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+    }
+
+    /// @dev Cumulative reward ratio of a reward stream at the current time.
+    /// @param _stream Reward stream.
+    /// @return _cumulativeRewardRatio Sum of the numerators of the stream times the seconds they lasted since its creation.
+    function streamCumulativeRewardRatio(IStaking.RewardStream storage _stream) internal view returns (uint256 _cumulativeRewardRatio) {
+        _cumulativeRewardRatio = _stream.cumulativeRewardRatio + _stream.rewardRatioNumerator * (block.timestamp - _stream.timeOfLastUpdate);
+    }
+
+    /// @dev Converts a boosted reward ratio into rewards for an amount of tokens.
+    /// @param _boostedRewardRatio Cumulative reward ratio accrued, weighted by the multipliers in force.
+    /// @param _amount Amount of tokens earning the rewards.
+    /// @return _rewards Rewards for the amount, zero when the product overflows.
+    function boostedRewards(uint256 _boostedRewardRatio, uint256 _amount) internal pure returns (uint256 _rewards) {
+        (bool noOverflowProduct, uint256 rewardsProduct) = Math.tryMul(_boostedRewardRatio, _amount);
+
+        _rewards = noOverflowProduct ? rewardsProduct / (100 * TIME_UNIT * REWARD_RATIO_DENOMINATOR) : 0;
+    }
+
+    /// @dev Converts the cumulative reward ratio of a reward stream accrued since the last update of a staker into rewards.
+    /// @param _rewardRatio Cumulative reward ratio accrued, the streams paying at the base multiplier.
+    /// @param _amountStaked Flexible stake of the staker.
+    /// @return _rewards Rewards of the staker, zero when the product overflows.
+    function streamRewards(uint256 _rewardRatio, uint256 _amountStaked) internal pure returns (uint256 _rewards) {
+        (bool noOverflowProduct, uint256 rewardsProduct) = Math.tryMul(100 * _rewardRatio, _amountStaked);
+
+        _rewards = noOverflowProduct ? rewardsProduct / (100 * TIME_UNIT * REWARD_RATIO_DENOMINATOR) : 0;
+    }
+}
@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.24;
+
+/*
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+import {ERC20} from "@openzeppelin/contracts-v5/token/ERC20/ERC20.sol";
+import {IStaking} from "./IStaking.sol";
+
+/**
+ * @title Liquid Staking Receipt
+ * @notice Transferable receipt of the flexible stake in a Staking contract, minted on stake and burned on withdrawal.
+ * @dev Deployed by the Staking contract, the only account allowed to mint and burn, so that a balance always equals
+ *      the flexible stake of its holder. Transfers move the stake along through `IStaking.transferStake`.
+ *
+ * @author Lucidao
+ */
+contract StakingReceipt is ERC20 {
+    /// @dev The Staking contract issuing the receipts.
+    address public immutable staking;
+
+    /// @dev Decimals of the staking token.
+    uint8 private immutable receiptDecimals;
+
+    /// @dev Thrown when an account other than the Staking contract mints or burns receipts.
+    error CallerNotStaking();
+
+    /// @dev Restricts minting and burning to the Staking contract.
+    modifier onlyStaking() {
+        if (_msgSender() != staking) revert CallerNotStaking();
+        _;
+    }
+
+    /// @dev Sets the deployer as the Staking contract issuing the receipts.
+    constructor(string memory _name, string memory _symbol, uint8 _decimals) ERC20(_name, _symbol) {
+        staking = _msgSender();
+        receiptDecimals = _decimals;
+    }
+
+    /// @dev Mints receipts for tokens added to the flexible stake of an account.
+    /// @param _account Address of the staker.
+    /// @param _amount Amount of tokens staked.
+    function mint(address _account, uint256 _amount) external onlyStaking {
+        _mint(_account, _amount);
+    }
+
+    /// @dev Burns receipts for tokens removed from the flexible stake of an account.
+    /// @param _account Address of the staker.
+    /// @param _amount Amount of tokens withdrawn.
+    function burn(address _account, uint256 _amount) external onlyStaking {
+        _burn(_account, _amount);
+    }
+
+    /// @dev Receipts are denominated in staking tokens.
+    function decimals() public view override returns (uint8) {
+        return receiptDecimals;
+    }
+
+    /// @dev Moves the stake along with every transfer between two accounts, after the balance checks.
+    ///      Transfers to the Staking contract or to this contract are rejected, as the stake would be stuck there.
+    function _update(address _from, address _to, uint256 _value) internal override {
+        if (_from != address(0) && (_to == staking || _to == address(this))) revert ERC20InvalidReceiver(_to);
+        super._update(_from, _to, _value);
+        if (_from != address(0) && _to != address(0)) IStaking(staking).transferStake(_from, _to, _value);
+    }
+}
@@ -0,0 +1,174 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.24;
+
+/*
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+import {AccessControl} from "@openzeppelin/contracts-v5/access/AccessControl.sol";
+import {IERC20, SafeERC20} from "@openzeppelin/contracts-v5/token/ERC20/utils/SafeERC20.sol";
+import {Staking} from "./Staking.sol";
+
+/**
+ * @title Staking Roles
+ * @notice Owner of a Staking contract that splits its admin functions between roles.
+ * @dev Pausers can only pause, parameter managers set the reward ratio, the tiers, the lock options, the withdraw
+ *      cooldown, the reward streams, the stake-for allowlist, the cap and the boost minimum, and treasuries withdraw
+ *      the excess tokens to themselves. Unpausing, compounding for stakers, setting the notice delay of reward ratio
+ *      and tier changes, granting the roles and handing the ownership of the Staking contract over stay with the admin. An existing owner migrates by deploying this
+ *      contract, which makes it the admin, and transferring it the ownership of the Staking contract.
+ *
+ * @author Lucidao
+ */
+contract StakingRoles is AccessControl {
+    using SafeERC20 for IERC20;
+
+    /// @dev Role of the guardians that can pause the Staking contract.
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    /// @dev Role of the accounts that can set the parameters of the Staking contract.
+    bytes32 public constant PARAMETER_MANAGER_ROLE = keccak256("PARAMETER_MANAGER_ROLE");
+    /// @dev Role of the accounts that can withdraw the excess tokens of the Staking contract.
+    bytes32 public constant TREASURY_ROLE = keccak256("TREASURY_ROLE");
+
+    /// @dev The Staking contract owned by this contract.
+    Staking public immutable staking;
+
+    /// @dev Makes the deployer the admin and grants the roles to the given accounts.
+    constructor(Staking _staking, address[] memory _pausers, address[] memory _parameterManagers, address[] memory _treasuries) {
+        staking = _staking;
+        _grantRole(DEFAULT_ADMIN_ROLE, _msgSender());
+        _grantRoles(PAUSER_ROLE, _pausers);
+        _grantRoles(PARAMETER_MANAGER_ROLE, _parameterManagers);
+        _grantRoles(TREASURY_ROLE, _treasuries);
+    }
+
+    /// @dev Pauses the Staking contract.
+    function pause() external onlyRole(PAUSER_ROLE) {
+        staking.pause();
+    }
+
+    /// @dev Unpauses the Staking contract.
+    function unpause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        staking.unpause();
+    }
+
+    /// @dev Stakes the accumulated rewards of several stakers, skipping those without rewards.
+    /// @param _stakers Addresses of the stakers to compound the rewards of.
+    function compoundFor(address[] calldata _stakers) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        staking.compoundFor(_stakers);
+    }
+
+    /// @dev Withdraws excess tokens of the Staking contract and sends them to the caller, forwarding the tokens actually
+    ///      received for fee-on-transfer tokens.
+    /// @param _tokenAddress The address of the token to withdraw.
+    /// @param _amount The amount of tokens to withdraw.
+    function withdrawExcessTokens(address _tokenAddress, uint256 _amount) external onlyRole(TREASURY_ROLE) {
+        uint256 balanceBefore = IERC20(_tokenAddress).balanceOf(address(this));
+        staking.withdrawExcessTokens(_tokenAddress, _amount);
+        IERC20(_tokenAddress).safeTransfer(_msgSender(), IERC20(_tokenAddress).balanceOf(address(this)) - balanceBefore);
+    }
+
+    /// @dev Sets the notice delay of reward ratio and tier changes, which parameter managers cannot shorten.
+    /// @param _minNoticeDelay The new notice delay in seconds, zero to apply changes at once.
+    function setMinNoticeDelay(uint256 _minNoticeDelay) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        staking.setMinNoticeDelay(_minNoticeDelay);
+    }
+
+    /// @dev Hands the ownership of the Staking contract over, ending the roles.
+    /// @param _newOwner The new owner of the Staking contract.
+    function transferStakingOwnership(address _newOwner) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        staking.transferOwnership(_newOwner);
+    }
+
+    /// @dev Updates the reward ratio used in reward calculations.
+    /// @param _numerator The new numerator for the reward ratio.
+    function setRewardRatio(uint256 _numerator) external onlyRole(PARAMETER_MANAGER_ROLE) {
+        staking.setRewardRatio(_numerator);
+    }
+
+    /// @dev Cancels the scheduled reward ratio change before it applies.
+    function cancelScheduledRewardRatio() external onlyRole(PARAMETER_MANAGER_ROLE) {
+        staking.cancelScheduledRewardRatio();
+    }
+
+    /// @dev Defines new tiers for staking rewards.
+    /// @param _durations Array containing the minimum durations for each tier.
+    /// @param _multipliers Array containing the reward multipliers for each tier.
+    function setTiers(uint256[] calldata _durations, uint256[] calldata _multipliers) external onlyRole(PARAMETER_MANAGER_ROLE) {
+        staking.setTiers(_durations, _multipliers);
+    }
+
+    /// @dev Cancels the scheduled tiers before they apply.
+    function cancelScheduledTiers() external onlyRole(PARAMETER_MANAGER_ROLE) {
+        staking.cancelScheduledTiers();
+    }
+
+    /// @dev Defines a new lock table for the positions opened from now on.
+    /// @param _durations Array containing the lock durations, empty to stop opening positions.
+    /// @param _multipliers Array containing the reward multipliers for each lock duration.
+    function setLockOptions(uint256[] calldata _durations, uint256[] calldata _multipliers) external onlyRole(PARAMETER_MANAGER_ROLE) {
+        staking.setLockOptions(_durations, _multipliers);
+    }
+
+    /// @dev Sets the time stakers wait between a withdraw request and its completion.
+    /// @param _withdrawCooldown The new withdraw cooldown in seconds.
+    function setWithdrawCooldown(uint256 _withdrawCooldown) external onlyRole(PARAMETER_MANAGER_ROLE) {
+        staking.setWithdrawCooldown(_withdrawCooldown);
+    }
+
+    /// @dev Adds a reward stream paid in `_token` at a flat rate on the flexible stake.
+    /// @param _token The reward token.
+    /// @param _numerator The reward ratio numerator of the stream.
+    function addRewardStream(address _token, uint256 _numerator) external onlyRole(PARAMETER_MANAGER_ROLE) {
+        staking.addRewardStream(_token, _numerator);
+    }
+
+    /// @dev Updates the reward ratio of a reward stream.
+    /// @param _streamId The ID of the reward stream.
+    /// @param _numerator The new reward ratio numerator of the stream, zero to stop the stream.
+    function setRewardStreamRatio(uint256 _streamId, uint256 _numerator) external onlyRole(PARAMETER_MANAGER_ROLE) {
+        staking.setRewardStreamRatio(_streamId, _numerator);
+    }
+
+    /// @dev Turns on or off the allowlist of accounts that can stake on behalf of others.
+    /// @param _enabled Whether only allowlisted accounts can stake for others.
+    function setStakeForAllowlistEnabled(bool _enabled) external onlyRole(PARAMETER_MANAGER_ROLE) {
+        staking.setStakeForAllowlistEnabled(_enabled);
+    }
+
+    /// @dev Adds an account to or removes it from the allowlist of accounts that can stake on behalf of others.
+    /// @param _account The address of the account.
+    /// @param _allowed Whether the account can stake for others while the allowlist is on.
+    function setStakeForAllowed(address _account, bool _allowed) external onlyRole(PARAMETER_MANAGER_ROLE) {
+        staking.setStakeForAllowed(_account, _allowed);
+    }
+
+    /// @dev Sets the maximum cap for the total amount of tokens that can be staked.
+    /// @param _stakingTokenCap The new staking token cap.
+    function setStakingTokenCap(uint256 _stakingTokenCap) external onlyRole(PARAMETER_MANAGER_ROLE) {
+        staking.setStakingTokenCap(_stakingTokenCap);
+    }
+
+    /// @dev Sets the minimum staking amount required to start receiving boost rewards.
+    /// @param _minStakingBoostAmount The minimum amount of tokens required to activate the boost.
+    function setMinStakingBoostAmount(uint256 _minStakingBoostAmount) external onlyRole(PARAMETER_MANAGER_ROLE) {
+        staking.setMinStakingBoostAmount(_minStakingBoostAmount);
+    }
+
+    /// @dev Grants a role to each of the given accounts.
+    function _grantRoles(bytes32 _role, address[] memory _accounts) internal {
+        for (uint256 i = 0; i < _accounts.length; i++) {
+            _grantRole(_role, _accounts[i]);
+        }
+    }
+}
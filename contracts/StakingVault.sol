@@ -0,0 +1,193 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.24;
+
+/*
+   Licensed under the Apache License, Version 2.0 (the "License");
+   you may not use this file except in compliance with the License.
+   You may obtain a copy of the License at
+
+       http://www.apache.org/licenses/LICENSE-2.0
+
+   Unless required by applicable law or agreed to in writing, software
+   distributed under the License is distributed on an "AS IS" BASIS,
+   WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+   See the License for the specific language governing permissions and
+   limitations under the License.
+*/
+
+import {ERC20} from "@openzeppelin/contracts-v5/token/ERC20/ERC20.sol";
+import {ERC4626} from "@openzeppelin/contracts-v5/token/ERC20/extensions/ERC4626.sol";
+import {IERC20, SafeERC20} from "@openzeppelin/contracts-v5/token/ERC20/utils/SafeERC20.sol";
+import {Math} from "@openzeppelin/contracts-v5/utils/math/Math.sol";
+import {IStaking} from "./IStaking.sol";
+import {Staking} from "./Staking.sol";
+
+/**
+ * @title Auto-compounding Staking Vault
+ * @notice ERC-4626 vault holding a single flexible stake in a Staking contract and compounding its rewards.
+ * @dev Deposits are staked right away and withdrawals go through `Staking.withdraw`, so depositors share the tier
+ *      multiplier of the vault, and every withdrawal restarts its boost. Rewards are compounded before each deposit,
+ *      mint, withdrawal and redemption, and by anyone through `harvest`. Rewards that cannot be compounded yet stay
+ *      in the Staking contract and are not counted in `totalAssets` until a later harvest succeeds.
+ *      The reward streams of the vault, paid in other tokens, cannot be compounded: `harvest` claims them once the
+ *      staking token rewards are compounded and sends them to the stream rewards recipient set at deployment.
+ *
+ * @author Lucidao
+ */
+contract StakingVault is ERC4626 {
+    using SafeERC20 for IERC20;
+
+    /// @dev The Staking contract holding the stake of the vault.
+    Staking public immutable staking;
+
+    /// @dev Address receiving the reward stream tokens of the vault, e.g. a distributor paying them to the depositors.
+    address public immutable streamRewardsRecipient;
+
+    /// @dev Emitted when the rewards of the vault are added to its stake.
+    event Harvested(uint256 rewards);
+
+    /// @dev Emitted when the rewards of a reward stream are sent to the stream rewards recipient.
+    event StreamRewardsForwarded(address indexed token, uint256 amount);
+
+    /// @dev Thrown when compounding fails for a reason other than missing rewards or the staking cap.
+    error HarvestFailed(bytes reason);
+
+    /// @dev Thrown when the stream rewards recipient is the zero address.
+    error InvalidStreamRewardsRecipient();
+
+    /// @dev Approves the Staking contract to pull the deposits of the vault.
+    constructor(
+        Staking _staking,
+        string memory _name,
+        string memory _symbol,
+        address _streamRewardsRecipient
+    ) ERC4626(IERC20(_staking.stakingToken())) ERC20(_name, _symbol) {
+        if (_streamRewardsRecipient == address(0)) revert InvalidStreamRewardsRecipient();
+        staking = _staking;
+        streamRewardsRecipient = _streamRewardsRecipient;
+        IERC20(asset()).forceApprove(address(_staking), type(uint256).max);
+    }
+
+    /// @dev Compounds the rewards of the vault, skipping them while they are missing from the Staking contract,
+    ///      then sends its reward stream tokens to the stream rewards recipient.
+    /// @return _rewards The amount of rewards added to the stake.
+    function harvest() external returns (uint256 _rewards) {
+        _rewards = _harvest();
+        _forwardStreamRewards();
+    }
+
+    /// @dev Compounds the rewards before pricing the deposit.
+    function deposit(uint256 _assets, address _receiver) public override returns (uint256) {
+        _harvest();
+        return super.deposit(_assets, _receiver);
+    }
+
+    /// @dev Compounds the rewards before pricing the shares.
+    function mint(uint256 _shares, address _receiver) public override returns (uint256) {
+        _harvest();
+        return super.mint(_shares, _receiver);
+    }
+
+    /// @dev Compounds the rewards before pricing the withdrawal.
+    function withdraw(uint256 _assets, address _receiver, address _owner) public override returns (uint256) {
+        _harvest();
+        return super.withdraw(_assets, _receiver, _owner);
+    }
+
+    /// @dev Compounds the rewards before pricing the shares.
+    function redeem(uint256 _shares, address _receiver, address _owner) public override returns (uint256) {
+        _harvest();
+        return super.redeem(_shares, _receiver, _owner);
+    }
+
+    /// @dev The flexible stake of the vault, without the rewards not compounded yet.
+    function totalAssets() public view override returns (uint256) {
+        (uint256 _tokensStaked, ) = staking.getStakeInfo(address(this));
+        return _tokensStaked;
+    }
+
+    /// @dev Room left under the staking token cap, nothing while the Staking contract is paused.
+    function maxDeposit(address) public view override returns (uint256) {
+        if (staking.paused()) return 0;
+        uint256 _staked = staking.stakingTokenBalance() + staking.lockedTokenBalance();
+        uint256 _cap = staking.stakingTokenCap();
+        return _cap > _staked ? _cap - _staked : 0;
+    }
+
+    /// @dev Shares of the room left under the staking token cap.
+    function maxMint(address _receiver) public view override returns (uint256) {
+        return _convertToShares(maxDeposit(_receiver), Math.Rounding.Floor);
+    }
+
+    /// @dev Nothing while the Staking contract is paused or has a withdraw cooldown.
+    function maxWithdraw(address _owner) public view override returns (uint256) {
+        return _withdrawable() ? super.maxWithdraw(_owner) : 0;
+    }
+
+    /// @dev Nothing while the Staking contract is paused or has a withdraw cooldown.
+    function maxRedeem(address _owner) public view override returns (uint256) {
+        return _withdrawable() ? super.maxRedeem(_owner) : 0;
+    }
+
+    /// @dev Stakes the deposited assets.
+    function _deposit(address _caller, address _receiver, uint256 _assets, uint256 _shares) internal override {
+        super._deposit(_caller, _receiver, _assets, _shares);
+        if (_assets > 0) staking.stake(_assets);
+    }
+
+    /// @dev Withdraws the assets from the stake, restarting the boost of the vault.
+    function _withdraw(address _caller, address _receiver, address _owner, uint256 _assets, uint256 _shares) internal override {
+        if (_assets > 0) staking.withdraw(_assets);
+        super._withdraw(_caller, _receiver, _owner, _assets, _shares);
+    }
+
+    /// @dev Logic for compounding the rewards of the vault.
+    /// @return _rewards The amount of rewards added to the stake.
+    function _harvest() internal returns (uint256 _rewards) {
+        if (staking.paused()) return 0;
+
+        uint256 _totalAssets = totalAssets();
+        try staking.compoundRewards() {
+            _rewards = totalAssets() - _totalAssets;
+            emit Harvested(_rewards);
+        } catch (bytes memory _reason) {
+            bytes4 _selector = bytes4(_reason);
+            if (
+                _selector != IStaking.NoRewards.selector &&
+                _selector != IStaking.MissingRewards.selector &&
+                _selector != IStaking.CannotStakeMoreThanCap.selector
+            ) revert HarvestFailed(_reason);
+        }
+    }
+
+    /// @dev Logic for claiming the reward streams of the vault and sending them to the stream rewards recipient.
+    ///      Skipped while staking token rewards are left, which `Staking.claimRewards` would pay out instead of compounding.
+    function _forwardStreamRewards() internal {
+        if (staking.paused()) return;
+        (, uint256 _pendingRewards) = staking.getStakeInfo(address(this));
+        if (_pendingRewards > 0) return;
+
+        (address[] memory _tokens, uint256[] memory _streamRewards) = staking.getStreamRewards(address(this));
+        uint256 _totalStreamRewards;
+        for (uint256 i = 0; i < _streamRewards.length; i++) _totalStreamRewards += _streamRewards[i];
+        if (_totalStreamRewards == 0) return;
+
+        try staking.claimRewards() {} catch (bytes memory _reason) {
+            // Reverts without any stream funded enough to pay the vault
+            if (bytes4(_reason) != IStaking.NoRewards.selector) revert HarvestFailed(_reason);
+        }
+
+        for (uint256 i = 0; i < _tokens.length; i++) {
+            uint256 _amount = IERC20(_tokens[i]).balanceOf(address(this));
+            if (_amount == 0) continue;
+
+            IERC20(_tokens[i]).safeTransfer(streamRewardsRecipient, _amount);
+            emit StreamRewardsForwarded(_tokens[i], _amount);
+        }
+    }
+
+    /// @dev Whether `Staking.withdraw` currently accepts withdrawals.
+    function _withdrawable() internal view returns (bool) {
+        return !staking.paused() && staking.withdrawCooldown() == 0;
+    }
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts-v5/token/ERC20/ERC20.sol";
+
+contract FeeOnTransferToken is ERC20 {
+    constructor() ERC20("FeeOnTransferToken", "FOT") {
+        _mint(msg.sender, 1e27);
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        if (from == address(0) || to == address(0)) return super._update(from, to, value);
+
+        uint256 fee = value / 100;
+        super._update(from, address(0), fee);
+        super._update(from, to, value - fee);
+    }
+}
@@ -1,7 +1,9 @@
-import { HardhatUserConfig } from "hardhat/config";
+import { extendEnvironment, HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
-import { myDotenvConfig } from "./scripts/envUtils";
+import { getEnv, myDotenvConfig, validateEnv } from "./scripts/envUtils";
 import "@openzeppelin/hardhat-upgrades";
+import "./tasks/staking";
+import "./tasks/deploy";
 
 myDotenvConfig();
 
@@ -11,9 +13,11 @@ const chainIds = {
   polygonMainnet: 137,
 };
 
-const mnemonic = process.env.MNEMONIC!;
-const polygonscanApiKey = process.env.POLYGONSCAN_API_KEY!;
-const alchemyApiKey = process.env.ALCHEMY_API_KEY!;
+// The network is only known once the environment is created, which happens before any task runs
+extendEnvironment((hre) => validateEnv(hre.network.name));
+
+const polygonscanApiKey = getEnv("POLYGONSCAN_API_KEY", "polygonMainnet");
+const alchemyApiKey = getEnv("ALCHEMY_API_KEY", "polygonMainnet");
 
 const config: HardhatUserConfig = {
   solidity: {
@@ -33,9 +37,9 @@ const config: HardhatUserConfig = {
   networks: {
     hardhat: {
       accounts: {
-        mnemonic: mnemonic,
+        mnemonic: getEnv("MNEMONIC", "hardhat"),
         accountsBalance: "90000000000000000000000",
-        count: 10,
+        count: 52,
       },
       chainId: chainIds.hardhat,
       gas: 950000000,
@@ -45,12 +49,12 @@ const config: HardhatUserConfig = {
     polygonTestnet: {
       url: `https://polygon-amoy.g.alchemy.com/v2/${alchemyApiKey}`,
       chainId: chainIds.polygonTestnet,
-      accounts: { mnemonic: mnemonic },
+      accounts: { mnemonic: getEnv("MNEMONIC", "polygonTestnet") },
     },
     polygonMainnet: {
       url: `https://polygon-mainnet.g.alchemy.com/v2/${alchemyApiKey}`,
       chainId: chainIds.polygonMainnet,
-      accounts: { mnemonic: mnemonic },
+      accounts: { mnemonic: getEnv("MNEMONIC", "polygonMainnet") },
     },
   },
   etherscan: {
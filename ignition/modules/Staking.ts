@@ -1,26 +1,34 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 import { ethers } from "hardhat";
-import { minStakingBoostAmount as minStakingBoostAmountConfig, rewardRatioNumerator as rewardRatioNumeratorConfig, stakingTokenCap as stakingTokenCapConfig, tiersDurations, tiersMultipliers } from "../../config/config";
 
+// Parameters come from the network deployment profile through `staking:deploy`, which scales the amounts by the token decimals
 const StakingModule = buildModule("StakingModule", (m) => {
-  if (!process.env.LCD_ADDRESS) {
-    throw new Error("Missing env variable: LCD_ADDRESS");
-  }
-
   ethers.getSigners().then(([deployer]) => {
     console.log(`Deploying contracts with the account: ${deployer.address}`);
   });
 
-  const stakingTokenAddress = m.getParameter("_stakingToken", process.env.LCD_ADDRESS);
-  const rewardRatioNumerator = m.getParameter("_rewardRatioNumerator", rewardRatioNumeratorConfig);
-  const stakingTokenCap = m.getParameter("_stakingTokenCap", stakingTokenCapConfig(18n));
-  const minStakingBoostAmount = m.getParameter("_minStakingBoostAmount", minStakingBoostAmountConfig(18n));
+  const stakingTokenAddress = m.getParameter<string>("_stakingToken");
+  const rewardRatioNumerator = m.getParameter<bigint>("_rewardRatioNumerator");
+  const stakingTokenCap = m.getParameter<bigint>("_stakingTokenCap");
+  const minStakingBoostAmount = m.getParameter<bigint>("_minStakingBoostAmount");
+  const tiersDurations = m.getParameter<number[]>("_tiersDurations");
+  const tiersMultipliers = m.getParameter<number[]>("_tiersMultipliers");
+  const pausers = m.getParameter<string[]>("_pausers");
+  const parameterManagers = m.getParameter<string[]>("_parameterManagers");
+  const treasuries = m.getParameter<string[]>("_treasuries");
+
+  const stakingParameters = m.library("StakingParameters");
+  const staking = m.contract("Staking", [stakingTokenAddress, rewardRatioNumerator, stakingTokenCap, minStakingBoostAmount], {
+    libraries: { StakingParameters: stakingParameters },
+  });
 
-  const staking = m.contract("Staking", [stakingTokenAddress, rewardRatioNumerator, stakingTokenCap, minStakingBoostAmount]);
+  const setTiers = m.call(staking, "setTiers", [tiersDurations, tiersMultipliers]);
 
-  m.call(staking, "setTiers", [tiersDurations, tiersMultipliers]);
+  // The deployer stays the admin of the roles and hands them the ownership once the tiers are set
+  const stakingRoles = m.contract("StakingRoles", [staking, pausers, parameterManagers, treasuries]);
+  m.call(staking, "transferOwnership", [stakingRoles], { after: [setTiers] });
 
-  return { staking };
+  return { staking, stakingRoles };
 });
 
 export default StakingModule;
@@ -0,0 +1,17 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Migration of a deployed Staking contract to the roles, sent from its current owner, which becomes the admin of the roles
+const StakingRolesModule = buildModule("StakingRolesModule", (m) => {
+  const stakingAddress = m.getParameter<string>("_staking");
+  const pausers = m.getParameter<string[]>("_pausers");
+  const parameterManagers = m.getParameter<string[]>("_parameterManagers");
+  const treasuries = m.getParameter<string[]>("_treasuries");
+
+  const staking = m.contractAt("Staking", stakingAddress);
+  const stakingRoles = m.contract("StakingRoles", [staking, pausers, parameterManagers, treasuries]);
+  m.call(staking, "transferOwnership", [stakingRoles]);
+
+  return { staking, stakingRoles };
+});
+
+export default StakingRolesModule;
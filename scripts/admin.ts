@@ -0,0 +1,421 @@
+import { formatUnits, Signer, ZeroAddress } from "ethers";
+import { maxMultiplier, maxNoticeDelay } from "../config/config";
+import { IERC20Metadata, Staking, StakingRoles__factory } from "../typechain-types";
+import { getTiers } from "../sdk/tiers";
+import { errors } from "./utils";
+
+export interface StateChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface AdminOperation {
+  method:
+    | "setRewardRatio"
+    | "cancelScheduledRewardRatio"
+    | "setTiers"
+    | "cancelScheduledTiers"
+    | "setMinNoticeDelay"
+    | "setLockOptions"
+    | "setWithdrawCooldown"
+    | "setStakeForAllowlistEnabled"
+    | "setStakeForAllowed"
+    | "addRewardStream"
+    | "setRewardStreamRatio"
+    | "setStakingTokenCap"
+    | "setMinStakingBoostAmount"
+    | "pause"
+    | "unpause"
+    | "withdrawExcessTokens"
+    | "compoundFor";
+  args: unknown[];
+  changes: StateChange[];
+}
+
+export type StakingRole = "PAUSER_ROLE" | "PARAMETER_MANAGER_ROLE" | "TREASURY_ROLE" | "DEFAULT_ADMIN_ROLE";
+
+/** Role of `StakingRoles` that can send each operation once it owns the Staking contract. */
+export const operationRoles: Record<AdminOperation["method"], StakingRole> = {
+  setRewardRatio: "PARAMETER_MANAGER_ROLE",
+  cancelScheduledRewardRatio: "PARAMETER_MANAGER_ROLE",
+  setTiers: "PARAMETER_MANAGER_ROLE",
+  cancelScheduledTiers: "PARAMETER_MANAGER_ROLE",
+  setMinNoticeDelay: "DEFAULT_ADMIN_ROLE",
+  setLockOptions: "PARAMETER_MANAGER_ROLE",
+  setWithdrawCooldown: "PARAMETER_MANAGER_ROLE",
+  setStakeForAllowlistEnabled: "PARAMETER_MANAGER_ROLE",
+  setStakeForAllowed: "PARAMETER_MANAGER_ROLE",
+  addRewardStream: "PARAMETER_MANAGER_ROLE",
+  setRewardStreamRatio: "PARAMETER_MANAGER_ROLE",
+  setStakingTokenCap: "PARAMETER_MANAGER_ROLE",
+  setMinStakingBoostAmount: "PARAMETER_MANAGER_ROLE",
+  pause: "PAUSER_ROLE",
+  unpause: "DEFAULT_ADMIN_ROLE",
+  withdrawExcessTokens: "TREASURY_ROLE",
+  compoundFor: "DEFAULT_ADMIN_ROLE",
+};
+
+/** Thrown when an admin operation would revert on-chain, named after the contract custom error. */
+export class AdminValidationError extends Error {
+  constructor(public readonly errorName: string, message: string) {
+    super(`${errorName}: ${message}`);
+  }
+}
+
+export const validateRewardRatio = (numerator: bigint, currentNumerator: bigint) => {
+  if (numerator == 0n) throw new AdminValidationError(errors.invalidRewardRatio, "the reward ratio numerator cannot be zero");
+  if (numerator == currentNumerator) throw new AdminValidationError(errors.invalidRewardRatio, `the reward ratio numerator is already ${numerator}`);
+};
+
+const validateMultipliers = (multipliers: bigint[], label: string) => {
+  multipliers.forEach((multiplier, i) => {
+    if (multiplier < 100n || multiplier > maxMultiplier) {
+      throw new AdminValidationError(errors.invalidMultiplier, `${label} ${i} multiplier ${multiplier} is not between 100 and ${maxMultiplier}`);
+    }
+  });
+};
+
+export const validateTiers = (durations: bigint[], multipliers: bigint[]) => {
+  if (durations.length != multipliers.length || durations.length == 0) {
+    throw new AdminValidationError(errors.invalidTiersLength, `got ${durations.length} durations and ${multipliers.length} multipliers`);
+  }
+  for (let i = 1; i < durations.length; i++) {
+    if (durations[i] <= durations[i - 1]) {
+      throw new AdminValidationError(errors.invalidTiersDurations, `tier ${i} duration ${durations[i]} is not greater than ${durations[i - 1]}`);
+    }
+  }
+  validateMultipliers(multipliers, "tier");
+};
+
+export const validateLockOptions = (durations: bigint[], multipliers: bigint[]) => {
+  if (durations.length != multipliers.length) {
+    throw new AdminValidationError(errors.invalidLockOptionsLength, `got ${durations.length} durations and ${multipliers.length} multipliers`);
+  }
+  for (let i = 0; i < durations.length; i++) {
+    const previous = i == 0 ? 0n : durations[i - 1];
+    if (durations[i] <= previous) {
+      throw new AdminValidationError(errors.invalidLockDurations, `lock ${i} duration ${durations[i]} is not greater than ${previous}`);
+    }
+  }
+  validateMultipliers(multipliers, "lock");
+};
+
+export const validateMinNoticeDelay = (delay: bigint) => {
+  if (delay > maxNoticeDelay) throw new AdminValidationError(errors.invalidNoticeDelay, `the notice delay cannot exceed ${maxNoticeDelay}s`);
+};
+
+export const validateMinStakingBoostAmount = (amount: bigint) => {
+  if (amount == 0n) throw new AdminValidationError(errors.invalidAmount, "the minimum staking boost amount cannot be zero");
+};
+
+/** Every tier set since deployment with the period it was in force, the last one being the current or the scheduled set. */
+export const getTierSets = async (staking: Staking) => {
+  const tierSets: { startTimestamp: bigint; endTimestamp: bigint; tiers: { minStakingDuration: bigint; multiplier: bigint }[] }[] = [];
+  const count = await staking.getTierSetCount();
+  for (let tierSetId = 0n; tierSetId < count; tierSetId++) {
+    const { startTimestamp, endTimestamp, tiers } = await staking.getTierSet(tierSetId);
+    tierSets.push({ startTimestamp, endTimestamp, tiers: tiers.map(({ minStakingDuration, multiplier }) => ({ minStakingDuration, multiplier })) });
+  }
+  return tierSets;
+};
+
+/** The tier set waiting for its effective timestamp, undefined when no tier change is scheduled. */
+export const getScheduledTierSet = async (staking: Staking) => {
+  const { timestamp } = (await staking.runner!.provider!.getBlock("latest"))!;
+  const tierSet = await staking.getTierSet((await staking.getTierSetCount()) - 1n);
+  return tierSet.startTimestamp > BigInt(timestamp) ? tierSet : undefined;
+};
+
+/** When a change sent now applies, given the notice delay of the contract. */
+const formatEffectiveTime = (minNoticeDelay: bigint) => (minNoticeDelay == 0n ? "" : ` in ${minNoticeDelay}s`);
+
+export const formatTiers = (tiers: { minStakingDuration: bigint; multiplier: bigint }[]) =>
+  tiers.length == 0 ? "none" : tiers.map(({ minStakingDuration, multiplier }) => `${minStakingDuration}s x${multiplier}`).join(", ");
+
+export const formatLockOptions = (lockOptions: { duration: bigint; multiplier: bigint }[]) =>
+  lockOptions.length == 0 ? "none" : lockOptions.map(({ duration, multiplier }) => `${duration}s x${multiplier}`).join(", ");
+
+export const prepareSetRewardRatio = async (staking: Staking, numerator: bigint): Promise<AdminOperation> => {
+  const [currentNumerator, denominator] = await staking.getRewardRatio();
+  const [scheduledNumerator] = await staking.getScheduledRewardRatio();
+  if (scheduledNumerator != 0n) throw new AdminValidationError(errors.changeAlreadyScheduled, `a reward ratio of ${scheduledNumerator} is already scheduled`);
+  validateRewardRatio(numerator, currentNumerator);
+  const effectiveTime = formatEffectiveTime(await staking.minNoticeDelay());
+
+  return {
+    method: "setRewardRatio",
+    args: [numerator],
+    changes: [{ field: "rewardRatio", before: `${currentNumerator}/${denominator}`, after: `${numerator}/${denominator}${effectiveTime}` }],
+  };
+};
+
+export const prepareCancelScheduledRewardRatio = async (staking: Staking): Promise<AdminOperation> => {
+  const [scheduledNumerator, effectiveTimestamp] = await staking.getScheduledRewardRatio();
+  if (scheduledNumerator == 0n) throw new AdminValidationError(errors.noScheduledChange, "no reward ratio change is scheduled");
+
+  return {
+    method: "cancelScheduledRewardRatio",
+    args: [],
+    changes: [{ field: "scheduledRewardRatio", before: `${scheduledNumerator} at ${effectiveTimestamp}`, after: "none" }],
+  };
+};
+
+export const prepareSetTiers = async (staking: Staking, durations: bigint[], multipliers: bigint[]): Promise<AdminOperation> => {
+  if (await getScheduledTierSet(staking)) throw new AdminValidationError(errors.changeAlreadyScheduled, "a tier change is already scheduled");
+  validateTiers(durations, multipliers);
+  const effectiveTime = formatEffectiveTime(await staking.minNoticeDelay());
+
+  return {
+    method: "setTiers",
+    args: [durations, multipliers],
+    changes: [
+      {
+        field: "tiers",
+        before: formatTiers(await getTiers(staking)),
+        after: `${formatTiers(durations.map((minStakingDuration, i) => ({ minStakingDuration, multiplier: multipliers[i] })))}${effectiveTime}`,
+      },
+    ],
+  };
+};
+
+export const prepareCancelScheduledTiers = async (staking: Staking): Promise<AdminOperation> => {
+  const scheduledTierSet = await getScheduledTierSet(staking);
+  if (!scheduledTierSet) throw new AdminValidationError(errors.noScheduledChange, "no tier change is scheduled");
+
+  return {
+    method: "cancelScheduledTiers",
+    args: [],
+    changes: [{ field: "scheduledTiers", before: `${formatTiers(scheduledTierSet.tiers)} at ${scheduledTierSet.startTimestamp}`, after: "none" }],
+  };
+};
+
+export const prepareSetMinNoticeDelay = async (staking: Staking, delay: bigint): Promise<AdminOperation> => {
+  validateMinNoticeDelay(delay);
+  // The new delay only applies once the current one has passed
+  const minNoticeDelay = await staking.minNoticeDelay();
+
+  return {
+    method: "setMinNoticeDelay",
+    args: [delay],
+    changes: [{ field: "minNoticeDelay", before: `${minNoticeDelay}s`, after: `${delay}s${formatEffectiveTime(minNoticeDelay)}` }],
+  };
+};
+
+export const prepareSetLockOptions = async (staking: Staking, durations: bigint[], multipliers: bigint[]): Promise<AdminOperation> => {
+  validateLockOptions(durations, multipliers);
+
+  return {
+    method: "setLockOptions",
+    args: [durations, multipliers],
+    changes: [
+      {
+        field: "lockOptions",
+        before: formatLockOptions(await staking.getLockOptions()),
+        after: formatLockOptions(durations.map((duration, i) => ({ duration, multiplier: multipliers[i] }))),
+      },
+    ],
+  };
+};
+
+export const prepareSetWithdrawCooldown = async (staking: Staking, cooldown: bigint): Promise<AdminOperation> => {
+  return {
+    method: "setWithdrawCooldown",
+    args: [cooldown],
+    changes: [{ field: "withdrawCooldown", before: `${await staking.withdrawCooldown()}s`, after: `${cooldown}s` }],
+  };
+};
+
+export const prepareSetStakeForAllowlistEnabled = async (staking: Staking, enabled: boolean): Promise<AdminOperation> => {
+  return {
+    method: "setStakeForAllowlistEnabled",
+    args: [enabled],
+    changes: [{ field: "stakeForAllowlistEnabled", before: `${await staking.stakeForAllowlistEnabled()}`, after: `${enabled}` }],
+  };
+};
+
+export const prepareSetStakeForAllowed = async (staking: Staking, account: string, allowed: boolean): Promise<AdminOperation> => {
+  return {
+    method: "setStakeForAllowed",
+    args: [account, allowed],
+    changes: [{ field: `stakeForAllowlist(${account.toLowerCase()})`, before: `${await staking.stakeForAllowlist(account)}`, after: `${allowed}` }],
+  };
+};
+
+export const prepareAddRewardStream = async (staking: Staking, token: string, numerator: bigint): Promise<AdminOperation> => {
+  const rewardStreams = await staking.getRewardStreams();
+  if (token == ZeroAddress) throw new AdminValidationError(errors.invalidTokenAddress, "the token address cannot be zero");
+  if (token.toLowerCase() == (await staking.stakingToken()).toLowerCase()) {
+    throw new AdminValidationError(errors.invalidTokenAddress, "the staking token cannot be a reward stream token");
+  }
+  if (rewardStreams.some((stream) => stream.token.toLowerCase() == token.toLowerCase())) {
+    throw new AdminValidationError(errors.invalidTokenAddress, `a reward stream already pays ${token}`);
+  }
+  if (numerator == 0n) throw new AdminValidationError(errors.invalidRewardRatio, "the reward ratio cannot be zero");
+  if (BigInt(rewardStreams.length) >= (await staking.MAX_REWARD_STREAMS())) {
+    throw new AdminValidationError(errors.tooManyRewardStreams, `at most ${await staking.MAX_REWARD_STREAMS()} reward streams are allowed`);
+  }
+
+  return {
+    method: "addRewardStream",
+    args: [token, numerator],
+    changes: [{ field: `rewardStream(${rewardStreams.length})`, before: "none", after: `${token.toLowerCase()} ratio ${numerator}` }],
+  };
+};
+
+export const prepareSetRewardStreamRatio = async (staking: Staking, streamId: bigint, numerator: bigint): Promise<AdminOperation> => {
+  const rewardStreams = await staking.getRewardStreams();
+  if (streamId >= BigInt(rewardStreams.length)) throw new AdminValidationError(errors.invalidRewardStreamId, `reward stream ${streamId} does not exist`);
+  const currentNumerator = rewardStreams[Number(streamId)].rewardRatioNumerator;
+  if (numerator == currentNumerator) throw new AdminValidationError(errors.invalidRewardRatio, "the reward ratio is unchanged");
+
+  return {
+    method: "setRewardStreamRatio",
+    args: [streamId, numerator],
+    changes: [{ field: `rewardStream(${streamId}).rewardRatio`, before: `${currentNumerator}`, after: `${numerator}` }],
+  };
+};
+
+export const prepareSetStakingTokenCap = async (staking: Staking, cap: bigint, decimals: bigint): Promise<AdminOperation> => {
+  return {
+    method: "setStakingTokenCap",
+    args: [cap],
+    changes: [{ field: "stakingTokenCap", before: formatUnits(await staking.stakingTokenCap(), decimals), after: formatUnits(cap, decimals) }],
+  };
+};
+
+export const prepareSetMinStakingBoostAmount = async (staking: Staking, amount: bigint, decimals: bigint): Promise<AdminOperation> => {
+  validateMinStakingBoostAmount(amount);
+
+  return {
+    method: "setMinStakingBoostAmount",
+    args: [amount],
+    changes: [{ field: "minStakingBoostAmount", before: formatUnits(await staking.minStakingBoostAmount(), decimals), after: formatUnits(amount, decimals) }],
+  };
+};
+
+export const preparePause = async (staking: Staking): Promise<AdminOperation> => {
+  if (await staking.paused()) throw new AdminValidationError(errors.paused, "the contract is already paused");
+
+  return { method: "pause", args: [], changes: [{ field: "paused", before: "false", after: "true" }] };
+};
+
+export const prepareUnpause = async (staking: Staking): Promise<AdminOperation> => {
+  if (!(await staking.paused())) throw new AdminValidationError(errors.notPaused, "the contract is not paused");
+
+  return { method: "unpause", args: [], changes: [{ field: "paused", before: "true", after: "false" }] };
+};
+
+export const prepareWithdrawExcessTokens = async (staking: Staking, token: IERC20Metadata, amount: bigint): Promise<AdminOperation> => {
+  const tokenAddress = await token.getAddress();
+  if (tokenAddress == ZeroAddress) throw new AdminValidationError(errors.invalidTokenAddress, "the token address cannot be zero");
+  if (amount == 0n) throw new AdminValidationError(errors.invalidAmount, "the amount cannot be zero");
+
+  const balance = await token.balanceOf(await staking.getAddress());
+  let withdrawableAmount = balance;
+  if (tokenAddress.toLowerCase() == (await staking.stakingToken()).toLowerCase()) {
+    withdrawableAmount = await staking.getFreeSurplus();
+    if (withdrawableAmount == 0n) {
+      throw new AdminValidationError(errors.noExcessStakingToken, "there are no staking tokens that are neither staked nor owed as rewards");
+    }
+  }
+  for (const stream of await staking.getRewardStreams()) {
+    if (stream.token.toLowerCase() == tokenAddress.toLowerCase()) withdrawableAmount -= stream.fundedBalance;
+  }
+  // The contract reverts as well when the held balance falls short of the funded stream rewards
+  if (withdrawableAmount < 0n) withdrawableAmount = 0n;
+
+  const decimals = await token.decimals();
+  if (amount > withdrawableAmount) {
+    throw new AdminValidationError(errors.withdrawAmountExceedsLimit, `only ${formatUnits(withdrawableAmount, decimals)} can be withdrawn`);
+  }
+
+  return {
+    method: "withdrawExcessTokens",
+    args: [tokenAddress, amount],
+    changes: [{ field: `balanceOf(${tokenAddress})`, before: formatUnits(balance, decimals), after: formatUnits(balance - amount, decimals) }],
+  };
+};
+
+/** Stakes the rewards of the given stakers, skipping those the contract skips and checking the rest against the reward surplus as a whole. */
+export const prepareCompoundFor = async (staking: Staking, stakingToken: IERC20Metadata, stakers: string[]): Promise<AdminOperation> => {
+  if (await staking.paused()) throw new AdminValidationError(errors.paused, "the contract is paused");
+
+  const decimals = await stakingToken.decimals();
+  const heldBalance = (await staking.stakingTokenBalance()) + (await staking.lockedTokenBalance());
+  const cap = await staking.stakingTokenCap();
+  const changes: StateChange[] = [];
+  let total = 0n;
+  let overCap = false;
+  for (const staker of new Set(stakers.map((staker) => staker.toLowerCase()))) {
+    const { _tokensStaked, _rewards } = await staking.getStakeInfo(staker);
+    if (_rewards == 0n) continue;
+    if (heldBalance + total + _rewards > cap) {
+      overCap = true;
+      continue;
+    }
+
+    total += _rewards;
+    changes.push({ field: `amountStaked(${staker})`, before: formatUnits(_tokensStaked, decimals), after: formatUnits(_tokensStaked + _rewards, decimals) });
+  }
+  if (changes.length == 0 && overCap) {
+    throw new AdminValidationError(errors.cannotStakeMoreThanCap, "compounding the rewards of any of the stakers exceeds the staking token cap");
+  }
+  if (changes.length == 0) throw new AdminValidationError(errors.noRewards, "none of the stakers has rewards to compound");
+
+  const rewardSurplus = (await stakingToken.balanceOf(await staking.getAddress())) - heldBalance - (await staking.unbondingTokenBalance());
+  if (total > rewardSurplus) {
+    throw new AdminValidationError(
+      errors.missingRewards,
+      `${formatUnits(total, decimals)} rewards to compound but only ${formatUnits(rewardSurplus, decimals)} funded`
+    );
+  }
+
+  return { method: "compoundFor", args: [stakers], changes };
+};
+
+/** The `StakingRoles` contract owning the Staking contract, undefined while the owner is an account or another contract. */
+export const getStakingRoles = async (staking: Staking) => {
+  const owner = await staking.owner();
+  if ((await staking.runner!.provider!.getCode(owner)) == "0x") return undefined;
+
+  const stakingRoles = StakingRoles__factory.connect(owner, staking.runner);
+  try {
+    return (await stakingRoles.staking()).toLowerCase() == (await staking.getAddress()).toLowerCase() ? stakingRoles : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const formatAdminOperation = (operation: AdminOperation) =>
+  [`${operation.method}(${operation.args.map(String).join(", ")})`, ...operation.changes.map(({ field, before, after }) => `  ${field}: ${before} -> ${after}`)].join(
+    "\n"
+  );
+
+/**
+ * Sends the operation from the contract runner, or only estimates its gas when `dryRun` is set.
+ * The operation goes through `StakingRoles` when it owns the Staking contract, the runner needing the role of the operation.
+ * @returns The estimated gas for dry runs, otherwise the mined transaction receipt.
+ */
+export const executeAdminOperation = async (staking: Staking, operation: AdminOperation, dryRun: boolean) => {
+  const sender = await (staking.runner as Signer).getAddress();
+  const owner = await staking.owner();
+  let method = staking.getFunction(operation.method);
+  if (sender.toLowerCase() != owner.toLowerCase()) {
+    const stakingRoles = await getStakingRoles(staking);
+    if (!stakingRoles) throw new AdminValidationError(errors.callerNotOwner, `${sender} is not the owner ${owner}`);
+
+    const role = operationRoles[operation.method];
+    if (!(await stakingRoles.hasRole(await stakingRoles.getFunction(role)(), sender))) {
+      throw new AdminValidationError(errors.missingRole, `${sender} does not have the ${role} of ${owner}`);
+    }
+    method = stakingRoles.getFunction(operation.method);
+  }
+
+  if (dryRun) {
+    return { gas: await method.estimateGas(...operation.args) };
+  }
+
+  const tx = await method.send(...operation.args);
+  return { receipt: await tx.wait() };
+};
@@ -0,0 +1,118 @@
+import { existsSync, readFileSync } from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolve } from "path";
+
+export const stakingFutureId = "StakingModule#Staking";
+
+export function getDeploymentDir(chainId: bigint | number) {
+  return resolve(__dirname, `../ignition/deployments/chain-${chainId}`);
+}
+
+export function getDeployedAddress(chainId: bigint | number, futureId = stakingFutureId): string {
+  const addressesPath = resolve(getDeploymentDir(chainId), "deployed_addresses.json");
+  if (!existsSync(addressesPath)) {
+    throw new Error(`No Ignition deployment found for chain ${chainId}: missing ${addressesPath}`);
+  }
+
+  const addresses: Record<string, string> = JSON.parse(readFileSync(addressesPath, "utf8"));
+  if (!addresses[futureId]) {
+    throw new Error(`${futureId} is not deployed on chain ${chainId}`);
+  }
+  return addresses[futureId];
+}
+
+export interface JournalEntry {
+  type: string;
+  futureId?: string;
+  receipt?: { blockNumber: number; contractAddress?: string };
+  [key: string]: unknown;
+}
+
+/** Parses the Ignition journal of the chain, skipping the blank lines between entries. */
+export function readJournal(chainId: bigint | number): JournalEntry[] {
+  const journalPath = resolve(getDeploymentDir(chainId), "journal.jsonl");
+  if (!existsSync(journalPath)) {
+    throw new Error(`No Ignition deployment found for chain ${chainId}: missing ${journalPath}`);
+  }
+
+  return readFileSync(journalPath, "utf8")
+    .split("\n")
+    .filter((line) => line.trim() != "")
+    .map((line) => JSON.parse(line));
+}
+
+export function getDeploymentBlock(chainId: bigint | number, futureId = stakingFutureId): number {
+  const confirmation = readJournal(chainId).find((entry) => entry.type == "TRANSACTION_CONFIRM" && entry.futureId == futureId);
+  if (!confirmation) {
+    throw new Error(`${futureId} is not deployed on chain ${chainId}`);
+  }
+  return confirmation.receipt!.blockNumber;
+}
+
+export type JournalFuture =
+  | {
+      kind: "deployment";
+      futureId: string;
+      from: string;
+      nonce?: number;
+      contractName: string;
+      constructorArgs: unknown[];
+      libraries: Record<string, string>;
+      address?: string;
+    }
+  | { kind: "call"; futureId: string; from: string; nonce?: number; contractAddress: string; functionName: string; args: unknown[] };
+
+// The journal encodes bigints as { _kind: "bigint", value }
+const decodeJournalValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(decodeJournalValue);
+  if (value && typeof value == "object") {
+    const { _kind, value: encoded } = value as { _kind?: string; value?: string };
+    if (_kind == "bigint") return BigInt(encoded!);
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decodeJournalValue(item)]));
+  }
+  return value;
+};
+
+/** Contract deployments and calls recorded in the journal, in execution order, with the nonce they were sent with and the deployed addresses. */
+export function readJournalFutures(chainId: bigint | number): JournalFuture[] {
+  const futures: JournalFuture[] = [];
+
+  for (const entry of readJournal(chainId)) {
+    if (entry.type == "DEPLOYMENT_EXECUTION_STATE_INITIALIZE") {
+      futures.push({
+        kind: "deployment",
+        futureId: entry.futureId!,
+        from: entry.from as string,
+        contractName: entry.contractName as string,
+        constructorArgs: decodeJournalValue(entry.constructorArgs) as unknown[],
+        libraries: (entry.libraries ?? {}) as Record<string, string>,
+      });
+    } else if (entry.type == "CALL_EXECUTION_STATE_INITIALIZE") {
+      futures.push({
+        kind: "call",
+        futureId: entry.futureId!,
+        from: entry.from as string,
+        contractAddress: entry.contractAddress as string,
+        functionName: entry.functionName as string,
+        args: decodeJournalValue(entry.args) as unknown[],
+      });
+    } else if (entry.type == "TRANSACTION_SEND") {
+      const future = futures.find(({ futureId }) => futureId == entry.futureId);
+      if (future && future.nonce === undefined) future.nonce = entry.nonce as number;
+    } else if (entry.type == "DEPLOYMENT_EXECUTION_STATE_COMPLETE") {
+      const future = futures.find(({ futureId }) => futureId == entry.futureId);
+      if (future?.kind == "deployment") future.address = (entry.result as { address?: string }).address;
+    }
+  }
+  return futures;
+}
+
+/** Addresses of the libraries linked to a contract, deploying those missing from `libraries`, e.g. the ones a journal from before them does not record. */
+export async function deployLibraries(hre: HardhatRuntimeEnvironment, contractName: string, libraries: Record<string, string> = {}) {
+  const { linkReferences } = await hre.artifacts.readArtifact(contractName);
+  const linked = { ...libraries };
+  for (const libraryName of Object.values(linkReferences).flatMap(Object.keys)) {
+    linked[libraryName] ??= await (await hre.ethers.deployContract(libraryName)).getAddress();
+  }
+  return linked;
+}
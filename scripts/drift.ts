@@ -0,0 +1,138 @@
+import { parseUnits } from "ethers";
+import { DeploymentProfile } from "../config/deployments";
+import { Staking } from "../typechain-types";
+import { getTiers } from "../sdk/tiers";
+import { formatTiers } from "./admin";
+import { JournalFuture, stakingFutureId } from "./deployments";
+
+export interface StakingState {
+  owner: string;
+  stakingToken: string;
+  rewardRatioNumerator: bigint;
+  stakingTokenCap: bigint;
+  minStakingBoostAmount: bigint;
+  tiers: { minStakingDuration: bigint; multiplier: bigint }[];
+  paused: boolean;
+}
+
+/** Reward ratio and tiers set after the notice delay and not in force yet, which the journal records as applied at once. */
+export type ScheduledState = Partial<Pick<StakingState, "rewardRatioNumerator" | "tiers">>;
+
+export interface DriftCheck {
+  field: keyof StakingState;
+  /** Value left by the deployment and the calls recorded in the Ignition journal. */
+  deployed?: string;
+  /** Value of the deployment profile. */
+  configured?: string;
+  live: string;
+  /** Value scheduled to replace the live one, compared instead of it. */
+  scheduled?: string;
+  /** The live or scheduled value differs from the profile, or from the journal for fields the profile does not set. */
+  drift: boolean;
+}
+
+const stateFields: (keyof StakingState)[] = ["owner", "stakingToken", "rewardRatioNumerator", "stakingTokenCap", "minStakingBoostAmount", "tiers", "paused"];
+
+const formatValue = (field: keyof StakingState, value: StakingState[keyof StakingState] | undefined) => {
+  if (value === undefined) return undefined;
+  if (field == "tiers") return formatTiers(value as StakingState["tiers"]);
+  if (field == "owner" || field == "stakingToken") return (value as string).toLowerCase();
+  return String(value);
+};
+
+/**
+ * Replays the Staking deployment and the owner calls of the journal to get the state they left.
+ * Calls of later modules, like the `StakingRolesModule` migration, reach the contract through `contractAt` and are matched by address.
+ */
+export const getDeployedState = (futures: JournalFuture[], futureId = stakingFutureId): Partial<StakingState> => {
+  const deployment = futures.find((future) => future.kind == "deployment" && future.futureId == futureId);
+  if (!deployment || deployment.kind != "deployment") throw new Error(`${futureId} is not in the journal`);
+
+  const [stakingToken, rewardRatioNumerator, stakingTokenCap, minStakingBoostAmount] = deployment.constructorArgs as [string, bigint, bigint, bigint];
+  const state: Partial<StakingState> = { owner: deployment.from, stakingToken, rewardRatioNumerator, stakingTokenCap, minStakingBoostAmount, paused: false };
+
+  for (const call of futures) {
+    if (call.kind != "call") continue;
+    if (!call.futureId.startsWith(`${futureId}.`) && call.contractAddress.toLowerCase() != deployment.address?.toLowerCase()) continue;
+    const [first, second] = call.args as [unknown, unknown];
+    switch (call.functionName) {
+      case "setTiers":
+        state.tiers = (first as bigint[]).map((duration, i) => ({ minStakingDuration: BigInt(duration), multiplier: BigInt((second as bigint[])[i]) }));
+        break;
+      case "setRewardRatio":
+        state.rewardRatioNumerator = BigInt(first as bigint);
+        break;
+      case "setStakingTokenCap":
+        state.stakingTokenCap = BigInt(first as bigint);
+        break;
+      case "setMinStakingBoostAmount":
+        state.minStakingBoostAmount = BigInt(first as bigint);
+        break;
+      case "transferOwnership":
+        state.owner = first as string;
+        break;
+      case "pause":
+      case "unpause":
+        state.paused = call.functionName == "pause";
+        break;
+    }
+  }
+  return state;
+};
+
+/** State described by the deployment profile, with amounts scaled by the token decimals. The owner is not part of a profile. */
+export const getConfiguredState = (profile: DeploymentProfile, decimals: bigint): Partial<StakingState> => ({
+  stakingToken: profile.stakingToken,
+  rewardRatioNumerator: profile.rewardRatioNumerator,
+  stakingTokenCap: parseUnits(profile.stakingTokenCap, decimals),
+  minStakingBoostAmount: parseUnits(profile.minStakingBoostAmount, decimals),
+  tiers: profile.tiersDurations.map((duration, i) => ({ minStakingDuration: BigInt(duration), multiplier: BigInt(profile.tiersMultipliers[i]) })),
+  paused: false,
+});
+
+export const getLiveState = async (staking: Staking): Promise<StakingState> => ({
+  owner: await staking.owner(),
+  stakingToken: await staking.stakingToken(),
+  rewardRatioNumerator: (await staking.getRewardRatio())._numerator,
+  stakingTokenCap: await staking.stakingTokenCap(),
+  minStakingBoostAmount: await staking.minStakingBoostAmount(),
+  tiers: await getTiers(staking),
+  paused: await staking.paused(),
+});
+
+/** Scheduled reward ratio and tier set, a tier set counting as scheduled until the latest block reaches its start. */
+export const getScheduledState = async (staking: Staking): Promise<ScheduledState> => {
+  const scheduled: ScheduledState = {};
+  const { _numerator } = await staking.getScheduledRewardRatio();
+  if (_numerator > 0n) scheduled.rewardRatioNumerator = _numerator;
+
+  const block = await staking.runner!.provider!.getBlock("latest");
+  const { startTimestamp, tiers } = await staking.getTierSet((await staking.getTierSetCount()) - 1n);
+  if (startTimestamp > block!.timestamp) scheduled.tiers = tiers.map(({ minStakingDuration, multiplier }) => ({ minStakingDuration, multiplier }));
+  return scheduled;
+};
+
+export const checkDrift = (
+  deployed: Partial<StakingState>,
+  configured: Partial<StakingState>,
+  live: StakingState,
+  scheduled: ScheduledState = {}
+): DriftCheck[] =>
+  stateFields.map((field) => {
+    const check = {
+      field,
+      deployed: formatValue(field, deployed[field]),
+      configured: formatValue(field, configured[field]),
+      live: formatValue(field, live[field])!,
+      scheduled: formatValue(field, (scheduled as Partial<StakingState>)[field]),
+    };
+    return { ...check, drift: (check.scheduled ?? check.live) != (check.configured ?? check.deployed) };
+  });
+
+export const formatDriftReport = (checks: DriftCheck[]) =>
+  checks
+    .map(({ field, deployed, configured, live, scheduled, drift }) => {
+      const liveValue = scheduled ? `${live} (scheduled ${scheduled})` : live;
+      return `${drift ? "DRIFT" : "ok   "} ${field}: live ${liveValue}, deployed ${deployed ?? "-"}, configured ${configured ?? "-"}`;
+    })
+    .join("\n");
@@ -1,5 +1,6 @@
 import { config as configDotenv } from "dotenv";
 import { resolve } from "path";
+import type { DeploymentNetwork } from "../config/deployments";
 
 export function throwIfNot<T, K extends keyof T>(obj: Partial<T>, prop: K, msg?: string): T[K] {
   if (obj[prop] === undefined || obj[prop] === null || obj[prop] === "") {
@@ -9,16 +10,60 @@ export function throwIfNot<T, K extends keyof T>(obj: Partial<T>, prop: K, msg?:
   }
 }
 
+export type EnvTask = "deploy" | "verify";
+
+export interface EnvRequirement {
+  /** Networks on which the variable is needed. */
+  networks: DeploymentNetwork[];
+  /** When set, the variable is only needed while running one of these tasks. */
+  tasks?: EnvTask[];
+  /** Value used on a network when the variable is not set. */
+  fallbacks?: Partial<Record<DeploymentNetwork, string>>;
+}
+
+export const defaultTestMnemonic = "test test test test test test test test test test test junk";
+
+export const envSchema = {
+  MNEMONIC: { networks: ["polygonTestnet", "polygonMainnet"], fallbacks: { hardhat: defaultTestMnemonic } },
+  ALCHEMY_API_KEY: { networks: ["polygonTestnet", "polygonMainnet"] },
+  POLYGONSCAN_API_KEY: { networks: ["polygonTestnet", "polygonMainnet"], tasks: ["verify"] },
+  // The polygonMainnet profile pins the staking token
+  LCD_ADDRESS: { networks: ["hardhat", "polygonTestnet"], tasks: ["deploy"] },
+} satisfies Record<string, EnvRequirement>;
+
+export type EnvVariable = keyof typeof envSchema;
+
+export class EnvValidationError extends Error {
+  constructor(network: string, tasks: EnvTask[], missing: EnvVariable[]) {
+    const context = [network, ...tasks].join(" ");
+    super(`Missing environment variables for ${context}: ${missing.join(", ")}`);
+  }
+}
+
+/** Value of the variable, or its fallback on the network, or an empty string. */
+export const getEnv = (name: EnvVariable, network: string): string =>
+  process.env[name] || (envSchema[name] as EnvRequirement).fallbacks?.[network as DeploymentNetwork] || "";
+
+/** Variables needed on the network, by itself or for one of the tasks, that are neither set nor have a fallback. */
+export const getMissingEnv = (network: string, tasks: EnvTask[] = []): EnvVariable[] =>
+  (Object.entries(envSchema) as [EnvVariable, EnvRequirement][])
+    .filter(
+      ([, { networks, tasks: needingTasks }]) =>
+        networks.includes(network as DeploymentNetwork) && (!needingTasks || needingTasks.some((task) => tasks.includes(task)))
+    )
+    .filter(([name]) => getEnv(name, network) == "")
+    .map(([name]) => name);
+
+/** Throws with every missing variable at once. */
+export const validateEnv = (network: string, tasks: EnvTask[] = []) => {
+  const missing = getMissingEnv(network, tasks);
+  if (missing.length > 0) throw new EnvValidationError(network, tasks, missing);
+};
+
 export function myDotenvConfig() {
   let targetEnvironment = `../.env.${process.env.NODE_ENV || "development"}`;
   console.log(`Environment: ${resolve(__dirname, targetEnvironment)}`);
   configDotenv({
     path: resolve(__dirname, targetEnvironment),
   });
-
-  let mandatoryEnvParams = ["MNEMONIC", "POLYGONSCAN_API_KEY", "ALCHEMY_API_KEY"];
-
-  mandatoryEnvParams.forEach((v) => {
-    throwIfNot(process.env, v);
-  });
 }
@@ -0,0 +1,434 @@
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { Signer } from "ethers";
+import { ONE_DAY } from "../config/config";
+import { IERC20Metadata, Staking, StakingReceipt__factory } from "../typechain-types";
+import { SimulatorAction, SimulatorRevert, StakingSimulator } from "./simulator";
+import { parseBigInts, stringifyBigInts } from "./utils";
+
+export type FuzzAction =
+  | { type: "stake"; user: number; amount: bigint }
+  | { type: "withdraw"; user: number; amount: bigint }
+  | { type: "claimRewards"; user: number }
+  | { type: "emergencyWithdraw"; user: number }
+  | { type: "transferReceipt"; user: number; to: number; amount: bigint }
+  | { type: "setRewardRatio"; numerator: bigint }
+  | { type: "setTiers"; durations: bigint[]; multipliers: bigint[] }
+  | { type: "setStakingTokenCap"; cap: bigint }
+  | { type: "setMinStakingBoostAmount"; amount: bigint }
+  | { type: "pause" }
+  | { type: "unpause" }
+  | { type: "fund"; amount: bigint }
+  | { type: "fundRewards"; amount: bigint }
+  | { type: "increaseTime"; seconds: number };
+
+export interface FuzzContext {
+  staking: Staking;
+  stakingToken: IERC20Metadata;
+  owner: Signer;
+  users: Signer[];
+}
+
+export interface FuzzOptions {
+  seed: number;
+  steps: number;
+  // Must return a fresh deployment with no stakers and no tiers, funded and approved users and an approved owner
+  setup: () => Promise<FuzzContext>;
+  invariants?: FuzzInvariant[];
+}
+
+export interface FuzzState {
+  ctx: FuzzContext;
+  simulator: StakingSimulator;
+  userAddresses: string[];
+  step: number;
+  action: FuzzAction;
+  claimed: Set<string>;
+  rewards: Map<string, bigint>;
+  previousRewards: Map<string, bigint>;
+}
+
+export type FuzzInvariant = { name: string; check: (state: FuzzState) => Promise<string | undefined> };
+
+/** Owner actions that are known to rewrite the multiplier of unclaimed rewards retroactively. */
+const retroactiveActions: FuzzAction["type"][] = ["setMinStakingBoostAmount"];
+
+export class FuzzInvariantViolation extends Error {
+  constructor(public readonly invariant: string, public readonly step: number, public readonly actions: FuzzAction[], detail: string) {
+    super(`Invariant "${invariant}" violated at step ${step} (${actions[step]?.type}): ${detail}`);
+  }
+}
+
+// Small and fast seeded generator (mulberry32), so that a seed always produces the same sequence
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => Math.floor(next() * (max - min + 1)) + min;
+  const bigint = (max: bigint) => (max <= 0n ? 0n : (BigInt(Math.floor(next() * 2 ** 48)) * max) / 2n ** 48n);
+  const pick = <T>(items: T[]) => items[int(0, items.length - 1)];
+  const weighted = <T extends string>(weights: Record<T, number>): T => {
+    const entries = Object.entries(weights) as [T, number][];
+    let roll = next() * entries.reduce((sum, [, weight]) => sum + weight, 0);
+    for (const [key, weight] of entries) {
+      roll -= weight;
+      if (roll < 0) return key;
+    }
+    return entries[entries.length - 1][0];
+  };
+  return { next, int, bigint, pick, weighted };
+};
+
+export type Random = ReturnType<typeof createRandom>;
+
+export const defaultInvariants: FuzzInvariant[] = [
+  {
+    name: "sum of stakers equals stakingTokenBalance",
+    check: async ({ ctx, userAddresses }) => {
+      let total = 0n;
+      for (const address of userAddresses) {
+        total += (await ctx.staking.stakers(address)).amountStaked;
+      }
+      const stakingTokenBalance = await ctx.staking.stakingTokenBalance();
+      return total == stakingTokenBalance ? undefined : `stakers sum to ${total}, stakingTokenBalance is ${stakingTokenBalance}`;
+    },
+  },
+  {
+    name: "token balance covers stakingTokenBalance",
+    check: async ({ ctx }) => {
+      const balance = await ctx.stakingToken.balanceOf(await ctx.staking.getAddress());
+      const stakingTokenBalance = await ctx.staking.stakingTokenBalance();
+      return balance >= stakingTokenBalance ? undefined : `token balance ${balance} is below stakingTokenBalance ${stakingTokenBalance}`;
+    },
+  },
+  {
+    name: "token balance covers the staked balances and the reward reserve",
+    check: async ({ ctx }) => {
+      const balance = await ctx.stakingToken.balanceOf(await ctx.staking.getAddress());
+      const committed =
+        (await ctx.staking.stakingTokenBalance()) +
+        (await ctx.staking.lockedTokenBalance()) +
+        (await ctx.staking.unbondingTokenBalance()) +
+        (await ctx.staking.rewardReserve());
+      return balance >= committed ? undefined : `token balance ${balance} is below the staked balances and the reward reserve ${committed}`;
+    },
+  },
+  {
+    name: "rewardLiabilities cover the unclaimed and pending rewards of the flexible stakes",
+    check: async ({ ctx, userAddresses }) => {
+      let total = 0n;
+      for (const address of userAddresses) {
+        total += (await ctx.staking.getStakeInfo(address))._rewards;
+      }
+      const rewardLiabilities = await ctx.staking.rewardLiabilities();
+      // Each stake accrues its liabilities rounded down separately, which may count one wei less per staker
+      return rewardLiabilities + BigInt(userAddresses.length) >= total
+        ? undefined
+        : `unclaimed and pending rewards sum to ${total}, rewardLiabilities is ${rewardLiabilities}`;
+    },
+  },
+  {
+    name: "votes of every staker equal their stake",
+    check: async ({ ctx, userAddresses }) => {
+      for (const address of userAddresses) {
+        const votes = await ctx.staking.getVotes(address);
+        const { amountStaked } = await ctx.staking.stakers(address);
+        if (votes != amountStaked) return `votes of ${address} are ${votes}, their stake is ${amountStaked}`;
+      }
+    },
+  },
+  {
+    name: "receipt balance of every staker equals their stake",
+    check: async ({ ctx, userAddresses }) => {
+      const receipt = StakingReceipt__factory.connect(await ctx.staking.receipt(), ctx.staking.runner);
+      for (const address of userAddresses) {
+        const balance = await receipt.balanceOf(address);
+        const { amountStaked } = await ctx.staking.stakers(address);
+        if (balance != amountStaked) return `receipt balance of ${address} is ${balance}, their stake is ${amountStaked}`;
+      }
+    },
+  },
+  {
+    name: "rewards never decrease without a claim",
+    check: async ({ action, userAddresses, claimed, rewards, previousRewards }) => {
+      if (retroactiveActions.includes(action.type)) return;
+      for (const address of userAddresses) {
+        if (claimed.has(address)) continue;
+        const before = previousRewards.get(address) ?? 0n;
+        const after = rewards.get(address) ?? 0n;
+        if (after < before) return `rewards of ${address} dropped from ${before} to ${after}`;
+      }
+    },
+  },
+  {
+    name: "contract matches the reference simulator",
+    check: async ({ ctx, simulator, userAddresses, rewards }) => {
+      const timestamp = await time.latest();
+      for (const address of userAddresses) {
+        const expected = simulator.getStakeInfo(address, timestamp)._rewards;
+        if (rewards.get(address) != expected) return `rewards of ${address} are ${rewards.get(address)}, simulator expects ${expected}`;
+      }
+      const stakingTokenBalance = await ctx.staking.stakingTokenBalance();
+      if (stakingTokenBalance != simulator.stakingTokenBalance) {
+        return `stakingTokenBalance is ${stakingTokenBalance}, simulator expects ${simulator.stakingTokenBalance}`;
+      }
+      const rewardReserve = await ctx.staking.rewardReserve();
+      if (rewardReserve != simulator.rewardReserve) return `rewardReserve is ${rewardReserve}, simulator expects ${simulator.rewardReserve}`;
+    },
+  },
+];
+
+/** Picks the next action from the current simulated state, so that most actions are meaningful. */
+export const generateFuzzAction = (random: Random, simulator: StakingSimulator, userAddresses: string[], decimals: bigint): FuzzAction => {
+  const unit = 10n ** decimals;
+  const user = random.int(0, userAddresses.length - 1);
+  const staked = simulator.stakers(userAddresses[user]).amountStaked;
+
+  switch (
+    random.weighted({
+      stake: 25,
+      withdraw: 12,
+      claimRewards: 10,
+      emergencyWithdraw: 4,
+      transferReceipt: 5,
+      increaseTime: 20,
+      fund: 5,
+      fundRewards: 3,
+      setRewardRatio: 4,
+      setTiers: 3,
+      setStakingTokenCap: 3,
+      setMinStakingBoostAmount: 3,
+      pause: simulator.paused ? 1 : 3,
+      unpause: simulator.paused ? 8 : 1,
+    })
+  ) {
+    case "stake": {
+      const amount = random.pick([
+        BigInt(random.int(0, 1000)),
+        random.bigint(1000n * unit),
+        simulator.minStakingBoostAmount - staked + BigInt(random.int(-5, 5)),
+        random.bigint(100_000n * unit),
+      ]);
+      return { type: "stake", user, amount: amount > 0n ? amount : 1n };
+    }
+    case "withdraw":
+      return { type: "withdraw", user, amount: random.pick([staked, random.bigint(staked), staked + 1n, BigInt(random.int(1, 100))]) };
+    case "claimRewards":
+      return { type: "claimRewards", user };
+    case "emergencyWithdraw":
+      return { type: "emergencyWithdraw", user };
+    case "transferReceipt":
+      return { type: "transferReceipt", user, to: random.int(0, userAddresses.length - 1), amount: random.pick([staked, random.bigint(staked), 0n]) };
+    case "increaseTime":
+      return { type: "increaseTime", seconds: random.pick([random.int(1, 3600), random.int(1, 45 * ONE_DAY), random.int(1, 200 * ONE_DAY)]) };
+    case "fund":
+      return { type: "fund", amount: random.bigint(10_000n * unit) + 1n };
+    case "fundRewards":
+      return { type: "fundRewards", amount: random.pick([random.bigint(10_000n * unit) + 1n, 0n]) };
+    case "setRewardRatio":
+      return { type: "setRewardRatio", numerator: random.pick([BigInt(random.int(1, 2000)), simulator.getRewardRatio()[0], 0n]) };
+    case "setTiers": {
+      const length = random.int(1, 5);
+      const durations: bigint[] = [];
+      for (let i = 0; i < length; i++) {
+        durations.push((durations[i - 1] ?? 0n) + BigInt(random.int(i == 0 ? 0 : 1, 120 * ONE_DAY)));
+      }
+      if (length > 1 && random.next() < 0.1) durations.reverse();
+      // Multipliers only grow with the duration, as in every real tier configuration
+      const multipliers: bigint[] = [];
+      for (let i = 0; i < length; i++) {
+        multipliers.push((multipliers[i - 1] ?? 100n) + BigInt(random.int(0, 60)));
+      }
+      return { type: "setTiers", durations, multipliers };
+    }
+    case "setStakingTokenCap":
+      return { type: "setStakingTokenCap", cap: simulator.stakingTokenBalance + random.bigint(1_000_000n * unit) - random.bigint(100n * unit) };
+    case "setMinStakingBoostAmount":
+      return { type: "setMinStakingBoostAmount", amount: random.pick([random.bigint(50_000n * unit), 0n]) };
+    case "pause":
+      return { type: "pause" };
+    default:
+      return { type: "unpause" };
+  }
+};
+
+const toSimulatorAction = (action: FuzzAction, userAddresses: string[], timestamp: number): SimulatorAction | undefined => {
+  switch (action.type) {
+    case "increaseTime":
+      return undefined;
+    case "stake":
+    case "withdraw":
+      return { type: action.type, user: userAddresses[action.user], amount: action.amount, timestamp };
+    case "claimRewards":
+    case "emergencyWithdraw":
+      return { type: action.type, user: userAddresses[action.user], timestamp };
+    case "transferReceipt":
+      return { type: action.type, user: userAddresses[action.user], to: userAddresses[action.to], amount: action.amount, timestamp };
+    default:
+      return { ...action, timestamp };
+  }
+};
+
+const sendFuzzAction = async (ctx: FuzzContext, action: Exclude<FuzzAction, { type: "increaseTime" }>) => {
+  const { staking, stakingToken, users } = ctx;
+  switch (action.type) {
+    case "stake":
+      return staking.connect(users[action.user]).stake(action.amount);
+    case "withdraw":
+      return staking.connect(users[action.user]).withdraw(action.amount);
+    case "claimRewards":
+      return staking.connect(users[action.user]).claimRewards();
+    case "emergencyWithdraw":
+      return staking.connect(users[action.user]).emergencyWithdraw();
+    case "transferReceipt":
+      return StakingReceipt__factory.connect(await staking.receipt(), users[action.user]).transfer(await users[action.to].getAddress(), action.amount);
+    case "setRewardRatio":
+      return staking.setRewardRatio(action.numerator);
+    case "setTiers":
+      return staking.setTiers(action.durations, action.multipliers);
+    case "setStakingTokenCap":
+      return staking.setStakingTokenCap(action.cap);
+    case "setMinStakingBoostAmount":
+      return staking.setMinStakingBoostAmount(action.amount);
+    case "pause":
+      return staking.pause();
+    case "unpause":
+      return staking.unpause();
+    case "fund":
+      return stakingToken.transfer(await staking.getAddress(), action.amount);
+    case "fundRewards":
+      return staking.fundRewards(action.amount);
+  }
+};
+
+const decodeRevert = (staking: Staking, error: unknown): string => {
+  const data = (error as { data?: string }).data;
+  const parsed = data ? staking.interface.parseError(data) : null;
+  return parsed?.name ?? String((error as Error).message ?? error);
+};
+
+/**
+ * Runs a fuzz session. Actions are either replayed from `actions` or generated from the seed,
+ * and all invariants are checked after every step.
+ * @returns The executed actions.
+ */
+const runFuzzSession = async (options: FuzzOptions, actions?: FuzzAction[]): Promise<FuzzAction[]> => {
+  const ctx = await options.setup();
+  const invariants = options.invariants ?? defaultInvariants;
+  const random = createRandom(options.seed);
+  const userAddresses = await Promise.all(ctx.users.map((user) => user.getAddress()));
+  const decimals = await ctx.stakingToken.decimals();
+  const stakingAddress = await ctx.staking.getAddress();
+
+  const simulator = new StakingSimulator({
+    rewardRatioNumerator: (await ctx.staking.getRewardRatio())[0],
+    stakingTokenCap: await ctx.staking.stakingTokenCap(),
+    minStakingBoostAmount: await ctx.staking.minStakingBoostAmount(),
+    deployTimestamp: await time.latest(),
+  });
+  let now = await time.latest();
+  simulator.apply({ type: "fund", amount: await ctx.stakingToken.balanceOf(stakingAddress), timestamp: now });
+
+  const executed: FuzzAction[] = [];
+  let previousRewards = new Map<string, bigint>();
+  const steps = actions?.length ?? options.steps;
+
+  for (let step = 0; step < steps; step++) {
+    const action = actions ? actions[step] : generateFuzzAction(random, simulator, userAddresses, decimals);
+    executed.push(action);
+    const claimed = new Set<string>();
+
+    if (action.type == "increaseTime") {
+      now += action.seconds;
+      await time.increaseTo(now);
+    } else {
+      now += 1;
+      let expectedRevert: string | undefined;
+      try {
+        simulator.apply(toSimulatorAction(action, userAddresses, now)!);
+        if (action.type == "claimRewards") claimed.add(userAddresses[action.user]);
+      } catch (error) {
+        if (!(error instanceof SimulatorRevert)) throw error;
+        expectedRevert = error.errorName;
+      }
+
+      await time.setNextBlockTimestamp(now);
+      let actualRevert: string | undefined;
+      try {
+        await (await sendFuzzAction(ctx, action)).wait();
+      } catch (error) {
+        actualRevert = decodeRevert(ctx.staking, error);
+      }
+
+      if (actualRevert != expectedRevert) {
+        throw new FuzzInvariantViolation("same outcome as the simulator", step, executed, `expected ${expectedRevert ?? "success"}, got ${actualRevert ?? "success"}`);
+      }
+    }
+
+    const rewards = new Map<string, bigint>();
+    for (const address of userAddresses) {
+      rewards.set(address, (await ctx.staking.getStakeInfo(address))._rewards);
+    }
+
+    for (const invariant of invariants) {
+      const violation = await invariant.check({ ctx, simulator, userAddresses, step, action, claimed, rewards, previousRewards });
+      if (violation) throw new FuzzInvariantViolation(invariant.name, step, executed, violation);
+    }
+    previousRewards = rewards;
+  }
+
+  return executed;
+};
+
+const stillFails = async (options: FuzzOptions, actions: FuzzAction[], invariant: string) => {
+  try {
+    await runFuzzSession(options, actions);
+    return false;
+  } catch (error) {
+    return error instanceof FuzzInvariantViolation && error.invariant == invariant;
+  }
+};
+
+/** Removes chunks of actions, then single actions, for as long as the same invariant keeps failing. */
+export const shrinkFuzzTrace = async (options: FuzzOptions, violation: FuzzInvariantViolation): Promise<FuzzAction[]> => {
+  let actions = violation.actions.slice(0, violation.step + 1);
+
+  for (let chunk = Math.floor(actions.length / 2); chunk >= 1; chunk = Math.floor(chunk / 2)) {
+    for (let start = actions.length - chunk; start >= 0; start -= chunk) {
+      const candidate = [...actions.slice(0, start), ...actions.slice(start + chunk)];
+      if (candidate.length > 0 && (await stillFails(options, candidate, violation.invariant))) {
+        actions = candidate;
+      }
+    }
+  }
+
+  return actions;
+};
+
+export const formatFuzzTrace = (actions: FuzzAction[]) => stringifyBigInts(actions);
+
+export const parseFuzzTrace = (trace: string) => parseBigInts<FuzzAction[]>(trace);
+
+/** Replays a trace printed by a failed run, throwing a `FuzzInvariantViolation` if it still fails. */
+export const replayFuzzTrace = (options: Omit<FuzzOptions, "steps" | "seed">, actions: FuzzAction[]) => runFuzzSession({ ...options, seed: 0, steps: actions.length }, actions);
+
+/**
+ * Runs a seeded, reproducible sequence of random user and owner actions against a fresh deployment and checks the invariants after every step.
+ * On failure the trace is shrunk and printed so that it can be replayed with `replayFuzzTrace`.
+ */
+export const runStatefulFuzz = async (options: FuzzOptions) => {
+  try {
+    return await runFuzzSession(options);
+  } catch (error) {
+    if (!(error instanceof FuzzInvariantViolation)) throw error;
+
+    const shrunk = await shrinkFuzzTrace(options, error);
+    console.error(`Fuzzing with seed ${options.seed} failed: ${error.message}`);
+    console.error(`Shrunk from ${error.step + 1} to ${shrunk.length} actions, replay with replayFuzzTrace(options, parseFuzzTrace(trace)):\n${formatFuzzTrace(shrunk)}`);
+    throw error;
+  }
+};
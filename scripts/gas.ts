@@ -0,0 +1,155 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { dirname } from "path";
+import { minStakingBoostAmount, ONE_DAY, rewardRatioNumerator, stakingTokenCap } from "../config/config";
+import { deployLibraries } from "./deployments";
+
+export const gasOperations = ["stake", "withdraw", "claimRewards", "getStakeInfo"] as const;
+
+export type GasOperation = (typeof gasOperations)[number];
+
+export interface GasScenario {
+  name: string;
+  /** Staking conditions the staker goes through since their last update, i.e. `setRewardRatio` calls plus one. */
+  conditions: number;
+  tiers: number;
+  /** Days between the staker's first stake and the measured operations, spread evenly over the conditions. */
+  idleDays: number;
+}
+
+export interface GasMeasurement extends GasScenario {
+  gas: Record<GasOperation, number>;
+}
+
+export interface GasRegression {
+  scenario: string;
+  operation: GasOperation;
+  baseline: number;
+  current: number;
+  /** Percent increase over the baseline. */
+  increase: number;
+}
+
+// Each sweep grows one dimension of the reward loop, the others stay at a small fixed value
+export const gasScenarios: GasScenario[] = [
+  ...[1, 10, 100, 500].map((conditions) => ({ name: `conditions-${conditions}`, conditions, tiers: 4, idleDays: 30 })),
+  ...[1, 10, 25].map((tiers) => ({ name: `tiers-${tiers}`, conditions: 10, tiers, idleDays: 30 })),
+  ...[1, 365, 1825].map((idleDays) => ({ name: `idle-${idleDays}`, conditions: 1, tiers: 4, idleDays })),
+];
+
+const increaseTime = async (hre: HardhatRuntimeEnvironment, seconds: number) => {
+  if (seconds > 0) await hre.network.provider.send("evm_increaseTime", [seconds]);
+};
+
+const measureScenario = async (hre: HardhatRuntimeEnvironment, scenario: GasScenario): Promise<GasMeasurement> => {
+  const [owner, staker] = await hre.ethers.getSigners();
+
+  const token = await hre.ethers.deployContract("PurchaseToken");
+  const decimals = await token.decimals();
+  const staking = await hre.ethers.deployContract(
+    "Staking",
+    [await token.getAddress(), rewardRatioNumerator, stakingTokenCap(decimals), minStakingBoostAmount(decimals)],
+    { libraries: await deployLibraries(hre, "Staking") }
+  );
+  const stakeAmount = minStakingBoostAmount(decimals);
+
+  // One day apart tiers, so that the multiplier loop walks all of them once the staker has been idle long enough
+  const durations = Array.from({ length: scenario.tiers }, (_, i) => (i + 1) * ONE_DAY);
+  const multipliers = Array.from({ length: scenario.tiers }, (_, i) => 100 + 5 * (i + 1));
+  await (await staking.setTiers(durations, multipliers)).wait();
+
+  await (await token.transfer(staker.address, 4n * stakeAmount)).wait();
+  await (await token.transfer(await staking.getAddress(), stakingTokenCap(decimals))).wait();
+  await (await token.connect(staker).approve(await staking.getAddress(), 4n * stakeAmount)).wait();
+  await (await staking.connect(staker).stake(2n * stakeAmount)).wait();
+
+  const interval = Math.floor((scenario.idleDays * ONE_DAY) / scenario.conditions);
+  for (let i = 1; i < scenario.conditions; i++) {
+    await increaseTime(hre, interval);
+    await (await staking.connect(owner).setRewardRatio(rewardRatioNumerator + 1n + BigInt(i % 2))).wait();
+  }
+  await increaseTime(hre, scenario.idleDays * ONE_DAY - interval * (scenario.conditions - 1));
+  await hre.network.provider.send("evm_mine");
+
+  // Every transaction starts from the same idle state
+  const measureTransaction = async (send: () => Promise<{ wait: () => Promise<{ gasUsed: bigint } | null> }>) => {
+    const snapshot = await hre.network.provider.send("evm_snapshot");
+    const receipt = await (await send()).wait();
+    await hre.network.provider.send("evm_revert", [snapshot]);
+    return Number(receipt!.gasUsed);
+  };
+
+  return {
+    ...scenario,
+    gas: {
+      stake: await measureTransaction(() => staking.connect(staker).stake(stakeAmount)),
+      withdraw: await measureTransaction(() => staking.connect(staker).withdraw(stakeAmount)),
+      claimRewards: await measureTransaction(() => staking.connect(staker).claimRewards()),
+      getStakeInfo: Number(await staking.getStakeInfo.estimateGas(staker.address)),
+    },
+  };
+};
+
+/** Measures every scenario on fresh contracts of the Hardhat network, reverting the network afterwards. */
+export const runGasBenchmark = async (hre: HardhatRuntimeEnvironment, scenarios = gasScenarios): Promise<GasMeasurement[]> => {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  if (chainId != 31337n) throw new Error(`Gas benchmarks only run on a local Hardhat network, not on chain ${chainId}`);
+
+  const snapshot = await hre.network.provider.send("evm_snapshot");
+  try {
+    const measurements: GasMeasurement[] = [];
+    for (const scenario of scenarios) {
+      measurements.push(await measureScenario(hre, scenario));
+    }
+    return measurements;
+  } finally {
+    await hre.network.provider.send("evm_revert", [snapshot]);
+  }
+};
+
+export const loadGasReport = (path: string): GasMeasurement[] => {
+  if (!existsSync(path)) throw new Error(`Gas report not found at ${path}`);
+  return JSON.parse(readFileSync(path, "utf8"));
+};
+
+export const saveGasReport = (path: string, measurements: GasMeasurement[]) => {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(measurements, null, 2)}\n`);
+};
+
+/** Operations whose gas grew past `threshold` percent of the baseline. Scenarios missing from the baseline are not compared. */
+export const compareGasReports = (baseline: GasMeasurement[], current: GasMeasurement[], threshold: number): GasRegression[] =>
+  current.flatMap((measurement) => {
+    const reference = baseline.find(({ name }) => name == measurement.name);
+    if (!reference) return [];
+    return gasOperations
+      .map((operation) => ({
+        scenario: measurement.name,
+        operation,
+        baseline: reference.gas[operation],
+        current: measurement.gas[operation],
+        increase: ((measurement.gas[operation] - reference.gas[operation]) * 100) / reference.gas[operation],
+      }))
+      .filter(({ increase }) => increase > threshold);
+  });
+
+const formatDelta = (current: number, baseline?: number) => {
+  if (baseline === undefined || baseline == current) return `${current}`;
+  const delta = ((current - baseline) * 100) / baseline;
+  return `${current} (${delta > 0 ? "+" : ""}${delta.toFixed(1)}%)`;
+};
+
+/** Markdown table of the measurements, with the change from the baseline when given. */
+export const formatGasReport = (measurements: GasMeasurement[], baseline: GasMeasurement[] = []) =>
+  [
+    `| Scenario | Conditions | Tiers | Idle days | ${gasOperations.join(" | ")} |`,
+    `| --- | --: | --: | --: | ${gasOperations.map(() => "--:").join(" | ")} |`,
+    ...measurements.map((measurement) => {
+      const reference = baseline.find(({ name }) => name == measurement.name);
+      const gas = gasOperations.map((operation) => formatDelta(measurement.gas[operation], reference?.gas[operation]));
+      return `| ${measurement.name} | ${measurement.conditions} | ${measurement.tiers} | ${measurement.idleDays} | ${gas.join(" | ")} |`;
+    }),
+  ].join("\n");
+
+export const formatGasRegression = ({ scenario, operation, baseline, current, increase }: GasRegression) =>
+  `${scenario} ${operation}: ${current} gas, ${baseline} in the baseline (+${increase.toFixed(1)}%)`;
@@ -0,0 +1,433 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { FunctionFragment, LogDescription } from "ethers";
+import { Staking } from "../typechain-types";
+import { parseBigInts, stringifyBigInts } from "./utils";
+
+export interface IndexedStaker {
+  amountStaked: bigint;
+  /** Tokens in the open fixed-term positions of the staker. */
+  amountLocked: bigint;
+  /** Tokens in the pending withdraw requests of the staker. */
+  amountUnbonding: bigint;
+  totalStaked: bigint;
+  totalWithdrawn: bigint;
+  totalEmergencyWithdrawn: bigint;
+  totalClaimed: bigint;
+  /** Rewards added to the stake instead of being claimed. */
+  totalCompounded: bigint;
+  /** Stake received and sent along with receipt token transfers. */
+  totalTransferredIn: bigint;
+  totalTransferredOut: bigint;
+  firstBlock: number;
+  lastBlock: number;
+}
+
+export interface IndexedTier {
+  minStakingDuration: bigint;
+  multiplier: bigint;
+}
+
+export interface IndexedLockOption {
+  duration: bigint;
+  multiplier: bigint;
+}
+
+export interface IndexedRewardStream {
+  token: string;
+  rewardRatios: IndexedChange<bigint>[];
+  totalFunded: bigint;
+  totalClaimed: bigint;
+}
+
+/** A parameter value, the block that set it and the time from which it applies, later than the block for scheduled changes. */
+export interface IndexedChange<T> {
+  value: T;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface IndexerStore {
+  chainId: bigint;
+  address: string;
+  fromBlock: number;
+  /** Checkpoint: every block up to this one is reflected in the store. */
+  lastIndexedBlock: number;
+  stakers: Record<string, IndexedStaker>;
+  rewardRatios: IndexedChange<bigint>[];
+  tiers: IndexedChange<IndexedTier[]>[];
+  lockOptions: IndexedChange<IndexedLockOption[]>[];
+  withdrawCooldowns: IndexedChange<bigint>[];
+  stakingTokenCaps: IndexedChange<bigint>[];
+  minStakingBoostAmounts: IndexedChange<bigint>[];
+  /** Indexed by stream ID. */
+  rewardStreams: IndexedRewardStream[];
+  totalRewardsFunded: bigint;
+  totalRewardReserveDrawn: bigint;
+}
+
+export interface IndexOptions {
+  /** Last block to index, defaults to the latest block. */
+  toBlock?: number;
+  /** Number of blocks fetched per log query, the store is checkpointed after each of them. */
+  batchSize?: number;
+  onCheckpoint?: (store: IndexerStore) => void | Promise<void>;
+}
+
+/** Storage the contract exposes, the first deployment on Polygon predating all of it. */
+export interface StakingFeatures {
+  positions: boolean;
+  withdrawRequests: boolean;
+  rewardReserve: boolean;
+  rewardStreams: boolean;
+}
+
+export interface ReconcileMismatch {
+  field: string;
+  staker?: string;
+  indexed: bigint;
+  onChain: bigint;
+}
+
+export const indexedEvents = [
+  "TokensStaked",
+  "TokensWithdrawn",
+  "RewardsClaimed",
+  "RewardsCompounded",
+  "EmergencyWithdraw",
+  "StakeTransferred",
+  "UpdatedRewardRatio",
+  "RewardRatioScheduled",
+  "ScheduledRewardRatioCancelled",
+  "PositionOpened",
+  "PositionWithdrawn",
+  "PositionRewardsClaimed",
+  "WithdrawRequested",
+  "WithdrawCompleted",
+  "WithdrawCancelled",
+  "TiersSet",
+  "TiersScheduled",
+  "ScheduledTiersCancelled",
+  "LockOptionsSet",
+  "WithdrawCooldownSet",
+  "StakingTokenCapSet",
+  "MinStakingBoostAmountSet",
+  "RewardStreamAdded",
+  "RewardStreamRatioUpdated",
+  "RewardStreamFunded",
+  "StreamRewardsClaimed",
+  "RewardsFunded",
+  "RewardReserveDrawn",
+];
+
+export const createIndexerStore = (chainId: bigint, address: string, fromBlock: number): IndexerStore => ({
+  chainId,
+  address,
+  fromBlock,
+  lastIndexedBlock: fromBlock - 1,
+  stakers: {},
+  rewardRatios: [],
+  tiers: [],
+  lockOptions: [],
+  withdrawCooldowns: [],
+  stakingTokenCaps: [],
+  minStakingBoostAmounts: [],
+  rewardStreams: [],
+  totalRewardsFunded: 0n,
+  totalRewardReserveDrawn: 0n,
+});
+
+export const loadIndexerStore = (path: string) => parseBigInts<IndexerStore>(readFileSync(path, "utf8"));
+
+/** Writes the store through a temporary file, so that an interrupted run never leaves a truncated checkpoint. */
+export const saveIndexerStore = (path: string, store: IndexerStore) => {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(`${path}.tmp`, stringifyBigInts(store));
+  renameSync(`${path}.tmp`, path);
+};
+
+/** Loads the store at `path` to resume from its checkpoint, or creates a new one starting at `fromBlock`. */
+export const openIndexerStore = (path: string, chainId: bigint, address: string, fromBlock: number) => {
+  if (!existsSync(path)) return createIndexerStore(chainId, address, fromBlock);
+
+  const store = loadIndexerStore(path);
+  if (store.chainId != chainId || store.address.toLowerCase() != address.toLowerCase()) {
+    throw new Error(`${path} indexes ${store.address} on chain ${store.chainId}, not ${address} on chain ${chainId}`);
+  }
+  return store;
+};
+
+export const getTotalStaked = (store: IndexerStore) => Object.values(store.stakers).reduce((total, staker) => total + staker.amountStaked, 0n);
+
+export const getTotalLocked = (store: IndexerStore) => Object.values(store.stakers).reduce((total, staker) => total + staker.amountLocked, 0n);
+
+export const getTotalUnbonding = (store: IndexerStore) => Object.values(store.stakers).reduce((total, staker) => total + staker.amountUnbonding, 0n);
+
+/** Addresses that currently have tokens staked, locked or unbonding, largest holding first. */
+export const getActiveStakers = (store: IndexerStore) =>
+  Object.entries(store.stakers)
+    .map(([address, staker]) => [address, staker.amountStaked + staker.amountLocked + staker.amountUnbonding] as const)
+    .filter(([, amount]) => amount > 0n)
+    .sort(([, a], [, b]) => (b > a ? 1 : b < a ? -1 : 0))
+    .map(([address]) => address);
+
+const getStaker = (store: IndexerStore, address: string, blockNumber: number) => {
+  const staker = (store.stakers[address] ??= {
+    amountStaked: 0n,
+    amountLocked: 0n,
+    amountUnbonding: 0n,
+    totalStaked: 0n,
+    totalWithdrawn: 0n,
+    totalEmergencyWithdrawn: 0n,
+    totalClaimed: 0n,
+    totalCompounded: 0n,
+    totalTransferredIn: 0n,
+    totalTransferredOut: 0n,
+    firstBlock: blockNumber,
+    lastBlock: blockNumber,
+  });
+  staker.lastBlock = blockNumber;
+  return staker;
+};
+
+const applyEvent = async (
+  staking: Staking,
+  store: IndexerStore,
+  event: LogDescription,
+  blockNumber: number,
+  getTimestamp: (blockNumber: number) => Promise<number>
+) => {
+  const change = async <T>(value: T): Promise<IndexedChange<T>> => ({ value, blockNumber, timestamp: await getTimestamp(blockNumber) });
+  const scheduledChange = <T>(value: T): IndexedChange<T> => ({ value, blockNumber, timestamp: Number(event.args.effectiveTimestamp) });
+
+  switch (event.name) {
+    case "TokensStaked": {
+      const staker = getStaker(store, event.args.staker, blockNumber);
+      staker.amountStaked += event.args.amount;
+      staker.totalStaked += event.args.amount;
+      break;
+    }
+    case "TokensWithdrawn": {
+      const staker = getStaker(store, event.args.staker, blockNumber);
+      staker.amountStaked -= event.args.amount;
+      staker.totalWithdrawn += event.args.amount;
+      break;
+    }
+    case "EmergencyWithdraw": {
+      // The amount includes every pending withdraw request of the staker
+      const staker = getStaker(store, event.args.withdrawer, blockNumber);
+      staker.amountStaked -= event.args.amount - staker.amountUnbonding;
+      staker.amountUnbonding = 0n;
+      staker.totalEmergencyWithdrawn += event.args.amount;
+      break;
+    }
+    case "StakeTransferred": {
+      const sender = getStaker(store, event.args.from, blockNumber);
+      sender.amountStaked -= event.args.amount;
+      sender.totalTransferredOut += event.args.amount;
+      const receiver = getStaker(store, event.args.to, blockNumber);
+      receiver.amountStaked += event.args.amount;
+      receiver.totalTransferredIn += event.args.amount;
+      break;
+    }
+    case "WithdrawRequested": {
+      const staker = getStaker(store, event.args.staker, blockNumber);
+      staker.amountStaked -= event.args.amount;
+      staker.amountUnbonding += event.args.amount;
+      break;
+    }
+    case "WithdrawCompleted": {
+      const staker = getStaker(store, event.args.staker, blockNumber);
+      staker.amountUnbonding -= event.args.amount;
+      staker.totalWithdrawn += event.args.amount;
+      break;
+    }
+    case "WithdrawCancelled": {
+      const staker = getStaker(store, event.args.staker, blockNumber);
+      staker.amountUnbonding -= event.args.amount;
+      staker.amountStaked += event.args.amount;
+      break;
+    }
+    case "PositionOpened":
+      getStaker(store, event.args.staker, blockNumber).amountLocked += event.args.amount;
+      break;
+    case "PositionWithdrawn":
+      getStaker(store, event.args.staker, blockNumber).amountLocked -= event.args.amount;
+      break;
+    case "RewardsClaimed":
+    case "PositionRewardsClaimed":
+      getStaker(store, event.args.staker, blockNumber).totalClaimed += event.args.rewardAmount;
+      break;
+    case "RewardsCompounded": {
+      const staker = getStaker(store, event.args.staker, blockNumber);
+      staker.amountStaked += event.args.rewardAmount;
+      staker.totalCompounded += event.args.rewardAmount;
+      break;
+    }
+    case "UpdatedRewardRatio":
+      // The deployment ratio is not emitted, the first update is the only place that records it
+      if (store.rewardRatios.length == 0) {
+        store.rewardRatios.push({ value: event.args.oldNumerator, blockNumber: store.fromBlock, timestamp: await getTimestamp(store.fromBlock) });
+      }
+      store.rewardRatios.push(await change(event.args.newNumerator));
+      break;
+    case "RewardRatioScheduled":
+      store.rewardRatios.push(scheduledChange(event.args.newNumerator));
+      break;
+    case "ScheduledRewardRatioCancelled":
+      store.rewardRatios.pop();
+      break;
+    case "TiersSet":
+      store.tiers.push(await change(event.args.newTiers.map(([minStakingDuration, multiplier]: bigint[]) => ({ minStakingDuration, multiplier }))));
+      break;
+    case "TiersScheduled": {
+      // The event only carries the ID of the tier set, whose tiers are read at the block that scheduled it
+      const { tiers } = await staking.getTierSet(event.args.tierSetId, { blockTag: blockNumber });
+      store.tiers.push(scheduledChange(tiers.map(({ minStakingDuration, multiplier }) => ({ minStakingDuration, multiplier }))));
+      break;
+    }
+    case "ScheduledTiersCancelled":
+      store.tiers.pop();
+      break;
+    case "LockOptionsSet":
+      store.lockOptions.push(await change(event.args.newLockOptions.map(([duration, multiplier]: bigint[]) => ({ duration, multiplier }))));
+      break;
+    case "WithdrawCooldownSet":
+      store.withdrawCooldowns.push(await change(event.args.withdrawCooldown));
+      break;
+    case "StakingTokenCapSet":
+      store.stakingTokenCaps.push(await change(event.args.stakingTokenCapSet));
+      break;
+    case "MinStakingBoostAmountSet":
+      store.minStakingBoostAmounts.push(await change(event.args.minStakingBoostAmount));
+      break;
+    case "RewardStreamAdded":
+      store.rewardStreams.push({ token: event.args.token, rewardRatios: [await change(event.args.rewardRatioNumerator)], totalFunded: 0n, totalClaimed: 0n });
+      break;
+    case "RewardStreamRatioUpdated":
+      store.rewardStreams[Number(event.args.streamId)].rewardRatios.push(await change(event.args.newNumerator));
+      break;
+    case "RewardStreamFunded":
+      store.rewardStreams[Number(event.args.streamId)].totalFunded += event.args.amount;
+      break;
+    case "StreamRewardsClaimed":
+      store.rewardStreams[Number(event.args.streamId)].totalClaimed += event.args.rewardAmount;
+      break;
+    case "RewardsFunded":
+      store.totalRewardsFunded += event.args.amount;
+      break;
+    case "RewardReserveDrawn":
+      store.totalRewardReserveDrawn += event.args.amount;
+      break;
+  }
+};
+
+/**
+ * Applies the staking events from the block after the store checkpoint up to `toBlock`, checkpointing after every batch.
+ * Events are applied in chain order, so a store resumed from any checkpoint ends up identical to one built in a single run.
+ */
+export const indexStakingEvents = async (staking: Staking, store: IndexerStore, options: IndexOptions = {}) => {
+  const provider = staking.runner!.provider!;
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const batchSize = options.batchSize ?? 2000;
+
+  const timestamps = new Map<number, number>();
+  const getTimestamp = async (blockNumber: number) => {
+    if (!timestamps.has(blockNumber)) timestamps.set(blockNumber, (await provider.getBlock(blockNumber))!.timestamp);
+    return timestamps.get(blockNumber)!;
+  };
+
+  for (let fromBlock = store.lastIndexedBlock + 1; fromBlock <= toBlock; fromBlock += batchSize) {
+    const batchToBlock = Math.min(fromBlock + batchSize - 1, toBlock);
+    const logs = await provider.getLogs({ address: store.address, fromBlock, toBlock: batchToBlock });
+
+    for (const log of logs) {
+      const event = staking.interface.parseLog(log);
+      if (event && indexedEvents.includes(event.name)) {
+        await applyEvent(staking, store, event, log.blockNumber, getTimestamp);
+      }
+    }
+
+    store.lastIndexedBlock = batchToBlock;
+    await options.onCheckpoint?.(store);
+  }
+
+  // Without any immediate update the starting ratio is never emitted, so the one in force at the first block is read instead
+  if (store.rewardRatios[0]?.blockNumber !== store.fromBlock && store.lastIndexedBlock >= store.fromBlock) {
+    const [numerator] = await staking.getRewardRatio({ blockTag: store.fromBlock });
+    store.rewardRatios.unshift({ value: numerator, blockNumber: store.fromBlock, timestamp: await getTimestamp(store.fromBlock) });
+    await options.onCheckpoint?.(store);
+  }
+
+  return store;
+};
+
+/**
+ * Detects the storage the contract exposes at a block from the function selectors its dispatcher pushes,
+ * as calling a view the contract lacks reverts without any reason.
+ */
+export const getStakingFeatures = async (staking: Staking, blockTag: number): Promise<StakingFeatures> => {
+  const code = await staking.runner!.provider!.getCode(await staking.getAddress(), blockTag);
+  // PUSH4 followed by the selector
+  const hasFunction = ({ fragment }: { fragment: FunctionFragment }) => code.includes(`63${fragment.selector.slice(2)}`);
+
+  return {
+    positions: hasFunction(staking.getPositions),
+    withdrawRequests: hasFunction(staking.getWithdrawRequests),
+    rewardReserve: hasFunction(staking.rewardReserve),
+    rewardStreams: hasFunction(staking.getRewardStreams),
+  };
+};
+
+/**
+ * Compares the store with the contract storage at the checkpoint block, skipping the storage the contract lacks.
+ * Only a store indexed from the deployment block can match, earlier positions are otherwise missing.
+ */
+export const reconcileStakingStore = async (staking: Staking, store: IndexerStore) => {
+  const blockTag = store.lastIndexedBlock;
+  const features = await getStakingFeatures(staking, blockTag);
+  const mismatches: ReconcileMismatch[] = [];
+  const compare = (field: string, indexed: bigint, onChain: bigint, staker?: string) => {
+    if (indexed != onChain) mismatches.push({ field, staker, indexed, onChain });
+  };
+
+  for (const [address, staker] of Object.entries(store.stakers)) {
+    compare("amountStaked", staker.amountStaked, (await staking.stakers(address, { blockTag })).amountStaked, address);
+    if (features.positions) {
+      const amountLocked = (await staking.getPositions(address, { blockTag })).reduce((total, { amount }) => total + amount, 0n);
+      compare("amountLocked", staker.amountLocked, amountLocked, address);
+    }
+    if (features.withdrawRequests) {
+      const amountUnbonding = (await staking.getWithdrawRequests(address, { blockTag })).reduce((total, { amount }) => total + amount, 0n);
+      compare("amountUnbonding", staker.amountUnbonding, amountUnbonding, address);
+    }
+  }
+  compare("stakingTokenBalance", getTotalStaked(store), await staking.stakingTokenBalance({ blockTag }));
+  if (features.positions) compare("lockedTokenBalance", getTotalLocked(store), await staking.lockedTokenBalance({ blockTag }));
+  if (features.withdrawRequests) compare("unbondingTokenBalance", getTotalUnbonding(store), await staking.unbondingTokenBalance({ blockTag }));
+  if (features.rewardReserve) compare("rewardReserve", store.totalRewardsFunded - store.totalRewardReserveDrawn, await staking.rewardReserve({ blockTag }));
+
+  // A scheduled ratio is indexed ahead of the time it applies from, so the one in force at the checkpoint is compared
+  const [numerator] = await staking.getRewardRatio({ blockTag });
+  const { timestamp } = (await staking.runner!.provider!.getBlock(blockTag))!;
+  const rewardRatio = store.rewardRatios.filter((change) => change.timestamp <= timestamp).pop();
+  if (rewardRatio) compare("rewardRatio", rewardRatio.value, numerator);
+  if (store.stakingTokenCaps.length > 0) compare("stakingTokenCap", store.stakingTokenCaps[store.stakingTokenCaps.length - 1].value, await staking.stakingTokenCap({ blockTag }));
+  if (store.withdrawCooldowns.length > 0) compare("withdrawCooldown", store.withdrawCooldowns[store.withdrawCooldowns.length - 1].value, await staking.withdrawCooldown({ blockTag }));
+  if (store.minStakingBoostAmounts.length > 0) {
+    compare("minStakingBoostAmount", store.minStakingBoostAmounts[store.minStakingBoostAmounts.length - 1].value, await staking.minStakingBoostAmount({ blockTag }));
+  }
+
+  if (!features.rewardStreams) return mismatches;
+  const rewardStreams = await staking.getRewardStreams({ blockTag });
+  compare("rewardStreamCount", BigInt(store.rewardStreams.length), BigInt(rewardStreams.length));
+  store.rewardStreams.forEach((stream, streamId) => {
+    if (streamId >= rewardStreams.length) return;
+    compare(`rewardStream(${streamId}).rewardRatio`, stream.rewardRatios[stream.rewardRatios.length - 1].value, rewardStreams[streamId].rewardRatioNumerator);
+    compare(`rewardStream(${streamId}).fundedBalance`, stream.totalFunded - stream.totalClaimed, rewardStreams[streamId].fundedBalance);
+  });
+
+  return mismatches;
+};
+
+export const formatMismatch = ({ field, staker, indexed, onChain }: ReconcileMismatch) => `${staker ? `${staker} ` : ""}${field}: indexed ${indexed}, on-chain ${onChain}`;
@@ -0,0 +1,1047 @@
+import { ZeroAddress } from "ethers";
+import { maxMultiplier, maxNoticeDelay, rewardRatioDenominator, timeUnit } from "../config/config";
+import { errors } from "./utils";
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+const BASE_MULTIPLIER = 100n;
+const MAX_REWARD_STREAMS = 5;
+
+export type SimulatorAction =
+  | { type: "stake"; user: string; amount: bigint; timestamp: number }
+  // Staked by `user` on behalf of `beneficiary`
+  | { type: "stakeFor"; user: string; beneficiary: string; amount: bigint; timestamp: number }
+  | { type: "withdraw"; user: string; amount: bigint; timestamp: number }
+  | { type: "requestWithdraw"; user: string; amount: bigint; timestamp: number }
+  | { type: "completeWithdraw"; user: string; requestId: number; timestamp: number }
+  | { type: "cancelWithdraw"; user: string; requestId: number; timestamp: number }
+  | { type: "claimRewards"; user: string; timestamp: number }
+  | { type: "compoundRewards"; user: string; timestamp: number }
+  | { type: "compoundFor"; users: string[]; timestamp: number }
+  | { type: "emergencyWithdraw"; user: string; timestamp: number }
+  /** Transfer of receipt tokens, moving the flexible stake of `user` to `to`. */
+  | { type: "transferReceipt"; user: string; to: string; amount: bigint; timestamp: number }
+  | { type: "withdrawExcessTokens"; amount: bigint; timestamp: number }
+  | { type: "fundRewards"; amount: bigint; timestamp: number }
+  | { type: "setRewardRatio"; numerator: bigint; timestamp: number }
+  | { type: "cancelScheduledRewardRatio"; timestamp: number }
+  | { type: "openPosition"; user: string; amount: bigint; lockDuration: bigint; timestamp: number }
+  | { type: "withdrawPosition"; user: string; positionId: number; timestamp: number }
+  | { type: "claimPositionRewards"; user: string; positionId: number; timestamp: number }
+  | { type: "setTiers"; durations: bigint[]; multipliers: bigint[]; timestamp: number }
+  | { type: "cancelScheduledTiers"; timestamp: number }
+  | { type: "setMinNoticeDelay"; delay: bigint; timestamp: number }
+  | { type: "setLockOptions"; durations: bigint[]; multipliers: bigint[]; timestamp: number }
+  | { type: "setWithdrawCooldown"; cooldown: bigint; timestamp: number }
+  | { type: "addRewardStream"; token: string; numerator: bigint; timestamp: number }
+  | { type: "setRewardStreamRatio"; streamId: number; numerator: bigint; timestamp: number }
+  | { type: "fundRewardStream"; streamId: number; amount: bigint; timestamp: number }
+  | { type: "setStakeForAllowlistEnabled"; enabled: boolean; timestamp: number }
+  | { type: "setStakeForAllowed"; account: string; allowed: boolean; timestamp: number }
+  | { type: "setStakingTokenCap"; cap: bigint; timestamp: number }
+  | { type: "setMinStakingBoostAmount"; amount: bigint; timestamp: number }
+  | { type: "pause"; timestamp: number }
+  | { type: "unpause"; timestamp: number }
+  // Plain staking token transfer to the contract, funding the reward surplus outside the reward reserve
+  | { type: "fund"; amount: bigint; timestamp: number };
+
+export interface SimulatorConfig {
+  rewardRatioNumerator: bigint;
+  stakingTokenCap: bigint;
+  minStakingBoostAmount: bigint;
+  deployTimestamp: number;
+  /** Address of the staking token, which reward streams cannot use. */
+  stakingToken?: string;
+}
+
+export interface SimulatedStaker {
+  timeOfLastUpdate: bigint;
+  timeOfLastBoostUpdate: bigint;
+  conditionIdOfLastUpdate: bigint;
+  amountStaked: bigint;
+  unclaimedRewards: bigint;
+}
+
+export interface SimulatedStakingCondition {
+  startTimestamp: bigint;
+  endTimestamp: bigint;
+  rewardRatioNumerator: bigint;
+  /** Sum of the numerators times the seconds they lasted up to the end of the condition, zero while it is the last one. */
+  cumulativeRewardRatio: bigint;
+}
+
+export interface SimulatedTier {
+  minStakingDuration: bigint;
+  multiplier: bigint;
+}
+
+export interface SimulatedTierSet {
+  /** In the future while the set is scheduled. */
+  startTimestamp: bigint;
+  /** Zero while it is the last set. */
+  endTimestamp: bigint;
+  tiers: SimulatedTier[];
+}
+
+/** Like `NoticeDelay` in the contract, `scheduledDelay` applying from `scheduledTimestamp` and `delay` until then. */
+export interface SimulatedNoticeDelay {
+  delay: bigint;
+  scheduledDelay: bigint;
+  scheduledTimestamp: bigint;
+}
+
+export interface SimulatedLockOption {
+  duration: bigint;
+  multiplier: bigint;
+}
+
+export interface SimulatedPosition {
+  /** Zero once withdrawn. */
+  amount: bigint;
+  multiplier: bigint;
+  startTimestamp: bigint;
+  unlockTimestamp: bigint;
+  timeOfLastUpdate: bigint;
+  conditionIdOfLastUpdate: bigint;
+}
+
+export interface SimulatedWithdrawRequest {
+  /** Zero once completed or cancelled. */
+  amount: bigint;
+  unlockTimestamp: bigint;
+}
+
+export interface SimulatedRewardStream {
+  token: string;
+  timeOfLastUpdate: bigint;
+  rewardRatioNumerator: bigint;
+  cumulativeRewardRatio: bigint;
+  fundedBalance: bigint;
+}
+
+export interface SimulatedStreamStaker {
+  cumulativeRewardRatioPaid: bigint;
+  unclaimedRewards: bigint;
+}
+
+export interface SimulatedStreamRewards {
+  _tokens: string[];
+  _rewards: bigint[];
+}
+
+export interface SimulatedStakeInfo {
+  _tokensStaked: bigint;
+  _rewards: bigint;
+}
+
+/** Full contract state at a point in time, e.g. read from a live deployment. */
+export interface SimulatorSnapshot {
+  timestamp: number;
+  stakingTokenBalance: bigint;
+  lockedTokenBalance: bigint;
+  unbondingTokenBalance: bigint;
+  withdrawCooldown: bigint;
+  noticeDelay: SimulatedNoticeDelay;
+  stakingTokenCap: bigint;
+  minStakingBoostAmount: bigint;
+  paused: boolean;
+  tokenBalance: bigint;
+  rewardReserve: bigint;
+  conditions: SimulatedStakingCondition[];
+  tierSets: SimulatedTierSet[];
+  lockOptions: SimulatedLockOption[];
+  stakers: Record<string, SimulatedStaker>;
+  positions: Record<string, SimulatedPosition[]>;
+  withdrawRequests: Record<string, SimulatedWithdrawRequest[]>;
+}
+
+/** Error thrown by the simulator, named after the custom error the contract would revert with. */
+export class SimulatorRevert extends Error {
+  constructor(public readonly errorName: string) {
+    super(`Simulated revert: ${errorName}`);
+  }
+}
+
+const tryMul = (a: bigint, b: bigint): [boolean, bigint] => {
+  const product = a * b;
+  return product > MAX_UINT256 ? [false, 0n] : [true, product];
+};
+
+/** Running state of a reward calculation, like `RewardAccrual` in the contract. */
+interface RewardAccrual {
+  timestamp: bigint;
+  conditionId: number;
+  cumulativeRewardRatio: bigint;
+  boostedRewardRatio: bigint;
+}
+
+// Like Math.tryMul, overflowing rewards silently amount to nothing
+const boostedRewards = (boostedRewardRatio: bigint, amount: bigint) => {
+  const [noOverflowProduct, rewardsProduct] = tryMul(boostedRewardRatio, amount);
+  return noOverflowProduct ? rewardsProduct / (BASE_MULTIPLIER * timeUnit * rewardRatioDenominator) : 0n;
+};
+
+// Like `_accruedRewards`, the rewards of a weight since the first condition rounded down
+const accruedRewards = (weight: bigint, cumulativeRewardRatio: bigint) =>
+  (weight * cumulativeRewardRatio) / (BASE_MULTIPLIER * timeUnit * rewardRatioDenominator);
+
+const emptyStaker = (): SimulatedStaker => ({
+  timeOfLastUpdate: 0n,
+  timeOfLastBoostUpdate: 0n,
+  conditionIdOfLastUpdate: 0n,
+  amountStaked: 0n,
+  unclaimedRewards: 0n,
+});
+
+/**
+ * Off-chain reference model of the Staking contract.
+ * Every state transition and view mirrors the Solidity implementation, including revert conditions,
+ * so that the results match the on-chain values to the wei.
+ */
+export class StakingSimulator {
+  stakingTokenBalance = 0n;
+  lockedTokenBalance = 0n;
+  unbondingTokenBalance = 0n;
+  withdrawCooldown = 0n;
+  noticeDelay: SimulatedNoticeDelay = { delay: 0n, scheduledDelay: 0n, scheduledTimestamp: 0n };
+  stakeForAllowlistEnabled = false;
+  stakingTokenCap: bigint;
+  minStakingBoostAmount: bigint;
+  paused = false;
+  /** Staking token balance held by the contract: staked, locked and unbonding tokens plus the reward surplus. */
+  tokenBalance = 0n;
+  rewardReserve = 0n;
+  /** Credited unclaimed rewards, like `creditedRewards` in the contract. */
+  creditedRewards = 0n;
+  /** Flexible stake at the maximum multiplier plus the open positions at their lock multiplier, like `rewardWeight`. */
+  rewardWeight = 0n;
+  /** Rewards of `rewardWeight` up to the last update of each stake and position, like `accountedRewards`. */
+  accountedRewards = 0n;
+  readonly conditions: SimulatedStakingCondition[] = [];
+  readonly tierSets: SimulatedTierSet[] = [];
+  lockOptions: SimulatedLockOption[] = [];
+  readonly rewardStreams: SimulatedRewardStream[] = [];
+  private readonly stakingToken?: string;
+  private readonly stakerMap = new Map<string, SimulatedStaker>();
+  private readonly positionMap = new Map<string, SimulatedPosition[]>();
+  private readonly withdrawRequestMap = new Map<string, SimulatedWithdrawRequest[]>();
+  private readonly stakeForAllowlist = new Set<string>();
+  /** Stakers of each reward stream, indexed by stream ID. */
+  private readonly streamStakerMaps: Map<string, SimulatedStreamStaker>[] = [];
+  private now: bigint;
+
+  constructor(config: SimulatorConfig) {
+    this.stakingTokenCap = config.stakingTokenCap;
+    this.minStakingBoostAmount = config.minStakingBoostAmount;
+    this.now = BigInt(config.deployTimestamp);
+    this.stakingToken = config.stakingToken;
+    this.setStakingCondition(config.rewardRatioNumerator);
+    this.startTierSet();
+  }
+
+  /** Restores a simulator from a snapshot instead of replaying every action since deployment. */
+  static fromSnapshot(snapshot: SimulatorSnapshot): StakingSimulator {
+    const simulator = new StakingSimulator({
+      rewardRatioNumerator: snapshot.conditions[snapshot.conditions.length - 1].rewardRatioNumerator,
+      stakingTokenCap: snapshot.stakingTokenCap,
+      minStakingBoostAmount: snapshot.minStakingBoostAmount,
+      deployTimestamp: snapshot.timestamp,
+    });
+
+    simulator.stakingTokenBalance = snapshot.stakingTokenBalance;
+    simulator.lockedTokenBalance = snapshot.lockedTokenBalance;
+    simulator.unbondingTokenBalance = snapshot.unbondingTokenBalance;
+    simulator.withdrawCooldown = snapshot.withdrawCooldown;
+    simulator.noticeDelay = { ...snapshot.noticeDelay };
+    simulator.paused = snapshot.paused;
+    simulator.tokenBalance = snapshot.tokenBalance;
+    simulator.rewardReserve = snapshot.rewardReserve;
+    simulator.conditions.splice(0, simulator.conditions.length, ...snapshot.conditions.map((condition) => ({ ...condition })));
+    simulator.tierSets.splice(
+      0,
+      simulator.tierSets.length,
+      ...snapshot.tierSets.map((tierSet) => ({ ...tierSet, tiers: tierSet.tiers.map((tier) => ({ ...tier })) }))
+    );
+    simulator.lockOptions = snapshot.lockOptions.map((lockOption) => ({ ...lockOption }));
+    for (const [user, staker] of Object.entries(snapshot.stakers)) {
+      simulator.stakerMap.set(user.toLowerCase(), { ...staker });
+      simulator.creditedRewards += staker.unclaimedRewards;
+      if (staker.amountStaked > 0n) {
+        const cumulativeRewardRatio = simulator.cumulativeRewardRatioAt(Number(staker.conditionIdOfLastUpdate), staker.timeOfLastUpdate);
+        simulator.accountRewardWeight(0n, maxMultiplier * staker.amountStaked, cumulativeRewardRatio);
+      }
+    }
+    for (const [user, positions] of Object.entries(snapshot.positions)) {
+      simulator.positionMap.set(user.toLowerCase(), positions.map((position) => ({ ...position })));
+      for (const position of positions) {
+        simulator.accountRewardWeight(0n, position.amount * position.multiplier, simulator.positionCumulativeRewardRatio(position));
+      }
+    }
+    for (const [user, requests] of Object.entries(snapshot.withdrawRequests)) {
+      simulator.withdrawRequestMap.set(user.toLowerCase(), requests.map((request) => ({ ...request })));
+    }
+    return simulator;
+  }
+
+  /** Applies an ordered list of actions, throwing on the first one the contract would revert. */
+  applyAll(actions: SimulatorAction[]) {
+    for (const action of actions) {
+      this.apply(action);
+    }
+  }
+
+  /** Applies a single action at its timestamp. State is left untouched when the action reverts. */
+  apply(action: SimulatorAction) {
+    const timestamp = BigInt(action.timestamp);
+    if (timestamp < this.now) throw new Error(`Action ${action.type} at ${timestamp} is older than the current time ${this.now}`);
+
+    // The checks run at the action timestamp, the time only moves forward once they pass
+    const previous = this.now;
+    this.now = timestamp;
+    try {
+      this.applyAction(action);
+    } catch (error) {
+      this.now = previous;
+      throw error;
+    }
+  }
+
+  /** Mirrors the contract call of an action at the current time. */
+  private applyAction(action: SimulatorAction) {
+    switch (action.type) {
+      case "stake":
+        return this.stake(action.user, action.amount);
+      case "stakeFor":
+        return this.stakeFor(action.user, action.beneficiary, action.amount);
+      case "withdraw":
+        return this.withdraw(action.user, action.amount);
+      case "requestWithdraw":
+        return this.requestWithdraw(action.user, action.amount);
+      case "completeWithdraw":
+        return this.completeWithdraw(action.user, action.requestId);
+      case "cancelWithdraw":
+        return this.cancelWithdraw(action.user, action.requestId);
+      case "claimRewards":
+        return this.claimRewards(action.user);
+      case "compoundRewards":
+        return this.compoundRewards(action.user);
+      case "compoundFor":
+        return this.compoundFor(action.users);
+      case "emergencyWithdraw":
+        return this.emergencyWithdraw(action.user);
+      case "transferReceipt":
+        return this.transferReceipt(action.user, action.to, action.amount);
+      case "withdrawExcessTokens":
+        return this.withdrawExcessTokens(action.amount);
+      case "fundRewards":
+        if (action.amount == 0n) throw new SimulatorRevert(errors.invalidAmount);
+        this.tokenBalance += action.amount;
+        this.rewardReserve += action.amount;
+        return;
+      case "setRewardRatio":
+        return this.setRewardRatio(action.numerator);
+      case "cancelScheduledRewardRatio":
+        if (this.conditions[this.conditions.length - 1].startTimestamp <= this.now) throw new SimulatorRevert(errors.noScheduledChange);
+        this.conditions.pop();
+        return;
+      case "openPosition":
+        return this.openPosition(action.user, action.amount, action.lockDuration);
+      case "withdrawPosition":
+        return this.withdrawPosition(action.user, action.positionId);
+      case "claimPositionRewards":
+        return this.claimPositionRewards(action.user, action.positionId);
+      case "setTiers":
+        return this.setTiers(action.durations, action.multipliers);
+      case "cancelScheduledTiers":
+        if (this.tierSets[this.tierSets.length - 1].startTimestamp <= this.now) throw new SimulatorRevert(errors.noScheduledChange);
+        this.tierSets.pop();
+        this.tierSets[this.tierSets.length - 1].endTimestamp = 0n;
+        return;
+      case "setMinNoticeDelay":
+        return this.setMinNoticeDelay(action.delay);
+      case "setLockOptions":
+        return this.setLockOptions(action.durations, action.multipliers);
+      case "setWithdrawCooldown":
+        this.withdrawCooldown = action.cooldown;
+        return;
+      case "addRewardStream":
+        return this.addRewardStream(action.token, action.numerator);
+      case "setRewardStreamRatio":
+        return this.setRewardStreamRatio(action.streamId, action.numerator);
+      case "fundRewardStream": {
+        const stream = this.getRewardStream(action.streamId);
+        if (action.amount == 0n) throw new SimulatorRevert(errors.invalidAmount);
+        stream.fundedBalance += action.amount;
+        return;
+      }
+      case "setStakeForAllowlistEnabled":
+        this.stakeForAllowlistEnabled = action.enabled;
+        return;
+      case "setStakeForAllowed":
+        if (action.allowed) this.stakeForAllowlist.add(action.account.toLowerCase());
+        else this.stakeForAllowlist.delete(action.account.toLowerCase());
+        return;
+      case "setStakingTokenCap":
+        this.stakingTokenCap = action.cap;
+        return;
+      case "setMinStakingBoostAmount":
+        if (action.amount == 0n) throw new SimulatorRevert(errors.invalidAmount);
+        this.minStakingBoostAmount = action.amount;
+        return;
+      case "pause":
+        if (this.paused) throw new SimulatorRevert(errors.paused);
+        this.paused = true;
+        return;
+      case "unpause":
+        if (!this.paused) throw new SimulatorRevert(errors.notPaused);
+        this.paused = false;
+        return;
+      case "fund":
+        this.tokenBalance += action.amount;
+        return;
+    }
+  }
+
+  /** Mirrors the public `stakers` getter. */
+  stakers(user: string): SimulatedStaker {
+    return { ...this.getStaker(user) };
+  }
+
+  /** Mirrors `getStakeInfo` at the given timestamp. */
+  getStakeInfo(user: string, timestamp: number = Number(this.now)): SimulatedStakeInfo {
+    return this.atTime(timestamp, () => ({ _tokensStaked: this.getStaker(user).amountStaked, _rewards: this.availableRewards(user) }));
+  }
+
+  /** Mirrors `getPositions`. */
+  positions(user: string): SimulatedPosition[] {
+    return this.getPositions(user).map((position) => ({ ...position }));
+  }
+
+  /** Mirrors `getWithdrawRequests`. */
+  withdrawRequests(user: string): SimulatedWithdrawRequest[] {
+    return this.getWithdrawRequests(user).map((request) => ({ ...request }));
+  }
+
+  /** Mirrors `getStreamRewards` at the given timestamp. */
+  getStreamRewards(user: string, timestamp: number = Number(this.now)): SimulatedStreamRewards {
+    return this.atTime(timestamp, () => ({
+      _tokens: this.rewardStreams.map(({ token }) => token),
+      _rewards: this.rewardStreams.map((_, streamId) => this.availableStreamRewards(streamId, user)),
+    }));
+  }
+
+  /** Mirrors `getPositionRewards` at the given timestamp. */
+  getPositionRewards(user: string, positionId: number, timestamp: number = Number(this.now)): bigint {
+    return this.atTime(timestamp, () => this.calculatePositionRewards(this.getPosition(user, positionId)));
+  }
+
+  /** Mirrors `getCurrentMultiplier` at the given timestamp. */
+  getCurrentMultiplier(user: string, timestamp: number = Number(this.now)): bigint {
+    return this.atTime(timestamp, () => this.currentMultiplier(user));
+  }
+
+  /** Mirrors `rewardLiabilities` at the given timestamp. */
+  rewardLiabilities(timestamp: number = Number(this.now)): bigint {
+    return this.atTime(timestamp, () => this.creditedRewards + accruedRewards(this.rewardWeight, this.currentCumulativeRewardRatio()) - this.accountedRewards);
+  }
+
+  /** Mirrors `getFreeSurplus` at the given timestamp. */
+  getFreeSurplus(timestamp: number = Number(this.now)): bigint {
+    const rewardLiabilities = this.rewardLiabilities(timestamp);
+    const owed = this.rewardReserve > rewardLiabilities ? this.rewardReserve : rewardLiabilities;
+    const committed = this.stakingTokenBalance + this.lockedTokenBalance + this.unbondingTokenBalance + owed;
+    return this.tokenBalance > committed ? this.tokenBalance - committed : 0n;
+  }
+
+  /** Mirrors `getRewardRatio`. */
+  getRewardRatio(): [bigint, bigint] {
+    return [this.conditions[this.currentConditionId()].rewardRatioNumerator, rewardRatioDenominator];
+  }
+
+  /** Mirrors `getScheduledRewardRatio`. */
+  getScheduledRewardRatio(): [bigint, bigint] {
+    const condition = this.conditions[this.conditions.length - 1];
+    return condition.startTimestamp > this.now ? [condition.rewardRatioNumerator, condition.startTimestamp] : [0n, 0n];
+  }
+
+  /** Mirrors `minNoticeDelay`, the notice delay in force. */
+  get minNoticeDelay(): bigint {
+    const { delay, scheduledDelay, scheduledTimestamp } = this.noticeDelay;
+    return this.now >= scheduledTimestamp ? scheduledDelay : delay;
+  }
+
+  /** Mirrors `getScheduledMinNoticeDelay`. */
+  getScheduledMinNoticeDelay(): [bigint, bigint] {
+    const { scheduledDelay, scheduledTimestamp } = this.noticeDelay;
+    return scheduledTimestamp > this.now ? [scheduledDelay, scheduledTimestamp] : [0n, 0n];
+  }
+
+  /** Mirrors the `tiers` getter, i.e. the tiers of the current set. */
+  get tiers(): SimulatedTier[] {
+    return this.tierSets[this.tierSetIdAt(this.now)].tiers;
+  }
+
+  /** Addresses that have staked or opened a position at least once. */
+  get users(): string[] {
+    return [...new Set([...this.stakerMap.keys(), ...this.positionMap.keys()])];
+  }
+
+  private atTime<T>(timestamp: number, fn: () => T): T {
+    const previous = this.now;
+    if (BigInt(timestamp) < previous) throw new Error(`Cannot query ${timestamp}, the simulation is already at ${previous}`);
+    this.now = BigInt(timestamp);
+    try {
+      return fn();
+    } finally {
+      this.now = previous;
+    }
+  }
+
+  private getStaker(user: string, create = false): SimulatedStaker {
+    const key = user.toLowerCase();
+    let staker = this.stakerMap.get(key);
+    if (!staker) {
+      staker = emptyStaker();
+      if (create) this.stakerMap.set(key, staker);
+    }
+    return staker;
+  }
+
+  private stake(user: string, amount: bigint) {
+    if (this.paused) throw new SimulatorRevert(errors.paused);
+    if (amount == 0n) throw new SimulatorRevert(errors.invalidAmount);
+    if (this.stakingTokenBalance + this.lockedTokenBalance + amount > this.stakingTokenCap) throw new SimulatorRevert(errors.cannotStakeMoreThanCap);
+
+    this.moveStake(ZeroAddress, user, amount);
+    this.tokenBalance += amount;
+  }
+
+  private stakeFor(user: string, beneficiary: string, amount: bigint) {
+    if (this.paused) throw new SimulatorRevert(errors.paused);
+    if (beneficiary == ZeroAddress) throw new SimulatorRevert(errors.invalidBeneficiary);
+    if (this.stakeForAllowlistEnabled && !this.stakeForAllowlist.has(user.toLowerCase())) throw new SimulatorRevert(errors.stakeForNotAllowed);
+
+    this.stake(beneficiary, amount);
+  }
+
+  /** Mirrors `_moveStake`: the zero address as `from` stakes tokens held by the contract, as `to` takes them out of the stake. */
+  private moveStake(from: string, to: string, amount: bigint) {
+    if (from == ZeroAddress) {
+      this.stakingTokenBalance += amount;
+    } else {
+      this.updateStreamRewards(from);
+      const sender = this.getStaker(from);
+      this.updateUnclaimedRewardsForStaker(from, sender.amountStaked - amount);
+
+      sender.timeOfLastBoostUpdate = this.now;
+    }
+
+    if (to == ZeroAddress) {
+      this.stakingTokenBalance -= amount;
+    } else {
+      this.updateStreamRewards(to);
+      const receiver = this.getStaker(to, true);
+
+      if (receiver.amountStaked < this.minStakingBoostAmount && receiver.amountStaked + amount >= this.minStakingBoostAmount) {
+        receiver.timeOfLastBoostUpdate = this.now;
+      }
+
+      this.updateUnclaimedRewardsForStaker(to, receiver.amountStaked + amount);
+    }
+  }
+
+  private transferReceipt(user: string, to: string, amount: bigint) {
+    if (to == ZeroAddress) throw new SimulatorRevert(errors.invalidReceiptReceiver);
+    if (this.getStaker(user).amountStaked < amount) throw new SimulatorRevert(errors.insufficientReceiptBalance);
+    if (this.paused) throw new SimulatorRevert(errors.paused);
+    if (user.toLowerCase() == to.toLowerCase() || amount == 0n) return;
+
+    this.moveStake(user, to, amount);
+  }
+
+  private withdraw(user: string, amount: bigint) {
+    if (this.paused) throw new SimulatorRevert(errors.paused);
+    if (this.withdrawCooldown > 0n) throw new SimulatorRevert(errors.withdrawCooldownActive);
+    const staker = this.getStaker(user);
+    if (amount == 0n || staker.amountStaked < amount) throw new SimulatorRevert(errors.invalidAmount);
+
+    this.moveStake(user, ZeroAddress, amount);
+    this.tokenBalance -= amount;
+  }
+
+  private requestWithdraw(user: string, amount: bigint) {
+    if (this.paused) throw new SimulatorRevert(errors.paused);
+    const staker = this.getStaker(user);
+    if (amount == 0n || staker.amountStaked < amount) throw new SimulatorRevert(errors.invalidAmount);
+
+    this.moveStake(user, ZeroAddress, amount);
+    this.unbondingTokenBalance += amount;
+
+    const requests = this.withdrawRequestMap.get(user.toLowerCase()) ?? [];
+    this.withdrawRequestMap.set(user.toLowerCase(), requests);
+    requests.push({ amount, unlockTimestamp: this.now + this.withdrawCooldown });
+  }
+
+  private completeWithdraw(user: string, requestId: number) {
+    if (this.paused) throw new SimulatorRevert(errors.paused);
+    const request = this.getWithdrawRequest(user, requestId);
+    const amount = request.amount;
+    if (amount == 0n) throw new SimulatorRevert(errors.invalidAmount);
+    if (this.now < request.unlockTimestamp) throw new SimulatorRevert(errors.withdrawRequestLocked);
+
+    request.amount = 0n;
+    this.unbondingTokenBalance -= amount;
+    this.tokenBalance -= amount;
+  }
+
+  private cancelWithdraw(user: string, requestId: number) {
+    if (this.paused) throw new SimulatorRevert(errors.paused);
+    const request = this.getWithdrawRequest(user, requestId);
+    const amount = request.amount;
+    if (amount == 0n) throw new SimulatorRevert(errors.invalidAmount);
+    if (this.stakingTokenBalance + this.lockedTokenBalance + amount > this.stakingTokenCap) throw new SimulatorRevert(errors.cannotStakeMoreThanCap);
+
+    request.amount = 0n;
+    this.unbondingTokenBalance -= amount;
+    this.moveStake(ZeroAddress, user, amount);
+  }
+
+  private claimRewards(user: string) {
+    if (this.paused) throw new SimulatorRevert(errors.paused);
+    const staker = this.getStaker(user);
+    const rewards = staker.unclaimedRewards + this.calculateRewards(user);
+
+    if (rewards > this.rewardSurplus()) throw new SimulatorRevert(errors.missingRewards);
+    const claimableStreams = this.rewardStreams.filter((stream, streamId) => {
+      const streamRewards = this.availableStreamRewards(streamId, user);
+      return streamRewards > 0n && streamRewards <= stream.fundedBalance;
+    });
+    if (rewards == 0n && claimableStreams.length == 0) throw new SimulatorRevert(errors.noRewards);
+
+    this.updateUnclaimedRewardsForStaker(user, staker.amountStaked);
+    this.claimStreamRewards(user);
+    if (rewards == 0n) return;
+
+    staker.unclaimedRewards = 0n;
+    this.creditedRewards -= rewards;
+    this.drawRewardReserve(rewards);
+    this.tokenBalance -= rewards;
+  }
+
+  private claimStreamRewards(user: string) {
+    this.updateStreamRewards(user);
+
+    this.rewardStreams.forEach((stream, streamId) => {
+      const streamStaker = this.getStreamStaker(streamId, user);
+      const rewards = streamStaker.unclaimedRewards;
+      if (rewards == 0n || rewards > stream.fundedBalance) return;
+
+      streamStaker.unclaimedRewards = 0n;
+      stream.fundedBalance -= rewards;
+    });
+  }
+
+  private updateStreamRewards(user: string) {
+    const amountStaked = this.getStaker(user).amountStaked;
+
+    this.rewardStreams.forEach((stream, streamId) => {
+      const streamStaker = this.getStreamStaker(streamId, user, true);
+      const cumulativeRewardRatio = this.streamCumulativeRewardRatio(stream);
+
+      streamStaker.unclaimedRewards += boostedRewards(BASE_MULTIPLIER * (cumulativeRewardRatio - streamStaker.cumulativeRewardRatioPaid), amountStaked);
+      streamStaker.cumulativeRewardRatioPaid = cumulativeRewardRatio;
+    });
+  }
+
+  private addRewardStream(token: string, numerator: bigint) {
+    if (token == ZeroAddress || token.toLowerCase() == this.stakingToken?.toLowerCase()) throw new SimulatorRevert(errors.invalidTokenAddress);
+    if (numerator == 0n) throw new SimulatorRevert(errors.invalidRewardRatio);
+    if (this.rewardStreams.length >= MAX_REWARD_STREAMS) throw new SimulatorRevert(errors.tooManyRewardStreams);
+    if (this.rewardStreams.some((stream) => stream.token.toLowerCase() == token.toLowerCase())) throw new SimulatorRevert(errors.invalidTokenAddress);
+
+    this.rewardStreams.push({ token, timeOfLastUpdate: this.now, rewardRatioNumerator: numerator, cumulativeRewardRatio: 0n, fundedBalance: 0n });
+    this.streamStakerMaps.push(new Map());
+  }
+
+  private setRewardStreamRatio(streamId: number, numerator: bigint) {
+    const stream = this.getRewardStream(streamId);
+    if (numerator == stream.rewardRatioNumerator) throw new SimulatorRevert(errors.invalidRewardRatio);
+
+    stream.cumulativeRewardRatio = this.streamCumulativeRewardRatio(stream);
+    stream.timeOfLastUpdate = this.now;
+    stream.rewardRatioNumerator = numerator;
+  }
+
+  private getRewardStream(streamId: number): SimulatedRewardStream {
+    const stream = this.rewardStreams[streamId];
+    if (!stream) throw new SimulatorRevert(errors.invalidRewardStreamId);
+    return stream;
+  }
+
+  private getStreamStaker(streamId: number, user: string, create = false): SimulatedStreamStaker {
+    const key = user.toLowerCase();
+    let streamStaker = this.streamStakerMaps[streamId].get(key);
+    if (!streamStaker) {
+      streamStaker = { cumulativeRewardRatioPaid: 0n, unclaimedRewards: 0n };
+      if (create) this.streamStakerMaps[streamId].set(key, streamStaker);
+    }
+    return streamStaker;
+  }
+
+  private streamCumulativeRewardRatio(stream: SimulatedRewardStream): bigint {
+    return stream.cumulativeRewardRatio + stream.rewardRatioNumerator * (this.now - stream.timeOfLastUpdate);
+  }
+
+  private availableStreamRewards(streamId: number, user: string): bigint {
+    const streamStaker = this.getStreamStaker(streamId, user);
+    const cumulativeRewardRatio = this.streamCumulativeRewardRatio(this.rewardStreams[streamId]);
+    return (
+      streamStaker.unclaimedRewards +
+      boostedRewards(BASE_MULTIPLIER * (cumulativeRewardRatio - streamStaker.cumulativeRewardRatioPaid), this.getStaker(user).amountStaked)
+    );
+  }
+
+  private compoundFor(users: string[]) {
+    if (this.paused) throw new SimulatorRevert(errors.paused);
+
+    // Missing rewards on any staker undo the whole batch, so the checks run on the running totals before anything changes
+    const compounded = new Set<string>();
+    let total = 0n;
+    for (const user of users) {
+      const rewards = compounded.has(user.toLowerCase()) ? 0n : this.availableRewards(user);
+      if (rewards == 0n) continue;
+      // Skipped like the stakers without rewards, the next ones can still fit under the cap
+      if (this.stakingTokenBalance + this.lockedTokenBalance + total + rewards > this.stakingTokenCap) continue;
+
+      compounded.add(user.toLowerCase());
+      total += rewards;
+      if (total > this.rewardSurplus()) throw new SimulatorRevert(errors.missingRewards);
+    }
+
+    for (const user of compounded) this.compoundRewards(user);
+  }
+
+  private compoundRewards(user: string) {
+    if (this.paused) throw new SimulatorRevert(errors.paused);
+    const staker = this.getStaker(user);
+    const rewards = staker.unclaimedRewards + this.calculateRewards(user);
+
+    if (rewards == 0n) throw new SimulatorRevert(errors.noRewards);
+    if (rewards > this.rewardSurplus()) throw new SimulatorRevert(errors.missingRewards);
+    if (this.stakingTokenBalance + this.lockedTokenBalance + rewards > this.stakingTokenCap) throw new SimulatorRevert(errors.cannotStakeMoreThanCap);
+
+    this.updateUnclaimedRewardsForStaker(user, staker.amountStaked);
+    staker.unclaimedRewards = 0n;
+    this.creditedRewards -= rewards;
+    this.drawRewardReserve(rewards);
+    this.moveStake(ZeroAddress, user, rewards);
+  }
+
+  private emergencyWithdraw(user: string) {
+    if (this.withdrawCooldown > 0n && !this.paused) throw new SimulatorRevert(errors.withdrawCooldownActive);
+
+    const staker = this.getStaker(user);
+    const amountStaked = staker.amountStaked;
+    const requests = this.getWithdrawRequests(user);
+    const amountRequested = requests.reduce((total, { amount }) => total + amount, 0n);
+    if (amountStaked + amountRequested == 0n) throw new SimulatorRevert(errors.invalidAmount);
+
+    for (const request of requests) request.amount = 0n;
+    this.unbondingTokenBalance -= amountRequested;
+    this.moveStake(user, ZeroAddress, amountStaked);
+    this.tokenBalance -= amountStaked + amountRequested;
+  }
+
+  private openPosition(user: string, amount: bigint, lockDuration: bigint) {
+    if (this.paused) throw new SimulatorRevert(errors.paused);
+    if (amount == 0n) throw new SimulatorRevert(errors.invalidAmount);
+    if (this.stakingTokenBalance + this.lockedTokenBalance + amount > this.stakingTokenCap) throw new SimulatorRevert(errors.cannotStakeMoreThanCap);
+    const lockOption = this.lockOptions.find(({ duration }) => duration == lockDuration);
+    if (!lockOption) throw new SimulatorRevert(errors.invalidLockDuration);
+
+    const positions = this.positionMap.get(user.toLowerCase()) ?? [];
+    this.positionMap.set(user.toLowerCase(), positions);
+    positions.push({
+      amount,
+      multiplier: lockOption.multiplier,
+      startTimestamp: this.now,
+      unlockTimestamp: this.now + lockDuration,
+      timeOfLastUpdate: this.now,
+      conditionIdOfLastUpdate: BigInt(this.currentConditionId()),
+    });
+    this.lockedTokenBalance += amount;
+    this.accountRewardWeight(0n, amount * lockOption.multiplier, this.currentCumulativeRewardRatio());
+    this.tokenBalance += amount;
+  }
+
+  private withdrawPosition(user: string, positionId: number) {
+    const position = this.getPosition(user, positionId);
+    const amount = position.amount;
+    if (amount == 0n) throw new SimulatorRevert(errors.invalidAmount);
+    if (this.now < position.unlockTimestamp) throw new SimulatorRevert(errors.positionLocked);
+
+    const rewards = this.calculatePositionRewards(position);
+    this.getStaker(user, true).unclaimedRewards += rewards;
+    this.creditedRewards += rewards;
+    this.accountRewardWeight(amount * position.multiplier, 0n, this.positionCumulativeRewardRatio(position));
+
+    position.amount = 0n;
+    position.timeOfLastUpdate = this.now;
+    position.conditionIdOfLastUpdate = BigInt(this.currentConditionId());
+    this.lockedTokenBalance -= amount;
+    this.tokenBalance -= amount;
+  }
+
+  private claimPositionRewards(user: string, positionId: number) {
+    if (this.paused) throw new SimulatorRevert(errors.paused);
+    const position = this.getPosition(user, positionId);
+    const rewards = this.calculatePositionRewards(position);
+
+    if (rewards == 0n) throw new SimulatorRevert(errors.noRewards);
+    if (rewards > this.rewardSurplus()) throw new SimulatorRevert(errors.missingRewards);
+
+    const weight = position.amount * position.multiplier;
+    this.accountRewardWeight(weight, weight, this.positionCumulativeRewardRatio(position));
+    position.timeOfLastUpdate = this.now;
+    position.conditionIdOfLastUpdate = BigInt(this.currentConditionId());
+    this.drawRewardReserve(rewards);
+    this.tokenBalance -= rewards;
+  }
+
+  private withdrawExcessTokens(amount: bigint) {
+    if (amount == 0n) throw new SimulatorRevert(errors.invalidAmount);
+    const freeSurplus = this.getFreeSurplus();
+    if (freeSurplus == 0n) throw new SimulatorRevert(errors.noExcessStakingToken);
+    if (amount > freeSurplus) throw new SimulatorRevert(errors.withdrawAmountExceedsLimit);
+
+    this.tokenBalance -= amount;
+  }
+
+  private drawRewardReserve(rewards: bigint) {
+    this.rewardReserve -= rewards < this.rewardReserve ? rewards : this.rewardReserve;
+  }
+
+  private rewardSurplus(): bigint {
+    return this.tokenBalance - this.stakingTokenBalance - this.lockedTokenBalance - this.unbondingTokenBalance;
+  }
+
+  private getPositions(user: string): SimulatedPosition[] {
+    return this.positionMap.get(user.toLowerCase()) ?? [];
+  }
+
+  private getPosition(user: string, positionId: number): SimulatedPosition {
+    const position = this.getPositions(user)[positionId];
+    if (!position) throw new SimulatorRevert(errors.invalidPositionId);
+    return position;
+  }
+
+  private getWithdrawRequests(user: string): SimulatedWithdrawRequest[] {
+    return this.withdrawRequestMap.get(user.toLowerCase()) ?? [];
+  }
+
+  private getWithdrawRequest(user: string, requestId: number): SimulatedWithdrawRequest {
+    const request = this.getWithdrawRequests(user)[requestId];
+    if (!request) throw new SimulatorRevert(errors.invalidWithdrawRequestId);
+    return request;
+  }
+
+  private setRewardRatio(numerator: bigint) {
+    const condition = this.conditions[this.conditions.length - 1];
+    const effectiveTimestamp = this.scheduleAfterNotice(condition.startTimestamp);
+    if (numerator == condition.rewardRatioNumerator) throw new SimulatorRevert(errors.invalidRewardRatio);
+    this.setStakingCondition(numerator, effectiveTimestamp);
+  }
+
+  private setTiers(durations: bigint[], multipliers: bigint[]) {
+    const effectiveTimestamp = this.scheduleAfterNotice(this.tierSets[this.tierSets.length - 1].startTimestamp);
+    if (durations.length != multipliers.length || durations.length == 0) throw new SimulatorRevert(errors.invalidTiersLength);
+    for (let i = 0; i < durations.length; i++) {
+      if (i > 0 && durations[i] <= durations[i - 1]) throw new SimulatorRevert(errors.invalidTiersDurations);
+      if (multipliers[i] < 100n || multipliers[i] > maxMultiplier) throw new SimulatorRevert(errors.invalidMultiplier);
+    }
+
+    this.startTierSet(effectiveTimestamp).tiers = durations.map((minStakingDuration, i) => ({ minStakingDuration, multiplier: multipliers[i] }));
+  }
+
+  private scheduleAfterNotice(lastStartTimestamp: bigint): bigint {
+    if (lastStartTimestamp > this.now) throw new SimulatorRevert(errors.changeAlreadyScheduled);
+    return this.now + this.minNoticeDelay;
+  }
+
+  private setMinNoticeDelay(delay: bigint) {
+    if (delay > maxNoticeDelay) throw new SimulatorRevert(errors.invalidNoticeDelay);
+    const minNoticeDelay = this.minNoticeDelay;
+    this.noticeDelay = { delay: minNoticeDelay, scheduledDelay: delay, scheduledTimestamp: this.now + minNoticeDelay };
+  }
+
+  private setLockOptions(durations: bigint[], multipliers: bigint[]) {
+    if (durations.length != multipliers.length) throw new SimulatorRevert(errors.invalidLockOptionsLength);
+    for (let i = 0; i < durations.length; i++) {
+      if (durations[i] <= (i == 0 ? 0n : durations[i - 1])) throw new SimulatorRevert(errors.invalidLockDurations);
+      if (multipliers[i] < 100n || multipliers[i] > maxMultiplier) throw new SimulatorRevert(errors.invalidMultiplier);
+    }
+
+    this.lockOptions = durations.map((duration, i) => ({ duration, multiplier: multipliers[i] }));
+  }
+
+  private startTierSet(startTimestamp = this.now): SimulatedTierSet {
+    if (this.tierSets.length > 0) this.tierSets[this.tierSets.length - 1].endTimestamp = startTimestamp;
+    const tierSet: SimulatedTierSet = { startTimestamp, endTimestamp: 0n, tiers: [] };
+    this.tierSets.push(tierSet);
+    return tierSet;
+  }
+
+  private setStakingCondition(numerator: bigint, startTimestamp = this.now) {
+    if (numerator == 0n) throw new SimulatorRevert(errors.invalidRewardRatio);
+
+    if (this.conditions.length > 0) {
+      const conditionId = this.conditions.length - 1;
+      this.conditions[conditionId].cumulativeRewardRatio = this.cumulativeRewardRatioAt(conditionId, startTimestamp);
+      this.conditions[conditionId].endTimestamp = startTimestamp;
+    }
+    this.conditions.push({ rewardRatioNumerator: numerator, startTimestamp, endTimestamp: 0n, cumulativeRewardRatio: 0n });
+  }
+
+  private updateUnclaimedRewardsForStaker(user: string, amountStaked: bigint) {
+    const staker = this.getStaker(user);
+    const rewards = this.calculateRewards(user);
+    const cumulativeRewardRatio = staker.amountStaked > 0n ? this.cumulativeRewardRatioAt(Number(staker.conditionIdOfLastUpdate), staker.timeOfLastUpdate) : 0n;
+    this.accountRewardWeight(maxMultiplier * staker.amountStaked, maxMultiplier * amountStaked, cumulativeRewardRatio);
+
+    staker.unclaimedRewards += rewards;
+    this.creditedRewards += rewards;
+    staker.amountStaked = amountStaked;
+    staker.timeOfLastUpdate = this.now;
+    staker.conditionIdOfLastUpdate = BigInt(this.currentConditionId());
+  }
+
+  private accountRewardWeight(oldWeight: bigint, newWeight: bigint, oldCumulativeRewardRatio: bigint) {
+    this.rewardWeight += newWeight - oldWeight;
+    this.accountedRewards += accruedRewards(newWeight, this.currentCumulativeRewardRatio()) - accruedRewards(oldWeight, oldCumulativeRewardRatio);
+  }
+
+  private positionCumulativeRewardRatio(position: SimulatedPosition): bigint {
+    return this.cumulativeRewardRatioAt(Number(position.conditionIdOfLastUpdate), position.timeOfLastUpdate);
+  }
+
+  private currentMultiplier(user: string): bigint {
+    const staker = this.getStaker(user);
+    const timeElapsed = this.now - staker.timeOfLastBoostUpdate;
+
+    if (this.tiers.length == 0 || staker.amountStaked < this.minStakingBoostAmount || staker.timeOfLastBoostUpdate == 0n) {
+      return BASE_MULTIPLIER;
+    }
+
+    for (let i = 0; i < this.tiers.length; i++) {
+      if (timeElapsed < this.tiers[i].minStakingDuration) {
+        return i == 0 ? BASE_MULTIPLIER : this.tiers[i - 1].multiplier;
+      }
+    }
+
+    return this.tiers[this.tiers.length - 1].multiplier;
+  }
+
+  private availableRewards(user: string): bigint {
+    const staker = this.getStaker(user);
+    return staker.amountStaked == 0n ? staker.unclaimedRewards : staker.unclaimedRewards + this.calculateRewards(user);
+  }
+
+  private calculateRewards(user: string): bigint {
+    const staker = this.getStaker(user);
+    if (staker.amountStaked == 0n) return 0n;
+
+    const accrual = this.createAccrual(staker.timeOfLastUpdate, staker.conditionIdOfLastUpdate);
+
+    if (staker.amountStaked >= this.minStakingBoostAmount && staker.timeOfLastBoostUpdate != 0n) {
+      // Each tier set only applies over the period it was in force, each of its multipliers from the time the staker reached that tier
+      for (let tierSetId = this.tierSetIdAt(accrual.timestamp); tierSetId < this.tierSets.length; tierSetId++) {
+        const tierSet = this.tierSets[tierSetId];
+        const tierSetEnd = tierSet.endTimestamp == 0n || tierSet.endTimestamp > this.now ? this.now : tierSet.endTimestamp;
+        let multiplier = BASE_MULTIPLIER;
+
+        for (const tier of tierSet.tiers) {
+          const tierStart = staker.timeOfLastBoostUpdate + tier.minStakingDuration;
+          if (tierStart > tierSetEnd) break;
+
+          if (tierStart > accrual.timestamp) this.accrueRewardRatio(accrual, tierStart, multiplier);
+          multiplier = tier.multiplier;
+        }
+        this.accrueRewardRatio(accrual, tierSetEnd, multiplier);
+      }
+    } else {
+      this.accrueRewardRatio(accrual, this.now, BASE_MULTIPLIER);
+    }
+
+    return boostedRewards(accrual.boostedRewardRatio, staker.amountStaked);
+  }
+
+  private calculatePositionRewards(position: SimulatedPosition): bigint {
+    if (position.amount == 0n) return 0n;
+
+    const accrual = this.createAccrual(position.timeOfLastUpdate, position.conditionIdOfLastUpdate);
+
+    // The lock multiplier only applies until the position unlocks
+    if (accrual.timestamp < position.unlockTimestamp) {
+      this.accrueRewardRatio(accrual, position.unlockTimestamp < this.now ? position.unlockTimestamp : this.now, position.multiplier);
+    }
+    this.accrueRewardRatio(accrual, this.now, BASE_MULTIPLIER);
+
+    return boostedRewards(accrual.boostedRewardRatio, position.amount);
+  }
+
+  private createAccrual(timestamp: bigint, conditionId: bigint): RewardAccrual {
+    return {
+      timestamp,
+      conditionId: Number(conditionId),
+      cumulativeRewardRatio: this.cumulativeRewardRatioAt(Number(conditionId), timestamp),
+      boostedRewardRatio: 0n,
+    };
+  }
+
+  private accrueRewardRatio(accrual: RewardAccrual, timestamp: bigint, multiplier: bigint) {
+    accrual.conditionId = this.conditionIdAt(timestamp, accrual.conditionId);
+    const cumulativeRewardRatio = this.cumulativeRewardRatioAt(accrual.conditionId, timestamp);
+
+    accrual.boostedRewardRatio += multiplier * (cumulativeRewardRatio - accrual.cumulativeRewardRatio);
+    accrual.timestamp = timestamp;
+    accrual.cumulativeRewardRatio = cumulativeRewardRatio;
+  }
+
+  /** The last condition unless it is scheduled. */
+  private currentConditionId(): number {
+    const conditionId = this.conditions.length - 1;
+    return this.conditions[conditionId].startTimestamp > this.now ? conditionId - 1 : conditionId;
+  }
+
+  private tierSetIdAt(timestamp: bigint): number {
+    let tierSetId = 0;
+    while (tierSetId + 1 < this.tierSets.length && this.tierSets[tierSetId + 1].startTimestamp <= timestamp) tierSetId++;
+    return tierSetId;
+  }
+
+  private conditionIdAt(timestamp: bigint, fromConditionId: number): number {
+    let conditionId = fromConditionId;
+    while (conditionId + 1 < this.conditions.length && this.conditions[conditionId + 1].startTimestamp <= timestamp) conditionId++;
+    return conditionId;
+  }
+
+  private currentCumulativeRewardRatio(): bigint {
+    return this.cumulativeRewardRatioAt(this.currentConditionId(), this.now);
+  }
+
+  private cumulativeRewardRatioAt(conditionId: number, timestamp: bigint): bigint {
+    const condition = this.conditions[conditionId];
+    const previous = conditionId > 0 ? this.conditions[conditionId - 1].cumulativeRewardRatio : 0n;
+    return previous + condition.rewardRatioNumerator * (timestamp - condition.startTimestamp);
+  }
+}
+
+/** Runs a full action list from deployment and returns the final `stakers`/`getStakeInfo` values for every user. */
+export const simulateStaking = (config: SimulatorConfig, actions: SimulatorAction[], timestamp?: number) => {
+  const simulator = new StakingSimulator(config);
+  simulator.applyAll(actions);
+
+  const queryTimestamp = timestamp ?? Math.max(config.deployTimestamp, ...actions.map((action) => action.timestamp));
+  return Object.fromEntries(
+    simulator.users.map((user) => [user, { staker: simulator.stakers(user), stakeInfo: simulator.getStakeInfo(user, queryTimestamp) }])
+  );
+};
@@ -0,0 +1,216 @@
+import { formatUnits } from "ethers";
+import { ONE_DAY, rewardRatioDenominator } from "../config/config";
+import { IERC20Metadata, Staking } from "../typechain-types";
+import { getTierSets } from "./admin";
+import { IndexerStore } from "./indexer";
+import {
+  SimulatedNoticeDelay,
+  SimulatedPosition,
+  SimulatedStaker,
+  SimulatedStakingCondition,
+  SimulatedWithdrawRequest,
+  SimulatorSnapshot,
+  StakingSimulator,
+} from "./simulator";
+
+/** Hypothetical staker that fills a raised cap in the simulated scenarios. */
+export const capFillStaker = "cap-fill";
+
+export interface SolvencyScenario {
+  /** Reward ratio numerator set at the snapshot time. */
+  rewardRatioNumerator?: bigint;
+  /** New staking token cap, assumed to be filled at the snapshot time by a single new staker. */
+  stakingTokenCap?: bigint;
+  /** Staking tokens added to the reward reserve as a top-up. */
+  fund?: bigint;
+}
+
+export interface SolvencyReport {
+  timestamp: number;
+  rewardRatioNumerator: bigint;
+  stakingTokenBalance: bigint;
+  lockedTokenBalance: bigint;
+  unbondingTokenBalance: bigint;
+  /** Staking tokens held above the staked, locked and unbonding balances, the only source of rewards. */
+  rewardSurplus: bigint;
+  /** Part of the surplus deposited through `fundRewards`, which the owner cannot withdraw. */
+  rewardReserve: bigint;
+  totalOwed: bigint;
+  /** Surplus left once every staker claims, negative when claims can already fail with MissingRewards. */
+  freeSurplus: bigint;
+  /** Growth of the total owed over the next day. */
+  dailyRewards: bigint;
+  /** Full days before the total owed exceeds the surplus, undefined when the pool lasts past the horizon. */
+  runwayDays?: number;
+  horizonDays: number;
+}
+
+/** Staking conditions rebuilt from the indexed reward ratios, with the cumulative ratio the contract stores when each one ends. */
+const getStakingConditions = (store: IndexerStore): SimulatedStakingCondition[] => {
+  let cumulativeRewardRatio = 0n;
+  return store.rewardRatios.map(({ value, timestamp }, i) => {
+    const ended = i + 1 < store.rewardRatios.length;
+    const endTimestamp = ended ? BigInt(store.rewardRatios[i + 1].timestamp) : 0n;
+    if (ended) cumulativeRewardRatio += value * (endTimestamp - BigInt(timestamp));
+    return { rewardRatioNumerator: value, startTimestamp: BigInt(timestamp), endTimestamp, cumulativeRewardRatio: ended ? cumulativeRewardRatio : 0n };
+  });
+};
+
+/** Notice delay in force and the scheduled one, if any, which applies from its timestamp. */
+const getNoticeDelay = async (staking: Staking, blockTag: number): Promise<SimulatedNoticeDelay> => {
+  const delay = await staking.minNoticeDelay({ blockTag });
+  const [scheduledDelay, scheduledTimestamp] = await staking.getScheduledMinNoticeDelay({ blockTag });
+  return scheduledTimestamp == 0n ? { delay, scheduledDelay: delay, scheduledTimestamp: 0n } : { delay, scheduledDelay, scheduledTimestamp };
+};
+
+/**
+ * Reads the live contract state of every indexed staker at the latest block.
+ * The reward conditions come from the indexed reward ratio timeline, so the store must be indexed from the deployment block:
+ * the snapshot is rejected unless it covers the whole `stakingTokenBalance` and reproduces `getStakeInfo` of every staker.
+ */
+export const loadStakingSnapshot = async (staking: Staking, stakingToken: IERC20Metadata, store: IndexerStore): Promise<SimulatorSnapshot> => {
+  const block = (await staking.runner!.provider!.getBlock("latest"))!;
+  const blockTag = block.number;
+
+  const stakers: Record<string, SimulatedStaker> = {};
+  const positions: Record<string, SimulatedPosition[]> = {};
+  const withdrawRequests: Record<string, SimulatedWithdrawRequest[]> = {};
+  for (const address of Object.keys(store.stakers)) {
+    const { timeOfLastUpdate, timeOfLastBoostUpdate, conditionIdOfLastUpdate, amountStaked, unclaimedRewards } = await staking.stakers(address, { blockTag });
+    stakers[address] = { timeOfLastUpdate, timeOfLastBoostUpdate, conditionIdOfLastUpdate, amountStaked, unclaimedRewards };
+    positions[address] = (await staking.getPositions(address, { blockTag })).map(
+      ({ amount, multiplier, startTimestamp, unlockTimestamp, timeOfLastUpdate, conditionIdOfLastUpdate }) => ({
+        amount,
+        multiplier,
+        startTimestamp,
+        unlockTimestamp,
+        timeOfLastUpdate,
+        conditionIdOfLastUpdate,
+      })
+    );
+    withdrawRequests[address] = (await staking.getWithdrawRequests(address, { blockTag })).map(({ amount, unlockTimestamp }) => ({ amount, unlockTimestamp }));
+  }
+
+  const snapshot: SimulatorSnapshot = {
+    timestamp: block.timestamp,
+    stakingTokenBalance: await staking.stakingTokenBalance({ blockTag }),
+    lockedTokenBalance: await staking.lockedTokenBalance({ blockTag }),
+    unbondingTokenBalance: await staking.unbondingTokenBalance({ blockTag }),
+    withdrawCooldown: await staking.withdrawCooldown({ blockTag }),
+    noticeDelay: await getNoticeDelay(staking, blockTag),
+    stakingTokenCap: await staking.stakingTokenCap({ blockTag }),
+    minStakingBoostAmount: await staking.minStakingBoostAmount({ blockTag }),
+    paused: await staking.paused({ blockTag }),
+    tokenBalance: await stakingToken.balanceOf(await staking.getAddress(), { blockTag }),
+    rewardReserve: await staking.rewardReserve({ blockTag }),
+    conditions: getStakingConditions(store),
+    tierSets: await getTierSets(staking),
+    lockOptions: (await staking.getLockOptions({ blockTag })).map(({ duration, multiplier }) => ({ duration, multiplier })),
+    stakers,
+    positions,
+    withdrawRequests,
+  };
+
+  const indexedStaked = Object.values(stakers).reduce((total, staker) => total + staker.amountStaked, 0n);
+  if (indexedStaked != snapshot.stakingTokenBalance) {
+    throw new Error(`The indexer store misses stakers at block ${blockTag}: ${indexedStaked} staked out of ${snapshot.stakingTokenBalance}`);
+  }
+  const indexedLocked = Object.values(positions).reduce((total, stakerPositions) => stakerPositions.reduce((sum, { amount }) => sum + amount, total), 0n);
+  if (indexedLocked != snapshot.lockedTokenBalance) {
+    throw new Error(`The indexer store misses positions at block ${blockTag}: ${indexedLocked} locked out of ${snapshot.lockedTokenBalance}`);
+  }
+  const indexedUnbonding = Object.values(withdrawRequests).reduce((total, requests) => requests.reduce((sum, { amount }) => sum + amount, total), 0n);
+  if (indexedUnbonding != snapshot.unbondingTokenBalance) {
+    throw new Error(`The indexer store misses withdraw requests at block ${blockTag}: ${indexedUnbonding} unbonding out of ${snapshot.unbondingTokenBalance}`);
+  }
+
+  const conditionIds = [...Object.values(stakers), ...Object.values(positions).flat()].map(({ conditionIdOfLastUpdate }) => conditionIdOfLastUpdate);
+  if (conditionIds.some((conditionId) => conditionId >= BigInt(snapshot.conditions.length))) {
+    throw new Error(`The indexer store does not reproduce the rewards at block ${blockTag}, index it from the deployment block up to date`);
+  }
+
+  const simulator = StakingSimulator.fromSnapshot(snapshot);
+  for (const address of Object.keys(stakers)) {
+    const { _rewards } = await staking.getStakeInfo(address, { blockTag });
+    if (simulator.getStakeInfo(address)._rewards != _rewards) {
+      throw new Error(`The indexer store does not reproduce the rewards of ${address} at block ${blockTag}, index it from the deployment block up to date`);
+    }
+    for (let positionId = 0; positionId < positions[address].length; positionId++) {
+      if (simulator.getPositionRewards(address, positionId) != (await staking.getPositionRewards(address, positionId, { blockTag }))) {
+        throw new Error(`The indexer store does not reproduce the rewards of position ${positionId} of ${address} at block ${blockTag}`);
+      }
+    }
+  }
+  return snapshot;
+};
+
+/** Rewards owed to a user on their flexible stake and on each of their positions. */
+const getOwed = (simulator: StakingSimulator, user: string, timestamp: number) =>
+  simulator
+    .positions(user)
+    .reduce((total, _, positionId) => total + simulator.getPositionRewards(user, positionId, timestamp), simulator.getStakeInfo(user, timestamp)._rewards);
+
+const getTotalOwed = (simulator: StakingSimulator, timestamp: number) =>
+  simulator.users.reduce((total, user) => total + getOwed(simulator, user, timestamp), 0n);
+
+/**
+ * Projects the rewards owed to the snapshot stakers day by day, assuming nobody stakes, withdraws or claims,
+ * after applying the proposed scenario at the snapshot time.
+ */
+export const buildSolvencyReport = (snapshot: SimulatorSnapshot, scenario: SolvencyScenario = {}, horizonDays = 1825): SolvencyReport => {
+  const simulator = StakingSimulator.fromSnapshot(snapshot);
+  const { timestamp } = snapshot;
+
+  if (scenario.fund) simulator.apply({ type: "fundRewards", amount: scenario.fund, timestamp });
+  if (scenario.rewardRatioNumerator !== undefined && scenario.rewardRatioNumerator != simulator.getRewardRatio()[0]) {
+    simulator.apply({ type: "setRewardRatio", numerator: scenario.rewardRatioNumerator, timestamp });
+  }
+  if (scenario.stakingTokenCap !== undefined) {
+    simulator.apply({ type: "setStakingTokenCap", cap: scenario.stakingTokenCap, timestamp });
+    if (!simulator.paused && scenario.stakingTokenCap > simulator.stakingTokenBalance) {
+      simulator.apply({ type: "stake", user: capFillStaker, amount: scenario.stakingTokenCap - simulator.stakingTokenBalance, timestamp });
+    }
+  }
+
+  const rewardSurplus = simulator.tokenBalance - simulator.stakingTokenBalance - simulator.lockedTokenBalance - simulator.unbondingTokenBalance;
+  const totalOwed = getTotalOwed(simulator, timestamp);
+
+  let runwayDays: number | undefined;
+  for (let day = 0; day <= horizonDays; day++) {
+    if (getTotalOwed(simulator, timestamp + day * ONE_DAY) > rewardSurplus) {
+      runwayDays = Math.max(day - 1, 0);
+      break;
+    }
+  }
+
+  return {
+    timestamp,
+    rewardRatioNumerator: simulator.getRewardRatio()[0],
+    stakingTokenBalance: simulator.stakingTokenBalance,
+    lockedTokenBalance: simulator.lockedTokenBalance,
+    unbondingTokenBalance: simulator.unbondingTokenBalance,
+    rewardSurplus,
+    rewardReserve: simulator.rewardReserve,
+    totalOwed,
+    freeSurplus: rewardSurplus - totalOwed,
+    dailyRewards: getTotalOwed(simulator, timestamp + ONE_DAY) - totalOwed,
+    runwayDays,
+    horizonDays,
+  };
+};
+
+export const formatSolvencyReport = (report: SolvencyReport, decimals: bigint) => {
+  const format = (amount: bigint) => formatUnits(amount, decimals);
+  return [
+    `  reward ratio: ${report.rewardRatioNumerator}/${rewardRatioDenominator}`,
+    `  staked: ${format(report.stakingTokenBalance)}`,
+    `  locked: ${format(report.lockedTokenBalance)}`,
+    `  unbonding: ${format(report.unbondingTokenBalance)}`,
+    `  reward surplus: ${format(report.rewardSurplus)}`,
+    `  reward reserve: ${format(report.rewardReserve)}`,
+    `  total owed: ${format(report.totalOwed)}`,
+    `  free surplus: ${format(report.freeSurplus)}${report.freeSurplus < 0n ? " (INSOLVENT)" : ""}`,
+    `  rewards per day: ${format(report.dailyRewards)}`,
+    `  runway: ${report.runwayDays === undefined ? `more than ${report.horizonDays} days` : `${report.runwayDays} days`}`,
+  ].join("\n");
+};
@@ -6,6 +6,26 @@ export const calculateExpectedRewards = (stakeAmount: bigint, multiplier: number
   return rewards;
 };
 
+/**
+ * Rewards between `from` and `to` seconds after the boost started, each second earning the multiplier of the tier reached by then,
+ * at the default reward ratio. Matches the contract when the staker is above the minimum boost amount and has not updated in between.
+ */
+export const calculateExpectedTieredRewards = (stakeAmount: bigint, tiersDurations: number[], tiersMultipliers: number[], from: number, to: number): bigint => {
+  let boostedDuration = 0n;
+  let periodStart = from;
+  let multiplier = 100;
+  for (let i = 0; i < tiersDurations.length && tiersDurations[i] <= to; i++) {
+    if (tiersDurations[i] > periodStart) {
+      boostedDuration += BigInt(multiplier * (tiersDurations[i] - periodStart));
+      periodStart = tiersDurations[i];
+    }
+    multiplier = tiersMultipliers[i];
+  }
+  boostedDuration += BigInt(multiplier * (to - periodStart));
+
+  return (stakeAmount * boostedDuration * rewardRatioNumerator) / (rewardRatioDenominator * timeUnit * 100n);
+};
+
 export const getRandomInt = (min: number, max: number) => {
   return Math.floor(Math.random() * (max - min + 1)) + min;
 }
@@ -33,10 +53,16 @@ export const runFuzzTests = async (testFn: (amount: number) => Promise<void>, nu
   }
 }
 
+/** JSON with bigints written as "123n" strings, so that they survive a round trip through a file. */
+export const stringifyBigInts = (value: unknown) => JSON.stringify(value, (_, item) => (typeof item == "bigint" ? `${item}n` : item), 2);
+
+export const parseBigInts = <T>(text: string): T => JSON.parse(text, (_, item) => (typeof item == "string" && /^-?\d+n$/.test(item) ? BigInt(item.slice(0, -1)) : item));
+
 export const errors = {
   callerNotOwner: "OwnableUnauthorizedAccount",
   insufficientBalance: "ERC20: transfer amount exceeds balance",
   invalidTokenAddress: "InvalidTokenAddress",
+  invalidStreamRewardsRecipient: "InvalidStreamRewardsRecipient",
   invalidRewardRatio: "InvalidRewardRatio",
   invalidAmount: "InvalidAmount",
   noRewards: "NoRewards",
@@ -44,8 +70,34 @@ export const errors = {
   noExcessStakingToken: "NoExcessStakingToken",
   invalidTiersLength: "InvalidTiersLength",
   invalidTiersDurations: "InvalidTiersDurations",
+  invalidTierSetId: "InvalidTierSetId",
+  invalidLockOptionsLength: "InvalidLockOptionsLength",
+  invalidLockDurations: "InvalidLockDurations",
+  invalidLockDuration: "InvalidLockDuration",
+  invalidPositionId: "InvalidPositionId",
+  positionLocked: "PositionLocked",
+  withdrawCooldownActive: "WithdrawCooldownActive",
+  invalidWithdrawRequestId: "InvalidWithdrawRequestId",
+  withdrawRequestLocked: "WithdrawRequestLocked",
   paused: "EnforcedPause",
   notPaused: "ExpectedPause",
+  invalidRewardStreamId: "InvalidRewardStreamId",
+  tooManyRewardStreams: "TooManyRewardStreams",
+  invalidBeneficiary: "InvalidBeneficiary",
+  stakeForNotAllowed: "StakeForNotAllowed",
+  invalidPermit: "InvalidPermit",
   cannotStakeMoreThanCap: "CannotStakeMoreThanCap",
-  missingRewards: "MissingRewards"
-};
+  missingRewards: "MissingRewards",
+  callerNotReceipt: "CallerNotReceipt",
+  callerNotStaking: "CallerNotStaking",
+  insufficientReceiptBalance: "ERC20InsufficientBalance",
+  invalidReceiptReceiver: "ERC20InvalidReceiver",
+  exceededMaxDeposit: "ERC4626ExceededMaxDeposit",
+  exceededMaxWithdraw: "ERC4626ExceededMaxWithdraw",
+  exceededMaxRedeem: "ERC4626ExceededMaxRedeem",
+  missingRole: "AccessControlUnauthorizedAccount",
+  changeAlreadyScheduled: "ChangeAlreadyScheduled",
+  noScheduledChange: "NoScheduledChange",
+  invalidNoticeDelay: "InvalidNoticeDelay",
+  invalidMultiplier: "InvalidMultiplier",
+} as const;
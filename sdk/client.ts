@@ -0,0 +1,330 @@
+import { ContractRunner, ContractTransactionReceipt, ContractTransactionResponse, Interface, MaxUint256, Signer } from "ethers";
+import { IERC20Metadata, IERC20Metadata__factory, Staking, Staking__factory, StakingReceipt, StakingReceipt__factory } from "../typechain-types";
+import { errors } from "../scripts/utils";
+import { decodeStakingError, StakingError } from "./errors";
+import { signPermit } from "./permit";
+import { getTiers } from "./tiers";
+
+const BASE_MULTIPLIER = 100n;
+const PERMIT_VALIDITY = 3600n;
+
+export interface StakeInfo {
+  amountStaked: bigint;
+  rewards: bigint;
+}
+
+export interface Tier {
+  index: number;
+  minStakingDuration: bigint;
+  multiplier: bigint;
+}
+
+export interface LockOption {
+  duration: bigint;
+  multiplier: bigint;
+}
+
+export interface Position {
+  id: number;
+  /** Zero once withdrawn. */
+  amount: bigint;
+  multiplier: bigint;
+  startTimestamp: bigint;
+  unlockTimestamp: bigint;
+  /** Rewards accumulated since the last claim of the position. */
+  rewards: bigint;
+}
+
+export interface WithdrawRequest {
+  id: number;
+  /** Zero once completed or cancelled. */
+  amount: bigint;
+  unlockTimestamp: bigint;
+}
+
+export interface RewardReserve {
+  /** Staking tokens deposited through `fundRewards` and not paid yet. */
+  reserve: bigint;
+  /** Rewards credited to stakers and not paid yet. */
+  liabilities: bigint;
+  /** Staking tokens the owner can withdraw. */
+  freeSurplus: bigint;
+}
+
+export interface RewardStream {
+  id: number;
+  token: string;
+  /** Zero once the stream is stopped. */
+  rewardRatioNumerator: bigint;
+  /** Reward tokens funded and not claimed yet. */
+  fundedBalance: bigint;
+}
+
+export interface StreamRewards {
+  streamId: number;
+  token: string;
+  rewards: bigint;
+}
+
+export interface VotingPower {
+  /** Staked and locked tokens delegated to the account, including its own. */
+  votes: bigint;
+  /** The account itself until it delegates. */
+  delegatee: string;
+}
+
+export interface BoostStatus {
+  /** False while the staked amount is below `minStakingBoostAmount` or no tiers are set, the multiplier stays at 100. */
+  eligible: boolean;
+  multiplier: bigint;
+  currentTier?: Tier;
+  nextTier?: Tier;
+  /** Seconds until the next tier multiplier applies, only set for eligible stakers below the last tier. */
+  timeToNextTier?: bigint;
+}
+
+export interface StakeOptions {
+  /** Approves `MaxUint256` instead of the staked amount when the allowance is too low. */
+  unlimitedApproval?: boolean;
+}
+
+/**
+ * Client for a Staking deployment: transactions are sent from the runner when it is a signer,
+ * and reverts are thrown as `StakingError`.
+ */
+export class StakingClient {
+  private constructor(
+    public readonly staking: Staking,
+    public readonly stakingToken: IERC20Metadata,
+    public readonly receipt: StakingReceipt
+  ) {}
+
+  static async connect(address: string, runner: ContractRunner): Promise<StakingClient> {
+    const staking = Staking__factory.connect(address, runner);
+    const [stakingToken, receipt] = await Promise.all([staking.stakingToken(), staking.receipt()]);
+    return new StakingClient(staking, IERC20Metadata__factory.connect(stakingToken, runner), StakingReceipt__factory.connect(receipt, runner));
+  }
+
+  /** Stakes `amount`, first approving the staking token when the allowance does not cover it. */
+  async stake(amount: bigint, options: StakeOptions = {}): Promise<ContractTransactionReceipt> {
+    await this.approve(amount, options);
+    return this.send(() => this.staking.stake(amount));
+  }
+
+  /** Stakes `amount` paid by the signer on behalf of `beneficiary`, first approving the staking token when the allowance does not cover it. */
+  async stakeFor(beneficiary: string, amount: bigint, options: StakeOptions = {}): Promise<ContractTransactionReceipt> {
+    await this.approve(amount, options);
+    return this.send(() => this.staking.stakeFor(beneficiary, amount));
+  }
+
+  /**
+   * Stakes `amount` in a single transaction with an EIP-2612 permit signed by the signer, instead of an approval.
+   * @param deadline Defaults to one hour after the latest block.
+   */
+  async stakeWithPermit(amount: bigint, deadline?: bigint): Promise<ContractTransactionReceipt> {
+    const signer = this.getSigner();
+    const permitDeadline = deadline ?? BigInt((await this.staking.runner!.provider!.getBlock("latest"))!.timestamp) + PERMIT_VALIDITY;
+    const { v, r, s } = await signPermit(await this.stakingToken.getAddress(), signer, await this.staking.getAddress(), amount, permitDeadline);
+    return this.send(() => this.staking.stakeWithPermit(amount, permitDeadline, v, r, s));
+  }
+
+  /**
+   * Locks `amount` in a new position, first approving the staking token when the allowance does not cover it.
+   * @param lockDuration Seconds, one of the `getLockOptions` durations.
+   */
+  async openPosition(amount: bigint, lockDuration: bigint, options: StakeOptions = {}): Promise<ContractTransactionReceipt> {
+    await this.approve(amount, options);
+    return this.send(() => this.staking.openPosition(amount, lockDuration));
+  }
+
+  /** Withdraws an unlocked position, its rewards are then claimed with `claimRewards`. */
+  async withdrawPosition(positionId: number): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.staking.withdrawPosition(positionId));
+  }
+
+  async claimPositionRewards(positionId: number): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.staking.claimPositionRewards(positionId));
+  }
+
+  /** Withdraws at once, which reverts with `withdrawCooldownActive` while the withdraw cooldown is on. */
+  async withdraw(amount: bigint): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.staking.withdraw(amount));
+  }
+
+  /** Stops the rewards on `amount`, which `completeWithdraw` sends once the withdraw cooldown is over. */
+  async requestWithdraw(amount: bigint): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.staking.requestWithdraw(amount));
+  }
+
+  async completeWithdraw(requestId: number): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.staking.completeWithdraw(requestId));
+  }
+
+  /** Stakes the tokens of a pending request again. */
+  async cancelWithdraw(requestId: number): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.staking.cancelWithdraw(requestId));
+  }
+
+  async claimRewards(): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.staking.claimRewards());
+  }
+
+  /** Stakes the accumulated rewards without any token transfer. */
+  async compoundRewards(): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.staking.compoundRewards());
+  }
+
+  /** Adds staking tokens to the reward reserve, approving them first when the allowance is too low. */
+  async fundRewards(amount: bigint, options: StakeOptions = {}): Promise<ContractTransactionReceipt> {
+    await this.approve(amount, options);
+    return this.send(() => this.staking.fundRewards(amount));
+  }
+
+  /** Transfers reward tokens to a stream, approving its token first when the allowance is too low. */
+  async fundRewardStream(streamId: number, amount: bigint, options: StakeOptions = {}): Promise<ContractTransactionReceipt> {
+    const rewardStreams = await this.staking.getRewardStreams();
+    if (streamId >= rewardStreams.length) throw new StakingError("invalidRewardStreamId", errors.invalidRewardStreamId, [], undefined);
+    await this.approve(amount, options, IERC20Metadata__factory.connect(rewardStreams[streamId].token, this.staking.runner));
+    return this.send(() => this.staking.fundRewardStream(streamId, amount));
+  }
+
+  /** Transfers receipt tokens, moving that much flexible stake to `to` after settling the rewards of both. */
+  async transferStake(to: string, amount: bigint): Promise<ContractTransactionReceipt> {
+    // The receipt and the staking token share the ERC20 errors, so only receipt transfers decode them
+    return this.send(() => this.receipt.transfer(to, amount), [this.staking.interface, this.receipt.interface]);
+  }
+
+  /** Moves the voting power of the staked and locked tokens of the signer, delegating to the zero address gives it back to the signer. */
+  async delegate(delegatee: string): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.staking.delegate(delegatee));
+  }
+
+  async emergencyWithdraw(): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.staking.emergencyWithdraw());
+  }
+
+  /** @param account Defaults to the signer address. */
+  async getStakeInfo(account?: string): Promise<StakeInfo> {
+    const [amountStaked, rewards] = await this.staking.getStakeInfo(account ?? (await this.getSigner().getAddress()));
+    return { amountStaked, rewards };
+  }
+
+  /** @param account Defaults to the signer address. */
+  async getPositions(account?: string): Promise<Position[]> {
+    const owner = account ?? (await this.getSigner().getAddress());
+    const positions = await this.staking.getPositions(owner);
+    return Promise.all(
+      positions.map(async ({ amount, multiplier, startTimestamp, unlockTimestamp }, id) => ({
+        id,
+        amount,
+        multiplier,
+        startTimestamp,
+        unlockTimestamp,
+        rewards: await this.staking.getPositionRewards(owner, id),
+      }))
+    );
+  }
+
+  /** @param account Defaults to the signer address. */
+  async getWithdrawRequests(account?: string): Promise<WithdrawRequest[]> {
+    const requests = await this.staking.getWithdrawRequests(account ?? (await this.getSigner().getAddress()));
+    return requests.map(({ amount, unlockTimestamp }, id) => ({ id, amount, unlockTimestamp }));
+  }
+
+  async getRewardReserve(): Promise<RewardReserve> {
+    const [reserve, liabilities, freeSurplus] = await Promise.all([
+      this.staking.rewardReserve(),
+      this.staking.rewardLiabilities(),
+      this.staking.getFreeSurplus(),
+    ]);
+    return { reserve, liabilities, freeSurplus };
+  }
+
+  async getRewardStreams(): Promise<RewardStream[]> {
+    return (await this.staking.getRewardStreams()).map(({ token, rewardRatioNumerator, fundedBalance }, id) => ({
+      id,
+      token,
+      rewardRatioNumerator,
+      fundedBalance,
+    }));
+  }
+
+  /** @param account Defaults to the signer address. */
+  async getStreamRewards(account?: string): Promise<StreamRewards[]> {
+    const [tokens, rewards] = await this.staking.getStreamRewards(account ?? (await this.getSigner().getAddress()));
+    return tokens.map((token, streamId) => ({ streamId, token, rewards: rewards[streamId] }));
+  }
+
+  /** @param account Defaults to the signer address. */
+  async getVotingPower(account?: string): Promise<VotingPower> {
+    const owner = account ?? (await this.getSigner().getAddress());
+    const [votes, delegatee] = await Promise.all([this.staking.getVotes(owner), this.staking.delegates(owner)]);
+    return { votes, delegatee };
+  }
+
+  /** Seconds between a withdraw request and its completion, zero when `withdraw` sends the tokens at once. */
+  async getWithdrawCooldown(): Promise<bigint> {
+    return this.staking.withdrawCooldown();
+  }
+
+  async getLockOptions(): Promise<LockOption[]> {
+    return (await this.staking.getLockOptions()).map(({ duration, multiplier }) => ({ duration, multiplier }));
+  }
+
+  async getTiers(): Promise<Tier[]> {
+    return (await getTiers(this.staking)).map((tier, index) => ({ index, ...tier }));
+  }
+
+  /**
+   * Resolves the tier of `account` the same way as `getCurrentMultiplier`, at the timestamp of the latest block.
+   * @param account Defaults to the signer address.
+   */
+  async getBoostStatus(account?: string): Promise<BoostStatus> {
+    const { amountStaked, timeOfLastBoostUpdate } = await this.staking.stakers(account ?? (await this.getSigner().getAddress()));
+    const tiers = await this.getTiers();
+    const minStakingBoostAmount = await this.staking.minStakingBoostAmount();
+
+    if (tiers.length == 0 || amountStaked < minStakingBoostAmount || timeOfLastBoostUpdate == 0n) {
+      return { eligible: false, multiplier: BASE_MULTIPLIER, nextTier: tiers[0] };
+    }
+
+    const block = await this.staking.runner!.provider!.getBlock("latest");
+    const timeElapsed = BigInt(block!.timestamp) - timeOfLastBoostUpdate;
+    const currentTier = tiers.filter((tier) => timeElapsed >= tier.minStakingDuration).pop();
+    const nextTier = tiers[currentTier ? currentTier.index + 1 : 0];
+
+    return {
+      eligible: true,
+      multiplier: currentTier?.multiplier ?? BASE_MULTIPLIER,
+      currentTier,
+      nextTier,
+      timeToNextTier: nextTier ? nextTier.minStakingDuration - timeElapsed : undefined,
+    };
+  }
+
+  private async approve(amount: bigint, options: StakeOptions, token: IERC20Metadata = this.stakingToken) {
+    const account = await this.getSigner().getAddress();
+    const stakingAddress = await this.staking.getAddress();
+
+    if ((await token.allowance(account, stakingAddress)) < amount) {
+      await this.send(() => token.approve(stakingAddress, options.unlimitedApproval ? MaxUint256 : amount));
+    }
+  }
+
+  private getSigner(): Signer {
+    const runner = this.staking.runner as Signer | null;
+    if (!runner || typeof runner.getAddress != "function") throw new Error("A signer is required for this call");
+    return runner;
+  }
+
+  private async send(
+    transaction: () => Promise<ContractTransactionResponse>,
+    interfaces: Interface[] = [this.staking.interface]
+  ): Promise<ContractTransactionReceipt> {
+    try {
+      return (await (await transaction()).wait())!;
+    } catch (error) {
+      throw decodeStakingError(error, interfaces) ?? error;
+    }
+  }
+}
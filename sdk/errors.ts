@@ -0,0 +1,42 @@
+import { Interface } from "ethers";
+import { errors } from "../scripts/utils";
+
+export type StakingErrorCode = keyof typeof errors;
+export type StakingErrorName = (typeof errors)[StakingErrorCode];
+
+/** A reverted call to the Staking contract, decoded from its custom error or revert reason. */
+export class StakingError extends Error {
+  constructor(
+    public readonly code: StakingErrorCode,
+    public readonly errorName: StakingErrorName,
+    public readonly args: unknown[],
+    public readonly original: unknown
+  ) {
+    super(`Staking reverted with ${errorName}${args.length > 0 ? `(${args.map(String).join(", ")})` : ""}`);
+  }
+}
+
+export const isStakingError = (error: unknown, code?: StakingErrorCode): error is StakingError =>
+  error instanceof StakingError && (code === undefined || error.code == code);
+
+const getErrorCode = (name: string) => (Object.keys(errors) as StakingErrorCode[]).find((code) => errors[code] == name);
+
+/**
+ * Decodes a revert against the given contract interfaces.
+ * @returns The typed error, or undefined when the revert is not one of the known staking errors.
+ */
+export const decodeStakingError = (error: unknown, interfaces: Interface[]): StakingError | undefined => {
+  const { data, reason } = error as { data?: string; reason?: string };
+
+  if (typeof data == "string" && data != "0x") {
+    for (const contractInterface of interfaces) {
+      const parsed = contractInterface.parseError(data);
+      const code = parsed && getErrorCode(parsed.name);
+      if (code) return new StakingError(code, errors[code], [...parsed.args], error);
+    }
+  }
+
+  // Plain revert strings, e.g. from OpenZeppelin 4 tokens
+  const code = reason ? getErrorCode(reason) : undefined;
+  return code ? new StakingError(code, errors[code], [], error) : undefined;
+};
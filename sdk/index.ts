@@ -0,0 +1,3 @@
+export { BoostStatus, LockOption, Position, RewardReserve, RewardStream, StakeInfo, StakeOptions, StakingClient, StreamRewards, Tier, VotingPower, WithdrawRequest } from "./client";
+export { decodeStakingError, isStakingError, StakingError, StakingErrorCode, StakingErrorName } from "./errors";
+export { getPermitDomain, PermitSignature, signPermit } from "./permit";
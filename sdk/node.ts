@@ -0,0 +1,13 @@
+import { ContractRunner } from "ethers";
+import { getDeployedAddress } from "../scripts/deployments";
+import { StakingClient } from "./client";
+
+/**
+ * Connects to the Ignition deployment of the runner chain, for scripts and bots that can read the deployment files.
+ * Kept out of the `sdk` entry point, as the deployment lookup reads the files with `fs` and cannot be bundled for browsers.
+ */
+export const fromDeployment = async (runner: ContractRunner): Promise<StakingClient> => {
+  if (!runner.provider) throw new Error("The runner is not connected to a provider");
+  const { chainId } = await runner.provider.getNetwork();
+  return StakingClient.connect(getDeployedAddress(chainId), runner);
+};
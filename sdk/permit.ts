@@ -0,0 +1,42 @@
+import { ContractRunner, Signature, Signer, TypedDataDomain } from "ethers";
+import { IERC20Metadata__factory, IERC20Permit__factory, IERC5267__factory } from "../typechain-types";
+
+export interface PermitSignature {
+  value: bigint;
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+const permitTypes = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/** Reads the EIP-712 domain of a permit token through EIP-5267, falling back to its name and version "1" for older tokens. */
+export const getPermitDomain = async (token: string, runner: ContractRunner): Promise<TypedDataDomain> => {
+  try {
+    const { name, version, chainId, verifyingContract } = await IERC5267__factory.connect(token, runner).eip712Domain();
+    return { name, version, chainId, verifyingContract };
+  } catch {
+    if (!runner.provider) throw new Error("The runner is not connected to a provider");
+    const { chainId } = await runner.provider.getNetwork();
+    return { name: await IERC20Metadata__factory.connect(token, runner).name(), version: "1", chainId, verifyingContract: token };
+  }
+};
+
+/** Signs an EIP-2612 permit of `value` tokens from the signer to `spender`, at the current nonce of the signer. */
+export const signPermit = async (token: string, signer: Signer, spender: string, value: bigint, deadline: bigint): Promise<PermitSignature> => {
+  const owner = await signer.getAddress();
+  const nonce = await IERC20Permit__factory.connect(token, signer).nonces(owner);
+  const domain = await getPermitDomain(token, signer);
+
+  const { v, r, s } = Signature.from(await signer.signTypedData(domain, permitTypes, { owner, spender, value, nonce, deadline }));
+  return { value, deadline, v, r, s };
+};
@@ -0,0 +1,8 @@
+import { Staking } from "../typechain-types";
+
+/** Tiers of the tier set in force at the latest block, a scheduled set being left out until it starts. */
+export const getTiers = async (staking: Staking) => {
+  const block = await staking.runner!.provider!.getBlock("latest");
+  const { tiers } = await staking.getTierSet(await staking.getTierSetIdAt(block!.timestamp));
+  return tiers.map(({ minStakingDuration, multiplier }) => ({ minStakingDuration, multiplier }));
+};
@@ -0,0 +1,135 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { resolve } from "path";
+import { getDeploymentProfile, getStakingModuleParameters, getStakingRolesModuleParameters } from "../config/deployments";
+import { checkDrift, formatDriftReport, getConfiguredState, getDeployedState, getLiveState, getScheduledState } from "../scripts/drift";
+import { deployLibraries, getDeployedAddress, readJournalFutures } from "../scripts/deployments";
+import { validateEnv } from "../scripts/envUtils";
+import { stringifyBigInts } from "../scripts/utils";
+import { getStakingContract, getTokenContract } from "./staking";
+
+export const getStakingDeploymentParameters = async (hre: HardhatRuntimeEnvironment, token?: string) => {
+  const profile = getDeploymentProfile(hre.network.name);
+
+  if (token === undefined && profile.stakingToken === undefined) validateEnv(hre.network.name, ["deploy"]);
+  const stakingToken = token ?? profile.stakingToken ?? process.env.LCD_ADDRESS!;
+
+  const decimals = await (await getTokenContract(hre, stakingToken)).decimals();
+  return getStakingModuleParameters(profile, stakingToken, decimals);
+};
+
+task("staking:deploy", "Deploys the Staking module with the deployment profile of the selected network")
+  .addOptionalParam("token", "Staking token address, defaults to the profile token or LCD_ADDRESS")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to chain-<chainId>")
+  .addFlag("verify", "Verify the deployment on Etherscan")
+  .setAction(async (args: { token?: string; deploymentId?: string; verify: boolean }, hre) => {
+    if (args.verify) validateEnv(hre.network.name, ["verify"]);
+    const parameters = await getStakingDeploymentParameters(hre, args.token);
+    console.log(`Deployment parameters for ${hre.network.name}: ${stringifyBigInts(parameters)}`);
+
+    await hre.run(
+      { scope: "ignition", task: "deploy" },
+      {
+        modulePath: resolve(__dirname, "../ignition/modules/Staking.ts"),
+        parameters: stringifyBigInts({ StakingModule: parameters }),
+        deploymentId: args.deploymentId,
+        verify: args.verify,
+      }
+    );
+  });
+
+task("staking:migrate-roles", "Deploys StakingRoles with the roles of the deployment profile and hands it the ownership of a deployed Staking contract")
+  .addOptionalParam("address", "Staking contract address, defaults to the Ignition deployment")
+  .addOptionalParam("deploymentId", "Ignition deployment id, defaults to chain-<chainId>")
+  .addFlag("verify", "Verify the deployment on Etherscan")
+  .setAction(async (args: { address?: string; deploymentId?: string; verify: boolean }, hre) => {
+    if (args.verify) validateEnv(hre.network.name, ["verify"]);
+    const staking = await getStakingContract(hre, args.address);
+
+    // Only the current owner can hand the ownership over, and it becomes the admin of the roles
+    const [deployer] = await hre.ethers.getSigners();
+    const owner = await staking.owner();
+    if (deployer.address.toLowerCase() != owner.toLowerCase()) throw new Error(`${deployer.address} is not the owner ${owner}`);
+
+    const parameters = getStakingRolesModuleParameters(getDeploymentProfile(hre.network.name), await staking.getAddress());
+    console.log(`Migration parameters for ${hre.network.name}: ${stringifyBigInts(parameters)}`);
+
+    await hre.run(
+      { scope: "ignition", task: "deploy" },
+      {
+        modulePath: resolve(__dirname, "../ignition/modules/StakingRoles.ts"),
+        parameters: stringifyBigInts({ StakingRolesModule: parameters }),
+        deploymentId: args.deploymentId,
+        verify: args.verify,
+      }
+    );
+  });
+
+task("verify").setAction(async (args, hre, runSuper) => {
+  validateEnv(hre.network.name, ["verify"]);
+  return runSuper(args);
+});
+
+const getNetworkName = (hre: HardhatRuntimeEnvironment, chainId: bigint) => {
+  const network = Object.entries(hre.config.networks).find(([, config]) => config.chainId !== undefined && BigInt(config.chainId) == chainId);
+  if (!network) throw new Error(`No network configured for chain ${chainId}`);
+  return network[0];
+};
+
+task("staking:drift", "Compares the live Staking state with the Ignition journal and the deployment profile, failing on drift")
+  .addOptionalParam("chain", "Chain id of the Ignition deployment to check, defaults to the connected chain", undefined, types.int)
+  .addOptionalParam("address", "Staking contract address, defaults to the Ignition deployment")
+  .setAction(async (args: { chain?: number; address?: string }, hre) => {
+    const chainId = args.chain !== undefined ? BigInt(args.chain) : (await hre.ethers.provider.getNetwork()).chainId;
+    const staking = await getStakingContract(hre, args.address ?? getDeployedAddress(chainId));
+    const profile = getDeploymentProfile(getNetworkName(hre, chainId));
+
+    const live = await getLiveState(staking);
+    const decimals = await (await getTokenContract(hre, live.stakingToken)).decimals();
+    const checks = checkDrift(getDeployedState(readJournalFutures(chainId)), getConfiguredState(profile, decimals), live, await getScheduledState(staking));
+
+    console.log(`Staking ${await staking.getAddress()} on ${hre.network.name}, chain-${chainId} deployment`);
+    console.log(formatDriftReport(checks));
+
+    const drifted = checks.filter(({ drift }) => drift).map(({ field }) => field);
+    if (drifted.length > 0) throw new Error(`Unexpected state: ${drifted.join(", ")}`);
+    return checks;
+  });
+
+task("staking:seed-journal", "Replays the deployments and calls of an Ignition journal on the local Hardhat network, at the same addresses")
+  .addParam("chain", "Chain id of the Ignition deployment to replay", undefined, types.int)
+  .addOptionalParam("tokenContract", "Contract whose code is placed at the staking token address", "FakeLucidao")
+  .setAction(async (args: { chain: number; tokenContract: string }, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    if (chainId != 31337n) throw new Error(`The journal can only be replayed on a local Hardhat network, not on chain ${chainId}`);
+
+    const futures = readJournalFutures(args.chain);
+    const contractNames = new Map<string, string>();
+
+    // The staking token is not part of the deployment, so a local token takes its address
+    const stakingDeployment = futures.find((future) => future.kind == "deployment" && future.contractName == "Staking");
+    if (stakingDeployment?.kind == "deployment") {
+      const token = await hre.ethers.deployContract(args.tokenContract);
+      const code = await hre.ethers.provider.getCode(await token.getAddress());
+      await hre.network.provider.send("hardhat_setCode", [stakingDeployment.constructorArgs[0], code]);
+    }
+
+    for (const future of futures) {
+      const signer = await hre.ethers.getImpersonatedSigner(future.from);
+      await hre.network.provider.send("hardhat_setBalance", [future.from, "0x56bc75e2d63100000"]);
+      if (future.nonce !== undefined) await hre.network.provider.send("hardhat_setNonce", [future.from, `0x${future.nonce.toString(16)}`]);
+
+      if (future.kind == "deployment") {
+        const libraries = await deployLibraries(hre, future.contractName, future.libraries);
+        const contract = await hre.ethers.deployContract(future.contractName, future.constructorArgs, { signer, libraries });
+        contractNames.set((await contract.getAddress()).toLowerCase(), future.contractName);
+        console.log(`${future.futureId}: ${await contract.getAddress()}`);
+      } else {
+        const contractName = contractNames.get(future.contractAddress.toLowerCase());
+        if (!contractName) throw new Error(`${future.futureId} calls ${future.contractAddress}, which the journal does not deploy`);
+        const contract = await hre.ethers.getContractAt(contractName, future.contractAddress, signer);
+        await (await contract.getFunction(future.functionName).send(...future.args)).wait();
+        console.log(`${future.futureId}: called`);
+      }
+    }
+  });
@@ -0,0 +1,312 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { formatUnits, parseUnits } from "ethers";
+import { existsSync, writeFileSync } from "fs";
+import { ONE_DAY } from "../config/config";
+import {
+  AdminOperation,
+  executeAdminOperation,
+  formatAdminOperation,
+  prepareAddRewardStream,
+  prepareCancelScheduledRewardRatio,
+  prepareCancelScheduledTiers,
+  prepareCompoundFor,
+  prepareSetLockOptions,
+  prepareSetMinNoticeDelay,
+  prepareSetMinStakingBoostAmount,
+  prepareSetRewardRatio,
+  prepareSetRewardStreamRatio,
+  prepareSetStakeForAllowed,
+  prepareSetStakeForAllowlistEnabled,
+  prepareSetStakingTokenCap,
+  prepareSetTiers,
+  prepareSetWithdrawCooldown,
+  preparePause,
+  prepareUnpause,
+  prepareWithdrawExcessTokens,
+} from "../scripts/admin";
+import { compareGasReports, formatGasRegression, formatGasReport, loadGasReport, runGasBenchmark, saveGasReport } from "../scripts/gas";
+import { buildSolvencyReport, formatSolvencyReport, loadStakingSnapshot, SolvencyScenario } from "../scripts/solvency";
+import { getDeployedAddress, getDeploymentBlock } from "../scripts/deployments";
+import { formatMismatch, getActiveStakers, getTotalLocked, getTotalStaked, getTotalUnbonding, indexStakingEvents, loadIndexerStore, openIndexerStore, reconcileStakingStore, saveIndexerStore } from "../scripts/indexer";
+import { IERC20Metadata, Staking } from "../typechain-types";
+
+interface StakingTaskArgs {
+  address?: string;
+  dryRun: boolean;
+}
+
+export const getStakingContract = async (hre: HardhatRuntimeEnvironment, address?: string): Promise<Staking> => {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  return hre.ethers.getContractAt("Staking", address ?? getDeployedAddress(chainId));
+};
+
+// Both OpenZeppelin versions compile an IERC20Metadata artifact, so the name must be fully qualified
+export const getTokenContract = async (hre: HardhatRuntimeEnvironment, address: string) =>
+  (await hre.ethers.getContractAt("@openzeppelin/contracts-v5/token/ERC20/extensions/IERC20Metadata.sol:IERC20Metadata", address)) as unknown as IERC20Metadata;
+
+const getStakingTokenDecimals = async (hre: HardhatRuntimeEnvironment, staking: Staking) => (await getTokenContract(hre, await staking.stakingToken())).decimals();
+
+const parseList = (list: string) => list.split(",").map((item) => item.trim());
+
+const runAdminTask = async (hre: HardhatRuntimeEnvironment, args: StakingTaskArgs, prepare: (staking: Staking) => Promise<AdminOperation>) => {
+  const staking = await getStakingContract(hre, args.address);
+  const operation = await prepare(staking);
+
+  console.log(`Staking ${await staking.getAddress()} on ${hre.network.name}${args.dryRun ? " (dry run)" : ""}`);
+  console.log(formatAdminOperation(operation));
+
+  const result = await executeAdminOperation(staking, operation, args.dryRun);
+  if (result.gas !== undefined) {
+    console.log(`Estimated gas: ${result.gas}`);
+  } else {
+    console.log(`Transaction ${result.receipt?.hash} mined in block ${result.receipt?.blockNumber}, gas used: ${result.receipt?.gasUsed}`);
+  }
+  return result;
+};
+
+const stakingTask = (name: string, description: string) =>
+  task(name, description)
+    .addOptionalParam("address", "Staking contract address, defaults to the Ignition deployment of the selected network")
+    .addFlag("dryRun", "Show the state diff and the estimated gas without sending the transaction");
+
+stakingTask("staking:set-reward-ratio", "Sets the reward ratio numerator, from the end of the notice delay")
+  .addParam("ratio", "New reward ratio numerator, over a denominator of 10000", undefined, types.bigint)
+  .setAction(async (args: StakingTaskArgs & { ratio: bigint }, hre) => runAdminTask(hre, args, (staking) => prepareSetRewardRatio(staking, args.ratio)));
+
+stakingTask("staking:cancel-reward-ratio", "Cancels the scheduled reward ratio change").setAction(async (args: StakingTaskArgs, hre) =>
+  runAdminTask(hre, args, prepareCancelScheduledRewardRatio)
+);
+
+stakingTask("staking:set-tiers", "Replaces the reward tiers, from the end of the notice delay")
+  .addParam("durations", "Comma separated minimum staking durations, in days")
+  .addParam("multipliers", "Comma separated reward multipliers, where 100 means no boost")
+  .setAction(async (args: StakingTaskArgs & { durations: string; multipliers: string }, hre) =>
+    runAdminTask(hre, args, (staking) =>
+      prepareSetTiers(
+        staking,
+        parseList(args.durations).map((days) => BigInt(Math.round(Number(days) * ONE_DAY))),
+        parseList(args.multipliers).map((multiplier) => BigInt(multiplier))
+      )
+    )
+  );
+
+stakingTask("staking:cancel-tiers", "Cancels the scheduled tier change").setAction(async (args: StakingTaskArgs, hre) =>
+  runAdminTask(hre, args, prepareCancelScheduledTiers)
+);
+
+stakingTask("staking:set-notice-delay", "Sets the notice given before reward ratio and tier changes apply")
+  .addParam("days", "New notice delay in days, 0 to apply changes at once")
+  .setAction(async (args: StakingTaskArgs & { days: string }, hre) =>
+    runAdminTask(hre, args, (staking) => prepareSetMinNoticeDelay(staking, BigInt(Math.round(Number(args.days) * ONE_DAY))))
+  );
+
+stakingTask("staking:set-lock-options", "Replaces the lock table of the positions opened from now on")
+  .addParam("durations", "Comma separated lock durations, in days")
+  .addParam("multipliers", "Comma separated reward multipliers of the locked positions, where 100 means no boost")
+  .setAction(async (args: StakingTaskArgs & { durations: string; multipliers: string }, hre) =>
+    runAdminTask(hre, args, (staking) =>
+      prepareSetLockOptions(
+        staking,
+        parseList(args.durations).map((days) => BigInt(Math.round(Number(days) * ONE_DAY))),
+        parseList(args.multipliers).map((multiplier) => BigInt(multiplier))
+      )
+    )
+  );
+
+stakingTask("staking:set-withdraw-cooldown", "Sets the time between a withdraw request and its completion")
+  .addParam("days", "New withdraw cooldown in days, 0 to let stakers withdraw at once")
+  .setAction(async (args: StakingTaskArgs & { days: string }, hre) =>
+    runAdminTask(hre, args, (staking) => prepareSetWithdrawCooldown(staking, BigInt(Math.round(Number(args.days) * ONE_DAY))))
+  );
+
+stakingTask("staking:set-stake-for-allowlist", "Turns on or off the allowlist of accounts that can stake on behalf of others")
+  .addParam("enabled", "true to only let allowlisted accounts stake for others, false to let anyone", undefined, types.boolean)
+  .setAction(async (args: StakingTaskArgs & { enabled: boolean }, hre) =>
+    runAdminTask(hre, args, (staking) => prepareSetStakeForAllowlistEnabled(staking, args.enabled))
+  );
+
+stakingTask("staking:set-stake-for-allowed", "Adds an account to or removes it from the allowlist of accounts that can stake on behalf of others")
+  .addParam("account", "Account address, e.g. a vesting or airdrop contract")
+  .addOptionalParam("allowed", "false to remove the account from the allowlist", true, types.boolean)
+  .setAction(async (args: StakingTaskArgs & { account: string; allowed: boolean }, hre) =>
+    runAdminTask(hre, args, (staking) => prepareSetStakeForAllowed(staking, args.account, args.allowed))
+  );
+
+stakingTask("staking:add-reward-stream", "Adds a reward stream paying a partner token on the flexible stake")
+  .addParam("token", "Reward token address, other than the staking token")
+  .addParam("ratio", "Reward ratio numerator of the stream, over a denominator of 10000", undefined, types.bigint)
+  .setAction(async (args: StakingTaskArgs & { token: string; ratio: bigint }, hre) =>
+    runAdminTask(hre, args, (staking) => prepareAddRewardStream(staking, args.token, args.ratio))
+  );
+
+stakingTask("staking:set-stream-ratio", "Sets the reward ratio numerator of a reward stream, 0 stops the stream")
+  .addParam("stream", "Reward stream ID", undefined, types.bigint)
+  .addParam("ratio", "New reward ratio numerator of the stream, over a denominator of 10000", undefined, types.bigint)
+  .setAction(async (args: StakingTaskArgs & { stream: bigint; ratio: bigint }, hre) =>
+    runAdminTask(hre, args, (staking) => prepareSetRewardStreamRatio(staking, args.stream, args.ratio))
+  );
+
+stakingTask("staking:set-cap", "Sets the staking token cap")
+  .addParam("amount", "New cap, in staking token units (e.g. 50000000)")
+  .setAction(async (args: StakingTaskArgs & { amount: string }, hre) =>
+    runAdminTask(hre, args, async (staking) => {
+      const decimals = await getStakingTokenDecimals(hre, staking);
+      return prepareSetStakingTokenCap(staking, parseUnits(args.amount, decimals), decimals);
+    })
+  );
+
+stakingTask("staking:set-min-boost", "Sets the minimum staked amount that starts the boost")
+  .addParam("amount", "New minimum, in staking token units (e.g. 25000)")
+  .setAction(async (args: StakingTaskArgs & { amount: string }, hre) =>
+    runAdminTask(hre, args, async (staking) => {
+      const decimals = await getStakingTokenDecimals(hre, staking);
+      return prepareSetMinStakingBoostAmount(staking, parseUnits(args.amount, decimals), decimals);
+    })
+  );
+
+stakingTask("staking:pause", "Pauses staking, withdrawals and claims").setAction(async (args: StakingTaskArgs, hre) => runAdminTask(hre, args, preparePause));
+
+stakingTask("staking:unpause", "Resumes staking, withdrawals and claims").setAction(async (args: StakingTaskArgs, hre) =>
+  runAdminTask(hre, args, prepareUnpause)
+);
+
+stakingTask("staking:withdraw-excess", "Withdraws tokens that are not staked to the owner")
+  .addParam("amount", "Amount to withdraw, in units of the withdrawn token")
+  .addOptionalParam("token", "Token to withdraw, defaults to the staking token")
+  .setAction(async (args: StakingTaskArgs & { amount: string; token?: string }, hre) =>
+    runAdminTask(hre, args, async (staking) => {
+      const token = await getTokenContract(hre, args.token ?? (await staking.stakingToken()));
+      return prepareWithdrawExcessTokens(staking, token, parseUnits(args.amount, await token.decimals()));
+    })
+  );
+
+stakingTask("staking:compound-for", "Stakes the accumulated rewards of the given stakers")
+  .addParam("stakers", "Comma separated staker addresses, those without rewards or over the staking token cap are skipped")
+  .setAction(async (args: StakingTaskArgs & { stakers: string }, hre) =>
+    runAdminTask(hre, args, async (staking) => prepareCompoundFor(staking, await getTokenContract(hre, await staking.stakingToken()), parseList(args.stakers)))
+  );
+
+const getDefaultStorePath = (chainId: bigint) => `indexer/chain-${chainId}.json`;
+
+task("staking:index", "Indexes the staking events into a JSON store, resuming from its checkpoint")
+  .addOptionalParam("address", "Staking contract address, defaults to the Ignition deployment of the selected network")
+  .addOptionalParam("store", "Path of the JSON store, defaults to indexer/chain-<chainId>.json")
+  .addOptionalParam("fromBlock", "First block of a new store, defaults to the Ignition deployment block", undefined, types.int)
+  .addOptionalParam("toBlock", "Last block to index, defaults to the latest block", undefined, types.int)
+  .addOptionalParam("batchSize", "Blocks per log query", 2000, types.int)
+  .setAction(async (args: { address?: string; store?: string; fromBlock?: number; toBlock?: number; batchSize: number }, hre) => {
+    const staking = await getStakingContract(hre, args.address);
+    const address = await staking.getAddress();
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const path = args.store ?? getDefaultStorePath(chainId);
+
+    let fromBlock = args.fromBlock;
+    if (fromBlock === undefined) {
+      try {
+        fromBlock = getDeploymentBlock(chainId);
+      } catch {
+        fromBlock = 0;
+      }
+    }
+
+    const store = openIndexerStore(path, chainId, address, fromBlock);
+    console.log(`Indexing Staking ${address} on ${hre.network.name} from block ${store.lastIndexedBlock + 1} into ${path}`);
+
+    await indexStakingEvents(staking, store, {
+      toBlock: args.toBlock,
+      batchSize: args.batchSize,
+      onCheckpoint: (checkpoint) => saveIndexerStore(path, checkpoint),
+    });
+
+    const decimals = await getStakingTokenDecimals(hre, staking);
+    console.log(
+      `Indexed up to block ${store.lastIndexedBlock}: ${getActiveStakers(store).length} active stakers out of ${Object.keys(store.stakers).length}, ${formatUnits(
+        getTotalStaked(store),
+        decimals
+      )} staked, ${formatUnits(getTotalLocked(store), decimals)} locked, ${formatUnits(getTotalUnbonding(store), decimals)} unbonding, ${
+        store.rewardRatios.length
+      } reward ratios`
+    );
+    return store;
+  });
+
+task("staking:reconcile", "Compares an indexed store with the contract storage at its checkpoint block")
+  .addOptionalParam("address", "Staking contract address, defaults to the Ignition deployment of the selected network")
+  .addOptionalParam("store", "Path of the JSON store, defaults to indexer/chain-<chainId>.json")
+  .setAction(async (args: { address?: string; store?: string }, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const path = args.store ?? getDefaultStorePath(chainId);
+    if (!existsSync(path)) throw new Error(`No indexer store at ${path}, run staking:index first`);
+
+    const store = loadIndexerStore(path);
+    const staking = await getStakingContract(hre, args.address ?? store.address);
+    const mismatches = await reconcileStakingStore(staking, store);
+
+    console.log(`Reconciled ${Object.keys(store.stakers).length} stakers of ${store.address} at block ${store.lastIndexedBlock}`);
+    mismatches.forEach((mismatch) => console.error(formatMismatch(mismatch)));
+    if (mismatches.length > 0) throw new Error(`${mismatches.length} mismatches between the index and the contract`);
+  });
+
+task("staking:solvency", "Reports the rewards owed against the funded surplus and projects how long the pool lasts")
+  .addOptionalParam("address", "Staking contract address, defaults to the Ignition deployment of the selected network")
+  .addOptionalParam("store", "Path of the JSON store, defaults to indexer/chain-<chainId>.json")
+  .addOptionalParam("ratio", "Proposed reward ratio numerator", undefined, types.bigint)
+  .addOptionalParam("cap", "Proposed staking token cap, assumed to be filled right away, in staking token units")
+  .addOptionalParam("fund", "Proposed reward top-up, in staking token units")
+  .addOptionalParam("horizon", "Maximum projected days", 1825, types.int)
+  .setAction(async (args: { address?: string; store?: string; ratio?: bigint; cap?: string; fund?: string; horizon: number }, hre) => {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const path = args.store ?? getDefaultStorePath(chainId);
+    if (!existsSync(path)) throw new Error(`No indexer store at ${path}, run staking:index first`);
+
+    const store = loadIndexerStore(path);
+    const staking = await getStakingContract(hre, args.address ?? store.address);
+    await indexStakingEvents(staking, store, { onCheckpoint: (checkpoint) => saveIndexerStore(path, checkpoint) });
+
+    const stakingToken = await getTokenContract(hre, await staking.stakingToken());
+    const decimals = await stakingToken.decimals();
+    const snapshot = await loadStakingSnapshot(staking, stakingToken, store);
+
+    const current = buildSolvencyReport(snapshot, {}, args.horizon);
+    console.log(`Staking ${store.address} on ${hre.network.name}, ${Object.keys(store.stakers).length} indexed stakers`);
+    console.log(`Current:\n${formatSolvencyReport(current, decimals)}`);
+
+    const scenario: SolvencyScenario = {
+      rewardRatioNumerator: args.ratio,
+      stakingTokenCap: args.cap === undefined ? undefined : parseUnits(args.cap, decimals),
+      fund: args.fund === undefined ? undefined : parseUnits(args.fund, decimals),
+    };
+    if (Object.values(scenario).every((value) => value === undefined)) return { current };
+
+    const proposed = buildSolvencyReport(snapshot, scenario, args.horizon);
+    console.log(`Proposed:\n${formatSolvencyReport(proposed, decimals)}`);
+    return { current, proposed };
+  });
+
+task("staking:gas", "Benchmarks the gas of the reward loop as conditions, tiers and idle time grow, failing on regressions")
+  .addOptionalParam("baseline", "Path of the committed baseline", "gas/baseline.json")
+  .addOptionalParam("out", "Path of the report, without extension, written as .json and .md", "gas/report")
+  .addOptionalParam("threshold", "Percent increase over the baseline that fails the benchmark", 5, types.float)
+  .addFlag("updateBaseline", "Overwrite the baseline with the new measurements")
+  .setAction(async (args: { baseline: string; out: string; threshold: number; updateBaseline: boolean }, hre) => {
+    const measurements = await runGasBenchmark(hre);
+    const baseline = existsSync(args.baseline) ? loadGasReport(args.baseline) : [];
+    const report = formatGasReport(measurements, baseline);
+
+    saveGasReport(`${args.out}.json`, measurements);
+    writeFileSync(`${args.out}.md`, `${report}\n`);
+    console.log(report);
+
+    if (args.updateBaseline) {
+      saveGasReport(args.baseline, measurements);
+      console.log(`Baseline updated at ${args.baseline}`);
+      return measurements;
+    }
+    if (baseline.length == 0) throw new Error(`No gas baseline at ${args.baseline}, run with --update-baseline first`);
+
+    const regressions = compareGasReports(baseline, measurements, args.threshold);
+    regressions.forEach((regression) => console.error(formatGasRegression(regression)));
+    if (regressions.length > 0) throw new Error(`${regressions.length} gas regressions over ${args.threshold}%`);
+    return measurements;
+  });
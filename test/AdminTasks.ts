@@ -0,0 +1,298 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { MaxUint256, parseUnits } from "ethers";
+import { ONE_DAY, rewardRatioNumerator, tiersDurations, tiersMultipliers } from "../config/config";
+import { AdminValidationError, executeAdminOperation, preparePause, prepareSetRewardRatio } from "../scripts/admin";
+import { getDeployedAddress } from "../scripts/deployments";
+import { errors } from "../scripts/utils";
+import { deployStakingFixture, deployStakingRolesFixture } from "./fixtures";
+
+describe("Admin Tasks", function () {
+  const expectValidationError = async (promise: Promise<unknown>, errorName: string) => {
+    const error = await promise.then(
+      () => undefined,
+      (error) => error
+    );
+    expect(error).to.be.instanceOf(AdminValidationError);
+    expect(error.errorName).to.equal(errorName);
+  };
+
+  describe("Deployment address", function () {
+    it("Should resolve the Staking address from the Ignition deployment", async function () {
+      expect(getDeployedAddress(137)).to.equal("0x522abEf83a1a52eA13170bB1DcC4461e6b305508");
+    });
+    it("Should fail when the chain has no deployment", async function () {
+      expect(() => getDeployedAddress(31337)).to.throw("No Ignition deployment found for chain 31337");
+    });
+  });
+
+  describe("staking:set-reward-ratio", function () {
+    it("Should only estimate gas in dry run mode", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      const result = await hre.run("staking:set-reward-ratio", { address: await staking.getAddress(), ratio: 500n, dryRun: true });
+
+      expect(result.gas).to.be.greaterThan(0n);
+      expect((await staking.getRewardRatio())._numerator).to.equal(rewardRatioNumerator);
+    });
+    it("Should update the reward ratio", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      const result = await hre.run("staking:set-reward-ratio", { address: await staking.getAddress(), ratio: 500n, dryRun: false });
+
+      expect(result.receipt.status).to.equal(1);
+      expect((await staking.getRewardRatio())._numerator).to.equal(500n);
+    });
+    it("Should reject a zero or unchanged ratio", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+
+      await expectValidationError(hre.run("staking:set-reward-ratio", { address, ratio: 0n, dryRun: true }), errors.invalidRewardRatio);
+      await expectValidationError(hre.run("staking:set-reward-ratio", { address, ratio: rewardRatioNumerator, dryRun: true }), errors.invalidRewardRatio);
+    });
+    it("Should reject a sender that is not the owner", async function () {
+      const { staking, otherAccount } = await loadFixture(deployStakingFixture);
+
+      const operation = await prepareSetRewardRatio(staking, 500n);
+
+      await expectValidationError(executeAdminOperation(staking.connect(otherAccount), operation, true), errors.callerNotOwner);
+    });
+    it("Should send the operation through the roles owning the contract", async function () {
+      const { staking, stakingRoles, parameterManager } = await loadFixture(deployStakingRolesFixture);
+
+      const operation = await prepareSetRewardRatio(staking, 500n);
+      const result = await executeAdminOperation(staking.connect(parameterManager), operation, false);
+
+      expect(result.receipt?.to).to.equal(await stakingRoles.getAddress());
+      expect((await staking.getRewardRatio())._numerator).to.equal(500n);
+    });
+    it("Should reject a sender without the role of the operation", async function () {
+      const { staking, owner, pauser } = await loadFixture(deployStakingRolesFixture);
+
+      const operation = await prepareSetRewardRatio(staking, 500n);
+
+      await expectValidationError(executeAdminOperation(staking.connect(owner), operation, true), errors.missingRole);
+      await expectValidationError(executeAdminOperation(staking.connect(pauser), operation, true), errors.missingRole);
+      expect((await executeAdminOperation(staking.connect(pauser), await preparePause(staking), true)).gas).to.be.greaterThan(0n);
+    });
+  });
+
+  describe("staking:set-tiers", function () {
+    it("Should convert durations from days and set the tiers", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await hre.run("staking:set-tiers", {
+        address: await staking.getAddress(),
+        durations: tiersDurations.map((duration) => duration / ONE_DAY).join(","),
+        multipliers: tiersMultipliers.join(","),
+        dryRun: false,
+      });
+
+      for (let i = 0; i < tiersDurations.length; i++) {
+        const tier = await staking.tiers(i);
+        expect(tier.minStakingDuration).to.equal(tiersDurations[i]);
+        expect(tier.multiplier).to.equal(tiersMultipliers[i]);
+      }
+    });
+    it("Should reject unordered durations, mismatched lengths and out of range multipliers", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+
+      await expectValidationError(hre.run("staking:set-tiers", { address, durations: "30,90,60", multipliers: "110,120,130", dryRun: true }), errors.invalidTiersDurations);
+      await expectValidationError(hre.run("staking:set-tiers", { address, durations: "30,90", multipliers: "110", dryRun: true }), errors.invalidTiersLength);
+      await expectValidationError(hre.run("staking:set-tiers", { address, durations: "30,90", multipliers: "90,120", dryRun: true }), errors.invalidMultiplier);
+      await expectValidationError(hre.run("staking:set-tiers", { address, durations: "30,90", multipliers: "110,1001", dryRun: true }), errors.invalidMultiplier);
+    });
+  });
+
+  describe("staking:set-lock-options", function () {
+    it("Should convert durations from days and set the lock table", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await hre.run("staking:set-lock-options", { address: await staking.getAddress(), durations: "30,180", multipliers: "110,140", dryRun: false });
+
+      expect((await staking.getLockOptions()).map(({ duration, multiplier }) => [duration, multiplier])).to.deep.equal([
+        [BigInt(30 * ONE_DAY), 110n],
+        [BigInt(180 * ONE_DAY), 140n],
+      ]);
+    });
+    it("Should reject zero or unordered durations, mismatched lengths and out of range multipliers", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+
+      await expectValidationError(hre.run("staking:set-lock-options", { address, durations: "0,30", multipliers: "100,110", dryRun: true }), errors.invalidLockDurations);
+      await expectValidationError(hre.run("staking:set-lock-options", { address, durations: "90,30", multipliers: "120,110", dryRun: true }), errors.invalidLockDurations);
+      await expectValidationError(hre.run("staking:set-lock-options", { address, durations: "30", multipliers: "110,120", dryRun: true }), errors.invalidLockOptionsLength);
+      await expectValidationError(hre.run("staking:set-lock-options", { address, durations: "30,90", multipliers: "90,120", dryRun: true }), errors.invalidMultiplier);
+      await expectValidationError(hre.run("staking:set-lock-options", { address, durations: "30,90", multipliers: "110,1001", dryRun: true }), errors.invalidMultiplier);
+    });
+  });
+
+  describe("staking:set-withdraw-cooldown", function () {
+    it("Should convert the cooldown from days", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+
+      const result = await hre.run("staking:set-withdraw-cooldown", { address, days: "7", dryRun: true });
+      expect(result.gas).to.be.greaterThan(0n);
+      expect(await staking.withdrawCooldown()).to.equal(0n);
+
+      await hre.run("staking:set-withdraw-cooldown", { address, days: "7", dryRun: false });
+      expect(await staking.withdrawCooldown()).to.equal(BigInt(7 * ONE_DAY));
+    });
+  });
+
+  describe("staking:set-notice-delay, staking:cancel-reward-ratio and staking:cancel-tiers", function () {
+    it("Should schedule the changes after the notice delay and cancel them", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+
+      await expectValidationError(hre.run("staking:set-notice-delay", { address, days: "91", dryRun: true }), errors.invalidNoticeDelay);
+      await hre.run("staking:set-notice-delay", { address, days: "7", dryRun: false });
+      expect(await staking.minNoticeDelay()).to.equal(BigInt(7 * ONE_DAY));
+
+      await hre.run("staking:set-reward-ratio", { address, ratio: 500n, dryRun: false });
+      await hre.run("staking:set-tiers", { address, durations: "30,90", multipliers: "110,120", dryRun: false });
+      expect((await staking.getScheduledRewardRatio())._numerator).to.equal(500n);
+      await expectValidationError(hre.run("staking:set-reward-ratio", { address, ratio: 400n, dryRun: true }), errors.changeAlreadyScheduled);
+      await expectValidationError(hre.run("staking:set-tiers", { address, durations: "30", multipliers: "110", dryRun: true }), errors.changeAlreadyScheduled);
+
+      await hre.run("staking:cancel-reward-ratio", { address, dryRun: false });
+      await hre.run("staking:cancel-tiers", { address, dryRun: false });
+      expect(await staking.getScheduledRewardRatio()).to.deep.equal([0n, 0n]);
+      expect(await staking.getTierSetCount()).to.equal(1n);
+      await expectValidationError(hre.run("staking:cancel-reward-ratio", { address, dryRun: true }), errors.noScheduledChange);
+      await expectValidationError(hre.run("staking:cancel-tiers", { address, dryRun: true }), errors.noScheduledChange);
+    });
+  });
+
+  describe("staking:compound-for", function () {
+    it("Should compound the rewards of the stakers that have any", async function () {
+      const { staking, stakingToken, owner, otherAccount } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+      const amount = parseUnits("1000", await stakingToken.decimals());
+
+      await expectValidationError(hre.run("staking:compound-for", { address, stakers: owner.address, dryRun: true }), errors.noRewards);
+
+      await stakingToken.approve(address, amount);
+      await staking.stake(amount);
+      await time.increase(30 * ONE_DAY);
+      await expectValidationError(hre.run("staking:compound-for", { address, stakers: owner.address, dryRun: true }), errors.missingRewards);
+
+      await stakingToken.transfer(address, amount);
+      await hre.run("staking:compound-for", { address, stakers: `${owner.address},${otherAccount.address}`, dryRun: false });
+
+      expect((await staking.stakers(owner.address)).amountStaked).to.be.greaterThan(amount);
+      expect((await staking.stakers(otherAccount.address)).amountStaked).to.equal(0n);
+      expect((await staking.getStakeInfo(owner.address))._rewards).to.equal(0n);
+    });
+  });
+
+  describe("staking:set-stake-for-allowlist and staking:set-stake-for-allowed", function () {
+    it("Should turn on the allowlist and add or remove accounts", async function () {
+      const { staking, otherAccount } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+
+      await hre.run("staking:set-stake-for-allowlist", { address, enabled: true, dryRun: false });
+      await hre.run("staking:set-stake-for-allowed", { address, account: otherAccount.address, allowed: true, dryRun: false });
+
+      expect(await staking.stakeForAllowlistEnabled()).to.equal(true);
+      expect(await staking.stakeForAllowlist(otherAccount.address)).to.equal(true);
+
+      await hre.run("staking:set-stake-for-allowed", { address, account: otherAccount.address, allowed: false, dryRun: false });
+      expect(await staking.stakeForAllowlist(otherAccount.address)).to.equal(false);
+    });
+  });
+
+  describe("staking:add-reward-stream and staking:set-stream-ratio", function () {
+    it("Should add a reward stream and update its ratio", async function () {
+      const { staking, otherAccount } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+
+      await hre.run("staking:add-reward-stream", { address, token: otherAccount.address, ratio: 500n, dryRun: false });
+      await hre.run("staking:set-stream-ratio", { address, stream: 0n, ratio: 0n, dryRun: false });
+
+      const [stream] = await staking.getRewardStreams();
+      expect(stream.token).to.equal(otherAccount.address);
+      expect(stream.rewardRatioNumerator).to.equal(0n);
+    });
+    it("Should reject the staking token, a duplicate token and unknown streams", async function () {
+      const { staking, stakingToken, otherAccount } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+
+      await expectValidationError(hre.run("staking:add-reward-stream", { address, token: await stakingToken.getAddress(), ratio: 500n, dryRun: true }), errors.invalidTokenAddress);
+      await hre.run("staking:add-reward-stream", { address, token: otherAccount.address, ratio: 500n, dryRun: false });
+      await expectValidationError(hre.run("staking:add-reward-stream", { address, token: otherAccount.address, ratio: 500n, dryRun: true }), errors.invalidTokenAddress);
+      await expectValidationError(hre.run("staking:set-stream-ratio", { address, stream: 0n, ratio: 500n, dryRun: true }), errors.invalidRewardRatio);
+      await expectValidationError(hre.run("staking:set-stream-ratio", { address, stream: 1n, ratio: 500n, dryRun: true }), errors.invalidRewardStreamId);
+    });
+  });
+
+  describe("staking:set-cap and staking:set-min-boost", function () {
+    it("Should parse amounts with the staking token decimals", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+      const decimals = await stakingToken.decimals();
+
+      await hre.run("staking:set-cap", { address, amount: "1000000.5", dryRun: false });
+      await hre.run("staking:set-min-boost", { address, amount: "500", dryRun: false });
+
+      expect(await staking.stakingTokenCap()).to.equal(parseUnits("1000000.5", decimals));
+      expect(await staking.minStakingBoostAmount()).to.equal(parseUnits("500", decimals));
+    });
+    it("Should reject a zero minimum boost amount", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await expectValidationError(hre.run("staking:set-min-boost", { address: await staking.getAddress(), amount: "0", dryRun: true }), errors.invalidAmount);
+    });
+  });
+
+  describe("staking:pause and staking:unpause", function () {
+    it("Should toggle the paused state only when it changes", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+
+      await expectValidationError(hre.run("staking:unpause", { address, dryRun: true }), errors.notPaused);
+      await hre.run("staking:pause", { address, dryRun: false });
+      expect(await staking.paused()).to.equal(true);
+
+      await expectValidationError(hre.run("staking:pause", { address, dryRun: true }), errors.paused);
+      await hre.run("staking:unpause", { address, dryRun: false });
+      expect(await staking.paused()).to.equal(false);
+    });
+  });
+
+  describe("staking:withdraw-excess", function () {
+    it("Should only withdraw staking tokens above the staked balance", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+
+      await expectValidationError(hre.run("staking:withdraw-excess", { address, amount: "1", dryRun: true }), errors.noExcessStakingToken);
+
+      await stakingToken.transfer(address, parseUnits("10", await stakingToken.decimals()));
+
+      await expectValidationError(hre.run("staking:withdraw-excess", { address, amount: "10.000001", dryRun: true }), errors.withdrawAmountExceedsLimit);
+      const ownerBalance = await stakingToken.balanceOf(owner.address);
+      await hre.run("staking:withdraw-excess", { address, amount: "10", dryRun: false });
+
+      expect(await stakingToken.balanceOf(address)).to.equal(0n);
+      expect(await stakingToken.balanceOf(owner.address)).to.equal(ownerBalance + parseUnits("10", await stakingToken.decimals()));
+    });
+    it("Should not withdraw the reward reserve", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      const address = await staking.getAddress();
+      const decimals = await stakingToken.decimals();
+
+      await stakingToken.approve(address, MaxUint256);
+      await staking.fundRewards(parseUnits("100", decimals));
+      await expectValidationError(hre.run("staking:withdraw-excess", { address, amount: "1", dryRun: true }), errors.noExcessStakingToken);
+
+      await stakingToken.transfer(address, parseUnits("10", decimals));
+      await expectValidationError(hre.run("staking:withdraw-excess", { address, amount: "10.000001", dryRun: true }), errors.withdrawAmountExceedsLimit);
+      await hre.run("staking:withdraw-excess", { address, amount: "10", dryRun: false });
+
+      expect(await staking.rewardReserve()).to.equal(parseUnits("100", decimals));
+    });
+  });
+});
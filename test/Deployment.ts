@@ -0,0 +1,220 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { parseUnits } from "ethers";
+import { ONE_DAY, rewardRatioNumerator, tiersDurations, tiersMultipliers } from "../config/config";
+import {
+  DeploymentProfile,
+  deploymentProfiles,
+  getDeploymentProfile,
+  getStakingModuleParameters,
+  getStakingRolesModuleParameters,
+  validateDeploymentProfile,
+} from "../config/deployments";
+import StakingModule from "../ignition/modules/Staking";
+import StakingRolesModule from "../ignition/modules/StakingRoles";
+import { getStakingDeploymentParameters } from "../tasks/deploy";
+import { Staking, StakingRoles } from "../typechain-types";
+import { deployStaking } from "./fixtures";
+
+describe("Deployment", function () {
+  async function deployTokensFixture() {
+    const purchaseToken = await hre.ethers.deployContract("PurchaseToken");
+    const luciDao = await hre.ethers.deployContract("FakeLucidao");
+    return { purchaseToken, luciDao };
+  }
+
+  const validProfile: DeploymentProfile = {
+    rewardRatioNumerator,
+    stakingTokenCap: "1000",
+    minStakingBoostAmount: "10",
+    tiersDurations: [ONE_DAY, 2 * ONE_DAY],
+    tiersMultipliers: [100, 150],
+    roles: { pausers: [], parameterManagers: [], treasuries: [] },
+  };
+
+  describe("Profiles", function () {
+    it("Should define a valid profile for every configured network", async function () {
+      for (const [network, profile] of Object.entries(deploymentProfiles)) {
+        expect(() => validateDeploymentProfile(network, profile)).not.to.throw();
+        expect(getDeploymentProfile(network)).to.equal(profile);
+      }
+      expect(deploymentProfiles.polygonMainnet.stakingToken).to.equal("0xc2A45FE7d40bCAc8369371B08419DDAFd3131b4a");
+      expect(() => getDeploymentProfile("localhost")).to.throw("No deployment profile for network localhost");
+    });
+    it("Should report every invalid parameter at once", async function () {
+      const profile: DeploymentProfile = {
+        stakingToken: "0x1234",
+        rewardRatioNumerator: 0n,
+        stakingTokenCap: "9",
+        minStakingBoostAmount: "10",
+        tiersDurations: [ONE_DAY, ONE_DAY, 3 * ONE_DAY],
+        tiersMultipliers: [110, 99, 120],
+        roles: { pausers: ["0xc2A45FE7d40bCAc8369371B08419DDAFd3131b4a"], parameterManagers: ["0x5678"], treasuries: [] },
+      };
+
+      const error = (() => {
+        try {
+          validateDeploymentProfile("polygonTestnet", profile);
+        } catch (error) {
+          return error as Error;
+        }
+      })();
+
+      expect(error?.message).to.equal(
+        [
+          "Invalid polygonTestnet deployment profile:",
+          "  - stakingToken 0x1234 is not an address",
+          "  - rewardRatioNumerator must be greater than zero",
+          "  - stakingTokenCap 9 is lower than minStakingBoostAmount 10",
+          `  - tier 1 duration ${ONE_DAY} is not greater than ${ONE_DAY}`,
+          "  - tier 1 multiplier 99 is lower than 100",
+          "  - parameterManagers account 0x5678 is not an address",
+        ].join("\n")
+      );
+    });
+    it("Should reject mismatched or empty tiers", async function () {
+      expect(() => validateDeploymentProfile("hardhat", { ...validProfile, tiersMultipliers: [110] })).to.throw("got 2 tier durations and 1 multipliers");
+      expect(() => validateDeploymentProfile("hardhat", { ...validProfile, tiersDurations: [], tiersMultipliers: [] })).to.throw("got 0 tier durations");
+    });
+    it("Should scale the amounts by the token decimals", async function () {
+      const token = "0xc2A45FE7d40bCAc8369371B08419DDAFd3131b4a";
+
+      expect(getStakingModuleParameters(validProfile, token, 6n)).to.deep.include({ _stakingTokenCap: 1000_000000n, _minStakingBoostAmount: 10_000000n });
+      expect(getStakingModuleParameters(validProfile, token, 18n)).to.deep.include({ _stakingTokenCap: parseUnits("1000", 18), _minStakingBoostAmount: parseUnits("10", 18) });
+    });
+    it("Should pass the role accounts to both modules", async function () {
+      const token = "0xc2A45FE7d40bCAc8369371B08419DDAFd3131b4a";
+      const roles = { pausers: [token], parameterManagers: [], treasuries: [token] };
+
+      const roleParameters = { _pausers: [token], _parameterManagers: [], _treasuries: [token] };
+      expect(getStakingModuleParameters({ ...validProfile, roles }, token, 18n)).to.deep.include(roleParameters);
+      expect(getStakingRolesModuleParameters({ ...validProfile, roles }, token)).to.deep.equal({ _staking: token, ...roleParameters });
+    });
+  });
+
+  describe("StakingModule", function () {
+    const deployStakingModule = async (token: string) => {
+      const parameters = await getStakingDeploymentParameters(hre, token);
+      const { staking } = await hre.ignition.deploy(StakingModule, { parameters: { StakingModule: parameters } });
+      return staking as unknown as Staking;
+    };
+
+    const expectRoles = async (stakingRoles: StakingRoles, role: string, accounts: string[]) => {
+      for (const account of accounts) expect(await stakingRoles.hasRole(role, account)).to.be.true;
+    };
+
+    it("Should deploy on a 6 decimals token with scaled amounts", async function () {
+      const { purchaseToken } = await loadFixture(deployTokensFixture);
+
+      const staking = await deployStakingModule(await purchaseToken.getAddress());
+
+      expect(await staking.stakingToken()).to.equal(await purchaseToken.getAddress());
+      expect(await staking.stakingTokenDecimals()).to.equal(6n);
+      expect(await staking.stakingTokenCap()).to.equal(parseUnits("50000000", 6));
+      expect(await staking.minStakingBoostAmount()).to.equal(parseUnits("25000", 6));
+      expect((await staking.getRewardRatio())._numerator).to.equal(rewardRatioNumerator);
+      for (let i = 0; i < tiersDurations.length; i++) {
+        const tier = await staking.tiers(i);
+        expect(tier.minStakingDuration).to.equal(tiersDurations[i]);
+        expect(tier.multiplier).to.equal(tiersMultipliers[i]);
+      }
+    });
+    it("Should deploy on an 18 decimals token with scaled amounts", async function () {
+      const { luciDao } = await loadFixture(deployTokensFixture);
+
+      const staking = await deployStakingModule(await luciDao.getAddress());
+
+      expect(await staking.stakingTokenDecimals()).to.equal(18n);
+      expect(await staking.stakingTokenCap()).to.equal(parseUnits("50000000", 18));
+      expect(await staking.minStakingBoostAmount()).to.equal(parseUnits("25000", 18));
+    });
+    it("Should grant the configured roles and hand them the ownership", async function () {
+      const { purchaseToken } = await loadFixture(deployTokensFixture);
+      const [deployer, pauser, parameterManager, treasury] = await hre.ethers.getSigners();
+
+      const parameters = {
+        ...(await getStakingDeploymentParameters(hre, await purchaseToken.getAddress())),
+        _pausers: [pauser.address],
+        _parameterManagers: [parameterManager.address, deployer.address],
+        _treasuries: [treasury.address],
+      };
+      const deployment = await hre.ignition.deploy(StakingModule, { parameters: { StakingModule: parameters } });
+      const staking = deployment.staking as unknown as Staking;
+      const stakingRoles = deployment.stakingRoles as unknown as StakingRoles;
+
+      expect(await staking.owner()).to.equal(await stakingRoles.getAddress());
+      expect(await stakingRoles.staking()).to.equal(await staking.getAddress());
+      expect((await staking.tiers(0)).multiplier).to.equal(tiersMultipliers[0]);
+      await expectRoles(stakingRoles, await stakingRoles.DEFAULT_ADMIN_ROLE(), [deployer.address]);
+      await expectRoles(stakingRoles, await stakingRoles.PAUSER_ROLE(), [pauser.address]);
+      await expectRoles(stakingRoles, await stakingRoles.PARAMETER_MANAGER_ROLE(), [parameterManager.address, deployer.address]);
+      await expectRoles(stakingRoles, await stakingRoles.TREASURY_ROLE(), [treasury.address]);
+      expect(await stakingRoles.hasRole(await stakingRoles.PAUSER_ROLE(), deployer.address)).to.be.false;
+    });
+    it("Should migrate a deployed Staking contract to the roles", async function () {
+      const { purchaseToken } = await loadFixture(deployTokensFixture);
+      const [deployer, pauser] = await hre.ethers.getSigners();
+      const staking = await deployStaking([await purchaseToken.getAddress(), rewardRatioNumerator, 1000n, 10n]);
+
+      const parameters = { ...getStakingRolesModuleParameters(deploymentProfiles.hardhat, await staking.getAddress()), _pausers: [pauser.address] };
+      const { stakingRoles } = await hre.ignition.deploy(StakingRolesModule, { parameters: { StakingRolesModule: parameters } });
+
+      expect(await staking.owner()).to.equal(await stakingRoles.getAddress());
+      expect(await stakingRoles.hasRole(await stakingRoles.DEFAULT_ADMIN_ROLE(), deployer.address)).to.be.true;
+      expect(await stakingRoles.hasRole(await stakingRoles.PAUSER_ROLE(), pauser.address)).to.be.true;
+    });
+    it("Should only let the owner migrate through staking:migrate-roles", async function () {
+      const { purchaseToken } = await loadFixture(deployTokensFixture);
+      const [deployer, otherAccount] = await hre.ethers.getSigners();
+      const staking = await deployStaking([await purchaseToken.getAddress(), rewardRatioNumerator, 1000n, 10n]);
+      await staking.transferOwnership(otherAccount.address);
+
+      await expect(hre.run("staking:migrate-roles", { address: await staking.getAddress() })).to.be.rejectedWith(
+        `${deployer.address} is not the owner ${otherAccount.address}`
+      );
+
+      await staking.connect(otherAccount).transferOwnership(deployer.address);
+      await hre.run("staking:migrate-roles", { address: await staking.getAddress() });
+      const stakingRoles = await hre.ethers.getContractAt("StakingRoles", await staking.owner());
+      expect(await stakingRoles.staking()).to.equal(await staking.getAddress());
+    });
+    it("Should require a token when the profile has none", async function () {
+      const lcdAddress = process.env.LCD_ADDRESS;
+      delete process.env.LCD_ADDRESS;
+      try {
+        await expect(getStakingDeploymentParameters(hre)).to.be.rejectedWith("Missing environment variables for hardhat deploy: LCD_ADDRESS");
+      } finally {
+        if (lcdAddress !== undefined) process.env.LCD_ADDRESS = lcdAddress;
+      }
+    });
+    it("Should deploy through staking:deploy", async function () {
+      const { purchaseToken } = await loadFixture(deployTokensFixture);
+
+      await hre.run("staking:deploy", { token: await purchaseToken.getAddress() });
+
+      // The hardhat network deployment is ephemeral, so the contract is found from the last transaction, which hands its ownership to the roles
+      const lastBlock = await hre.ethers.provider.getBlock("latest", true);
+      const transaction = await hre.ethers.provider.getTransaction(lastBlock!.transactions[0]);
+      const staking = await hre.ethers.getContractAt("Staking", transaction!.to!);
+
+      expect(await staking.stakingTokenDecimals()).to.equal(6n);
+      expect(await staking.stakingTokenCap()).to.equal(parseUnits("50000000", 6));
+      expect((await staking.tiers(0)).multiplier).to.equal(tiersMultipliers[0]);
+    });
+  });
+
+  describe("Contract size", function () {
+    // EIP-170 limit, which the Hardhat network lifts with allowUnlimitedContractSize
+    const maxContractSize = 24576;
+
+    it("Should keep every contract under the contract size limit", async function () {
+      const names = (await hre.artifacts.getAllFullyQualifiedNames()).filter((name) => name.startsWith("contracts/") && !name.startsWith("contracts/test/"));
+
+      for (const name of names) {
+        const { deployedBytecode } = await hre.artifacts.readArtifact(name);
+        expect((deployedBytecode.length - 2) / 2, name).to.be.at.most(maxContractSize);
+      }
+    });
+  });
+});
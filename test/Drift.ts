@@ -0,0 +1,140 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { parseUnits } from "ethers";
+import { ONE_DAY, tiersDurations, tiersMultipliers } from "../config/config";
+import { deploymentProfiles } from "../config/deployments";
+import { JournalFuture, readJournalFutures } from "../scripts/deployments";
+import { checkDrift, DriftCheck, getConfiguredState, getDeployedState, getLiveState, getScheduledState } from "../scripts/drift";
+
+describe("Drift Checker", function () {
+  const stakingAddress = "0x522abEf83a1a52eA13170bB1DcC4461e6b305508";
+  const deployer = "0xa3fd78a099388cd133cdb2b317a6d9e84ac3ccce";
+
+  async function seedJournalFixture() {
+    await hre.run("staking:seed-journal", { chain: 137 });
+    const owner = await hre.ethers.getImpersonatedSigner(deployer);
+    const staking = await hre.ethers.getContractAt("Staking", stakingAddress, owner);
+    return { staking, owner };
+  }
+
+  const getDrifted = (checks: DriftCheck[]) => checks.filter(({ drift }) => drift).map(({ field }) => field);
+
+  it("Should read the deployment and its calls from the journal", async function () {
+    const futures = readJournalFutures(137);
+
+    expect(futures.map(({ futureId, nonce }) => [futureId, nonce])).to.deep.equal([
+      ["StakingModule#Staking", 181],
+      ["StakingModule#Staking.setTiers", 182],
+    ]);
+    expect(getDeployedState(futures)).to.deep.equal({
+      owner: deployer,
+      stakingToken: "0xc2A45FE7d40bCAc8369371B08419DDAFd3131b4a",
+      rewardRatioNumerator: 350n,
+      stakingTokenCap: parseUnits("50000000", 18),
+      minStakingBoostAmount: parseUnits("25000", 18),
+      tiers: tiersDurations.map((duration, i) => ({ minStakingDuration: BigInt(duration), multiplier: BigInt(tiersMultipliers[i]) })),
+      paused: false,
+    });
+  });
+
+  it("Should replay the journal at the deployed address and report no drift", async function () {
+    const { staking } = await loadFixture(seedJournalFixture);
+
+    expect(await hre.ethers.provider.getCode(stakingAddress)).not.to.equal("0x");
+    expect((await staking.owner()).toLowerCase()).to.equal(deployer);
+
+    const checks: DriftCheck[] = await hre.run("staking:drift", { chain: 137 });
+
+    expect(checks).to.have.lengthOf(7);
+    expect(getDrifted(checks)).to.be.empty;
+  });
+
+  it("Should fail after an unexpected governance change", async function () {
+    const { staking } = await loadFixture(seedJournalFixture);
+
+    await staking.setRewardRatio(400n);
+    await staking.setTiers([1n], [105n]);
+    await staking.pause();
+
+    await expect(hre.run("staking:drift", { chain: 137 })).to.be.rejectedWith("Unexpected state: rewardRatioNumerator, tiers, paused");
+  });
+
+  it("Should detect an ownership transfer", async function () {
+    const { staking } = await loadFixture(seedJournalFixture);
+    const [newOwner] = await hre.ethers.getSigners();
+
+    await staking.transferOwnership(newOwner.address);
+
+    await expect(hre.run("staking:drift", { chain: 137 })).to.be.rejectedWith("Unexpected state: owner");
+  });
+
+  it("Should follow the ownership handed to the roles by the migration module", async function () {
+    const { staking, owner } = await loadFixture(seedJournalFixture);
+    const stakingRoles = await hre.ethers.deployContract("StakingRoles", [stakingAddress, [], [], []], owner);
+    await staking.transferOwnership(await stakingRoles.getAddress());
+
+    // The migration module reaches the deployed contract through contractAt, so its call is matched by address
+    const migration: JournalFuture = {
+      kind: "call",
+      futureId: "StakingRolesModule#Staking.transferOwnership",
+      from: deployer,
+      contractAddress: stakingAddress,
+      functionName: "transferOwnership",
+      args: [await stakingRoles.getAddress()],
+    };
+    const deployed = getDeployedState([...readJournalFutures(137), migration]);
+
+    expect(deployed.owner).to.equal(await stakingRoles.getAddress());
+    expect(getDrifted(checkDrift(deployed, getConfiguredState(deploymentProfiles.polygonMainnet, 18n), await getLiveState(staking)))).to.be.empty;
+  });
+
+  it("Should compare the journal reward ratio with the scheduled one until it applies", async function () {
+    const { staking, owner } = await loadFixture(seedJournalFixture);
+    await staking.setMinNoticeDelay(ONE_DAY);
+    await staking.setRewardRatio(400n);
+
+    const setRewardRatio: JournalFuture = {
+      kind: "call",
+      futureId: "StakingModule#Staking.setRewardRatio",
+      from: owner.address,
+      contractAddress: stakingAddress,
+      functionName: "setRewardRatio",
+      args: [400n],
+    };
+    const deployed = getDeployedState([...readJournalFutures(137), setRewardRatio]);
+    // Left to the journal, as for a call the profile does not set
+    const configured = { ...getConfiguredState(deploymentProfiles.polygonMainnet, 18n), rewardRatioNumerator: undefined };
+    const checks = checkDrift(deployed, configured, await getLiveState(staking), await getScheduledState(staking));
+    expect(getDrifted(checks)).to.be.empty;
+    expect(checks.find(({ field }) => field == "rewardRatioNumerator")).to.deep.include({ deployed: "400", live: "350", scheduled: "400" });
+
+    // Without the journal call, the scheduled ratio is a drift even though the one in force is unchanged
+    const unrecorded = checkDrift(getDeployedState(readJournalFutures(137)), configured, await getLiveState(staking), await getScheduledState(staking));
+    expect(getDrifted(unrecorded)).to.deep.equal(["rewardRatioNumerator"]);
+
+    await time.increase(ONE_DAY);
+    expect(await getScheduledState(staking)).to.be.empty;
+    expect(getDrifted(checkDrift(deployed, configured, await getLiveState(staking), await getScheduledState(staking)))).to.be.empty;
+  });
+
+  it("Should expect the profile values over the journal ones", async function () {
+    const { staking } = await loadFixture(seedJournalFixture);
+    const deployed = getDeployedState(readJournalFutures(137));
+    const live = await getLiveState(staking);
+
+    // A governance change reflected in the profile is expected, even though it differs from the journal
+    await staking.setStakingTokenCap(parseUnits("60000000", 18));
+    const updatedProfile = { ...deploymentProfiles.polygonMainnet, stakingTokenCap: "60000000" };
+    const checks = checkDrift(deployed, getConfiguredState(updatedProfile, 18n), await getLiveState(staking));
+    expect(getDrifted(checks)).to.be.empty;
+    expect(checks.find(({ field }) => field == "stakingTokenCap")).to.deep.include({
+      deployed: "50000000000000000000000000",
+      live: "60000000000000000000000000",
+    });
+
+    // And the other way round, a profile that was never applied is a drift
+    const unappliedProfile = { ...deploymentProfiles.polygonMainnet, rewardRatioNumerator: 400n };
+    expect(getDrifted(checkDrift(deployed, getConfiguredState(unappliedProfile, 18n), live))).to.deep.equal(["rewardRatioNumerator"]);
+  });
+});
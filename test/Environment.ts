@@ -0,0 +1,53 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import { defaultTestMnemonic, envSchema, EnvVariable, getEnv, getMissingEnv, validateEnv } from "../scripts/envUtils";
+
+describe("Environment", function () {
+  const variables = Object.keys(envSchema) as EnvVariable[];
+  let saved: Partial<Record<EnvVariable, string>>;
+
+  beforeEach(function () {
+    saved = Object.fromEntries(variables.map((name) => [name, process.env[name]]));
+    variables.forEach((name) => delete process.env[name]);
+  });
+
+  afterEach(function () {
+    variables.forEach((name) => (saved[name] === undefined ? delete process.env[name] : (process.env[name] = saved[name])));
+  });
+
+  it("Should run on the hardhat network without any variable", async function () {
+    expect(getMissingEnv("hardhat")).to.be.empty;
+    expect(getEnv("MNEMONIC", "hardhat")).to.equal(defaultTestMnemonic);
+    expect(getEnv("MNEMONIC", "polygonMainnet")).to.equal("");
+    expect(() => validateEnv(hre.network.name)).not.to.throw();
+  });
+
+  it("Should prefer a set variable over the fallback", async function () {
+    process.env.MNEMONIC = "candy maple cake sugar pudding cream honey rich smooth crumble sweet treat";
+
+    expect(getEnv("MNEMONIC", "hardhat")).to.equal(process.env.MNEMONIC);
+  });
+
+  it("Should list every missing variable of a remote network at once", async function () {
+    expect(() => validateEnv("polygonMainnet")).to.throw("Missing environment variables for polygonMainnet: MNEMONIC, ALCHEMY_API_KEY");
+
+    process.env.MNEMONIC = defaultTestMnemonic;
+    expect(getMissingEnv("polygonTestnet")).to.deep.equal(["ALCHEMY_API_KEY"]);
+  });
+
+  it("Should only require task variables while running the task", async function () {
+    process.env.MNEMONIC = defaultTestMnemonic;
+    process.env.ALCHEMY_API_KEY = "key";
+
+    expect(getMissingEnv("polygonTestnet")).to.be.empty;
+    expect(() => validateEnv("polygonTestnet", ["deploy", "verify"])).to.throw(
+      "Missing environment variables for polygonTestnet deploy verify: POLYGONSCAN_API_KEY, LCD_ADDRESS"
+    );
+    expect(getMissingEnv("polygonMainnet", ["deploy"])).to.be.empty;
+    expect(getMissingEnv("hardhat", ["verify"])).to.be.empty;
+  });
+
+  it("Should not require anything on networks outside the schema", async function () {
+    expect(getMissingEnv("localhost", ["deploy", "verify"])).to.be.empty;
+  });
+});
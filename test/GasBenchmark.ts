@@ -0,0 +1,85 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import { resolve } from "path";
+import {
+  compareGasReports,
+  formatGasRegression,
+  formatGasReport,
+  GasMeasurement,
+  gasOperations,
+  gasScenarios,
+  loadGasReport,
+  runGasBenchmark,
+} from "../scripts/gas";
+
+describe("Gas Benchmark", function () {
+  const baselinePath = resolve(__dirname, "../gas/baseline.json");
+
+  const measurement = (name: string, gas: number): GasMeasurement => ({
+    name,
+    conditions: 1,
+    tiers: 1,
+    idleDays: 1,
+    gas: { stake: gas, withdraw: gas, claimRewards: gas, getStakeInfo: gas },
+  });
+
+  it("Should add at most one lookup step per tier reached when the reward ratio updates double", async function () {
+    const [fewConditions, manyConditions] = await runGasBenchmark(hre, [
+      { name: "few-conditions", conditions: 32, tiers: 4, idleDays: 30 },
+      { name: "many-conditions", conditions: 256, tiers: 4, idleDays: 30 },
+    ]);
+
+    // The start of each of the 4 tiers is found by binary search over the conditions: 8 times more conditions take at most
+    // 4 more steps, each a cold storage read plus the mapping slot hashing
+    const lookupStepGas = 3_000;
+    for (const operation of gasOperations) {
+      expect(manyConditions.gas[operation] - fewConditions.gas[operation]).to.be.lessThanOrEqual(4 * 4 * lookupStepGas);
+    }
+  });
+
+  it("Should cost more gas as tiers grow", async function () {
+    const [oneTier, manyTiers] = await runGasBenchmark(hre, [
+      { name: "one-tier", conditions: 20, tiers: 1, idleDays: 30 },
+      { name: "many-tiers", conditions: 20, tiers: 10, idleDays: 30 },
+    ]);
+
+    for (const operation of gasOperations) {
+      expect(manyTiers.gas[operation]).to.be.greaterThan(oneTier.gas[operation]);
+    }
+  });
+
+  it("Should stay within 5% of the committed baseline", async function () {
+    const baseline = loadGasReport(baselinePath);
+    expect(baseline.map(({ name }) => name)).to.deep.equal(gasScenarios.map(({ name }) => name));
+
+    const regressions = compareGasReports(baseline, await runGasBenchmark(hre), 5);
+
+    expect(regressions.map(formatGasRegression), "run `yarn hardhat staking:gas --update-baseline` for intended changes").to.be.empty;
+  });
+
+  it("Should flag only the operations over the threshold", async function () {
+    const baseline = [measurement("a", 100_000), measurement("b", 100_000)];
+    const current = [
+      { ...measurement("a", 100_000), gas: { stake: 105_000, withdraw: 105_001, claimRewards: 90_000, getStakeInfo: 100_000 } },
+      measurement("new", 500_000),
+    ];
+
+    const regressions = compareGasReports(baseline, current, 5);
+
+    expect(regressions).to.have.lengthOf(1);
+    expect(formatGasRegression(regressions[0])).to.equal("a withdraw: 105001 gas, 100000 in the baseline (+5.0%)");
+  });
+
+  it("Should format the report with the change from the baseline", async function () {
+    const report = formatGasReport(
+      [{ ...measurement("a", 110_000), gas: { ...measurement("a", 110_000).gas, getStakeInfo: 100_000 } }],
+      [measurement("a", 100_000)]
+    );
+
+    expect(report.split("\n")).to.deep.equal([
+      "| Scenario | Conditions | Tiers | Idle days | stake | withdraw | claimRewards | getStakeInfo |",
+      "| --- | --: | --: | --: | --: | --: | --: | --: |",
+      "| a | 1 | 1 | 1 | 110000 (+10.0%) | 110000 (+10.0%) | 110000 (+10.0%) | 100000 |",
+    ]);
+  });
+});
@@ -0,0 +1,389 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MaxUint256, parseUnits } from "ethers";
+import { ONE_DAY, rewardRatioNumerator, tiersDurations, tiersMultipliers } from "../config/config";
+import { getDeploymentBlock } from "../scripts/deployments";
+import {
+  createIndexerStore,
+  getActiveStakers,
+  getStakingFeatures,
+  getTotalLocked,
+  getTotalStaked,
+  getTotalUnbonding,
+  indexStakingEvents,
+  IndexerStore,
+  loadIndexerStore,
+  openIndexerStore,
+  reconcileStakingStore,
+  saveIndexerStore,
+} from "../scripts/indexer";
+import { deployStakingFixture } from "./fixtures";
+
+describe("Staking Indexer", function () {
+  async function deployIndexedStakingFixture() {
+    const { staking, stakingToken, owner, users } = await deployStakingFixture();
+    const decimals = await stakingToken.decimals();
+    const [user1, user2, user3] = users;
+    const deployBlock = (await staking.deploymentTransaction()!.wait())!.blockNumber;
+
+    for (const user of [user1, user2, user3]) {
+      await stakingToken.transfer(user.address, parseUnits("10000", decimals));
+      await stakingToken.connect(user).approve(await staking.getAddress(), MaxUint256);
+    }
+    await stakingToken.transfer(await staking.getAddress(), parseUnits("10000", decimals));
+
+    await staking.setTiers(tiersDurations, tiersMultipliers);
+    await staking.connect(user1).stake(parseUnits("1000", decimals));
+    await staking.connect(user2).stake(parseUnits("500", decimals));
+    await time.increase(30 * ONE_DAY);
+    await staking.setRewardRatio(500n);
+    await staking.connect(user1).withdraw(parseUnits("400", decimals));
+    await staking.connect(user3).stake(parseUnits("2000", decimals));
+    await time.increase(30 * ONE_DAY);
+    await staking.connect(user2).claimRewards();
+    await staking.setStakingTokenCap(parseUnits("100000", decimals));
+    await staking.setMinStakingBoostAmount(parseUnits("100", decimals));
+    await staking.setRewardRatio(200n);
+    await staking.connect(user3).emergencyWithdraw();
+
+    return { staking, stakingToken, owner, users, decimals, deployBlock };
+  }
+
+  it("Should find the deployment block in the Ignition journal", async function () {
+    expect(getDeploymentBlock(137)).to.equal(57225206);
+    expect(() => getDeploymentBlock(31337)).to.throw("No Ignition deployment found for chain 31337");
+  });
+
+  it("Should rebuild every staker position and the reward ratio timeline", async function () {
+    const { staking, stakingToken, users, decimals, deployBlock } = await loadFixture(deployIndexedStakingFixture);
+    const [user1, user2, user3] = users.map((user) => user.address);
+
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock));
+
+    expect(Object.keys(store.stakers)).to.have.members([user1, user2, user3]);
+    expect(store.stakers[user1].amountStaked).to.equal(parseUnits("600", decimals));
+    expect(store.stakers[user1].totalWithdrawn).to.equal(parseUnits("400", decimals));
+    expect(store.stakers[user2].totalClaimed).to.be.greaterThan(0n);
+    expect(store.stakers[user2].totalClaimed).to.equal((await stakingToken.balanceOf(user2)) - parseUnits("9500", decimals));
+    expect(store.stakers[user3].amountStaked).to.equal(0n);
+    expect(store.stakers[user3].totalEmergencyWithdrawn).to.equal(parseUnits("2000", decimals));
+    expect(getActiveStakers(store)).to.deep.equal([user1, user2]);
+    expect(getTotalStaked(store)).to.equal(await staking.stakingTokenBalance());
+
+    expect(store.rewardRatios.map(({ value }) => value)).to.deep.equal([rewardRatioNumerator, 500n, 200n]);
+    expect(store.rewardRatios[0].blockNumber).to.equal(deployBlock);
+    expect(store.tiers[0].value).to.deep.equal(tiersDurations.map((duration, i) => ({ minStakingDuration: BigInt(duration), multiplier: BigInt(tiersMultipliers[i]) })));
+    expect(store.stakingTokenCaps.map(({ value }) => value)).to.deep.equal([parseUnits("100000", decimals)]);
+    expect(store.minStakingBoostAmounts.map(({ value }) => value)).to.deep.equal([parseUnits("100", decimals)]);
+
+    expect(await reconcileStakingStore(staking, store)).to.be.empty;
+  });
+
+  it("Should track the locked positions and the lock table", async function () {
+    const { staking, users, decimals, deployBlock } = await loadFixture(deployIndexedStakingFixture);
+    const [user1] = users;
+
+    await staking.setLockOptions([30 * ONE_DAY, 90 * ONE_DAY], [110, 130]);
+    await staking.connect(user1).openPosition(parseUnits("300", decimals), 30 * ONE_DAY);
+    await staking.connect(user1).openPosition(parseUnits("200", decimals), 90 * ONE_DAY);
+    await time.increase(40 * ONE_DAY);
+    await staking.connect(user1).claimPositionRewards(1);
+    await staking.connect(user1).withdrawPosition(0);
+
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock));
+
+    expect(store.stakers[user1.address].amountLocked).to.equal(parseUnits("200", decimals));
+    expect(getTotalLocked(store)).to.equal(await staking.lockedTokenBalance());
+    expect(store.lockOptions[0].value).to.deep.equal([
+      { duration: BigInt(30 * ONE_DAY), multiplier: 110n },
+      { duration: BigInt(90 * ONE_DAY), multiplier: 130n },
+    ]);
+    expect(await reconcileStakingStore(staking, store)).to.be.empty;
+
+    // A position opened after the checkpoint is reported by the reconciliation
+    await staking.connect(user1).openPosition(parseUnits("1", decimals), 30 * ONE_DAY);
+    store.lastIndexedBlock = await hre.ethers.provider.getBlockNumber();
+    expect((await reconcileStakingStore(staking, store)).map(({ field }) => field)).to.deep.equal(["amountLocked", "lockedTokenBalance"]);
+  });
+
+  it("Should track the withdraw requests and the withdraw cooldown", async function () {
+    const { staking, users, decimals, deployBlock } = await loadFixture(deployIndexedStakingFixture);
+    const [user1, user2] = users;
+
+    await staking.setWithdrawCooldown(7 * ONE_DAY);
+    await staking.connect(user1).requestWithdraw(parseUnits("100", decimals));
+    await staking.connect(user1).requestWithdraw(parseUnits("200", decimals));
+    await staking.connect(user2).requestWithdraw(parseUnits("50", decimals));
+    await time.increase(7 * ONE_DAY);
+    await staking.connect(user1).completeWithdraw(0);
+    await staking.connect(user1).cancelWithdraw(1);
+    await staking.pause();
+    await staking.connect(user2).emergencyWithdraw();
+
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock));
+
+    expect(store.stakers[user1.address].amountStaked).to.equal(parseUnits("500", decimals));
+    expect(store.stakers[user1.address].totalWithdrawn).to.equal(parseUnits("500", decimals));
+    expect(store.stakers[user2.address].amountStaked).to.equal(0n);
+    expect(store.stakers[user2.address].totalEmergencyWithdrawn).to.equal(parseUnits("500", decimals));
+    expect(getTotalUnbonding(store)).to.equal(await staking.unbondingTokenBalance());
+    expect(store.withdrawCooldowns.map(({ value }) => value)).to.deep.equal([BigInt(7 * ONE_DAY)]);
+    expect(await reconcileStakingStore(staking, store)).to.be.empty;
+
+    // A request made after the checkpoint is reported by the reconciliation
+    await staking.unpause();
+    await staking.connect(user1).requestWithdraw(1n);
+    store.lastIndexedBlock = await hre.ethers.provider.getBlockNumber();
+    expect((await reconcileStakingStore(staking, store)).map(({ field }) => field)).to.deep.equal(["amountStaked", "amountUnbonding", "stakingTokenBalance", "unbondingTokenBalance"]);
+  });
+
+  it("Should add the compounded rewards to the stake", async function () {
+    const { staking, users, deployBlock } = await loadFixture(deployIndexedStakingFixture);
+    const [user1, user2] = users;
+
+    await staking.connect(user1).compoundRewards();
+    await time.increase(ONE_DAY);
+    await staking.compoundFor([user1.address, user2.address]);
+
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock));
+
+    for (const user of [user1, user2]) {
+      const staker = await staking.stakers(user.address);
+      expect(store.stakers[user.address].amountStaked).to.equal(staker.amountStaked);
+      expect(store.stakers[user.address].totalCompounded).to.be.greaterThan(0n);
+    }
+    expect(store.stakers[user1.address].totalCompounded).to.equal(
+      store.stakers[user1.address].amountStaked - store.stakers[user1.address].totalStaked + store.stakers[user1.address].totalWithdrawn
+    );
+    expect(await reconcileStakingStore(staking, store)).to.be.empty;
+  });
+
+  it("Should move the stake along with the receipt transfers", async function () {
+    const { staking, users, decimals, deployBlock } = await loadFixture(deployIndexedStakingFixture);
+    const [user1, user2, user3] = users;
+
+    const receipt = await hre.ethers.getContractAt("StakingReceipt", await staking.receipt());
+    await receipt.connect(user1).transfer(user3.address, parseUnits("200", decimals));
+    await receipt.connect(user2).transfer(user3.address, parseUnits("100", decimals));
+    await receipt.connect(user3).transfer(user1.address, parseUnits("50", decimals));
+
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock));
+
+    expect(store.stakers[user1.address].totalTransferredOut).to.equal(parseUnits("200", decimals));
+    expect(store.stakers[user1.address].totalTransferredIn).to.equal(parseUnits("50", decimals));
+    expect(store.stakers[user3.address].amountStaked).to.equal(parseUnits("250", decimals));
+    expect(getTotalStaked(store)).to.equal(await staking.stakingTokenBalance());
+    expect(await reconcileStakingStore(staking, store)).to.be.empty;
+  });
+
+  it("Should track the funded and claimed balances of the reward streams", async function () {
+    const { staking, owner, users, deployBlock } = await loadFixture(deployIndexedStakingFixture);
+    const [user1, user2] = users;
+
+    const rewardToken = await hre.ethers.deployContract("FakeLucidao");
+    await rewardToken.approve(await staking.getAddress(), MaxUint256);
+    await staking.addRewardStream(await rewardToken.getAddress(), rewardRatioNumerator);
+    await staking.connect(owner).fundRewardStream(0, parseUnits("1000"));
+    await time.increase(30 * ONE_DAY);
+    await staking.setRewardStreamRatio(0, 2n * rewardRatioNumerator);
+    await time.increase(30 * ONE_DAY);
+    await staking.connect(user1).claimRewards();
+    await staking.connect(user2).claimRewards();
+
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock));
+
+    expect(store.rewardStreams).to.have.lengthOf(1);
+    expect(store.rewardStreams[0].token).to.equal(await rewardToken.getAddress());
+    expect(store.rewardStreams[0].rewardRatios.map(({ value }) => value)).to.deep.equal([rewardRatioNumerator, 2n * rewardRatioNumerator]);
+    expect(store.rewardStreams[0].totalFunded).to.equal(parseUnits("1000"));
+    expect(store.rewardStreams[0].totalClaimed).to.equal(parseUnits("1000") - (await rewardToken.balanceOf(await staking.getAddress())));
+    expect(await reconcileStakingStore(staking, store)).to.be.empty;
+
+    store.rewardStreams[0].totalClaimed = 0n;
+    expect((await reconcileStakingStore(staking, store)).map(({ field }) => field)).to.deep.equal(["rewardStream(0).fundedBalance"]);
+  });
+
+  it("Should track the funded and drawn balances of the reward reserve", async function () {
+    const { staking, stakingToken, users, decimals, deployBlock } = await loadFixture(deployIndexedStakingFixture);
+    const [user1, user2] = users;
+
+    await stakingToken.approve(await staking.getAddress(), MaxUint256);
+    await staking.fundRewards(parseUnits("1", decimals));
+    await staking.fundRewards(parseUnits("1000", decimals));
+    await time.increase(30 * ONE_DAY);
+    await staking.connect(user1).claimRewards();
+    await staking.connect(user2).compoundRewards();
+
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock));
+
+    expect(store.totalRewardsFunded).to.equal(parseUnits("1001", decimals));
+    expect(store.totalRewardReserveDrawn).to.equal(parseUnits("1001", decimals) - (await staking.rewardReserve()));
+    expect(store.totalRewardReserveDrawn).to.be.greaterThan(0n);
+    expect(await reconcileStakingStore(staking, store)).to.be.empty;
+
+    store.totalRewardReserveDrawn = 0n;
+    expect((await reconcileStakingStore(staking, store)).map(({ field }) => field)).to.deep.equal(["rewardReserve"]);
+  });
+
+  it("Should record the scheduled changes at their effective timestamp and drop the cancelled ones", async function () {
+    const { staking, deployBlock } = await loadFixture(deployIndexedStakingFixture);
+
+    await staking.setMinNoticeDelay(7 * ONE_DAY);
+    await staking.setTiers([10 * ONE_DAY], [150]);
+    await staking.cancelScheduledTiers();
+    await staking.setRewardRatio(300n);
+    const effectiveTimestamp = (await time.latest()) + 7 * ONE_DAY;
+    await staking.setTiers([10 * ONE_DAY], [105]);
+
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock));
+
+    expect(store.rewardRatios.map(({ value }) => value)).to.deep.equal([rewardRatioNumerator, 500n, 200n, 300n]);
+    expect(store.rewardRatios[3].timestamp).to.equal(effectiveTimestamp);
+    expect(store.tiers.map(({ value }) => value.map(({ multiplier }) => multiplier))).to.deep.equal([tiersMultipliers.map(BigInt), [105n]]);
+    expect(store.tiers[1].timestamp).to.be.greaterThan(await time.latest());
+
+    // The scheduled ratio is not in force yet at the checkpoint
+    expect(await reconcileStakingStore(staking, store)).to.be.empty;
+  });
+
+  it("Should record the current ratio when it never changed", async function () {
+    const { staking } = await loadFixture(deployStakingFixture);
+    const deployBlock = (await staking.deploymentTransaction()!.wait())!.blockNumber;
+
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock));
+
+    expect(store.rewardRatios).to.have.lengthOf(1);
+    expect(store.rewardRatios[0].value).to.equal(rewardRatioNumerator);
+  });
+
+  it("Should produce the same store when resumed from any checkpoint", async function () {
+    const { staking, deployBlock } = await loadFixture(deployIndexedStakingFixture);
+    const address = await staking.getAddress();
+    const latestBlock = await hre.ethers.provider.getBlockNumber();
+
+    const fullStore = await indexStakingEvents(staking, createIndexerStore(31337n, address, deployBlock));
+
+    const checkpoints: IndexerStore[] = [];
+    const partialStore = await indexStakingEvents(staking, createIndexerStore(31337n, address, deployBlock), {
+      toBlock: latestBlock - 4,
+      batchSize: 3,
+      onCheckpoint: (store) => {
+        checkpoints.push(structuredClone(store));
+      },
+    });
+    expect(checkpoints.map(({ lastIndexedBlock }) => lastIndexedBlock)).to.include(latestBlock - 4);
+
+    const resumedStore = await indexStakingEvents(staking, structuredClone(checkpoints[1]), { batchSize: 2 });
+    expect(resumedStore).to.deep.equal(fullStore);
+    expect(await indexStakingEvents(staking, partialStore)).to.deep.equal(fullStore);
+  });
+
+  it("Should report the positions that do not match the contract", async function () {
+    const { staking, users, deployBlock } = await loadFixture(deployIndexedStakingFixture);
+    const [user1] = users.map((user) => user.address);
+
+    // Starting after the first stakes misses them, as happens when indexing from a wrong block
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock + 10));
+    store.rewardRatios[store.rewardRatios.length - 1].value = 1n;
+
+    const mismatches = await reconcileStakingStore(staking, store);
+
+    expect(mismatches.map(({ field, staker }) => [field, staker])).to.deep.include.members([
+      ["amountStaked", user1],
+      ["stakingTokenBalance", undefined],
+      ["rewardRatio", undefined],
+    ]);
+  });
+
+  it("Should reconcile the first deployment, which lacks the positions, withdraw requests, reward reserve and reward streams", async function () {
+    const { stakingToken, users } = await loadFixture(deployStakingFixture);
+    const decimals = await stakingToken.decimals();
+    const [user1, user2] = users;
+
+    const legacyStaking = await hre.ethers.deployContract("LegacyStaking", [
+      await stakingToken.getAddress(),
+      rewardRatioNumerator,
+      parseUnits("100000", decimals),
+      parseUnits("100", decimals),
+    ]);
+    const deployBlock = (await legacyStaking.deploymentTransaction()!.wait())!.blockNumber;
+    const staking = await hre.ethers.getContractAt("Staking", await legacyStaking.getAddress());
+
+    await stakingToken.transfer(await staking.getAddress(), parseUnits("1000", decimals));
+    for (const user of [user1, user2]) {
+      await stakingToken.transfer(user.address, parseUnits("1000", decimals));
+      await stakingToken.connect(user).approve(await staking.getAddress(), MaxUint256);
+      await staking.connect(user).stake(parseUnits("500", decimals));
+    }
+    await time.increase(30 * ONE_DAY);
+    await staking.setRewardRatio(500n);
+    await staking.connect(user1).withdraw(parseUnits("200", decimals));
+    await staking.connect(user2).claimRewards();
+
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock));
+    expect(getTotalStaked(store)).to.equal(parseUnits("800", decimals));
+    expect(await getStakingFeatures(staking, store.lastIndexedBlock)).to.deep.equal({
+      positions: false,
+      withdrawRequests: false,
+      rewardReserve: false,
+      rewardStreams: false,
+    });
+    expect(await reconcileStakingStore(staking, store)).to.be.empty;
+
+    // The current contract exposes all of them
+    const { staking: currentStaking } = await loadFixture(deployIndexedStakingFixture);
+    expect(Object.values(await getStakingFeatures(currentStaking, await hre.ethers.provider.getBlockNumber()))).to.deep.equal([true, true, true, true]);
+  });
+
+  describe("Tasks", function () {
+    let dir: string;
+
+    beforeEach(function () {
+      dir = mkdtempSync(join(tmpdir(), "staking-indexer-"));
+    });
+    afterEach(function () {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should write the store and resume it with staking:index", async function () {
+      const { staking, deployBlock } = await loadFixture(deployIndexedStakingFixture);
+      const address = await staking.getAddress();
+      const store = join(dir, "store.json");
+
+      await hre.run("staking:index", { address, store, fromBlock: deployBlock, toBlock: deployBlock + 5, batchSize: 2 });
+      expect(loadIndexerStore(store).lastIndexedBlock).to.equal(deployBlock + 5);
+      expect(existsSync(`${store}.tmp`)).to.be.false;
+
+      await hre.run("staking:index", { address, store, batchSize: 2000 });
+      expect(loadIndexerStore(store)).to.deep.equal(await indexStakingEvents(staking, createIndexerStore(31337n, address, deployBlock)));
+
+      await hre.run("staking:reconcile", { address, store });
+    });
+
+    it("Should fail staking:reconcile on mismatches", async function () {
+      const { staking, users, deployBlock } = await loadFixture(deployIndexedStakingFixture);
+      const address = await staking.getAddress();
+      const store = join(dir, "store.json");
+
+      await hre.run("staking:index", { address, store, fromBlock: deployBlock, batchSize: 2000 });
+      const indexed = loadIndexerStore(store);
+      indexed.stakers[users[0].address].amountStaked += 1n;
+      saveIndexerStore(store, indexed);
+
+      await expect(hre.run("staking:reconcile", { address, store })).to.be.rejectedWith("2 mismatches between the index and the contract");
+    });
+
+    it("Should not resume a store of another contract", async function () {
+      const { staking } = await loadFixture(deployIndexedStakingFixture);
+      const store = join(dir, "store.json");
+      saveIndexerStore(store, createIndexerStore(137n, "0x522abEf83a1a52eA13170bB1DcC4461e6b305508", 0));
+
+      expect(() => openIndexerStore(store, 31337n, "0x0000000000000000000000000000000000000001", 0)).to.throw("indexes 0x522abEf83a1a52eA13170bB1DcC4461e6b305508 on chain 137");
+      await expect(hre.run("staking:index", { address: await staking.getAddress(), store, batchSize: 2000 })).to.be.rejected;
+    });
+  });
+});
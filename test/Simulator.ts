@@ -0,0 +1,595 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { MaxUint256, parseUnits, ZeroAddress } from "ethers";
+import { minStakingBoostAmount, ONE_DAY, rewardRatioNumerator, stakingTokenCap, tiersDurations, tiersMultipliers } from "../config/config";
+import { SimulatedRewardStream, simulateStaking, SimulatorAction, SimulatorRevert, StakingSimulator } from "../scripts/simulator";
+import { deployStakingFixture } from "./fixtures";
+
+describe("StakingSimulator", function () {
+  async function deploySimulatedStakingFixture() {
+    const { staking, stakingToken, owner, users } = await deployStakingFixture();
+    const decimals = await stakingToken.decimals();
+
+    for (const user of users.slice(0, 3)) {
+      await stakingToken.transfer(user.address, parseUnits("10000", decimals));
+      await stakingToken.connect(user).approve(await staking.getAddress(), MaxUint256);
+    }
+    await stakingToken.connect(owner).approve(await staking.getAddress(), MaxUint256);
+
+    return { staking, stakingToken, owner, users, decimals };
+  }
+
+  // The simulator lives outside the chain snapshot, so every test builds its own from the restored fixture
+  async function loadSimulation() {
+    const { staking, stakingToken, owner, users, decimals } = await loadFixture(deploySimulatedStakingFixture);
+
+    const deployTimestamp = (await staking.deploymentTransaction()?.getBlock())?.timestamp || 0;
+    const simulator = new StakingSimulator({
+      rewardRatioNumerator,
+      stakingTokenCap: stakingTokenCap(decimals),
+      minStakingBoostAmount: minStakingBoostAmount(decimals),
+      deployTimestamp,
+      stakingToken: await stakingToken.getAddress(),
+    });
+
+    const signers = new Map(users.map((user) => [user.address.toLowerCase(), user]));
+    const receipt = await hre.ethers.getContractAt("StakingReceipt", await staking.receipt());
+
+    // Sends the action to the contract in a block mined exactly at the action timestamp
+    const sendAction = async (action: SimulatorAction) => {
+      await time.setNextBlockTimestamp(action.timestamp);
+      switch (action.type) {
+        case "stake":
+          return staking.connect(signers.get(action.user.toLowerCase())!).stake(action.amount);
+        case "stakeFor":
+          return staking.connect(signers.get(action.user.toLowerCase())!).stakeFor(action.beneficiary, action.amount);
+        case "withdraw":
+          return staking.connect(signers.get(action.user.toLowerCase())!).withdraw(action.amount);
+        case "requestWithdraw":
+          return staking.connect(signers.get(action.user.toLowerCase())!).requestWithdraw(action.amount);
+        case "completeWithdraw":
+          return staking.connect(signers.get(action.user.toLowerCase())!).completeWithdraw(action.requestId);
+        case "cancelWithdraw":
+          return staking.connect(signers.get(action.user.toLowerCase())!).cancelWithdraw(action.requestId);
+        case "claimRewards":
+          return staking.connect(signers.get(action.user.toLowerCase())!).claimRewards();
+        case "compoundRewards":
+          return staking.connect(signers.get(action.user.toLowerCase())!).compoundRewards();
+        case "compoundFor":
+          return staking.compoundFor(action.users);
+        case "emergencyWithdraw":
+          return staking.connect(signers.get(action.user.toLowerCase())!).emergencyWithdraw();
+        case "transferReceipt":
+          return receipt.connect(signers.get(action.user.toLowerCase())!).transfer(action.to, action.amount);
+        case "withdrawExcessTokens":
+          return staking.withdrawExcessTokens(await stakingToken.getAddress(), action.amount);
+        case "setRewardRatio":
+          return staking.setRewardRatio(action.numerator);
+        case "cancelScheduledRewardRatio":
+          return staking.cancelScheduledRewardRatio();
+        case "openPosition":
+          return staking.connect(signers.get(action.user.toLowerCase())!).openPosition(action.amount, action.lockDuration);
+        case "withdrawPosition":
+          return staking.connect(signers.get(action.user.toLowerCase())!).withdrawPosition(action.positionId);
+        case "claimPositionRewards":
+          return staking.connect(signers.get(action.user.toLowerCase())!).claimPositionRewards(action.positionId);
+        case "setTiers":
+          return staking.setTiers(action.durations, action.multipliers);
+        case "cancelScheduledTiers":
+          return staking.cancelScheduledTiers();
+        case "setMinNoticeDelay":
+          return staking.setMinNoticeDelay(action.delay);
+        case "setLockOptions":
+          return staking.setLockOptions(action.durations, action.multipliers);
+        case "setWithdrawCooldown":
+          return staking.setWithdrawCooldown(action.cooldown);
+        case "setStakeForAllowlistEnabled":
+          return staking.setStakeForAllowlistEnabled(action.enabled);
+        case "setStakeForAllowed":
+          return staking.setStakeForAllowed(action.account, action.allowed);
+        case "setStakingTokenCap":
+          return staking.setStakingTokenCap(action.cap);
+        case "setMinStakingBoostAmount":
+          return staking.setMinStakingBoostAmount(action.amount);
+        case "pause":
+          return staking.pause();
+        case "unpause":
+          return staking.unpause();
+        case "addRewardStream":
+          return staking.addRewardStream(action.token, action.numerator);
+        case "setRewardStreamRatio":
+          return staking.setRewardStreamRatio(action.streamId, action.numerator);
+        case "fundRewardStream":
+          return staking.fundRewardStream(action.streamId, action.amount);
+        case "fundRewards":
+          return staking.fundRewards(action.amount);
+        case "fund":
+          return stakingToken.transfer(await staking.getAddress(), action.amount);
+      }
+    };
+
+    // Applies the action to both the simulator and the contract, expecting the same outcome
+    const applyAction = async (action: SimulatorAction) => {
+      let revert: SimulatorRevert | undefined;
+      try {
+        simulator.apply(action);
+      } catch (error) {
+        if (!(error instanceof SimulatorRevert)) throw error;
+        revert = error;
+      }
+
+      if (revert) {
+        await expect(sendAction(action)).to.be.revertedWithCustomError(staking, revert.errorName);
+      } else {
+        await expect(sendAction(action)).not.to.be.reverted;
+      }
+    };
+
+    const streamState = ({ rewardRatioNumerator, cumulativeRewardRatio, fundedBalance }: SimulatedRewardStream) => [
+      rewardRatioNumerator,
+      cumulativeRewardRatio,
+      fundedBalance,
+    ];
+
+    const expectMatchingState = async (addresses: string[]) => {
+      const timestamp = await time.latest();
+      for (const address of addresses) {
+        const staker = await staking.stakers(address);
+        const simulatedStaker = simulator.stakers(address);
+        expect(staker.timeOfLastUpdate).to.equal(simulatedStaker.timeOfLastUpdate);
+        expect(staker.timeOfLastBoostUpdate).to.equal(simulatedStaker.timeOfLastBoostUpdate);
+        expect(staker.conditionIdOfLastUpdate).to.equal(simulatedStaker.conditionIdOfLastUpdate);
+        expect(staker.amountStaked).to.equal(simulatedStaker.amountStaked);
+        expect(staker.unclaimedRewards).to.equal(simulatedStaker.unclaimedRewards);
+        expect(await receipt.balanceOf(address)).to.equal(simulatedStaker.amountStaked);
+
+        const stakeInfo = await staking.getStakeInfo(address);
+        const simulatedStakeInfo = simulator.getStakeInfo(address, timestamp);
+        expect(stakeInfo._tokensStaked).to.equal(simulatedStakeInfo._tokensStaked);
+        expect(stakeInfo._rewards).to.equal(simulatedStakeInfo._rewards);
+
+        expect(await staking.getCurrentMultiplier(address)).to.equal(simulator.getCurrentMultiplier(address, timestamp));
+
+        const positions = await staking.getPositions(address);
+        expect(positions.map(({ amount, multiplier, unlockTimestamp }) => [amount, multiplier, unlockTimestamp])).to.deep.equal(
+          simulator.positions(address).map(({ amount, multiplier, unlockTimestamp }) => [amount, multiplier, unlockTimestamp])
+        );
+        for (let positionId = 0; positionId < positions.length; positionId++) {
+          expect(await staking.getPositionRewards(address, positionId)).to.equal(simulator.getPositionRewards(address, positionId, timestamp));
+        }
+
+        const withdrawRequests = await staking.getWithdrawRequests(address);
+        expect(withdrawRequests.map(({ amount, unlockTimestamp }) => [amount, unlockTimestamp])).to.deep.equal(
+          simulator.withdrawRequests(address).map(({ amount, unlockTimestamp }) => [amount, unlockTimestamp])
+        );
+
+        expect((await staking.getStreamRewards(address))._rewards).to.deep.equal(simulator.getStreamRewards(address, timestamp)._rewards);
+      }
+      expect((await staking.getRewardStreams()).map(streamState)).to.deep.equal(simulator.rewardStreams.map(streamState));
+      expect(await staking.stakingTokenBalance()).to.equal(simulator.stakingTokenBalance);
+      expect(await staking.lockedTokenBalance()).to.equal(simulator.lockedTokenBalance);
+      expect(await staking.unbondingTokenBalance()).to.equal(simulator.unbondingTokenBalance);
+      expect(await staking.rewardReserve()).to.equal(simulator.rewardReserve);
+      expect(await staking.rewardLiabilities()).to.equal(simulator.rewardLiabilities(timestamp));
+      expect(await staking.getFreeSurplus()).to.equal(simulator.getFreeSurplus(timestamp));
+      expect(await stakingToken.balanceOf(await staking.getAddress())).to.equal(simulator.tokenBalance);
+    };
+
+    return { staking, stakingToken, owner, users, decimals, deployTimestamp, simulator, applyAction, expectMatchingState };
+  }
+
+  it("Should match the contract to the wei across stakes, withdrawals, claims and admin changes", async function () {
+    const { users, decimals, applyAction, expectMatchingState } = await loadSimulation();
+    const [user1, user2, user3] = users.map((user) => user.address);
+    const t0 = (await time.latest()) + 100;
+
+    const actions: SimulatorAction[] = [
+      { type: "setTiers", durations: tiersDurations.map(BigInt), multipliers: tiersMultipliers.map(BigInt), timestamp: t0 },
+      { type: "setMinStakingBoostAmount", amount: parseUnits("500", decimals), timestamp: t0 + 10 },
+      { type: "stake", user: user1, amount: parseUnits("600", decimals), timestamp: t0 + 100 },
+      { type: "stake", user: user2, amount: parseUnits("300", decimals), timestamp: t0 + 200 },
+      { type: "stake", user: user3, amount: parseUnits("1000", decimals), timestamp: t0 + 300 },
+      { type: "fund", amount: parseUnits("10000", decimals), timestamp: t0 + 400 },
+      { type: "setRewardRatio", numerator: 500n, timestamp: t0 + 40 * ONE_DAY },
+      { type: "stake", user: user2, amount: parseUnits("250", decimals), timestamp: t0 + 45 * ONE_DAY },
+      { type: "withdraw", user: user1, amount: parseUnits("100", decimals), timestamp: t0 + 70 * ONE_DAY },
+      { type: "claimRewards", user: user3, timestamp: t0 + 95 * ONE_DAY },
+      { type: "setRewardRatio", numerator: 275n, timestamp: t0 + 120 * ONE_DAY },
+      { type: "pause", timestamp: t0 + 130 * ONE_DAY },
+      { type: "stake", user: user1, amount: 1n, timestamp: t0 + 131 * ONE_DAY },
+      { type: "emergencyWithdraw", user: user3, timestamp: t0 + 132 * ONE_DAY },
+      { type: "unpause", timestamp: t0 + 140 * ONE_DAY },
+      { type: "setMinStakingBoostAmount", amount: parseUnits("200", decimals), timestamp: t0 + 150 * ONE_DAY },
+      { type: "setTiers", durations: [10n * BigInt(ONE_DAY), 100n * BigInt(ONE_DAY)], multipliers: [105n, 133n], timestamp: t0 + 160 * ONE_DAY },
+      { type: "claimRewards", user: user1, timestamp: t0 + 200 * ONE_DAY },
+      { type: "withdraw", user: user2, amount: parseUnits("550", decimals), timestamp: t0 + 250 * ONE_DAY },
+      { type: "claimRewards", user: user2, timestamp: t0 + 260 * ONE_DAY },
+      { type: "withdrawExcessTokens", amount: 1n, timestamp: t0 + 300 * ONE_DAY },
+      { type: "stake", user: user3, amount: parseUnits("50", decimals), timestamp: t0 + 361 * ONE_DAY },
+    ];
+
+    for (const action of actions) {
+      await applyAction(action);
+      await expectMatchingState([user1, user2, user3]);
+    }
+
+    await time.increaseTo(t0 + 400 * ONE_DAY);
+    await expectMatchingState([user1, user2, user3]);
+  });
+
+  it("Should match the fixed-term positions of the contract to the wei", async function () {
+    const { users, decimals, applyAction, expectMatchingState } = await loadSimulation();
+    const [user1, user2] = users.map((user) => user.address);
+    const t0 = (await time.latest()) + 100;
+    const days = (count: number) => BigInt(count * ONE_DAY);
+
+    const actions: SimulatorAction[] = [
+      { type: "openPosition", user: user1, amount: parseUnits("100", decimals), lockDuration: days(30), timestamp: t0 },
+      { type: "setLockOptions", durations: [days(30), days(90)], multipliers: [110n, 125n], timestamp: t0 + 1 },
+      { type: "setLockOptions", durations: [days(30), days(30)], multipliers: [110n, 125n], timestamp: t0 + 2 },
+      { type: "setLockOptions", durations: [days(30), days(90)], multipliers: [99n, 125n], timestamp: t0 + 3 },
+      { type: "openPosition", user: user1, amount: parseUnits("400", decimals), lockDuration: days(30), timestamp: t0 + 10 },
+      { type: "openPosition", user: user1, amount: parseUnits("200", decimals), lockDuration: days(90), timestamp: t0 + 20 },
+      { type: "stake", user: user2, amount: parseUnits("700", decimals), timestamp: t0 + 30 },
+      { type: "openPosition", user: user2, amount: parseUnits("300", decimals), lockDuration: days(90), timestamp: t0 + 40 },
+      { type: "setStakingTokenCap", cap: parseUnits("1700", decimals), timestamp: t0 + 50 },
+      { type: "openPosition", user: user2, amount: 1n, lockDuration: days(90), timestamp: t0 + 60 },
+      { type: "claimPositionRewards", user: user1, positionId: 0, timestamp: t0 + 10 * ONE_DAY },
+      { type: "fund", amount: parseUnits("1000", decimals), timestamp: t0 + 11 * ONE_DAY },
+      { type: "claimPositionRewards", user: user1, positionId: 0, timestamp: t0 + 12 * ONE_DAY },
+      { type: "withdrawPosition", user: user1, positionId: 0, timestamp: t0 + 29 * ONE_DAY },
+      { type: "setRewardRatio", numerator: 600n, timestamp: t0 + 31 * ONE_DAY },
+      { type: "setLockOptions", durations: [days(60)], multipliers: [200n], timestamp: t0 + 32 * ONE_DAY },
+      { type: "withdrawPosition", user: user1, positionId: 0, timestamp: t0 + 40 * ONE_DAY },
+      { type: "withdrawPosition", user: user1, positionId: 0, timestamp: t0 + 41 * ONE_DAY },
+      { type: "withdrawPosition", user: user1, positionId: 3, timestamp: t0 + 42 * ONE_DAY },
+      { type: "openPosition", user: user2, amount: parseUnits("100", decimals), lockDuration: days(60), timestamp: t0 + 50 * ONE_DAY },
+      { type: "claimRewards", user: user1, timestamp: t0 + 60 * ONE_DAY },
+      { type: "setRewardRatio", numerator: 300n, timestamp: t0 + 100 * ONE_DAY },
+      { type: "withdrawPosition", user: user2, positionId: 0, timestamp: t0 + 150 * ONE_DAY },
+      { type: "withdrawExcessTokens", amount: parseUnits("1000", decimals), timestamp: t0 + 151 * ONE_DAY },
+    ];
+
+    for (const action of actions) {
+      await applyAction(action);
+      await expectMatchingState([user1, user2]);
+    }
+
+    await time.increaseTo(t0 + 200 * ONE_DAY);
+    await expectMatchingState([user1, user2]);
+  });
+
+  it("Should match the withdraw requests of the contract to the wei", async function () {
+    const { users, decimals, applyAction, expectMatchingState } = await loadSimulation();
+    const [user1, user2] = users.map((user) => user.address);
+    const t0 = (await time.latest()) + 100;
+    const days = (count: number) => BigInt(count * ONE_DAY);
+
+    const actions: SimulatorAction[] = [
+      { type: "setTiers", durations: tiersDurations.map(BigInt), multipliers: tiersMultipliers.map(BigInt), timestamp: t0 },
+      { type: "stake", user: user1, amount: parseUnits("1000", decimals), timestamp: t0 + 10 },
+      { type: "stake", user: user2, amount: parseUnits("500", decimals), timestamp: t0 + 20 },
+      { type: "fund", amount: parseUnits("1000", decimals), timestamp: t0 + 30 },
+      { type: "setWithdrawCooldown", cooldown: days(7), timestamp: t0 + 40 },
+      { type: "withdraw", user: user1, amount: 1n, timestamp: t0 + 50 },
+      { type: "requestWithdraw", user: user1, amount: parseUnits("300", decimals), timestamp: t0 + 40 * ONE_DAY },
+      { type: "requestWithdraw", user: user1, amount: parseUnits("701", decimals), timestamp: t0 + 41 * ONE_DAY },
+      { type: "completeWithdraw", user: user1, requestId: 0, timestamp: t0 + 46 * ONE_DAY },
+      { type: "setWithdrawCooldown", cooldown: days(14), timestamp: t0 + 46 * ONE_DAY + 1 },
+      { type: "requestWithdraw", user: user1, amount: parseUnits("200", decimals), timestamp: t0 + 47 * ONE_DAY },
+      { type: "completeWithdraw", user: user1, requestId: 0, timestamp: t0 + 47 * ONE_DAY + 1 },
+      { type: "completeWithdraw", user: user1, requestId: 0, timestamp: t0 + 47 * ONE_DAY + 2 },
+      { type: "setRewardRatio", numerator: 600n, timestamp: t0 + 50 * ONE_DAY },
+      { type: "cancelWithdraw", user: user1, requestId: 1, timestamp: t0 + 55 * ONE_DAY },
+      { type: "completeWithdraw", user: user1, requestId: 2, timestamp: t0 + 56 * ONE_DAY },
+      { type: "requestWithdraw", user: user2, amount: parseUnits("500", decimals), timestamp: t0 + 60 * ONE_DAY },
+      { type: "setStakingTokenCap", cap: parseUnits("1000", decimals), timestamp: t0 + 61 * ONE_DAY },
+      { type: "cancelWithdraw", user: user2, requestId: 0, timestamp: t0 + 62 * ONE_DAY },
+      { type: "emergencyWithdraw", user: user2, timestamp: t0 + 63 * ONE_DAY },
+      { type: "pause", timestamp: t0 + 64 * ONE_DAY },
+      { type: "completeWithdraw", user: user2, requestId: 0, timestamp: t0 + 75 * ONE_DAY },
+      { type: "emergencyWithdraw", user: user2, timestamp: t0 + 76 * ONE_DAY },
+      { type: "unpause", timestamp: t0 + 77 * ONE_DAY },
+      { type: "claimRewards", user: user2, timestamp: t0 + 78 * ONE_DAY },
+      { type: "setWithdrawCooldown", cooldown: 0n, timestamp: t0 + 80 * ONE_DAY },
+      { type: "withdraw", user: user1, amount: parseUnits("100", decimals), timestamp: t0 + 81 * ONE_DAY },
+      { type: "claimRewards", user: user1, timestamp: t0 + 90 * ONE_DAY },
+    ];
+
+    for (const action of actions) {
+      await applyAction(action);
+      await expectMatchingState([user1, user2]);
+    }
+
+    await time.increaseTo(t0 + 120 * ONE_DAY);
+    await expectMatchingState([user1, user2]);
+  });
+
+  it("Should match the compounded rewards of the contract to the wei", async function () {
+    const { users, decimals, applyAction, expectMatchingState } = await loadSimulation();
+    const [user1, user2, user3] = users.map((user) => user.address);
+    const t0 = (await time.latest()) + 100;
+    const boostAmount = parseUnits("5000", decimals);
+
+    const actions: SimulatorAction[] = [
+      { type: "setTiers", durations: tiersDurations.map(BigInt), multipliers: tiersMultipliers.map(BigInt), timestamp: t0 },
+      { type: "setMinStakingBoostAmount", amount: boostAmount, timestamp: t0 + 1 },
+      { type: "stake", user: user1, amount: boostAmount - parseUnits("1", decimals), timestamp: t0 + 10 },
+      { type: "stake", user: user2, amount: boostAmount, timestamp: t0 + 20 },
+      { type: "compoundRewards", user: user3, timestamp: t0 + 30 },
+      { type: "compoundRewards", user: user1, timestamp: t0 + 30 * ONE_DAY },
+      { type: "fund", amount: parseUnits("5000", decimals), timestamp: t0 + 30 * ONE_DAY + 1 },
+      { type: "compoundRewards", user: user1, timestamp: t0 + 30 * ONE_DAY + 2 },
+      { type: "setRewardRatio", numerator: 600n, timestamp: t0 + 40 * ONE_DAY },
+      { type: "compoundFor", users: [user2, user3, user2, user1], timestamp: t0 + 100 * ONE_DAY },
+      { type: "compoundFor", users: [user3], timestamp: t0 + 100 * ONE_DAY + 1 },
+      { type: "setStakingTokenCap", cap: 2n * boostAmount + parseUnits("100", decimals), timestamp: t0 + 101 * ONE_DAY },
+      { type: "compoundFor", users: [user1, user2], timestamp: t0 + 200 * ONE_DAY },
+      { type: "compoundRewards", user: user2, timestamp: t0 + 200 * ONE_DAY + 1 },
+      { type: "pause", timestamp: t0 + 201 * ONE_DAY },
+      { type: "compoundRewards", user: user2, timestamp: t0 + 202 * ONE_DAY },
+      { type: "unpause", timestamp: t0 + 203 * ONE_DAY },
+      { type: "withdraw", user: user1, amount: parseUnits("1000", decimals), timestamp: t0 + 210 * ONE_DAY },
+      { type: "compoundRewards", user: user1, timestamp: t0 + 220 * ONE_DAY },
+      { type: "claimRewards", user: user2, timestamp: t0 + 230 * ONE_DAY },
+    ];
+
+    for (const action of actions) {
+      await applyAction(action);
+      await expectMatchingState([user1, user2, user3]);
+    }
+
+    await time.increaseTo(t0 + 300 * ONE_DAY);
+    await expectMatchingState([user1, user2, user3]);
+  });
+
+  it("Should match the stakes made on behalf of other addresses to the wei", async function () {
+    const { users, decimals, applyAction, expectMatchingState } = await loadSimulation();
+    const [user1, user2, user3] = users.map((user) => user.address);
+    const t0 = (await time.latest()) + 100;
+
+    const actions: SimulatorAction[] = [
+      { type: "setTiers", durations: tiersDurations.map(BigInt), multipliers: tiersMultipliers.map(BigInt), timestamp: t0 },
+      { type: "setMinStakingBoostAmount", amount: parseUnits("1000", decimals), timestamp: t0 + 1 },
+      { type: "stake", user: user2, amount: parseUnits("500", decimals), timestamp: t0 + 10 },
+      { type: "stakeFor", user: user1, beneficiary: user2, amount: parseUnits("500", decimals), timestamp: t0 + 20 * ONE_DAY },
+      { type: "stakeFor", user: user1, beneficiary: user3, amount: parseUnits("200", decimals), timestamp: t0 + 25 * ONE_DAY },
+      { type: "stakeFor", user: user1, beneficiary: ZeroAddress, amount: 1n, timestamp: t0 + 26 * ONE_DAY },
+      { type: "setStakeForAllowlistEnabled", enabled: true, timestamp: t0 + 30 * ONE_DAY },
+      { type: "stakeFor", user: user1, beneficiary: user3, amount: parseUnits("200", decimals), timestamp: t0 + 31 * ONE_DAY },
+      { type: "setStakeForAllowed", account: user1, allowed: true, timestamp: t0 + 32 * ONE_DAY },
+      { type: "stakeFor", user: user1, beneficiary: user3, amount: parseUnits("900", decimals), timestamp: t0 + 33 * ONE_DAY },
+      { type: "stakeFor", user: user3, beneficiary: user2, amount: parseUnits("100", decimals), timestamp: t0 + 34 * ONE_DAY },
+      { type: "setStakeForAllowed", account: user1, allowed: false, timestamp: t0 + 40 * ONE_DAY },
+      { type: "stakeFor", user: user1, beneficiary: user2, amount: parseUnits("100", decimals), timestamp: t0 + 41 * ONE_DAY },
+      { type: "setStakeForAllowlistEnabled", enabled: false, timestamp: t0 + 42 * ONE_DAY },
+      { type: "stakeFor", user: user3, beneficiary: user2, amount: parseUnits("100", decimals), timestamp: t0 + 43 * ONE_DAY },
+      { type: "withdraw", user: user3, amount: parseUnits("300", decimals), timestamp: t0 + 50 * ONE_DAY },
+    ];
+
+    for (const action of actions) {
+      await applyAction(action);
+      await expectMatchingState([user1, user2, user3]);
+    }
+
+    await time.increaseTo(t0 + 120 * ONE_DAY);
+    await expectMatchingState([user1, user2, user3]);
+  });
+
+  it("Should match the reward streams of the contract to the wei", async function () {
+    const { staking, owner, users, decimals, applyAction, expectMatchingState } = await loadSimulation();
+    const [user1, user2, user3] = users.map((user) => user.address);
+
+    const rewardTokens = [await hre.ethers.deployContract("FakeLucidao"), await hre.ethers.deployContract("PurchaseToken")];
+    for (const rewardToken of rewardTokens) {
+      await rewardToken.connect(owner).approve(await staking.getAddress(), MaxUint256);
+    }
+    const [token1, token2] = await Promise.all(rewardTokens.map((rewardToken) => rewardToken.getAddress()));
+    const t0 = (await time.latest()) + 100;
+
+    const actions: SimulatorAction[] = [
+      { type: "addRewardStream", token: token1, numerator: 500n, timestamp: t0 },
+      { type: "addRewardStream", token: await staking.stakingToken(), numerator: 500n, timestamp: t0 + 1 },
+      { type: "stake", user: user1, amount: parseUnits("1000", decimals), timestamp: t0 + 2 },
+      { type: "fundRewardStream", streamId: 0, amount: 1n, timestamp: t0 + 3 },
+      { type: "fund", amount: parseUnits("1000", decimals), timestamp: t0 + 4 },
+      { type: "stake", user: user2, amount: parseUnits("2000", decimals), timestamp: t0 + 10 * ONE_DAY },
+      { type: "claimRewards", user: user1, timestamp: t0 + 20 * ONE_DAY },
+      { type: "fundRewardStream", streamId: 0, amount: parseUnits("100"), timestamp: t0 + 21 * ONE_DAY },
+      { type: "addRewardStream", token: token2, numerator: 300n, timestamp: t0 + 25 * ONE_DAY },
+      { type: "fundRewardStream", streamId: 1, amount: parseUnits("100", decimals), timestamp: t0 + 26 * ONE_DAY },
+      { type: "setRewardStreamRatio", streamId: 0, numerator: 1000n, timestamp: t0 + 30 * ONE_DAY },
+      { type: "withdraw", user: user2, amount: parseUnits("1000", decimals), timestamp: t0 + 40 * ONE_DAY },
+      { type: "addRewardStream", token: token1, numerator: 500n, timestamp: t0 + 45 * ONE_DAY },
+      { type: "claimRewards", user: user1, timestamp: t0 + 50 * ONE_DAY },
+      { type: "setRewardStreamRatio", streamId: 0, numerator: 0n, timestamp: t0 + 60 * ONE_DAY },
+      { type: "stake", user: user3, amount: parseUnits("500", decimals), timestamp: t0 + 65 * ONE_DAY },
+      { type: "claimRewards", user: user2, timestamp: t0 + 70 * ONE_DAY },
+      { type: "fundRewardStream", streamId: 2, amount: 1n, timestamp: t0 + 71 * ONE_DAY },
+    ];
+
+    for (const action of actions) {
+      await applyAction(action);
+      await expectMatchingState([user1, user2, user3]);
+    }
+
+    await time.increaseTo(t0 + 120 * ONE_DAY);
+    await expectMatchingState([user1, user2, user3]);
+  });
+
+  it("Should match the reward reserve of the contract to the wei", async function () {
+    const { users, decimals, applyAction, expectMatchingState } = await loadSimulation();
+    const [user1, user2] = users.map((user) => user.address);
+    const t0 = (await time.latest()) + 100;
+
+    const actions: SimulatorAction[] = [
+      { type: "fundRewards", amount: 0n, timestamp: t0 },
+      { type: "fundRewards", amount: parseUnits("20", decimals), timestamp: t0 + 1 },
+      { type: "fund", amount: parseUnits("50", decimals), timestamp: t0 + 2 },
+      { type: "stake", user: user1, amount: parseUnits("1000", decimals), timestamp: t0 + 3 },
+      { type: "stake", user: user2, amount: parseUnits("2000", decimals), timestamp: t0 + 4 },
+      { type: "withdrawExcessTokens", amount: parseUnits("50", decimals) + 1n, timestamp: t0 + 5 },
+      { type: "withdraw", user: user2, amount: parseUnits("1000", decimals), timestamp: t0 + 30 * ONE_DAY },
+      { type: "withdrawExcessTokens", amount: parseUnits("50", decimals), timestamp: t0 + 31 * ONE_DAY },
+      { type: "claimRewards", user: user1, timestamp: t0 + 40 * ONE_DAY },
+      { type: "compoundRewards", user: user2, timestamp: t0 + 50 * ONE_DAY },
+      { type: "withdrawExcessTokens", amount: parseUnits("1", decimals), timestamp: t0 + 51 * ONE_DAY },
+      { type: "claimRewards", user: user2, timestamp: t0 + 60 * ONE_DAY },
+    ];
+
+    for (const action of actions) {
+      await applyAction(action);
+      await expectMatchingState([user1, user2]);
+    }
+  });
+
+  it("Should match the receipt transfers of the contract to the wei", async function () {
+    const { users, decimals, applyAction, expectMatchingState } = await loadSimulation();
+    const [user1, user2, user3] = users.map((user) => user.address);
+    const t0 = (await time.latest()) + 100;
+    const boostAmount = parseUnits("1000", decimals);
+
+    const actions: SimulatorAction[] = [
+      { type: "setTiers", durations: tiersDurations.map(BigInt), multipliers: tiersMultipliers.map(BigInt), timestamp: t0 },
+      { type: "setMinStakingBoostAmount", amount: boostAmount, timestamp: t0 + 1 },
+      { type: "fund", amount: parseUnits("1000", decimals), timestamp: t0 + 2 },
+      { type: "stake", user: user1, amount: 2n * boostAmount, timestamp: t0 + 3 },
+      { type: "stake", user: user2, amount: boostAmount / 2n, timestamp: t0 + 4 },
+      { type: "transferReceipt", user: user1, to: user2, amount: boostAmount / 4n, timestamp: t0 + 40 * ONE_DAY },
+      { type: "transferReceipt", user: user1, to: user2, amount: boostAmount / 4n, timestamp: t0 + 50 * ONE_DAY },
+      { type: "transferReceipt", user: user2, to: user3, amount: boostAmount / 10n, timestamp: t0 + 60 * ONE_DAY },
+      { type: "transferReceipt", user: user3, to: user3, amount: boostAmount / 10n, timestamp: t0 + 61 * ONE_DAY },
+      { type: "transferReceipt", user: user3, to: user1, amount: 0n, timestamp: t0 + 62 * ONE_DAY },
+      { type: "pause", timestamp: t0 + 70 * ONE_DAY },
+      { type: "transferReceipt", user: user1, to: user3, amount: 1n, timestamp: t0 + 71 * ONE_DAY },
+      { type: "unpause", timestamp: t0 + 72 * ONE_DAY },
+      { type: "claimRewards", user: user1, timestamp: t0 + 80 * ONE_DAY },
+      { type: "withdraw", user: user2, amount: boostAmount / 2n, timestamp: t0 + 90 * ONE_DAY },
+      { type: "compoundRewards", user: user3, timestamp: t0 + 100 * ONE_DAY },
+      { type: "transferReceipt", user: user3, to: user1, amount: boostAmount / 10n, timestamp: t0 + 110 * ONE_DAY },
+    ];
+
+    for (const action of actions) {
+      await applyAction(action);
+      await expectMatchingState([user1, user2, user3]);
+    }
+
+    await time.increaseTo(t0 + 200 * ONE_DAY);
+    await expectMatchingState([user1, user2, user3]);
+  });
+
+  it("Should match the scheduled reward ratio and tier changes of the contract to the wei", async function () {
+    const { staking, users, decimals, simulator, applyAction, expectMatchingState } = await loadSimulation();
+    const [user1, user2] = users.map((user) => user.address);
+    const t0 = (await time.latest()) + 100;
+    const days = (count: number) => BigInt(count * ONE_DAY);
+
+    const actions: SimulatorAction[] = [
+      { type: "setMinNoticeDelay", delay: days(7), timestamp: t0 },
+      { type: "setTiers", durations: tiersDurations.map(BigInt), multipliers: tiersMultipliers.map(BigInt), timestamp: t0 + 1 },
+      { type: "stake", user: user1, amount: parseUnits("1000", decimals), timestamp: t0 + 2 },
+      { type: "setRewardRatio", numerator: 600n, timestamp: t0 + 3 },
+      { type: "setRewardRatio", numerator: 700n, timestamp: t0 + 4 },
+      { type: "setTiers", durations: [days(10)], multipliers: [150n], timestamp: t0 + 5 },
+      { type: "stake", user: user2, amount: parseUnits("500", decimals), timestamp: t0 + 3 * ONE_DAY },
+      { type: "cancelScheduledTiers", timestamp: t0 + 7 * ONE_DAY },
+      { type: "fund", amount: parseUnits("1000", decimals), timestamp: t0 + 20 * ONE_DAY },
+      { type: "claimRewards", user: user1, timestamp: t0 + 30 * ONE_DAY },
+      { type: "setTiers", durations: [days(10), days(40)], multipliers: [105n, 150n], timestamp: t0 + 31 * ONE_DAY },
+      { type: "setRewardRatio", numerator: 400n, timestamp: t0 + 32 * ONE_DAY },
+      { type: "withdraw", user: user2, amount: parseUnits("100", decimals), timestamp: t0 + 35 * ONE_DAY },
+      { type: "cancelScheduledRewardRatio", timestamp: t0 + 36 * ONE_DAY },
+      { type: "cancelScheduledRewardRatio", timestamp: t0 + 37 * ONE_DAY },
+      { type: "setMinNoticeDelay", delay: 0n, timestamp: t0 + 38 * ONE_DAY },
+      { type: "cancelScheduledTiers", timestamp: t0 + 39 * ONE_DAY },
+      { type: "setRewardRatio", numerator: 300n, timestamp: t0 + 60 * ONE_DAY },
+      { type: "compoundRewards", user: user2, timestamp: t0 + 70 * ONE_DAY },
+    ];
+
+    for (const action of actions) {
+      await applyAction(action);
+      await expectMatchingState([user1, user2]);
+      expect(await staking.getScheduledRewardRatio()).to.deep.equal(simulator.getScheduledRewardRatio());
+    }
+
+    await time.increaseTo(t0 + 120 * ONE_DAY);
+    await expectMatchingState([user1, user2]);
+  });
+
+  it("Should reproduce the same reverts as the contract", async function () {
+    const { users, applyAction, expectMatchingState } = await loadSimulation();
+    const [user1] = users.map((user) => user.address);
+    const t0 = (await time.latest()) + 100;
+
+    const actions: SimulatorAction[] = [
+      { type: "stake", user: user1, amount: 0n, timestamp: t0 },
+      { type: "withdraw", user: user1, amount: 1n, timestamp: t0 + 1 },
+      { type: "claimRewards", user: user1, timestamp: t0 + 2 },
+      { type: "emergencyWithdraw", user: user1, timestamp: t0 + 3 },
+      { type: "withdrawExcessTokens", amount: 1n, timestamp: t0 + 4 },
+      { type: "setRewardRatio", numerator: rewardRatioNumerator, timestamp: t0 + 5 },
+      { type: "setRewardRatio", numerator: 0n, timestamp: t0 + 6 },
+      { type: "setTiers", durations: [1n, 1n], multipliers: [110n, 120n], timestamp: t0 + 7 },
+      { type: "setTiers", durations: [1n], multipliers: [], timestamp: t0 + 8 },
+      { type: "setMinStakingBoostAmount", amount: 0n, timestamp: t0 + 9 },
+      { type: "unpause", timestamp: t0 + 10 },
+      { type: "setStakingTokenCap", cap: 10n, timestamp: t0 + 11 },
+      { type: "stake", user: user1, amount: 11n, timestamp: t0 + 12 },
+      { type: "stake", user: user1, amount: 10n, timestamp: t0 + 13 },
+      { type: "claimRewards", user: user1, timestamp: t0 + 360 * ONE_DAY },
+    ];
+
+    for (const action of actions) {
+      await applyAction(action);
+    }
+    await expectMatchingState([user1]);
+  });
+
+  it("Should mirror the silent overflow fallback of the reward calculation", async function () {
+    const { owner, stakingToken, staking, deployTimestamp, decimals } = await loadSimulation();
+    await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+    // The largest stake the uint208 vote checkpoints hold, at a ratio high enough to overflow within 90 days
+    const t0 = (await time.latest()) + 100;
+    const actions: SimulatorAction[] = [
+      { type: "setStakingTokenCap", cap: MaxUint256, timestamp: t0 },
+      { type: "setRewardRatio", numerator: rewardRatioNumerator * 10_000n, timestamp: t0 + 1 },
+      { type: "stake", user: owner.address, amount: 2n ** 208n - 1n, timestamp: t0 + 2 },
+    ];
+
+    for (const action of actions) {
+      await time.setNextBlockTimestamp(action.timestamp);
+      if (action.type == "setStakingTokenCap") await staking.setStakingTokenCap(action.cap);
+      if (action.type == "setRewardRatio") await staking.setRewardRatio(action.numerator);
+      if (action.type == "stake") await staking.stake(action.amount);
+    }
+    await time.increaseTo(t0 + 90 * ONE_DAY);
+
+    const config = { rewardRatioNumerator, stakingTokenCap: stakingTokenCap(decimals), minStakingBoostAmount: minStakingBoostAmount(decimals), deployTimestamp };
+    const result = simulateStaking(config, actions, t0 + 90 * ONE_DAY);
+
+    expect(result[owner.address.toLowerCase()].stakeInfo._rewards).to.equal(0n);
+    expect((await staking.getStakeInfo(owner.address))._rewards).to.equal(result[owner.address.toLowerCase()].stakeInfo._rewards);
+  });
+
+  it("Should not let the simulation go back in time", async function () {
+    const { simulator, users } = await loadSimulation();
+    const t0 = (await time.latest()) + 100;
+
+    simulator.apply({ type: "pause", timestamp: t0 });
+
+    expect(() => simulator.apply({ type: "unpause", timestamp: t0 - 1 })).to.throw();
+    expect(() => simulator.getStakeInfo(users[0].address, t0 - 1)).to.throw();
+  });
+
+  it("Should leave the time untouched when an action reverts", async function () {
+    const { simulator } = await loadSimulation();
+    const t0 = (await time.latest()) + 100;
+
+    simulator.apply({ type: "pause", timestamp: t0 });
+    expect(() => simulator.apply({ type: "pause", timestamp: t0 + 100 })).to.throw(SimulatorRevert);
+
+    expect(() => simulator.apply({ type: "unpause", timestamp: t0 + 50 })).not.to.throw();
+  });
+});
@@ -0,0 +1,141 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MaxUint256, parseUnits } from "ethers";
+import { ONE_DAY, tiersDurations, tiersMultipliers } from "../config/config";
+import { createIndexerStore, indexStakingEvents, saveIndexerStore } from "../scripts/indexer";
+import { buildSolvencyReport, loadStakingSnapshot } from "../scripts/solvency";
+import { deployStakingFixture } from "./fixtures";
+
+describe("Solvency Report", function () {
+  async function deployFundedStakingFixture() {
+    const { staking, stakingToken, users } = await deployStakingFixture();
+    const decimals = await stakingToken.decimals();
+    const [user1, user2, user3] = users;
+    const deployBlock = (await staking.deploymentTransaction()!.wait())!.blockNumber;
+
+    for (const user of [user1, user2, user3]) {
+      await stakingToken.transfer(user.address, parseUnits("10000", decimals));
+      await stakingToken.connect(user).approve(await staking.getAddress(), MaxUint256);
+    }
+    await stakingToken.transfer(await staking.getAddress(), parseUnits("20", decimals));
+
+    await staking.setTiers(tiersDurations, tiersMultipliers);
+    await staking.setMinStakingBoostAmount(parseUnits("1000", decimals));
+    await staking.connect(user1).stake(parseUnits("1000", decimals));
+    await staking.connect(user2).stake(parseUnits("2000", decimals));
+    await time.increase(20 * ONE_DAY);
+    await staking.setRewardRatio(500n);
+    await staking.connect(user3).stake(parseUnits("500", decimals));
+    await time.increase(5 * ONE_DAY);
+
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock));
+
+    return { staking, stakingToken, users, decimals, deployBlock, store };
+  }
+
+  const getTotalOwed = async (fixture: Awaited<ReturnType<typeof deployFundedStakingFixture>>) => {
+    let totalOwed = 0n;
+    for (const user of fixture.users.slice(0, 3)) {
+      totalOwed += (await fixture.staking.getStakeInfo(user.address))._rewards;
+    }
+    return totalOwed;
+  };
+
+  it("Should add up the rewards owed to every indexed staker", async function () {
+    const fixture = await loadFixture(deployFundedStakingFixture);
+    const { staking, stakingToken, decimals, store } = fixture;
+
+    const report = buildSolvencyReport(await loadStakingSnapshot(staking, stakingToken, store));
+
+    const rewardSurplus = (await stakingToken.balanceOf(await staking.getAddress())) - (await staking.stakingTokenBalance());
+    expect(report.rewardSurplus).to.equal(parseUnits("20", decimals));
+    expect(report.rewardSurplus).to.equal(rewardSurplus);
+    expect(report.totalOwed).to.equal(await getTotalOwed(fixture));
+    expect(report.freeSurplus).to.equal(rewardSurplus - report.totalOwed);
+    expect(report.rewardRatioNumerator).to.equal(500n);
+  });
+
+  it("Should project the day the owed rewards exceed the surplus, including tier boosts", async function () {
+    const fixture = await loadFixture(deployFundedStakingFixture);
+    const { staking, stakingToken, store } = fixture;
+
+    const report = buildSolvencyReport(await loadStakingSnapshot(staking, stakingToken, store));
+    expect(report.runwayDays).to.be.greaterThan(0);
+
+    await time.increaseTo(report.timestamp + report.runwayDays! * ONE_DAY);
+    expect(await getTotalOwed(fixture)).to.be.at.most(report.rewardSurplus);
+
+    await time.increaseTo(report.timestamp + (report.runwayDays! + 1) * ONE_DAY);
+    expect(await getTotalOwed(fixture)).to.be.greaterThan(report.rewardSurplus);
+  });
+
+  it("Should simulate proposed ratio, cap and top-up changes", async function () {
+    const { staking, stakingToken, decimals, store } = await loadFixture(deployFundedStakingFixture);
+    const snapshot = await loadStakingSnapshot(staking, stakingToken, store);
+
+    const current = buildSolvencyReport(snapshot);
+    const higherRatio = buildSolvencyReport(snapshot, { rewardRatioNumerator: 1000n });
+    const higherCap = buildSolvencyReport(snapshot, { stakingTokenCap: parseUnits("10000", decimals) });
+    const topUp = buildSolvencyReport(snapshot, { fund: parseUnits("100", decimals) });
+
+    expect(higherRatio.rewardRatioNumerator).to.equal(1000n);
+    expect(higherRatio.totalOwed).to.equal(current.totalOwed);
+    expect(higherRatio.dailyRewards).to.be.greaterThan(current.dailyRewards);
+    expect(higherRatio.runwayDays).to.be.lessThan(current.runwayDays!);
+
+    expect(higherCap.stakingTokenBalance).to.equal(parseUnits("10000", decimals));
+    expect(higherCap.dailyRewards).to.be.greaterThan(current.dailyRewards);
+    expect(higherCap.runwayDays).to.be.lessThan(current.runwayDays!);
+
+    expect(topUp.freeSurplus).to.equal(current.freeSurplus + parseUnits("100", decimals));
+    expect(topUp.runwayDays).to.be.greaterThan(current.runwayDays!);
+
+    // The snapshot itself is never modified by a scenario
+    expect(buildSolvencyReport(snapshot)).to.deep.equal(current);
+  });
+
+  it("Should report a runway past the horizon and an insolvent pool", async function () {
+    const { staking, stakingToken, decimals, store } = await loadFixture(deployFundedStakingFixture);
+    const snapshot = await loadStakingSnapshot(staking, stakingToken, store);
+
+    expect(buildSolvencyReport(snapshot, { fund: parseUnits("1000000", decimals) }, 30).runwayDays).to.be.undefined;
+
+    const insolvent = buildSolvencyReport({ ...snapshot, tokenBalance: snapshot.stakingTokenBalance });
+    expect(insolvent.freeSurplus).to.be.lessThan(0n);
+    expect(insolvent.runwayDays).to.equal(0);
+  });
+
+  it("Should reject a store that was not indexed from the deployment block", async function () {
+    const { staking, stakingToken, deployBlock } = await loadFixture(deployFundedStakingFixture);
+
+    // Starts after the first two stakes
+    const store = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock + 11));
+    await expect(loadStakingSnapshot(staking, stakingToken, store)).to.be.rejectedWith("The indexer store misses stakers");
+
+    // Knows every staker but not the reward ratio update, so condition ids are off by one
+    const staleStore = await indexStakingEvents(staking, createIndexerStore(31337n, await staking.getAddress(), deployBlock));
+    staleStore.rewardRatios.shift();
+    await expect(loadStakingSnapshot(staking, stakingToken, staleStore)).to.be.rejectedWith("The indexer store does not reproduce the rewards");
+  });
+
+  it("Should print the current and proposed reports with staking:solvency", async function () {
+    const { staking, decimals, store } = await loadFixture(deployFundedStakingFixture);
+    const dir = mkdtempSync(join(tmpdir(), "staking-solvency-"));
+
+    try {
+      const path = join(dir, "store.json");
+      saveIndexerStore(path, store);
+
+      const result = await hre.run("staking:solvency", { address: await staking.getAddress(), store: path, fund: "100", horizon: 1825 });
+
+      expect(result.current.rewardSurplus).to.equal(parseUnits("20", decimals));
+      expect(result.proposed.rewardSurplus).to.equal(parseUnits("120", decimals));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
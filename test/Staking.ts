@@ -1,7 +1,8 @@
 import hre from "hardhat";
 import { expect } from "chai";
-import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, mine, setStorageAt, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import {
+  maxMultiplier,
   minStakingBoostAmount,
   ONE_DAY,
   rewardRatioDenominator,
@@ -12,44 +13,29 @@ import {
   tiersMultipliers,
   timeUnit,
 } from "../config/config";
-import { MaxUint256, parseUnits, ZeroAddress } from "ethers";
-import { calculateExpectedRewards, errors, generateRandomAmounts, runFuzzTests } from "../scripts/utils";
+import { AbiCoder, keccak256, MaxUint256, parseUnits, Signer, ZeroAddress, ZeroHash } from "ethers";
+import { calculateExpectedRewards, calculateExpectedTieredRewards, errors, generateRandomAmounts, runFuzzTests } from "../scripts/utils";
+import { FakeLucidao, Staking } from "../typechain-types";
+import { signPermit } from "../sdk";
+import { deployLucidaoStakingFixture, deployRewardStreamFixture, deployStaking, deployStakingFixture } from "./fixtures";
 
+const ONE_WEEK = 7 * ONE_DAY;
 const ONE_MONTH = 30 * ONE_DAY;
 const TWO_MONTHS = 60 * ONE_DAY;
 const THREE_MONTHS = 90 * ONE_DAY;
 const SIX_MONTHS = 180 * ONE_DAY;
 const ONE_YEAR = 360 * ONE_DAY;
 
-describe("Staking", function () {
-  // We define a fixture to reuse the same setup in every test.
-  // We use loadFixture to run this setup once, snapshot that state,
-  // and reset Hardhat Network to that snapshot in every test.
-  async function deployStakingFixture() {
-    // Contracts are deployed using the first signer/account by default
-    const [owner, otherAccount, ...accounts] = await hre.ethers.getSigners();
-
-    const stakingToken = await hre.ethers.deployContract("PurchaseToken");
-
-    const staking = await hre.ethers.deployContract("Staking", [
-      await stakingToken.getAddress(),
-      rewardRatioNumerator,
-      stakingTokenCap(await stakingToken.decimals()),
-      minStakingBoostAmount(await stakingToken.decimals()),
-    ]);
-
-    // Assign the first 50 accounts for stress testing
-    const users = accounts.slice(0, 50);
-
-    return { staking, stakingToken, owner, otherAccount, users };
-  }
+const lockDurations = [ONE_MONTH, SIX_MONTHS, ONE_YEAR];
+const lockMultipliers = [110, 130, 160];
 
+describe("Staking", function () {
   describe("Deployment", function () {
     it("Should revert if staking token is invalid", async function () {
       const { staking, stakingToken } = await loadFixture(deployStakingFixture);
 
       await expect(
-        hre.ethers.deployContract("Staking", [
+        deployStaking([
           ZeroAddress,
           rewardRatioNumerator,
           stakingTokenCap(await stakingToken.decimals()),
@@ -63,7 +49,7 @@ describe("Staking", function () {
       const stakingToken = await hre.ethers.deployContract("PurchaseToken");
 
       await expect(
-        hre.ethers.deployContract("Staking", [
+        deployStaking([
           await stakingToken.getAddress(),
           0,
           stakingTokenCap(await stakingToken.decimals()),
@@ -75,6 +61,7 @@ describe("Staking", function () {
       const { staking, stakingToken } = await loadFixture(deployStakingFixture);
 
       expect(await staking.stakingToken()).to.equal(await stakingToken.getAddress());
+      expect(await staking.stakingTokenDecimals()).to.equal(await stakingToken.decimals());
       expect((await staking.getRewardRatio())[0]).to.equal(rewardRatioNumerator);
       expect((await staking.getRewardRatio())[1]).to.equal(rewardRatioDenominator);
     });
@@ -202,7 +189,8 @@ describe("Staking", function () {
       // After 1 month
       stakeInfo = await staking.getStakeInfo(owner.address);
       expect(stakeInfo._tokensStaked).to.equal(amount);
-      let reward = calculateExpectedRewards(amount, 110, ONE_MONTH);
+      // Still at the base multiplier until the first tier is reached
+      let reward = calculateExpectedTieredRewards(amount, tiersDurations, tiersMultipliers, 0, ONE_MONTH);
       expect(stakeInfo._rewards).to.equal(reward);
 
       await time.increase(TWO_MONTHS);
@@ -211,7 +199,7 @@ describe("Staking", function () {
       // After 3 months
       stakeInfo = await staking.getStakeInfo(owner.address);
       expect(stakeInfo._tokensStaked).to.equal(amount);
-      reward = calculateExpectedRewards(amount, 120, THREE_MONTHS);
+      reward = calculateExpectedTieredRewards(amount, tiersDurations, tiersMultipliers, 0, THREE_MONTHS);
       expect(stakeInfo._rewards).to.equal(reward);
 
       await time.increase(THREE_MONTHS);
@@ -220,7 +208,7 @@ describe("Staking", function () {
       // After 6 months
       stakeInfo = await staking.getStakeInfo(owner.address);
       expect(stakeInfo._tokensStaked).to.equal(amount);
-      reward = calculateExpectedRewards(amount, 140, SIX_MONTHS);
+      reward = calculateExpectedTieredRewards(amount, tiersDurations, tiersMultipliers, 0, SIX_MONTHS);
       expect(stakeInfo._rewards).to.equal(reward);
 
       await time.increase(SIX_MONTHS);
@@ -229,11 +217,151 @@ describe("Staking", function () {
       // After 12 months
       stakeInfo = await staking.getStakeInfo(owner.address);
       expect(stakeInfo._tokensStaked).to.equal(amount);
-      reward = calculateExpectedRewards(amount, 160, ONE_YEAR);
+      reward = calculateExpectedTieredRewards(amount, tiersDurations, tiersMultipliers, 0, ONE_YEAR);
       expect(stakeInfo._rewards).to.equal(reward);
     });
   });
 
+  describe("stakeFor", function () {
+    it("Should credit the beneficiary with the tokens paid by the caller", async function () {
+      const { staking, stakingToken, owner, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      const amount = stakeAmount(await stakingToken.decimals());
+
+      const tx = staking.stakeFor(otherAccount.address, amount);
+
+      await expect(tx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address, otherAccount.address], [amount, -amount, 0]);
+      await expect(tx).to.emit(staking, "TokensStaked").withArgs(otherAccount.address, amount);
+      await expect(tx).to.emit(staking, "TokensStakedFor").withArgs(owner.address, otherAccount.address, amount);
+      const timestamp = (await (await tx).getBlock())!.timestamp;
+
+      const beneficiary = await staking.stakers(otherAccount.address);
+      expect(beneficiary.amountStaked).to.equal(amount);
+      expect(beneficiary.timeOfLastUpdate).to.equal(timestamp);
+      expect(beneficiary.timeOfLastBoostUpdate).to.equal(timestamp);
+      expect((await staking.stakers(owner.address)).amountStaked).to.equal(0);
+      expect(await staking.stakingTokenBalance()).to.equal(amount);
+    });
+    it("Should snapshot the rewards of the beneficiary before adding to their stake", async function () {
+      const { staking, stakingToken, owner, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      await stakingToken.transfer(otherAccount.address, 100n);
+      await stakingToken.connect(otherAccount).approve(await staking.getAddress(), MaxUint256);
+      const amount = stakeAmount(await stakingToken.decimals());
+
+      const stakeTimestamp = (await (await staking.connect(otherAccount).stake(100n)).getBlock())!.timestamp;
+      await time.increase(ONE_MONTH);
+      const stakeForTimestamp = (await (await staking.stakeFor(otherAccount.address, amount)).getBlock())!.timestamp;
+
+      const beneficiary = await staking.stakers(otherAccount.address);
+      expect(beneficiary.amountStaked).to.equal(amount + 100n);
+      expect(beneficiary.unclaimedRewards).to.equal(calculateExpectedRewards(100n, 100, stakeForTimestamp - stakeTimestamp));
+      expect(beneficiary.timeOfLastUpdate).to.equal(stakeForTimestamp);
+      expect(beneficiary.timeOfLastBoostUpdate).to.equal(stakeForTimestamp);
+      expect((await staking.stakers(owner.address)).amountStaked).to.equal(0);
+    });
+    it("Should revert if the beneficiary is the zero address, the contract is paused or the cap is exceeded", async function () {
+      const { staking, stakingToken, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      await expect(staking.stakeFor(ZeroAddress, 100n)).to.be.revertedWithCustomError(staking, errors.invalidBeneficiary);
+      await expect(staking.stakeFor(otherAccount.address, 0n)).to.be.revertedWithCustomError(staking, errors.invalidAmount);
+      await expect(staking.stakeFor(otherAccount.address, stakingTokenCap(await stakingToken.decimals()) + 1n)).to.be.revertedWithCustomError(
+        staking,
+        errors.cannotStakeMoreThanCap
+      );
+
+      await staking.pause();
+      await expect(staking.stakeFor(otherAccount.address, 100n)).to.be.revertedWithCustomError(staking, errors.paused);
+    });
+    it("Should only let allowlisted accounts stake for others while the allowlist is on", async function () {
+      const { staking, stakingToken, owner, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      await expect(staking.setStakeForAllowlistEnabled(true)).to.emit(staking, "StakeForAllowlistEnabledSet").withArgs(true);
+      await expect(staking.stakeFor(otherAccount.address, 100n)).to.be.revertedWithCustomError(staking, errors.stakeForNotAllowed);
+      // Staking for oneself is not restricted
+      await staking.stake(100n);
+
+      await expect(staking.setStakeForAllowed(owner.address, true)).to.emit(staking, "StakeForAllowedSet").withArgs(owner.address, true);
+      await staking.stakeFor(otherAccount.address, 100n);
+      expect((await staking.stakers(otherAccount.address)).amountStaked).to.equal(100n);
+
+      await staking.setStakeForAllowed(owner.address, false);
+      await expect(staking.stakeFor(otherAccount.address, 100n)).to.be.revertedWithCustomError(staking, errors.stakeForNotAllowed);
+
+      await staking.setStakeForAllowlistEnabled(false);
+      await staking.stakeFor(otherAccount.address, 100n);
+      expect((await staking.stakers(otherAccount.address)).amountStaked).to.equal(200n);
+    });
+  });
+
+  describe("stakeWithPermit", function () {
+    const signStakePermit = async (staking: Staking, stakingToken: FakeLucidao, signer: Signer, amount: bigint, deadline?: number) =>
+      signPermit(await stakingToken.getAddress(), signer, await staking.getAddress(), amount, BigInt(deadline ?? (await time.latest()) + ONE_DAY));
+
+    it("Should stake with a permit and no prior approval", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployLucidaoStakingFixture);
+      const amount = stakeAmount(await stakingToken.decimals());
+      const { deadline, v, r, s } = await signStakePermit(staking, stakingToken, owner, amount);
+
+      const tx = staking.stakeWithPermit(amount, deadline, v, r, s);
+
+      await expect(tx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [amount, -amount]);
+      await expect(tx).to.emit(staking, "TokensStaked").withArgs(owner.address, amount);
+      expect((await staking.stakers(owner.address)).amountStaked).to.equal(amount);
+      expect(await stakingToken.allowance(owner.address, await staking.getAddress())).to.equal(0);
+      expect(await stakingToken.nonces(owner.address)).to.equal(1);
+    });
+    it("Should still stake when a front-runner already used the permit", async function () {
+      const { staking, stakingToken, owner, otherAccount } = await loadFixture(deployLucidaoStakingFixture);
+      const amount = stakeAmount(await stakingToken.decimals());
+      const { deadline, v, r, s } = await signStakePermit(staking, stakingToken, owner, amount);
+
+      await stakingToken.connect(otherAccount).permit(owner.address, await staking.getAddress(), amount, deadline, v, r, s);
+
+      await expect(staking.stakeWithPermit(amount, deadline, v, r, s)).to.emit(staking, "TokensStaked").withArgs(owner.address, amount);
+      expect((await staking.stakers(owner.address)).amountStaked).to.equal(amount);
+    });
+    it("Should revert if the permit fails and the allowance does not cover the amount", async function () {
+      const { staking, stakingToken, owner, otherAccount } = await loadFixture(deployLucidaoStakingFixture);
+      const amount = stakeAmount(await stakingToken.decimals());
+
+      const expired = await signStakePermit(staking, stakingToken, owner, amount, await time.latest());
+      await expect(staking.stakeWithPermit(amount, expired.deadline, expired.v, expired.r, expired.s)).to.be.revertedWithCustomError(
+        staking,
+        errors.invalidPermit
+      );
+
+      // A permit signed by another account does not let it stake the tokens of the signer
+      const { deadline, v, r, s } = await signStakePermit(staking, stakingToken, owner, amount);
+      await expect(staking.connect(otherAccount).stakeWithPermit(amount, deadline, v, r, s)).to.be.revertedWithCustomError(staking, errors.invalidPermit);
+
+      await stakingToken.approve(await staking.getAddress(), amount);
+      await staking.stakeWithPermit(amount, expired.deadline, expired.v, expired.r, expired.s);
+      expect((await staking.stakers(owner.address)).amountStaked).to.equal(amount);
+    });
+    it("Should fall back to the allowance for tokens without permit", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.stakeWithPermit(100n, 0, 0, ZeroHash, ZeroHash)).to.be.revertedWithCustomError(staking, errors.invalidPermit);
+
+      await stakingToken.approve(await staking.getAddress(), 100n);
+      await expect(staking.stakeWithPermit(100n, 0, 0, ZeroHash, ZeroHash)).to.emit(staking, "TokensStaked");
+    });
+    it("Should revert if the contract is paused or the cap is exceeded", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployLucidaoStakingFixture);
+      const amount = stakeAmount(await stakingToken.decimals());
+      const { deadline, v, r, s } = await signStakePermit(staking, stakingToken, owner, amount);
+
+      await staking.setStakingTokenCap(amount - 1n);
+      await expect(staking.stakeWithPermit(amount, deadline, v, r, s)).to.be.revertedWithCustomError(staking, errors.cannotStakeMoreThanCap);
+
+      await staking.pause();
+      await expect(staking.stakeWithPermit(amount, deadline, v, r, s)).to.be.revertedWithCustomError(staking, errors.paused);
+    });
+  });
+
   describe("withdraw", function () {
     it("Should revert if user tries to withdraw zero token", async function () {
       const { staking } = await loadFixture(deployStakingFixture);
@@ -316,6 +444,281 @@ describe("Staking", function () {
     });
   });
 
+  describe("setWithdrawCooldown", function () {
+    it("Should only let the user withdraw at once while the cooldown is off", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      await staking.stake(100n);
+
+      await expect(staking.setWithdrawCooldown(ONE_WEEK)).to.emit(staking, "WithdrawCooldownSet").withArgs(ONE_WEEK);
+      expect(await staking.withdrawCooldown()).to.equal(ONE_WEEK);
+      await expect(staking.withdraw(1n)).to.be.revertedWithCustomError(staking, errors.withdrawCooldownActive);
+
+      await staking.setWithdrawCooldown(0);
+      await staking.withdraw(1n);
+    });
+  });
+
+  describe("requestWithdraw", function () {
+    it("Should revert if the amount is zero or more than staked", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      await staking.stake(100n);
+
+      await expect(staking.requestWithdraw(0)).to.be.revertedWithCustomError(staking, errors.invalidAmount);
+      await expect(staking.requestWithdraw(101n)).to.be.revertedWithCustomError(staking, errors.invalidAmount);
+    });
+    it("Should revert if the contract is paused", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      await staking.stake(100n);
+
+      await staking.pause();
+
+      await expect(staking.requestWithdraw(1n)).to.be.revertedWithCustomError(staking, errors.paused);
+    });
+    it("Should stop the rewards on the requested tokens and keep them in the contract", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await staking.setWithdrawCooldown(ONE_WEEK);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      const stakeTx = await staking.stake(amount);
+      await time.increase(ONE_MONTH);
+
+      const requestTx = staking.requestWithdraw(amount / 4n);
+      await expect(requestTx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [0, 0]);
+      const requestTimestamp = (await (await requestTx).getBlock())!.timestamp;
+      await expect(requestTx)
+        .to.emit(staking, "WithdrawRequested")
+        .withArgs(owner.address, 0, amount / 4n, requestTimestamp + ONE_WEEK);
+
+      const staker = await staking.stakers(owner.address);
+      expect(staker.amountStaked).to.equal(amount - amount / 4n);
+      expect(staker.unclaimedRewards).to.equal(calculateExpectedRewards(amount, 100, requestTimestamp - (await stakeTx.getBlock())!.timestamp));
+      expect(await staking.stakingTokenBalance()).to.equal(amount - amount / 4n);
+      expect(await staking.unbondingTokenBalance()).to.equal(amount / 4n);
+      expect((await staking.getWithdrawRequests(owner.address)).map(({ amount, unlockTimestamp }) => [amount, unlockTimestamp])).to.deep.equal([
+        [amount / 4n, BigInt(requestTimestamp + ONE_WEEK)],
+      ]);
+
+      // Only the tokens left staked earn rewards from the request on
+      await time.increase(ONE_MONTH);
+      expect((await staking.getStakeInfo(owner.address))._rewards).to.equal(
+        staker.unclaimedRewards + calculateExpectedRewards(amount - amount / 4n, 100, (await time.latest()) - requestTimestamp)
+      );
+      await expect(staking.withdrawExcessTokens(await stakingToken.getAddress(), 1n)).to.be.revertedWithCustomError(staking, errors.noExcessStakingToken);
+    });
+  });
+
+  describe("completeWithdraw", function () {
+    it("Should revert if the request does not exist, is still cooling down or was already completed", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await staking.setWithdrawCooldown(ONE_WEEK);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      await staking.stake(100n);
+
+      await expect(staking.completeWithdraw(0)).to.be.revertedWithCustomError(staking, errors.invalidWithdrawRequestId);
+
+      await staking.requestWithdraw(100n);
+      await time.increase(ONE_WEEK - 2);
+      await expect(staking.completeWithdraw(0)).to.be.revertedWithCustomError(staking, errors.withdrawRequestLocked);
+
+      await time.increase(1);
+      await staking.completeWithdraw(0);
+      await expect(staking.completeWithdraw(0)).to.be.revertedWithCustomError(staking, errors.invalidAmount);
+    });
+    it("Should send the tokens at the end of the cooldown in force when requested", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await staking.setWithdrawCooldown(ONE_WEEK);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.stake(amount);
+      await staking.requestWithdraw(amount);
+
+      // A longer cooldown only applies to the requests made afterwards
+      await staking.setWithdrawCooldown(ONE_MONTH);
+      await time.increase(ONE_WEEK);
+
+      const completeTx = staking.completeWithdraw(0);
+      await expect(completeTx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [-amount, amount]);
+      await expect(completeTx).to.emit(staking, "WithdrawCompleted").withArgs(owner.address, 0, amount);
+      expect(await staking.unbondingTokenBalance()).to.equal(0);
+      expect((await staking.getWithdrawRequests(owner.address))[0].amount).to.equal(0);
+    });
+  });
+
+  describe("cancelWithdraw", function () {
+    it("Should stake the tokens again and resume their rewards", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await staking.setWithdrawCooldown(ONE_WEEK);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.stake(amount);
+      await staking.requestWithdraw(amount);
+      await time.increase(ONE_DAY);
+
+      const cancelTx = staking.cancelWithdraw(0);
+      await expect(cancelTx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [0, 0]);
+      await expect(cancelTx).to.emit(staking, "WithdrawCancelled").withArgs(owner.address, 0, amount);
+      const cancelTimestamp = (await (await cancelTx).getBlock())!.timestamp;
+
+      const staker = await staking.stakers(owner.address);
+      expect(staker.amountStaked).to.equal(amount);
+      expect(staker.timeOfLastUpdate).to.equal(cancelTimestamp);
+      expect(await staking.stakingTokenBalance()).to.equal(amount);
+      expect(await staking.unbondingTokenBalance()).to.equal(0);
+      await expect(staking.cancelWithdraw(0)).to.be.revertedWithCustomError(staking, errors.invalidAmount);
+
+      await time.increase(ONE_MONTH);
+      expect((await staking.getStakeInfo(owner.address))._rewards).to.equal(
+        staker.unclaimedRewards + calculateExpectedRewards(amount, 100, (await time.latest()) - cancelTimestamp)
+      );
+    });
+    it("Should revert if staking the tokens again exceeds the cap", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await staking.setWithdrawCooldown(ONE_WEEK);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      await staking.stake(100n);
+      await staking.requestWithdraw(50n);
+      await staking.setStakingTokenCap(50n);
+
+      await expect(staking.cancelWithdraw(0)).to.be.revertedWithCustomError(staking, errors.cannotStakeMoreThanCap);
+    });
+  });
+
+  describe("compoundRewards", function () {
+    it("Should revert if the user has no rewards", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.compoundRewards()).to.be.revertedWithCustomError(staking, errors.noRewards);
+    });
+    it("Should revert if the contract is paused", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await staking.pause();
+
+      await expect(staking.compoundRewards()).to.be.revertedWithCustomError(staking, errors.paused);
+    });
+    it("Should revert if the rewards are not covered by the reward surplus", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      await staking.stake(stakeAmount(await stakingToken.decimals()));
+      await time.increase(ONE_YEAR);
+
+      await expect(staking.compoundRewards()).to.be.revertedWithCustomError(staking, errors.missingRewards);
+    });
+    it("Should revert if staking the rewards exceeds the cap", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await staking.stake(amount);
+      await staking.setStakingTokenCap(amount);
+      await time.increase(ONE_MONTH);
+
+      await expect(staking.compoundRewards()).to.be.revertedWithCustomError(staking, errors.cannotStakeMoreThanCap);
+    });
+    it("Should stake the rewards without any token transfer", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      const stakeTx = await staking.stake(amount);
+      await time.increase(ONE_YEAR);
+
+      const compoundTx = staking.compoundRewards();
+      await expect(compoundTx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [0, 0]);
+      const compoundTimestamp = (await (await compoundTx).getBlock())!.timestamp;
+      const rewardAmount = calculateExpectedRewards(amount, 100, compoundTimestamp - (await stakeTx.getBlock())!.timestamp);
+      await expect(compoundTx).to.emit(staking, "RewardsCompounded").withArgs(owner.address, rewardAmount);
+
+      const staker = await staking.stakers(owner.address);
+      expect(staker.amountStaked).to.equal(amount + rewardAmount);
+      expect(staker.unclaimedRewards).to.equal(0);
+      expect(staker.timeOfLastUpdate).to.equal(compoundTimestamp);
+      expect(await staking.stakingTokenBalance()).to.equal(amount + rewardAmount);
+
+      // The compounded rewards earn rewards in turn
+      await time.increase(ONE_MONTH);
+      expect((await staking.getStakeInfo(owner.address))._rewards).to.equal(
+        calculateExpectedRewards(amount + rewardAmount, 100, (await time.latest()) - compoundTimestamp)
+      );
+    });
+    it("Should start the boost when the rewards bring the stake to the minimum boost amount", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = minStakingBoostAmount(await stakingToken.decimals());
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await staking.stake(amount - 1n);
+      await time.increase(ONE_MONTH);
+      expect((await staking.stakers(owner.address)).timeOfLastBoostUpdate).to.equal(0);
+
+      const compoundTimestamp = (await (await staking.compoundRewards()).getBlock())!.timestamp;
+
+      expect((await staking.stakers(owner.address)).amountStaked).to.be.greaterThanOrEqual(amount);
+      expect((await staking.stakers(owner.address)).timeOfLastBoostUpdate).to.equal(compoundTimestamp);
+    });
+  });
+
+  describe("compoundFor", function () {
+    it("Should compound the rewards of every staker and skip those without rewards", async function () {
+      const { staking, stakingToken, owner, otherAccount, users } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await stakingToken.transfer(otherAccount.address, amount);
+      await stakingToken.connect(otherAccount).approve(await staking.getAddress(), MaxUint256);
+      await staking.stake(amount);
+      await staking.connect(otherAccount).stake(amount);
+      await time.increase(ONE_MONTH);
+
+      const rewards = [(await staking.getStakeInfo(owner.address))._rewards, (await staking.getStakeInfo(otherAccount.address))._rewards];
+      const compoundTx = staking.compoundFor([owner.address, users[0].address, otherAccount.address]);
+      await expect(compoundTx).to.changeTokenBalances(stakingToken, [await staking.getAddress()], [0]);
+      await expect(compoundTx).to.emit(staking, "RewardsCompounded").withArgs(owner.address, (amount: bigint) => amount > rewards[0]);
+      await expect(compoundTx).to.emit(staking, "RewardsCompounded").withArgs(otherAccount.address, (amount: bigint) => amount > rewards[1]);
+
+      expect((await staking.stakers(users[0].address)).amountStaked).to.equal(0);
+      expect((await staking.getStakeInfo(owner.address))._rewards).to.equal(0);
+      expect((await staking.getStakeInfo(otherAccount.address))._rewards).to.equal(0);
+      expect(await staking.stakingTokenBalance()).to.equal(
+        (await staking.stakers(owner.address)).amountStaked + (await staking.stakers(otherAccount.address)).amountStaked
+      );
+    });
+    it("Should skip the stakers whose rewards would exceed the staking token cap", async function () {
+      const { staking, stakingToken, owner, otherAccount, users } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await stakingToken.transfer(otherAccount.address, 3n * amount);
+      await stakingToken.connect(otherAccount).approve(await staking.getAddress(), MaxUint256);
+      await staking.stake(amount);
+      await staking.connect(otherAccount).stake(3n * amount);
+      await time.increase(ONE_MONTH);
+
+      // Room for the rewards of the owner but not for the three times larger ones of the other account
+      const ownerRewards = (await staking.getStakeInfo(owner.address))._rewards;
+      await staking.setStakingTokenCap((await staking.stakingTokenBalance()) + 2n * ownerRewards);
+
+      const compoundTx = staking.compoundFor([otherAccount.address, users[0].address, owner.address]);
+      await expect(compoundTx).to.emit(staking, "RewardsCompounded").withArgs(owner.address, (amount: bigint) => amount > ownerRewards);
+
+      expect((await staking.stakers(otherAccount.address)).amountStaked).to.equal(3n * amount);
+      expect((await staking.getStakeInfo(otherAccount.address))._rewards).to.be.greaterThan(2n * ownerRewards);
+      expect((await staking.getStakeInfo(owner.address))._rewards).to.equal(0);
+    });
+  });
+
   describe("claimRewards", function () {
     it("Should revert if user tries to claim zero token", async function () {
       const { staking } = await loadFixture(deployStakingFixture);
@@ -382,6 +785,7 @@ describe("Staking", function () {
       const amount = stakeAmount(await stakingToken.decimals());
       await stakingToken.transfer(await staking.getAddress(), amount);
       const stakeTx = await staking.stake(amount);
+      const stakeTimestamp = (await stakeTx.getBlock())?.timestamp || 0;
 
       // At time 0
       let stakeInfo = await staking.getStakeInfo(owner.address);
@@ -389,7 +793,7 @@ describe("Staking", function () {
       expect(stakeInfo._rewards).to.equal(0n);
       expect(await staking.getCurrentMultiplier(owner.address)).to.equal(100n);
       let tx = staking.claimRewards();
-      let rewardAmount = calculateExpectedRewards(amount, 100, ((await (await tx).getBlock())?.timestamp || 0) - ((await stakeTx.getBlock())?.timestamp || 0));
+      let rewardAmount = calculateExpectedTieredRewards(amount, tiersDurations, tiersMultipliers, 0, ((await (await tx).getBlock())?.timestamp || 0) - stakeTimestamp);
 
       await expect(tx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [-rewardAmount, rewardAmount]);
 
@@ -399,7 +803,13 @@ describe("Staking", function () {
       expect(await staking.getCurrentMultiplier(owner.address)).to.equal(110n);
       let lastTx = tx;
       tx = staking.claimRewards();
-      rewardAmount = calculateExpectedRewards(amount, 110, ((await (await tx).getBlock())?.timestamp || 0) - ((await (await lastTx).getBlock())?.timestamp || 0));
+      rewardAmount = calculateExpectedTieredRewards(
+        amount,
+        tiersDurations,
+        tiersMultipliers,
+        ((await (await lastTx).getBlock())?.timestamp || 0) - stakeTimestamp,
+        ((await (await tx).getBlock())?.timestamp || 0) - stakeTimestamp
+      );
 
       await expect(tx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [-rewardAmount, rewardAmount]);
 
@@ -409,7 +819,13 @@ describe("Staking", function () {
       expect(await staking.getCurrentMultiplier(owner.address)).to.equal(120n);
       lastTx = tx;
       tx = staking.claimRewards();
-      rewardAmount = calculateExpectedRewards(amount, 120, ((await (await tx).getBlock())?.timestamp || 0) - ((await (await lastTx).getBlock())?.timestamp || 0));
+      rewardAmount = calculateExpectedTieredRewards(
+        amount,
+        tiersDurations,
+        tiersMultipliers,
+        ((await (await lastTx).getBlock())?.timestamp || 0) - stakeTimestamp,
+        ((await (await tx).getBlock())?.timestamp || 0) - stakeTimestamp
+      );
 
       await expect(tx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [-rewardAmount, rewardAmount]);
 
@@ -419,7 +835,13 @@ describe("Staking", function () {
       expect(await staking.getCurrentMultiplier(owner.address)).to.equal(140n);
       lastTx = tx;
       tx = staking.claimRewards();
-      rewardAmount = calculateExpectedRewards(amount, 140, ((await (await tx).getBlock())?.timestamp || 0) - ((await (await lastTx).getBlock())?.timestamp || 0));
+      rewardAmount = calculateExpectedTieredRewards(
+        amount,
+        tiersDurations,
+        tiersMultipliers,
+        ((await (await lastTx).getBlock())?.timestamp || 0) - stakeTimestamp,
+        ((await (await tx).getBlock())?.timestamp || 0) - stakeTimestamp
+      );
 
       await expect(tx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [-rewardAmount, rewardAmount]);
 
@@ -429,53 +851,807 @@ describe("Staking", function () {
       expect(await staking.getCurrentMultiplier(owner.address)).to.equal(160n);
       lastTx = tx;
       tx = staking.claimRewards();
-      rewardAmount = calculateExpectedRewards(amount, 160, ((await (await tx).getBlock())?.timestamp || 0) - ((await (await lastTx).getBlock())?.timestamp || 0));
+      rewardAmount = calculateExpectedTieredRewards(
+        amount,
+        tiersDurations,
+        tiersMultipliers,
+        ((await (await lastTx).getBlock())?.timestamp || 0) - stakeTimestamp,
+        ((await (await tx).getBlock())?.timestamp || 0) - stakeTimestamp
+      );
 
       await expect(tx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [-rewardAmount, rewardAmount]);
     });
-  });
-
-  describe("emergencyWithdraw", function () {
-    it("Should revert if user tries to withdraw zero token", async function () {
-      const { staking } = await loadFixture(deployStakingFixture);
+    it("Should pay the same rewards however often the user claims", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await staking.setTiers(tiersDurations, tiersMultipliers);
 
-      await staking.pause();
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
 
-      await expect(staking.emergencyWithdraw()).to.be.revertedWithCustomError(staking, errors.invalidAmount);
+      const amount = stakeAmount(await stakingToken.decimals());
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await staking.stake(amount);
+      const stakeTimestamp = await time.latest();
+
+      const balanceBefore = await stakingToken.balanceOf(owner.address);
+      const claims = 12;
+      for (let i = 0; i < claims; i++) {
+        await time.increase(ONE_MONTH);
+        await staking.claimRewards();
+      }
+      const claimed = (await stakingToken.balanceOf(owner.address)) - balanceBefore;
+
+      // Claiming once at the end would pay every tier only from the time it was reached, each claim rounds down at most 1 wei
+      const expectedRewards = calculateExpectedTieredRewards(amount, tiersDurations, tiersMultipliers, 0, (await time.latest()) - stakeTimestamp);
+      expect(claimed).to.be.closeTo(expectedRewards, claims);
     });
-    it("Should let the user withdraw his funds if paused", async function () {
-      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+  });
 
+  describe("claimRewards with reward streams", function () {
+    it("Should pay the stream rewards along with the staking token rewards", async function () {
+      const { staking, stakingToken, rewardToken, owner } = await loadFixture(deployRewardStreamFixture);
       await stakingToken.approve(await staking.getAddress(), MaxUint256);
 
       const amount = stakeAmount(await stakingToken.decimals());
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await staking.fundRewardStream(0, amount);
       const stakeTx = await staking.stake(amount);
+      await time.increase(ONE_MONTH);
 
-      await staking.pause();
+      const claimTx = staking.claimRewards();
+      const duration = (await (await claimTx).getBlock())!.timestamp - (await stakeTx.getBlock())!.timestamp;
+      const rewards = calculateExpectedRewards(amount, 100, duration);
+      await expect(claimTx).to.changeTokenBalances(rewardToken, [await staking.getAddress(), owner.address], [-rewards, rewards]);
+      await expect(claimTx).to.emit(staking, "StreamRewardsClaimed").withArgs(owner.address, 0, rewards);
+      await expect(claimTx).to.emit(staking, "RewardsClaimed").withArgs(owner.address, rewards);
 
-      const tx = staking.emergencyWithdraw();
+      expect((await staking.getRewardStreams())[0].fundedBalance).to.equal(amount - rewards);
+      expect((await staking.getStreamRewards(owner.address))._rewards).to.deep.equal([0n]);
+    });
+    it("Should leave the rewards of an underfunded stream unclaimed", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployRewardStreamFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
 
-      await expect(tx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [-amount, amount]);
+      const amount = stakeAmount(await stakingToken.decimals());
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await staking.fundRewardStream(0, 1n);
+      await staking.stake(amount);
+      await time.increase(ONE_MONTH);
 
-      const txResponse = await tx;
-      const staker = await staking.stakers(owner.address);
-      expect(staker.amountStaked).to.equal(0);
-      expect(staker.conditionIdOfLastUpdate).to.equal(0);
-      expect(staker.timeOfLastUpdate).to.equal((await txResponse.getBlock())?.timestamp);
-      expect(staker.unclaimedRewards).to.equal(calculateExpectedRewards(amount, 100, ((await txResponse.getBlock())?.timestamp || 0) - ((await stakeTx.getBlock())?.timestamp || 0)));
+      const claimTx = staking.claimRewards();
+      await expect(claimTx).to.emit(staking, "RewardsClaimed");
+      await expect(claimTx).not.to.emit(staking, "StreamRewardsClaimed");
+
+      expect((await staking.getStreamRewards(owner.address))._rewards[0]).to.be.greaterThan(0n);
+      expect((await staking.getRewardStreams())[0].fundedBalance).to.equal(1n);
     });
-  });
+    it("Should claim the stream rewards alone once the staking token rewards are claimed", async function () {
+      const { staking, stakingToken, rewardToken, owner } = await loadFixture(deployRewardStreamFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
 
-  describe("withdrawExcessTokens", function () {
-    it("Should revert if user tries to withdraw zero address token", async function () {
-      const { staking } = await loadFixture(deployStakingFixture);
+      const amount = stakeAmount(await stakingToken.decimals());
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await staking.stake(amount);
+      await time.increase(ONE_MONTH);
+      await staking.withdraw(amount);
+      await staking.claimRewards();
 
-      await expect(staking.withdrawExcessTokens(ZeroAddress, 0)).to.be.revertedWithCustomError(staking, errors.invalidTokenAddress);
-    });
-    it("Should revert if user tries to withdraw zero token", async function () {
-      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      const [, [rewards]] = await staking.getStreamRewards(owner.address);
+      await staking.fundRewardStream(0, rewards);
 
-      await expect(staking.withdrawExcessTokens(await stakingToken.getAddress(), 0)).to.be.revertedWithCustomError(staking, errors.invalidAmount);
+      const claimTx = staking.claimRewards();
+      await expect(claimTx).to.changeTokenBalance(rewardToken, owner.address, rewards);
+      await expect(claimTx).not.to.emit(staking, "RewardsClaimed");
+
+      await expect(staking.claimRewards()).to.be.revertedWithCustomError(staking, errors.noRewards);
+    });
+    it("Should only accrue stream rewards on the flexible stake", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployRewardStreamFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      const stakeTx = await staking.stake(amount);
+      await staking.openPosition(amount, ONE_MONTH);
+      await time.increase(ONE_MONTH);
+
+      const duration = (await time.latest()) - (await stakeTx.getBlock())!.timestamp;
+      expect((await staking.getStreamRewards(owner.address))._rewards).to.deep.equal([calculateExpectedRewards(amount, 100, duration)]);
+    });
+  });
+
+  describe("addRewardStream", function () {
+    it("Should revert if the token is zero, the staking token or already streamed", async function () {
+      const { staking, stakingToken, rewardToken } = await loadFixture(deployRewardStreamFixture);
+
+      await expect(staking.addRewardStream(ZeroAddress, rewardRatioNumerator)).to.be.revertedWithCustomError(staking, errors.invalidTokenAddress);
+      await expect(staking.addRewardStream(await stakingToken.getAddress(), rewardRatioNumerator)).to.be.revertedWithCustomError(
+        staking,
+        errors.invalidTokenAddress
+      );
+      await expect(staking.addRewardStream(await rewardToken.getAddress(), rewardRatioNumerator)).to.be.revertedWithCustomError(
+        staking,
+        errors.invalidTokenAddress
+      );
+    });
+    it("Should revert if the reward ratio is zero", async function () {
+      const { staking, users } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.addRewardStream(users[0].address, 0)).to.be.revertedWithCustomError(staking, errors.invalidRewardRatio);
+    });
+    it("Should revert past the maximum number of streams", async function () {
+      const { staking, users } = await loadFixture(deployStakingFixture);
+
+      const maxRewardStreams = Number(await staking.MAX_REWARD_STREAMS());
+      for (let i = 0; i < maxRewardStreams; i++) {
+        await staking.addRewardStream(users[i].address, rewardRatioNumerator);
+      }
+
+      await expect(staking.addRewardStream(users[maxRewardStreams].address, rewardRatioNumerator)).to.be.revertedWithCustomError(
+        staking,
+        errors.tooManyRewardStreams
+      );
+    });
+    it("Should add a stream that accrues from now on", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const rewardToken = await hre.ethers.deployContract("FakeLucidao");
+      await staking.stake(stakeAmount(await stakingToken.decimals()));
+      await time.increase(ONE_MONTH);
+
+      const addTx = staking.addRewardStream(await rewardToken.getAddress(), rewardRatioNumerator);
+      await expect(addTx).to.emit(staking, "RewardStreamAdded").withArgs(0, await rewardToken.getAddress(), rewardRatioNumerator);
+
+      const [stream] = await staking.getRewardStreams();
+      expect(stream.token).to.equal(await rewardToken.getAddress());
+      expect(stream.rewardRatioNumerator).to.equal(rewardRatioNumerator);
+      expect(stream.timeOfLastUpdate).to.equal((await (await addTx).getBlock())!.timestamp);
+      expect((await staking.getStreamRewards(owner.address))._rewards).to.deep.equal([0n]);
+    });
+  });
+
+  describe("setRewardStreamRatio", function () {
+    it("Should revert if the stream does not exist or the ratio is unchanged", async function () {
+      const { staking } = await loadFixture(deployRewardStreamFixture);
+
+      await expect(staking.setRewardStreamRatio(1, rewardRatioNumerator)).to.be.revertedWithCustomError(staking, errors.invalidRewardStreamId);
+      await expect(staking.setRewardStreamRatio(0, rewardRatioNumerator)).to.be.revertedWithCustomError(staking, errors.invalidRewardRatio);
+    });
+    it("Should keep the rewards accrued at the old ratio and stop the stream at zero", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployRewardStreamFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      const stakeTx = await staking.stake(amount);
+      await time.increase(ONE_MONTH);
+
+      const stopTx = staking.setRewardStreamRatio(0, 0);
+      await expect(stopTx).to.emit(staking, "RewardStreamRatioUpdated").withArgs(0, rewardRatioNumerator, 0);
+      const duration = (await (await stopTx).getBlock())!.timestamp - (await stakeTx.getBlock())!.timestamp;
+      await time.increase(ONE_MONTH);
+
+      expect((await staking.getStreamRewards(owner.address))._rewards).to.deep.equal([calculateExpectedRewards(amount, 100, duration)]);
+    });
+  });
+
+  describe("fundRewards", function () {
+    it("Should revert if the amount is zero", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.fundRewards(0)).to.be.revertedWithCustomError(staking, errors.invalidAmount);
+    });
+    it("Should add the tokens received to the reward reserve", async function () {
+      const { staking, stakingToken, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.transfer(otherAccount.address, 100n);
+      await stakingToken.connect(otherAccount).approve(await staking.getAddress(), 100n);
+
+      const fundTx = staking.connect(otherAccount).fundRewards(100n);
+      await expect(fundTx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), otherAccount.address], [100n, -100n]);
+      await expect(fundTx).to.emit(staking, "RewardsFunded").withArgs(otherAccount.address, 100n);
+
+      expect(await staking.rewardReserve()).to.equal(100n);
+      expect(await staking.getFreeSurplus()).to.equal(0n);
+    });
+    it("Should pay the rewards from the reserve first", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.fundRewards(100n);
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await staking.stake(amount);
+      await time.increase(ONE_MONTH);
+
+      const claimTx = staking.claimRewards();
+      await expect(claimTx).to.emit(staking, "RewardReserveDrawn").withArgs(owner.address, 100n);
+      expect(await staking.rewardReserve()).to.equal(0n);
+
+      await time.increase(ONE_MONTH);
+      await expect(staking.claimRewards()).not.to.emit(staking, "RewardReserveDrawn");
+    });
+    it("Should track the rewards credited to stakers as liabilities until they are paid", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.fundRewards(amount);
+      await staking.stake(amount);
+      await time.increase(ONE_MONTH);
+      await staking.stake(amount);
+
+      const { unclaimedRewards } = await staking.stakers(owner.address);
+      expect(unclaimedRewards).to.be.greaterThan(0n);
+      expect(await staking.rewardLiabilities()).to.equal(unclaimedRewards);
+
+      await staking.compoundRewards();
+      const compoundedRewards = (await staking.stakingTokenBalance()) - 2n * amount;
+      expect(await staking.rewardLiabilities()).to.equal(0n);
+      expect(await staking.rewardReserve()).to.equal(amount - compoundedRewards);
+    });
+  });
+
+  describe("fundRewardStream", function () {
+    it("Should revert if the stream does not exist or the amount is zero", async function () {
+      const { staking } = await loadFixture(deployRewardStreamFixture);
+
+      await expect(staking.fundRewardStream(1, 1n)).to.be.revertedWithCustomError(staking, errors.invalidRewardStreamId);
+      await expect(staking.fundRewardStream(0, 0)).to.be.revertedWithCustomError(staking, errors.invalidAmount);
+    });
+    it("Should let anyone fund a stream", async function () {
+      const { staking, rewardToken, otherAccount } = await loadFixture(deployRewardStreamFixture);
+      await rewardToken.transfer(otherAccount.address, 100n);
+      await rewardToken.connect(otherAccount).approve(await staking.getAddress(), 100n);
+
+      const fundTx = staking.connect(otherAccount).fundRewardStream(0, 100n);
+      await expect(fundTx).to.changeTokenBalances(rewardToken, [await staking.getAddress(), otherAccount.address], [100n, -100n]);
+      await expect(fundTx).to.emit(staking, "RewardStreamFunded").withArgs(0, otherAccount.address, 100n);
+
+      expect((await staking.getRewardStreams())[0].fundedBalance).to.equal(100n);
+    });
+  });
+
+  describe("emergencyWithdraw", function () {
+    it("Should revert if user tries to withdraw zero token", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await staking.pause();
+
+      await expect(staking.emergencyWithdraw()).to.be.revertedWithCustomError(staking, errors.invalidAmount);
+    });
+    it("Should let the user withdraw his funds if paused", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      const stakeTx = await staking.stake(amount);
+
+      await staking.pause();
+
+      const tx = staking.emergencyWithdraw();
+
+      await expect(tx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [-amount, amount]);
+
+      const txResponse = await tx;
+      const staker = await staking.stakers(owner.address);
+      expect(staker.amountStaked).to.equal(0);
+      expect(staker.conditionIdOfLastUpdate).to.equal(0);
+      expect(staker.timeOfLastUpdate).to.equal((await txResponse.getBlock())?.timestamp);
+      expect(staker.unclaimedRewards).to.equal(calculateExpectedRewards(amount, 100, ((await txResponse.getBlock())?.timestamp || 0) - ((await stakeTx.getBlock())?.timestamp || 0)));
+    });
+    it("Should only be available when paused while the withdraw cooldown is on and release the withdraw requests", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await staking.setWithdrawCooldown(ONE_WEEK);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.stake(amount);
+      await staking.requestWithdraw(amount / 2n);
+
+      await expect(staking.emergencyWithdraw()).to.be.revertedWithCustomError(staking, errors.withdrawCooldownActive);
+
+      await staking.pause();
+      const tx = staking.emergencyWithdraw();
+
+      await expect(tx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [-amount, amount]);
+      await expect(tx).to.emit(staking, "EmergencyWithdraw").withArgs(owner.address, amount);
+      expect((await staking.getWithdrawRequests(owner.address))[0].amount).to.equal(0);
+      expect(await staking.unbondingTokenBalance()).to.equal(0);
+      expect(await staking.stakingTokenBalance()).to.equal(0);
+    });
+  });
+
+  describe("setLockOptions", function () {
+    it("Should revert if input arrays lengths differ", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.setLockOptions([ONE_MONTH], [])).to.be.revertedWithCustomError(staking, errors.invalidLockOptionsLength);
+      await expect(staking.setLockOptions([], [110])).to.be.revertedWithCustomError(staking, errors.invalidLockOptionsLength);
+    });
+    it("Should revert if durations are zero or not ordered", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.setLockOptions([0, ONE_MONTH], [100, 110])).to.be.revertedWithCustomError(staking, errors.invalidLockDurations);
+      await expect(staking.setLockOptions([SIX_MONTHS, ONE_MONTH], [130, 110])).to.be.revertedWithCustomError(staking, errors.invalidLockDurations);
+    });
+    it("Should revert if a multiplier is below the base multiplier or above the maximum", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.setLockOptions([ONE_MONTH, SIX_MONTHS], [99, 130])).to.be.revertedWithCustomError(staking, errors.invalidMultiplier);
+      await expect(staking.setLockOptions([ONE_MONTH, SIX_MONTHS], [110, maxMultiplier + 1n])).to.be.revertedWithCustomError(staking, errors.invalidMultiplier);
+      await staking.setLockOptions([ONE_MONTH, SIX_MONTHS], [100, maxMultiplier]);
+    });
+    it("Should replace the lock options", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+      await staking.setLockOptions([ONE_MONTH, ONE_YEAR], [105, 150]);
+
+      expect((await staking.getLockOptions()).map(({ duration, multiplier }) => [Number(duration), Number(multiplier)])).to.deep.equal([
+        [ONE_MONTH, 105],
+        [ONE_YEAR, 150],
+      ]);
+
+      await staking.setLockOptions([], []);
+      expect(await staking.getLockOptions()).to.be.empty;
+    });
+  });
+
+  describe("openPosition", function () {
+    it("Should revert if the contract is paused", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+
+      await staking.pause();
+
+      await expect(staking.openPosition(1, ONE_MONTH)).to.be.revertedWithCustomError(staking, errors.paused);
+    });
+    it("Should revert if the amount is zero or the lock duration is not in the lock table", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      await expect(staking.openPosition(0, ONE_MONTH)).to.be.revertedWithCustomError(staking, errors.invalidAmount);
+      await expect(staking.openPosition(1, TWO_MONTHS)).to.be.revertedWithCustomError(staking, errors.invalidLockDuration);
+    });
+    it("Should count the locked tokens in the staking cap", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const cap = await staking.stakingTokenCap();
+      await staking.stake(cap / 2n);
+      await staking.openPosition(cap - cap / 2n, ONE_MONTH);
+
+      await expect(staking.openPosition(1, ONE_MONTH)).to.be.revertedWithCustomError(staking, errors.cannotStakeMoreThanCap);
+      await expect(staking.stake(1)).to.be.revertedWithCustomError(staking, errors.cannotStakeMoreThanCap);
+    });
+    it("Should open independent positions with the multiplier fixed when opened", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      const openTx = await staking.openPosition(amount, ONE_MONTH);
+      const openTimestamp = (await openTx.getBlock())!.timestamp;
+      await expect(openTx).to.emit(staking, "PositionOpened").withArgs(owner.address, 0, amount, openTimestamp + ONE_MONTH, lockMultipliers[0]);
+      await staking.openPosition(2n * amount, ONE_YEAR);
+
+      // A new lock table does not change the open positions
+      await staking.setLockOptions(lockDurations, [100, 100, 100]);
+
+      const positions = await staking.getPositions(owner.address);
+      expect(positions.map(({ amount, multiplier }) => [amount, Number(multiplier)])).to.deep.equal([
+        [amount, lockMultipliers[0]],
+        [2n * amount, lockMultipliers[2]],
+      ]);
+      expect(positions[0].startTimestamp).to.equal(openTimestamp);
+      expect(positions[0].unlockTimestamp).to.equal(openTimestamp + ONE_MONTH);
+      expect(await staking.lockedTokenBalance()).to.equal(3n * amount);
+      expect(await staking.stakingTokenBalance()).to.equal(0);
+      expect((await staking.getStakeInfo(owner.address))._tokensStaked).to.equal(0);
+    });
+    it("Should keep the locked tokens out of the excess tokens", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      await staking.openPosition(100n, ONE_MONTH);
+
+      await expect(staking.withdrawExcessTokens(await stakingToken.getAddress(), 1n)).to.be.revertedWithCustomError(staking, errors.noExcessStakingToken);
+    });
+  });
+
+  describe("withdrawPosition", function () {
+    it("Should revert if the position does not exist, is still locked or was already withdrawn", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      await expect(staking.withdrawPosition(0)).to.be.revertedWithCustomError(staking, errors.invalidPositionId);
+
+      await staking.openPosition(stakeAmount(await stakingToken.decimals()), ONE_MONTH);
+      await time.increase(ONE_MONTH - 2);
+      await expect(staking.withdrawPosition(0)).to.be.revertedWithCustomError(staking, errors.positionLocked);
+
+      await time.increase(1);
+      await staking.withdrawPosition(0);
+      await expect(staking.withdrawPosition(0)).to.be.revertedWithCustomError(staking, errors.invalidAmount);
+    });
+    it("Should return the tokens and add the rewards to the unclaimed rewards", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.openPosition(amount, SIX_MONTHS);
+      await staking.openPosition(amount, ONE_MONTH);
+
+      // Withdrawing the shorter lock leaves the other position untouched
+      await time.increase(TWO_MONTHS);
+      const withdrawTx = staking.withdrawPosition(1);
+      await expect(withdrawTx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [-amount, amount]);
+
+      const [locked, withdrawn] = await staking.getPositions(owner.address);
+      const lockedRewards = await staking.getPositionRewards(owner.address, 0);
+      const rewards = (await staking.stakers(owner.address)).unclaimedRewards;
+
+      // The lock multiplier applies until the position unlocks, the base multiplier afterwards
+      const elapsed = Number(withdrawn.timeOfLastUpdate - withdrawn.startTimestamp);
+      const boostedDuration = BigInt(lockMultipliers[0] * ONE_MONTH + 100 * (elapsed - ONE_MONTH));
+      expect(rewards).to.equal((amount * boostedDuration * rewardRatioNumerator) / (rewardRatioDenominator * timeUnit * 100n));
+      await expect(withdrawTx).to.emit(staking, "PositionWithdrawn").withArgs(owner.address, 1, amount, rewards);
+
+      expect(withdrawn.amount).to.equal(0);
+      expect(locked.amount).to.equal(amount);
+      expect(lockedRewards).to.be.greaterThan(0);
+      expect(await staking.lockedTokenBalance()).to.equal(amount);
+      expect((await staking.getStakeInfo(owner.address))._rewards).to.equal(rewards);
+      expect(await staking.getPositionRewards(owner.address, 1)).to.equal(0);
+    });
+    it("Should return the principal while the contract is paused", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.openPosition(amount, ONE_MONTH);
+      await time.increase(ONE_MONTH);
+      await staking.pause();
+
+      await expect(staking.withdrawPosition(0)).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [-amount, amount]);
+      expect(await staking.lockedTokenBalance()).to.equal(0);
+      expect((await staking.stakers(owner.address)).unclaimedRewards).to.be.greaterThan(0);
+      await expect(staking.claimRewards()).to.be.revertedWithCustomError(staking, errors.paused);
+    });
+  });
+
+  describe("claimPositionRewards", function () {
+    it("Should revert if the position has no rewards or the contract misses rewards", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      await expect(staking.claimPositionRewards(0)).to.be.revertedWithCustomError(staking, errors.invalidPositionId);
+      await staking.openPosition(stakeAmount(await stakingToken.decimals()), ONE_YEAR);
+      await time.increase(ONE_MONTH);
+
+      await expect(staking.claimPositionRewards(0)).to.be.revertedWithCustomError(staking, errors.missingRewards);
+    });
+    it("Should pay the rewards at the lock multiplier and keep the position locked", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      const openTx = await staking.openPosition(amount, ONE_YEAR);
+      await stakingToken.transfer(await staking.getAddress(), amount);
+
+      await time.increase(SIX_MONTHS);
+      const claimTx = staking.claimPositionRewards(0);
+      const rewardAmount = calculateExpectedRewards(amount, lockMultipliers[2], (await (await claimTx).getBlock())!.timestamp - (await openTx.getBlock())!.timestamp);
+
+      await expect(claimTx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address], [-rewardAmount, rewardAmount]);
+      await expect(claimTx).to.emit(staking, "PositionRewardsClaimed").withArgs(owner.address, 0, rewardAmount);
+      expect(await staking.getPositionRewards(owner.address, 0)).to.equal(0);
+      expect((await staking.getPositions(owner.address))[0].amount).to.equal(amount);
+      await expect(staking.withdrawPosition(0)).to.be.revertedWithCustomError(staking, errors.positionLocked);
+    });
+  });
+
+  describe("getPastVotes", function () {
+    it("Should use block numbers like the LCD token", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      expect(await staking.clock()).to.equal(await time.latestBlock());
+      expect(await staking.CLOCK_MODE()).to.equal("mode=blocknumber&from=default");
+    });
+    it("Should checkpoint the staked balance on stake and withdraw", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      const stakeBlock = (await (await staking.stake(amount)).wait())!.blockNumber;
+      const withdrawBlock = (await (await staking.withdraw(amount / 4n)).wait())!.blockNumber;
+      await mine();
+
+      expect(await staking.getPastVotes(owner.address, stakeBlock - 1)).to.equal(0n);
+      expect(await staking.getPastVotes(owner.address, stakeBlock)).to.equal(amount);
+      expect(await staking.getPastVotes(owner.address, withdrawBlock)).to.equal(amount - amount / 4n);
+      expect(await staking.getPastTotalSupply(stakeBlock)).to.equal(amount);
+      expect(await staking.getPastTotalSupply(withdrawBlock)).to.equal(amount - amount / 4n);
+      expect(await staking.getVotes(owner.address)).to.equal(amount - amount / 4n);
+    });
+    it("Should checkpoint the emergency withdrawal", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      const stakeBlock = (await (await staking.stake(amount)).wait())!.blockNumber;
+      const emergencyWithdrawBlock = (await (await staking.emergencyWithdraw()).wait())!.blockNumber;
+      await mine();
+
+      expect(await staking.getPastVotes(owner.address, stakeBlock)).to.equal(amount);
+      expect(await staking.getPastVotes(owner.address, emergencyWithdrawBlock)).to.equal(0n);
+      expect(await staking.getPastTotalSupply(emergencyWithdrawBlock)).to.equal(0n);
+    });
+    it("Should count the locked positions and the compounded rewards but not the withdraw requests", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.stake(amount);
+      await staking.openPosition(amount, ONE_MONTH);
+      await staking.requestWithdraw(amount / 2n);
+      expect(await staking.getVotes(owner.address)).to.equal(amount + amount / 2n);
+
+      await staking.cancelWithdraw(0);
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await time.increase(ONE_MONTH);
+      await staking.compoundRewards();
+      expect(await staking.getVotes(owner.address)).to.equal((await staking.stakers(owner.address)).amountStaked + amount);
+
+      await staking.withdrawPosition(0);
+      expect(await staking.getVotes(owner.address)).to.equal((await staking.stakers(owner.address)).amountStaked);
+      expect(await staking.getVotes(owner.address)).to.be.greaterThan(amount);
+    });
+    it("Should revert above the largest amount the vote checkpoints hold", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      await staking.setStakingTokenCap(MaxUint256);
+
+      await staking.stake(2n ** 208n - 1n);
+
+      await expect(staking.stake(1n)).to.be.revertedWithPanic(0x11);
+    });
+  });
+
+  describe("delegate", function () {
+    it("Should count the votes of a staker for themselves until they delegate", async function () {
+      const { staking, stakingToken, owner, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.stake(amount);
+      expect(await staking.delegates(owner.address)).to.equal(owner.address);
+
+      const delegateTx = staking.delegate(otherAccount.address);
+      await expect(delegateTx).to.emit(staking, "DelegateChanged").withArgs(owner.address, owner.address, otherAccount.address);
+      await expect(delegateTx).to.emit(staking, "DelegateVotesChanged").withArgs(otherAccount.address, 0n, amount);
+
+      await staking.stake(amount);
+      expect(await staking.getVotes(owner.address)).to.equal(0n);
+      expect(await staking.getVotes(otherAccount.address)).to.equal(2n * amount);
+    });
+    it("Should give the votes back to the staker when delegating to the zero address", async function () {
+      const { staking, stakingToken, owner, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.stake(amount);
+      await staking.delegate(otherAccount.address);
+      await staking.delegate(ZeroAddress);
+
+      expect(await staking.delegates(owner.address)).to.equal(owner.address);
+      expect(await staking.getVotes(owner.address)).to.equal(amount);
+      expect(await staking.getVotes(otherAccount.address)).to.equal(0n);
+
+      await staking.withdraw(amount);
+      expect(await staking.getVotes(owner.address)).to.equal(0n);
+    });
+    it("Should move the locked positions along with the flexible stake when delegating", async function () {
+      const { staking, stakingToken, owner, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+
+      await staking.stake(100n);
+      await staking.openPosition(200n, ONE_MONTH);
+      await staking.openPosition(300n, SIX_MONTHS);
+
+      await expect(staking.delegate(otherAccount.address)).to.emit(staking, "DelegateVotesChanged").withArgs(otherAccount.address, 0n, 600n);
+
+      await time.increase(ONE_MONTH);
+      await staking.withdrawPosition(0);
+      await staking.delegate(owner.address);
+      expect(await staking.getVotes(otherAccount.address)).to.equal(0n);
+      expect(await staking.getVotes(owner.address)).to.equal(400n);
+    });
+  });
+
+  describe("transferStake", function () {
+    it("Should deploy a receipt token in the decimals of the staking token", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+
+      const receipt = await hre.ethers.getContractAt("StakingReceipt", await staking.receipt());
+
+      expect(await receipt.name()).to.equal(`Staked ${await stakingToken.name()}`);
+      expect(await receipt.symbol()).to.equal(`s${await stakingToken.symbol()}`);
+      expect(await receipt.decimals()).to.equal(await stakingToken.decimals());
+      expect(await receipt.staking()).to.equal(await staking.getAddress());
+    });
+    it("Should revert if not called by the receipt token", async function () {
+      const { staking, owner, otherAccount } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.transferStake(owner.address, otherAccount.address, 1n)).to.be.revertedWithCustomError(staking, errors.callerNotReceipt);
+    });
+    it("Should revert if receipts are minted or burned by another account", async function () {
+      const { staking, owner } = await loadFixture(deployStakingFixture);
+
+      const receipt = await hre.ethers.getContractAt("StakingReceipt", await staking.receipt());
+
+      await expect(receipt.mint(owner.address, 1n)).to.be.revertedWithCustomError(receipt, errors.callerNotStaking);
+      await expect(receipt.burn(owner.address, 1n)).to.be.revertedWithCustomError(receipt, errors.callerNotStaking);
+    });
+    it("Should mint and burn receipts along with the flexible stake", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await staking.setLockOptions(lockDurations, lockMultipliers);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const receipt = await hre.ethers.getContractAt("StakingReceipt", await staking.receipt());
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.stake(amount);
+      await staking.openPosition(amount, ONE_MONTH);
+      expect(await receipt.balanceOf(owner.address)).to.equal(amount);
+
+      await staking.requestWithdraw(amount / 2n);
+      expect(await receipt.balanceOf(owner.address)).to.equal(amount / 2n);
+      await staking.cancelWithdraw(0);
+      expect(await receipt.balanceOf(owner.address)).to.equal(amount);
+
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await time.increase(ONE_MONTH);
+      await staking.compoundRewards();
+      expect(await receipt.balanceOf(owner.address)).to.equal((await staking.stakers(owner.address)).amountStaked);
+
+      await staking.withdraw(amount / 4n);
+      expect(await receipt.balanceOf(owner.address)).to.equal((await staking.stakers(owner.address)).amountStaked);
+      await staking.emergencyWithdraw();
+      expect(await receipt.balanceOf(owner.address)).to.equal(0n);
+      expect(await receipt.totalSupply()).to.equal(0n);
+    });
+    it("Should revert if the contract is paused", async function () {
+      const { staking, stakingToken, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const receipt = await hre.ethers.getContractAt("StakingReceipt", await staking.receipt());
+      await staking.stake(100n);
+      await staking.pause();
+
+      await expect(receipt.transfer(otherAccount.address, 100n)).to.be.revertedWithCustomError(staking, errors.paused);
+    });
+    it("Should revert above the receipt balance", async function () {
+      const { staking, stakingToken, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const receipt = await hre.ethers.getContractAt("StakingReceipt", await staking.receipt());
+      await staking.stake(100n);
+
+      await expect(receipt.transfer(otherAccount.address, 101n)).to.be.revertedWithCustomError(receipt, errors.insufficientReceiptBalance);
+    });
+    it("Should revert if the receiver is the Staking contract or the receipt contract", async function () {
+      const { staking, stakingToken, owner, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const receipt = await hre.ethers.getContractAt("StakingReceipt", await staking.receipt());
+      await staking.stake(100n);
+      await receipt.approve(otherAccount.address, 100n);
+
+      await expect(receipt.transfer(await staking.getAddress(), 1n))
+        .to.be.revertedWithCustomError(receipt, errors.invalidReceiptReceiver)
+        .withArgs(await staking.getAddress());
+      await expect(receipt.transfer(await receipt.getAddress(), 1n))
+        .to.be.revertedWithCustomError(receipt, errors.invalidReceiptReceiver)
+        .withArgs(await receipt.getAddress());
+      await expect(receipt.connect(otherAccount).transferFrom(owner.address, await staking.getAddress(), 1n)).to.be.revertedWithCustomError(
+        receipt,
+        errors.invalidReceiptReceiver
+      );
+      expect(await receipt.balanceOf(owner.address)).to.equal(100n);
+    });
+    it("Should settle the rewards of the sender and move the stake and the votes", async function () {
+      const { staking, stakingToken, owner, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const receipt = await hre.ethers.getContractAt("StakingReceipt", await staking.receipt());
+      const amount = stakeAmount(await stakingToken.decimals());
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      const stakeTimestamp = (await (await staking.stake(amount)).getBlock())!.timestamp;
+      await time.increase(ONE_MONTH);
+
+      const transferTx = receipt.transfer(otherAccount.address, amount / 2n);
+      await expect(transferTx).to.changeTokenBalances(stakingToken, [await staking.getAddress(), owner.address, otherAccount.address], [0, 0, 0]);
+      await expect(transferTx).to.emit(staking, "StakeTransferred").withArgs(owner.address, otherAccount.address, amount / 2n);
+      const transferTimestamp = (await (await transferTx).getBlock())!.timestamp;
+      const senderRewards = calculateExpectedRewards(amount, 100, transferTimestamp - stakeTimestamp);
+
+      expect((await staking.stakers(owner.address)).unclaimedRewards).to.equal(senderRewards);
+      expect((await staking.stakers(owner.address)).amountStaked).to.equal(amount / 2n);
+      expect((await staking.stakers(otherAccount.address)).amountStaked).to.equal(amount / 2n);
+      expect((await staking.stakers(otherAccount.address)).timeOfLastUpdate).to.equal(transferTimestamp);
+      expect(await staking.stakingTokenBalance()).to.equal(amount);
+      // The weights of the sender and the receiver accrue rewards rounded down separately, which may count one more wei
+      expect(await staking.rewardLiabilities()).to.be.closeTo(senderRewards, 1n);
+      expect(await staking.getVotes(owner.address)).to.equal(amount / 2n);
+      expect(await staking.getVotes(otherAccount.address)).to.equal(amount / 2n);
+
+      await time.increase(ONE_MONTH);
+      const elapsed = (await time.latest()) - transferTimestamp;
+      expect((await staking.getStakeInfo(owner.address))._rewards).to.equal(senderRewards + calculateExpectedRewards(amount / 2n, 100, elapsed));
+      expect((await staking.getStakeInfo(otherAccount.address))._rewards).to.equal(calculateExpectedRewards(amount / 2n, 100, elapsed));
+
+      // The receiver withdraws the transferred stake like their own
+      await expect(staking.connect(otherAccount).withdraw(amount / 2n)).to.changeTokenBalance(stakingToken, otherAccount.address, amount / 2n);
+      expect(await receipt.balanceOf(otherAccount.address)).to.equal(0n);
+    });
+    it("Should restart the boost of the sender and keep or start the boost of the receiver", async function () {
+      const { staking, stakingToken, owner, otherAccount, users } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const receipt = await hre.ethers.getContractAt("StakingReceipt", await staking.receipt());
+      const amount = minStakingBoostAmount(await stakingToken.decimals());
+      await stakingToken.transfer(otherAccount.address, amount);
+      await stakingToken.connect(otherAccount).approve(await staking.getAddress(), MaxUint256);
+      await staking.stake(2n * amount);
+      const receiverStakeTimestamp = (await (await staking.connect(otherAccount).stake(amount)).getBlock())!.timestamp;
+      await time.increase(ONE_MONTH);
+
+      const transferTimestamp = (await (await receipt.transfer(otherAccount.address, 1n)).getBlock())!.timestamp;
+      expect((await staking.stakers(owner.address)).timeOfLastBoostUpdate).to.equal(transferTimestamp);
+      expect((await staking.stakers(otherAccount.address)).timeOfLastBoostUpdate).to.equal(receiverStakeTimestamp);
+
+      await receipt.transfer(users[0].address, amount - 1n);
+      expect((await staking.stakers(users[0].address)).timeOfLastBoostUpdate).to.equal(0);
+      const boostTimestamp = (await (await receipt.transfer(users[0].address, 1n)).getBlock())!.timestamp;
+      expect((await staking.stakers(users[0].address)).timeOfLastBoostUpdate).to.equal(boostTimestamp);
+    });
+    it("Should move the stake with an allowance", async function () {
+      const { staking, stakingToken, owner, otherAccount } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const receipt = await hre.ethers.getContractAt("StakingReceipt", await staking.receipt());
+      await staking.stake(100n);
+      await receipt.approve(otherAccount.address, 60n);
+
+      await expect(receipt.connect(otherAccount).transferFrom(owner.address, otherAccount.address, 60n))
+        .to.emit(staking, "StakeTransferred")
+        .withArgs(owner.address, otherAccount.address, 60n);
+      expect((await staking.stakers(owner.address)).amountStaked).to.equal(40n);
+      expect((await staking.stakers(otherAccount.address)).amountStaked).to.equal(60n);
+      expect(await receipt.allowance(owner.address, otherAccount.address)).to.equal(0n);
+    });
+  });
+
+  describe("withdrawExcessTokens", function () {
+    it("Should revert if user tries to withdraw zero address token", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.withdrawExcessTokens(ZeroAddress, 0)).to.be.revertedWithCustomError(staking, errors.invalidTokenAddress);
+    });
+    it("Should revert if user tries to withdraw zero token", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.withdrawExcessTokens(await stakingToken.getAddress(), 0)).to.be.revertedWithCustomError(staking, errors.invalidAmount);
     });
     it("Should allow withdrawals of non-staking tokens up to all the balance", async function () {
       const { staking, owner } = await loadFixture(deployStakingFixture);
@@ -498,6 +1674,7 @@ describe("Staking", function () {
       await stakingToken.approve(await staking.getAddress(), MaxUint256);
 
       const amount = stakeAmount(await stakingToken.decimals());
+      await staking.fundRewards(amount);
       await staking.stake(amount);
 
       await stakingToken.transfer(await staking.getAddress(), 100n);
@@ -515,6 +1692,95 @@ describe("Staking", function () {
 
       await expect(staking.withdrawExcessTokens(await stakingToken.getAddress(), 1n)).to.be.revertedWithCustomError(staking, errors.noExcessStakingToken);
     });
+    it("Should not withdraw the reward reserve", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      await staking.fundRewards(100n);
+      await expect(staking.withdrawExcessTokens(await stakingToken.getAddress(), 1n)).to.be.revertedWithCustomError(staking, errors.noExcessStakingToken);
+
+      await stakingToken.transfer(await staking.getAddress(), 10n);
+      expect(await staking.getFreeSurplus()).to.equal(10n);
+      await expect(staking.withdrawExcessTokens(await stakingToken.getAddress(), 11n)).to.be.revertedWithCustomError(staking, errors.withdrawAmountExceedsLimit);
+      await staking.withdrawExcessTokens(await stakingToken.getAddress(), 10n);
+      expect(await staking.rewardReserve()).to.equal(100n);
+    });
+    it("Should not withdraw the rewards owed to stakers", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await staking.stake(amount);
+      await time.increase(ONE_MONTH);
+      await staking.withdraw(amount);
+
+      const { unclaimedRewards } = await staking.stakers(owner.address);
+      expect(await staking.getFreeSurplus()).to.equal(amount - unclaimedRewards);
+      await expect(staking.withdrawExcessTokens(await stakingToken.getAddress(), amount)).to.be.revertedWithCustomError(staking, errors.withdrawAmountExceedsLimit);
+      await staking.withdrawExcessTokens(await stakingToken.getAddress(), amount - unclaimedRewards);
+
+      await expect(staking.claimRewards()).to.emit(staking, "RewardsClaimed").withArgs(owner.address, unclaimedRewards);
+    });
+    it("Should not withdraw the rewards accrued since the last update of the stakers", async function () {
+      const { staking, stakingToken } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      const stakeTimestamp = (await (await staking.stake(amount)).getBlock())!.timestamp;
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await time.increase(ONE_MONTH);
+
+      // The flexible stake counts at the maximum multiplier until its rewards are credited
+      const accruedRewards = calculateExpectedRewards(amount, Number(maxMultiplier), (await time.latest()) - stakeTimestamp);
+      expect(accruedRewards).to.be.greaterThan(0n);
+      expect(await staking.rewardLiabilities()).to.be.closeTo(accruedRewards, 1n);
+      expect(await staking.getFreeSurplus()).to.equal(amount - (await staking.rewardLiabilities()));
+      await expect(staking.withdrawExcessTokens(await stakingToken.getAddress(), amount)).to.be.revertedWithCustomError(staking, errors.withdrawAmountExceedsLimit);
+    });
+    it("Should not withdraw the boosted rewards of a staker before they are credited", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      await staking.setTiers([ONE_DAY], [maxMultiplier]);
+
+      const amount = stakeAmount(await stakingToken.decimals());
+      const stakeTimestamp = (await (await staking.stake(amount)).getBlock())!.timestamp;
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await time.increase(ONE_MONTH);
+
+      const [, pendingRewards] = await staking.getStakeInfo(owner.address);
+      expect(pendingRewards).to.be.greaterThan(calculateExpectedRewards(amount, 100, (await time.latest()) - stakeTimestamp));
+      expect(await staking.rewardLiabilities()).to.be.greaterThan(pendingRewards);
+
+      // The liabilities keep accruing until the withdrawal is mined, a second later
+      const nextSecondRewards = calculateExpectedRewards(amount, Number(maxMultiplier), 1) + 1n;
+      await staking.withdrawExcessTokens(await stakingToken.getAddress(), (await staking.getFreeSurplus()) - nextSecondRewards);
+      await expect(staking.claimRewards()).to.emit(staking, "RewardsClaimed");
+      expect((await staking.stakers(owner.address)).unclaimedRewards).to.equal(0n);
+    });
+    it("Should not withdraw the funded balance of a reward stream", async function () {
+      const { staking, rewardToken, owner } = await loadFixture(deployRewardStreamFixture);
+
+      await staking.fundRewardStream(0, 100n);
+      await rewardToken.transfer(await staking.getAddress(), 10n);
+
+      await expect(staking.withdrawExcessTokens(await rewardToken.getAddress(), 11n)).to.be.revertedWithCustomError(staking, errors.withdrawAmountExceedsLimit);
+      await expect(staking.withdrawExcessTokens(await rewardToken.getAddress(), 10n)).to.changeTokenBalances(
+        rewardToken,
+        [await staking.getAddress(), owner.address],
+        [-10n, 10n]
+      );
+    });
+    it("Should revert instead of underflowing when the held balance is below the funded balance of a stream", async function () {
+      const { staking, rewardToken } = await loadFixture(deployRewardStreamFixture);
+
+      await staking.fundRewardStream(0, 100n);
+      // Drops the balance of the Staking contract to 90, stored in the first slot mapping of the OZ 4 ERC20
+      const balanceSlot = keccak256(AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [await staking.getAddress(), 0]));
+      await setStorageAt(await rewardToken.getAddress(), balanceSlot, 90n);
+
+      await expect(staking.withdrawExcessTokens(await rewardToken.getAddress(), 1n)).to.be.revertedWithCustomError(staking, errors.withdrawAmountExceedsLimit);
+    });
   });
 
   describe("setTiers", function () {
@@ -534,22 +1800,29 @@ describe("Staking", function () {
     it("Should revert if durations array is not ordered", async function () {
       const { staking } = await loadFixture(deployStakingFixture);
 
-      await expect(staking.setTiers([0, 100, 300, 200], [0, 100, 125, 150])).to.be.revertedWithCustomError(staking, errors.invalidTiersDurations);
+      await expect(staking.setTiers([0, 100, 300, 200], [100, 110, 125, 150])).to.be.revertedWithCustomError(staking, errors.invalidTiersDurations);
+    });
+    it("Should revert if a multiplier is below the base multiplier or above the maximum", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.setTiers([0, 100], [99, 110])).to.be.revertedWithCustomError(staking, errors.invalidMultiplier);
+      await expect(staking.setTiers([0, 100], [100, maxMultiplier + 1n])).to.be.revertedWithCustomError(staking, errors.invalidMultiplier);
+      await staking.setTiers([0, 100], [100, maxMultiplier]);
     });
     it("Should update tiers", async function () {
       const { staking } = await loadFixture(deployStakingFixture);
 
-      await staking.setTiers([0, 100, 200, 300], [0, 100, 125, 150]);
+      await staking.setTiers([0, 100, 200, 300], [100, 110, 125, 150]);
 
-      await staking.setTiers([0, 100, 200], [0, 100, 125]);
+      await staking.setTiers([0, 100, 200], [100, 110, 125]);
 
       let tier = await staking.tiers(0)
       expect(tier.minStakingDuration).to.equal(0n)
-      expect(tier.multiplier).to.equal(0n)
+      expect(tier.multiplier).to.equal(100n)
 
       tier = await staking.tiers(1)
       expect(tier.minStakingDuration).to.equal(100n)
-      expect(tier.multiplier).to.equal(100n)
+      expect(tier.multiplier).to.equal(110n)
 
       tier = await staking.tiers(2)
       expect(tier.minStakingDuration).to.equal(200n)
@@ -557,6 +1830,114 @@ describe("Staking", function () {
 
       await expect(staking.tiers(3)).to.be.reverted
     });
+    it("Should keep the past tier sets readable", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+      const deployTimestamp = await time.latest();
+
+      const firstTimestamp = (await (await staking.setTiers(tiersDurations, tiersMultipliers)).getBlock())!.timestamp;
+      await time.increase(ONE_MONTH);
+      const secondTimestamp = (await (await staking.setTiers([ONE_MONTH], [200])).getBlock())!.timestamp;
+
+      expect(await staking.getTierSetCount()).to.equal(3n);
+
+      const [initial, first, second] = await Promise.all([0, 1, 2].map((tierSetId) => staking.getTierSet(tierSetId)));
+      expect([initial.startTimestamp, initial.endTimestamp, initial.tiers.length]).to.deep.equal([BigInt(deployTimestamp), BigInt(firstTimestamp), 0]);
+      expect([first.startTimestamp, first.endTimestamp]).to.deep.equal([BigInt(firstTimestamp), BigInt(secondTimestamp)]);
+      expect(first.tiers.map(({ multiplier }) => Number(multiplier))).to.deep.equal(tiersMultipliers);
+      expect([second.startTimestamp, second.endTimestamp]).to.deep.equal([BigInt(secondTimestamp), 0n]);
+      expect(second.tiers.map(({ minStakingDuration, multiplier }) => [Number(minStakingDuration), Number(multiplier)])).to.deep.equal([[ONE_MONTH, 200]]);
+
+      expect(await staking.getTierSetIdAt(0)).to.equal(0n);
+      expect(await staking.getTierSetIdAt(firstTimestamp - 1)).to.equal(0n);
+      expect(await staking.getTierSetIdAt(firstTimestamp)).to.equal(1n);
+      expect(await staking.getTierSetIdAt(secondTimestamp - 1)).to.equal(1n);
+      expect(await staking.getTierSetIdAt(secondTimestamp)).to.equal(2n);
+
+      await expect(staking.getTierSet(3)).to.be.revertedWithCustomError(staking, errors.invalidTierSetId);
+    });
+    it("Should only apply new tiers to the rewards accrued from then on", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      const amount = minStakingBoostAmount(await stakingToken.decimals());
+
+      await staking.setTiers(tiersDurations, tiersMultipliers);
+      await stakingToken.approve(await staking.getAddress(), amount);
+      const stakeTimestamp = (await (await staking.stake(amount)).getBlock())!.timestamp;
+
+      await time.increase(TWO_MONTHS);
+      const newMultipliers = tiersMultipliers.map((multiplier) => 2 * multiplier);
+      const changeTime = (await (await staking.setTiers(tiersDurations, newMultipliers)).getBlock())!.timestamp - stakeTimestamp;
+
+      // Rewards earned so far keep the multipliers in force when they accrued
+      const earnedBeforeChange = calculateExpectedTieredRewards(amount, tiersDurations, tiersMultipliers, 0, changeTime);
+      expect((await staking.getStakeInfo(owner.address))._rewards).to.equal(earnedBeforeChange);
+
+      await time.increase(ONE_MONTH);
+      const now = (await time.latest()) - stakeTimestamp;
+      const earnedAfterChange = calculateExpectedTieredRewards(amount, tiersDurations, newMultipliers, changeTime, now);
+      expect((await staking.getStakeInfo(owner.address))._rewards).to.be.closeTo(earnedBeforeChange + earnedAfterChange, 1n);
+      expect(await staking.getCurrentMultiplier(owner.address)).to.equal(newMultipliers[1]);
+    });
+    it("Should schedule the tiers at the end of the notice delay and apply them from then on", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+      const amount = minStakingBoostAmount(await stakingToken.decimals());
+
+      await staking.setMinNoticeDelay(ONE_MONTH);
+      await stakingToken.approve(await staking.getAddress(), amount);
+      const stakeTimestamp = (await (await staking.stake(amount)).getBlock())!.timestamp;
+
+      await time.setNextBlockTimestamp(stakeTimestamp + ONE_DAY);
+      const scheduleTx = staking.setTiers(tiersDurations, tiersMultipliers);
+      const effectiveTimestamp = stakeTimestamp + ONE_DAY + ONE_MONTH;
+      await expect(scheduleTx).to.emit(staking, "TiersScheduled").withArgs(1n, effectiveTimestamp);
+      await expect(scheduleTx).not.to.emit(staking, "TiersSet");
+
+      // The scheduled set is readable, but the empty set stays in force until the effective timestamp
+      const scheduled = await staking.getTierSet(1);
+      expect([scheduled.startTimestamp, scheduled.endTimestamp]).to.deep.equal([BigInt(effectiveTimestamp), 0n]);
+      expect((await staking.getTierSet(0)).endTimestamp).to.equal(BigInt(effectiveTimestamp));
+      await expect(staking.tiers(0)).to.be.reverted;
+      await expect(staking.setTiers([ONE_MONTH], [200])).to.be.revertedWithCustomError(staking, errors.changeAlreadyScheduled);
+      await time.increaseTo(effectiveTimestamp - 1);
+      expect(await staking.getCurrentMultiplier(owner.address)).to.equal(100n);
+
+      await time.increaseTo(stakeTimestamp + SIX_MONTHS);
+      expect((await staking.tiers(0)).multiplier).to.equal(BigInt(tiersMultipliers[0]));
+      const changeTime = effectiveTimestamp - stakeTimestamp;
+      const expectedRewards =
+        calculateExpectedRewards(amount, 100, changeTime) + calculateExpectedTieredRewards(amount, tiersDurations, tiersMultipliers, changeTime, SIX_MONTHS);
+      expect((await staking.getStakeInfo(owner.address))._rewards).to.be.closeTo(expectedRewards, 1n);
+      expect(await staking.getCurrentMultiplier(owner.address)).to.equal(BigInt(tiersMultipliers[2]));
+    });
+  });
+
+  describe("cancelScheduledTiers", function () {
+    it("Should revert if no tier change is scheduled", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.cancelScheduledTiers()).to.be.revertedWithCustomError(staking, errors.noScheduledChange);
+
+      await staking.setTiers(tiersDurations, tiersMultipliers);
+      await expect(staking.cancelScheduledTiers()).to.be.revertedWithCustomError(staking, errors.noScheduledChange);
+    });
+    it("Should drop the scheduled tiers and keep the current ones in force", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await staking.setTiers(tiersDurations, tiersMultipliers);
+      await staking.setMinNoticeDelay(ONE_WEEK);
+      await staking.setTiers([ONE_MONTH], [200]);
+      const effectiveTimestamp = (await staking.getTierSet(2)).startTimestamp;
+
+      await expect(staking.cancelScheduledTiers()).to.emit(staking, "ScheduledTiersCancelled").withArgs(effectiveTimestamp);
+      expect(await staking.getTierSetCount()).to.equal(2n);
+      expect((await staking.getTierSet(1)).endTimestamp).to.equal(0n);
+      await expect(staking.getTierSet(2)).to.be.revertedWithCustomError(staking, errors.invalidTierSetId);
+
+      // A new schedule starts from an empty set instead of the cancelled tiers
+      await staking.setTiers([ONE_WEEK, ONE_MONTH], [110, 120]);
+      expect((await staking.getTierSet(2)).tiers.map(({ multiplier }) => multiplier)).to.deep.equal([110n, 120n]);
+      await time.increase(ONE_WEEK);
+      expect((await staking.tiers(1)).multiplier).to.equal(120n);
+    });
   });
 
   describe("setStakingTokenCap", function () {
@@ -629,6 +2010,141 @@ describe("Staking", function () {
       const staker = await staking.stakers(owner.address);
       expect(staker.conditionIdOfLastUpdate).to.equal(1);
     });
+    it("Should accrue the rewards of every reward ratio since the last update", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.stake(amount);
+      const stakeTimestamp = await time.latest();
+
+      await time.setNextBlockTimestamp(stakeTimestamp + ONE_MONTH);
+      await staking.setRewardRatio(700n);
+      await time.setNextBlockTimestamp(stakeTimestamp + THREE_MONTHS);
+      await staking.setRewardRatio(100n);
+      await time.increaseTo(stakeTimestamp + SIX_MONTHS);
+
+      const rewardRatioSeconds = rewardRatioNumerator * BigInt(ONE_MONTH) + 700n * BigInt(TWO_MONTHS) + 100n * BigInt(THREE_MONTHS);
+      const { _rewards } = await staking.getStakeInfo(owner.address);
+      expect(_rewards).to.equal((amount * rewardRatioSeconds) / (rewardRatioDenominator * timeUnit));
+    });
+    it("Should schedule the reward ratio at the end of the notice delay", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await staking.setMinNoticeDelay(ONE_WEEK);
+      const scheduleTx = staking.setRewardRatio(700n);
+      const effectiveTimestamp = (await (await scheduleTx).getBlock())!.timestamp + ONE_WEEK;
+      await expect(scheduleTx).to.emit(staking, "RewardRatioScheduled").withArgs(700n, effectiveTimestamp);
+      await expect(scheduleTx).not.to.emit(staking, "UpdatedRewardRatio");
+
+      expect((await staking.getRewardRatio())._numerator).to.equal(rewardRatioNumerator);
+      expect(await staking.getScheduledRewardRatio()).to.deep.equal([700n, BigInt(effectiveTimestamp)]);
+      await expect(staking.setRewardRatio(100n)).to.be.revertedWithCustomError(staking, errors.changeAlreadyScheduled);
+
+      await time.increaseTo(effectiveTimestamp);
+      expect((await staking.getRewardRatio())._numerator).to.equal(700n);
+      expect(await staking.getScheduledRewardRatio()).to.deep.equal([0n, 0n]);
+      await expect(staking.setRewardRatio(100n)).to.emit(staking, "RewardRatioScheduled");
+    });
+    it("Should start the scheduled reward ratio at the effective timestamp", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+
+      await staking.setMinNoticeDelay(ONE_MONTH);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.stake(amount);
+      const stakeTimestamp = await time.latest();
+
+      await time.setNextBlockTimestamp(stakeTimestamp + ONE_WEEK);
+      await staking.setRewardRatio(700n);
+
+      // Updates during the notice delay stay on the condition in force
+      await time.setNextBlockTimestamp(stakeTimestamp + TWO_MONTHS - ONE_MONTH);
+      await staking.stake(1n);
+      expect((await staking.stakers(owner.address)).conditionIdOfLastUpdate).to.equal(0n);
+      await time.increaseTo(stakeTimestamp + SIX_MONTHS);
+
+      const effectiveTime = ONE_WEEK + ONE_MONTH;
+      const rewardRatioSeconds = rewardRatioNumerator * BigInt(effectiveTime) + 700n * BigInt(SIX_MONTHS - effectiveTime);
+      const { _rewards } = await staking.getStakeInfo(owner.address);
+      expect(_rewards).to.be.closeTo((amount * rewardRatioSeconds) / (rewardRatioDenominator * timeUnit), 1n);
+      expect(await staking.calculateAPR()).to.equal((700n * (amount + 1n)) / rewardRatioDenominator);
+    });
+  });
+
+  describe("cancelScheduledRewardRatio", function () {
+    it("Should revert if no reward ratio change is scheduled", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.cancelScheduledRewardRatio()).to.be.revertedWithCustomError(staking, errors.noScheduledChange);
+
+      await staking.setRewardRatio(700n);
+      await expect(staking.cancelScheduledRewardRatio()).to.be.revertedWithCustomError(staking, errors.noScheduledChange);
+    });
+    it("Should keep the current reward ratio for the rewards of the whole period", async function () {
+      const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
+
+      await staking.setMinNoticeDelay(ONE_WEEK);
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      const amount = stakeAmount(await stakingToken.decimals());
+      await staking.stake(amount);
+      const stakeTimestamp = await time.latest();
+
+      await staking.setRewardRatio(700n);
+      const [, effectiveTimestamp] = await staking.getScheduledRewardRatio();
+      await expect(staking.cancelScheduledRewardRatio()).to.emit(staking, "ScheduledRewardRatioCancelled").withArgs(700n, effectiveTimestamp);
+      expect(await staking.getScheduledRewardRatio()).to.deep.equal([0n, 0n]);
+
+      // The next change is scheduled on top of the condition in force
+      await time.setNextBlockTimestamp(stakeTimestamp + ONE_MONTH);
+      await staking.setRewardRatio(100n);
+      await time.increaseTo(stakeTimestamp + SIX_MONTHS);
+
+      const effectiveTime = ONE_MONTH + ONE_WEEK;
+      const rewardRatioSeconds = rewardRatioNumerator * BigInt(effectiveTime) + 100n * BigInt(SIX_MONTHS - effectiveTime);
+      const { _rewards } = await staking.getStakeInfo(owner.address);
+      expect(_rewards).to.equal((amount * rewardRatioSeconds) / (rewardRatioDenominator * timeUnit));
+    });
+  });
+
+  describe("setMinNoticeDelay", function () {
+    it("Should set the notice delay and keep the scheduled changes", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      await expect(staking.setMinNoticeDelay(ONE_WEEK)).to.emit(staking, "MinNoticeDelaySet").withArgs(ONE_WEEK);
+      expect(await staking.minNoticeDelay()).to.equal(BigInt(ONE_WEEK));
+
+      await staking.setRewardRatio(700n);
+      const scheduled = await staking.getScheduledRewardRatio();
+      await staking.setMinNoticeDelay(0);
+      expect(await staking.getScheduledRewardRatio()).to.deep.equal(scheduled);
+    });
+    it("Should revert if the notice delay exceeds the maximum", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+
+      const maxNoticeDelay = await staking.MAX_NOTICE_DELAY();
+      await expect(staking.setMinNoticeDelay(maxNoticeDelay + 1n)).to.be.revertedWithCustomError(staking, errors.invalidNoticeDelay);
+      await staking.setMinNoticeDelay(maxNoticeDelay);
+      expect(await staking.minNoticeDelay()).to.equal(maxNoticeDelay);
+    });
+    it("Should apply a new notice delay only once the current one has passed", async function () {
+      const { staking } = await loadFixture(deployStakingFixture);
+      await staking.setMinNoticeDelay(ONE_WEEK);
+
+      const setTx = await staking.setMinNoticeDelay(0);
+      const effectiveTimestamp = (await setTx.getBlock())!.timestamp + ONE_WEEK;
+      await expect(setTx).to.emit(staking, "MinNoticeDelayScheduled").withArgs(0, effectiveTimestamp);
+      expect(await staking.minNoticeDelay()).to.equal(BigInt(ONE_WEEK));
+      expect(await staking.getScheduledMinNoticeDelay()).to.deep.equal([0n, BigInt(effectiveTimestamp)]);
+
+      // A reward ratio change sent before the new delay applies still gets the current notice
+      const ratioTx = await staking.setRewardRatio(700n);
+      await expect(ratioTx).to.emit(staking, "RewardRatioScheduled").withArgs(700n, (await ratioTx.getBlock())!.timestamp + ONE_WEEK);
+
+      await time.increaseTo(effectiveTimestamp);
+      expect(await staking.minNoticeDelay()).to.equal(0n);
+      expect(await staking.getScheduledMinNoticeDelay()).to.deep.equal([0n, 0n]);
+    });
   });
 
   describe("calculateAPR", function () {
@@ -864,7 +2380,8 @@ describe("Staking", function () {
         const stakeTx2 = await staking.stake(stakeAmount);
 
         // Calculate expected rewards based on simulated conditions and test logic
-        const expectedRewards = calculateExpectedRewards(stakeAmount, tiersMultipliers[0], ((await stakeTx2.getBlock())?.timestamp || 0) - ((await stakeTx1.getBlock())?.timestamp || 0));
+        // The first tier multiplier only applies to the day spent past the boundary
+        const expectedRewards = calculateExpectedTieredRewards(stakeAmount, tiersDurations, tiersMultipliers, 0, ((await stakeTx2.getBlock())?.timestamp || 0) - ((await stakeTx1.getBlock())?.timestamp || 0));
 
         // Check rewards calculation at the boundary
         const finalRewards = await staking.getStakeInfo(owner.address);
@@ -902,7 +2419,8 @@ describe("Staking", function () {
 
         await time.increase(2 * ONE_DAY); // crossing into the second tier
         const stakeTx3 = await staking.stake(stakeAmount);
-        expectedRewards += calculateExpectedRewards(2n * stakeAmount, stakeAmount > 100 ? tiersMultipliers[0] : 100, ((await stakeTx3.getBlock())?.timestamp || 0) - ((await stakeTx2.getBlock())?.timestamp || 0));
+        const stakeTimestamp = (await stakeTx1.getBlock())?.timestamp || 0;
+        expectedRewards += calculateExpectedTieredRewards(2n * stakeAmount, tiersDurations, tiersMultipliers, ((await stakeTx2.getBlock())?.timestamp || 0) - stakeTimestamp, ((await stakeTx3.getBlock())?.timestamp || 0) - stakeTimestamp);
         partialRewards = await staking.getStakeInfo(owner.address).then((info) => info._rewards);
         expect(partialRewards).to.equal(BigInt(expectedRewards));
 
@@ -910,7 +2428,7 @@ describe("Staking", function () {
 
         // Calculate expected rewards based on simulated conditions and test logic
         now = (await hre.ethers.provider.getBlock("latest"))?.timestamp || 0
-        expectedRewards += calculateExpectedRewards(3n * stakeAmount, tiersMultipliers[0], now - ((await stakeTx3.getBlock())?.timestamp || 0));
+        expectedRewards += calculateExpectedTieredRewards(3n * stakeAmount, tiersDurations, tiersMultipliers, ((await stakeTx3.getBlock())?.timestamp || 0) - stakeTimestamp, now - stakeTimestamp);
 
         // Check overall rewards
         const totalRewards = await staking.getStakeInfo(owner.address).then((info) => info._rewards);
@@ -949,8 +2467,9 @@ describe("Staking", function () {
       const { staking, stakingToken, owner } = await loadFixture(deployStakingFixture);
 
       // Set a large staking amount to test overflow boundaries
-      const maxStakeAmount = BigInt("115792089237316195423570985008687907853269984665640564039457584007913129639935"); // Close to the max uint256 value
+      const maxStakeAmount = 2n ** 208n - 1n; // The max amount the uint208 vote checkpoints hold
       await staking.setStakingTokenCap(maxStakeAmount);
+      await staking.setRewardRatio(rewardRatioNumerator * 10_000n);
 
       // Set tiers to test different multipliers
       const tiersDurations = [ONE_DAY, ONE_MONTH, THREE_MONTHS];
@@ -1195,6 +2714,15 @@ describe("Staking", function () {
       await expect(staking.connect(otherAccount).withdrawExcessTokens(ZeroAddress, 0)).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
       await expect(staking.connect(otherAccount).setRewardRatio(0)).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
       await expect(staking.connect(otherAccount).setTiers([], [])).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
+      await expect(staking.connect(otherAccount).cancelScheduledRewardRatio()).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
+      await expect(staking.connect(otherAccount).cancelScheduledTiers()).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
+      await expect(staking.connect(otherAccount).setMinNoticeDelay(0)).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
+      await expect(staking.connect(otherAccount).compoundFor([])).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
+      await expect(staking.connect(otherAccount).addRewardStream(otherAccount.address, 1)).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
+      await expect(staking.connect(otherAccount).setRewardStreamRatio(0, 0)).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
+      await expect(staking.connect(otherAccount).setStakeForAllowlistEnabled(true)).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
+      await expect(staking.connect(otherAccount).setStakeForAllowed(otherAccount.address, true)).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
+      await expect(staking.connect(otherAccount).setWithdrawCooldown(0)).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
       await expect(staking.connect(otherAccount).setMinStakingBoostAmount(0)).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
       await expect(staking.connect(otherAccount).setStakingTokenCap(0)).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
     })
@@ -0,0 +1,246 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { MaxUint256, parseUnits } from "ethers";
+import { minStakingBoostAmount, ONE_DAY, tiersDurations, tiersMultipliers } from "../config/config";
+import { decodeStakingError, isStakingError, StakingClient, StakingError } from "../sdk";
+import { fromDeployment } from "../sdk/node";
+import { errors } from "../scripts/utils";
+import { deployLucidaoStakingFixture, deployRewardStreamFixture, deployStakingFixture } from "./fixtures";
+
+describe("StakingClient", function () {
+  async function deployClientFixture() {
+    const { staking, stakingToken, owner, users } = await deployStakingFixture();
+    const decimals = await stakingToken.decimals();
+    const [user] = users;
+
+    await stakingToken.transfer(user.address, minStakingBoostAmount(decimals) * 2n);
+    await staking.setTiers(tiersDurations, tiersMultipliers);
+
+    const client = await StakingClient.connect(await staking.getAddress(), user);
+    return { staking, stakingToken, owner, user, decimals, client };
+  }
+
+  const expectStakingError = async (promise: Promise<unknown>, errorName: string) => {
+    const error = await promise.then(
+      () => undefined,
+      (error) => error
+    );
+    expect(error).to.be.instanceOf(StakingError);
+    expect(error.errorName).to.equal(errorName);
+  };
+
+  describe("Transactions", function () {
+    it("Should approve the staked amount only when the allowance is too low", async function () {
+      const { staking, stakingToken, user, decimals, client } = await loadFixture(deployClientFixture);
+      const stakingAddress = await staking.getAddress();
+
+      await client.stake(parseUnits("100", decimals));
+      expect(await stakingToken.allowance(user.address, stakingAddress)).to.equal(0n);
+
+      await stakingToken.connect(user).approve(stakingAddress, parseUnits("50", decimals));
+      await client.stake(parseUnits("50", decimals));
+      expect(await stakingToken.allowance(user.address, stakingAddress)).to.equal(0n);
+
+      await client.stake(parseUnits("10", decimals), { unlimitedApproval: true });
+      expect(await stakingToken.allowance(user.address, stakingAddress)).to.equal(MaxUint256);
+
+      expect((await client.getStakeInfo()).amountStaked).to.equal(parseUnits("160", decimals));
+    });
+    it("Should stake on behalf of a beneficiary", async function () {
+      const { staking, stakingToken, owner, user, decimals, client } = await loadFixture(deployClientFixture);
+
+      await client.stakeFor(owner.address, parseUnits("100", decimals));
+
+      expect((await client.getStakeInfo(owner.address)).amountStaked).to.equal(parseUnits("100", decimals));
+      expect((await client.getStakeInfo()).amountStaked).to.equal(0n);
+      expect(await stakingToken.allowance(user.address, await staking.getAddress())).to.equal(0n);
+    });
+    it("Should stake with a permit signature instead of an approval", async function () {
+      const { staking, stakingToken, otherAccount } = await loadFixture(deployLucidaoStakingFixture);
+      const stakingAddress = await staking.getAddress();
+      await stakingToken.transfer(otherAccount.address, parseUnits("100", 18));
+
+      const client = await StakingClient.connect(stakingAddress, otherAccount);
+      await client.stakeWithPermit(parseUnits("100", 18));
+
+      expect((await client.getStakeInfo()).amountStaked).to.equal(parseUnits("100", 18));
+      expect(await stakingToken.allowance(otherAccount.address, stakingAddress)).to.equal(0n);
+      expect(await stakingToken.nonces(otherAccount.address)).to.equal(1n);
+    });
+    it("Should fund a reward stream and read the stream rewards", async function () {
+      const { staking, stakingToken, rewardToken, owner } = await loadFixture(deployRewardStreamFixture);
+      const stakingAddress = await staking.getAddress();
+      await rewardToken.approve(stakingAddress, 0n);
+
+      const client = await StakingClient.connect(stakingAddress, owner);
+      await expectStakingError(client.fundRewardStream(1, 100n), errors.invalidRewardStreamId);
+      await client.fundRewardStream(0, 100n);
+      await client.stake(parseUnits("100", await stakingToken.decimals()));
+      await time.increase(30 * ONE_DAY);
+
+      const [stream] = await client.getRewardStreams();
+      expect(stream).to.deep.include({ id: 0, token: await rewardToken.getAddress(), fundedBalance: 100n });
+      expect(await rewardToken.allowance(owner.address, stakingAddress)).to.equal(0n);
+      const [streamRewards] = await client.getStreamRewards();
+      expect(streamRewards.rewards).to.equal((await staking.getStreamRewards(owner.address))._rewards[0]);
+      expect(streamRewards.rewards).to.be.greaterThan(0n);
+    });
+    it("Should fund the reward reserve and read the free surplus", async function () {
+      const { staking, stakingToken, user, decimals, client } = await loadFixture(deployClientFixture);
+
+      await client.fundRewards(parseUnits("100", decimals));
+      await stakingToken.transfer(await staking.getAddress(), parseUnits("10", decimals));
+
+      expect(await client.getRewardReserve()).to.deep.equal({ reserve: parseUnits("100", decimals), liabilities: 0n, freeSurplus: parseUnits("10", decimals) });
+      expect(await stakingToken.allowance(user.address, await staking.getAddress())).to.equal(0n);
+    });
+    it("Should delegate the voting power of the staked tokens", async function () {
+      const { owner, user, decimals, client } = await loadFixture(deployClientFixture);
+
+      await client.stake(parseUnits("100", decimals));
+      expect(await client.getVotingPower()).to.deep.equal({ votes: parseUnits("100", decimals), delegatee: user.address });
+
+      await client.delegate(owner.address);
+      expect(await client.getVotingPower()).to.deep.equal({ votes: 0n, delegatee: owner.address });
+      expect((await client.getVotingPower(owner.address)).votes).to.equal(parseUnits("100", decimals));
+    });
+    it("Should transfer the flexible stake with the receipt token", async function () {
+      const { staking, owner, user, decimals, client } = await loadFixture(deployClientFixture);
+
+      await client.stake(parseUnits("100", decimals));
+      await client.transferStake(owner.address, parseUnits("40", decimals));
+
+      expect(await client.receipt.balanceOf(owner.address)).to.equal(parseUnits("40", decimals));
+      expect((await staking.stakers(owner.address)).amountStaked).to.equal(parseUnits("40", decimals));
+      expect((await staking.stakers(user.address)).amountStaked).to.equal(parseUnits("60", decimals));
+      await expectStakingError(client.transferStake(owner.address, parseUnits("61", decimals)), errors.insufficientReceiptBalance);
+    });
+    it("Should withdraw, claim and emergency withdraw", async function () {
+      const { staking, stakingToken, user, decimals, client } = await loadFixture(deployClientFixture);
+      await stakingToken.transfer(await staking.getAddress(), parseUnits("1000", decimals));
+
+      await client.stake(parseUnits("1000", decimals));
+      await time.increase(30 * ONE_DAY);
+
+      const balance = await stakingToken.balanceOf(user.address);
+      await client.withdraw(parseUnits("400", decimals));
+      expect(await stakingToken.balanceOf(user.address)).to.equal(balance + parseUnits("400", decimals));
+
+      const { rewards } = await client.getStakeInfo();
+      expect(rewards).to.be.greaterThan(0n);
+      const receipt = await client.claimRewards();
+      expect(receipt.status).to.equal(1);
+      expect((await client.getStakeInfo()).rewards).to.equal(0n);
+
+      const balanceBeforeEmergency = await stakingToken.balanceOf(user.address);
+      await client.emergencyWithdraw();
+      expect(await stakingToken.balanceOf(user.address)).to.equal(balanceBeforeEmergency + parseUnits("600", decimals));
+      expect(await client.getStakeInfo(user.address)).to.deep.equal({ amountStaked: 0n, rewards: 0n });
+    });
+  });
+
+  describe("Errors", function () {
+    it("Should throw the contract custom errors as StakingError", async function () {
+      const { staking, owner, decimals, client } = await loadFixture(deployClientFixture);
+
+      await expectStakingError(client.stake(0n), errors.invalidAmount);
+      await expectStakingError(client.withdraw(1n), errors.invalidAmount);
+      await expectStakingError(client.claimRewards(), errors.noRewards);
+
+      await client.stake(parseUnits("100", decimals));
+      await time.increase(ONE_DAY);
+      await expectStakingError(client.claimRewards(), errors.missingRewards);
+
+      await staking.connect(owner).pause();
+      await expectStakingError(client.withdraw(1n), errors.paused);
+    });
+    it("Should decode errors inherited from OpenZeppelin with their arguments", async function () {
+      const { staking, user } = await loadFixture(deployClientFixture);
+
+      const error = await staking
+        .connect(user)
+        .pause()
+        .catch((error) => error);
+      const stakingError = decodeStakingError(error, [staking.interface]);
+
+      expect(isStakingError(stakingError, "callerNotOwner")).to.be.true;
+      expect(stakingError?.args).to.deep.equal([user.address]);
+    });
+    it("Should rethrow reverts that are not staking errors unchanged", async function () {
+      const { client, decimals } = await loadFixture(deployClientFixture);
+
+      const error = await client.stake(minStakingBoostAmount(decimals) * 3n).catch((error) => error);
+
+      expect(error).not.to.be.instanceOf(StakingError);
+      expect(error.message).to.contain("ERC20InsufficientBalance");
+    });
+  });
+
+  describe("Boost status", function () {
+    it("Should not be eligible below the minimum boost amount", async function () {
+      const { client, decimals } = await loadFixture(deployClientFixture);
+
+      await client.stake(minStakingBoostAmount(decimals) - 1n);
+
+      const status = await client.getBoostStatus();
+      expect(status.eligible).to.be.false;
+      expect(status.multiplier).to.equal(100n);
+      expect(status.nextTier).to.deep.equal({ index: 0, minStakingDuration: BigInt(tiersDurations[0]), multiplier: BigInt(tiersMultipliers[0]) });
+      expect(status.timeToNextTier).to.be.undefined;
+    });
+    it("Should follow the tiers and the time remaining until the next multiplier", async function () {
+      const { staking, user, client, decimals } = await loadFixture(deployClientFixture);
+
+      await client.stake(minStakingBoostAmount(decimals));
+
+      let status = await client.getBoostStatus();
+      expect(status.eligible).to.be.true;
+      expect(status.currentTier).to.be.undefined;
+      expect(status.nextTier?.index).to.equal(0);
+      expect(status.timeToNextTier).to.equal(BigInt(tiersDurations[0]));
+
+      await time.increase(tiersDurations[0] + 5 * ONE_DAY);
+      status = await client.getBoostStatus();
+      expect(status.currentTier?.index).to.equal(0);
+      expect(status.multiplier).to.equal(await staking.getCurrentMultiplier(user.address));
+      expect(status.nextTier?.index).to.equal(1);
+      expect(status.timeToNextTier).to.equal(BigInt(tiersDurations[1] - tiersDurations[0] - 5 * ONE_DAY));
+
+      await time.increase(tiersDurations[tiersDurations.length - 1]);
+      status = await client.getBoostStatus();
+      expect(status.currentTier?.index).to.equal(tiersDurations.length - 1);
+      expect(status.multiplier).to.equal(await staking.getCurrentMultiplier(user.address));
+      expect(status.nextTier).to.be.undefined;
+      expect(status.timeToNextTier).to.be.undefined;
+    });
+  });
+
+  describe("Connection", function () {
+    it("Should read with a provider and require a signer for transactions", async function () {
+      const { staking, user, client } = await loadFixture(deployClientFixture);
+      await client.stake(10n);
+
+      const readOnlyClient = await StakingClient.connect(await staking.getAddress(), hre.ethers.provider);
+
+      expect((await readOnlyClient.getStakeInfo(user.address)).amountStaked).to.equal(10n);
+      expect(await readOnlyClient.getTiers()).to.have.lengthOf(tiersDurations.length);
+      await expect(readOnlyClient.stake(10n)).to.be.rejectedWith("A signer is required");
+    });
+    it("Should read the tiers in force and not the scheduled ones", async function () {
+      const { staking, client } = await loadFixture(deployClientFixture);
+
+      await staking.setMinNoticeDelay(ONE_DAY);
+      await staking.setTiers(tiersDurations.slice(0, 1), tiersMultipliers.slice(0, 1));
+      expect(await client.getTiers()).to.have.lengthOf(tiersDurations.length);
+
+      await time.increase(ONE_DAY);
+      expect(await client.getTiers()).to.deep.equal([{ index: 0, minStakingDuration: BigInt(tiersDurations[0]), multiplier: BigInt(tiersMultipliers[0]) }]);
+    });
+    it("Should resolve the address from the Ignition deployment of the chain", async function () {
+      const { user } = await loadFixture(deployClientFixture);
+
+      await expect(fromDeployment(user)).to.be.rejectedWith("No Ignition deployment found for chain 31337");
+    });
+  });
+});
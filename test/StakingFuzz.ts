@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { MaxUint256, parseUnits } from "ethers";
+import { ONE_DAY } from "../config/config";
+import {
+  createRandom,
+  defaultInvariants,
+  formatFuzzTrace,
+  FuzzAction,
+  FuzzInvariant,
+  FuzzInvariantViolation,
+  parseFuzzTrace,
+  replayFuzzTrace,
+  runStatefulFuzz,
+  shrinkFuzzTrace,
+} from "../scripts/fuzz";
+import { deployStakingFixture } from "./fixtures";
+
+describe("Stateful Fuzzing", function () {
+  async function deployFuzzFixture() {
+    const { staking, stakingToken, owner, users } = await deployStakingFixture();
+
+    for (const user of users) {
+      await stakingToken.transfer(user.address, parseUnits("100000000", await stakingToken.decimals()));
+      await stakingToken.connect(user).approve(await staking.getAddress(), MaxUint256);
+    }
+    await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+    return { staking, stakingToken, owner, users };
+  }
+
+  const setup = () => loadFixture(deployFuzzFixture);
+
+  it("Should keep the invariants across a seeded sequence of user and owner actions", async function () {
+    this.timeout(0);
+
+    const seed = Number(process.env.FUZZ_SEED || 20240521);
+    const steps = Number(process.env.FUZZ_STEPS || 120);
+
+    const actions = await runStatefulFuzz({ seed, steps, setup });
+    expect(actions).to.have.length(steps);
+  });
+  it("Should generate the same sequence for the same seed", async function () {
+    const first = createRandom(42);
+    const second = createRandom(42);
+
+    for (let i = 0; i < 100; i++) {
+      expect(first.next()).to.equal(second.next());
+    }
+    expect(createRandom(43).next()).not.to.equal(createRandom(42).next());
+  });
+  it("Should replay a printed trace", async function () {
+    const actions: FuzzAction[] = [
+      { type: "stake", user: 0, amount: parseUnits("30000", 6) },
+      { type: "increaseTime", seconds: 40 * ONE_DAY },
+      { type: "fund", amount: parseUnits("1000", 6) },
+      { type: "setRewardRatio", numerator: 700n },
+      { type: "claimRewards", user: 0 },
+      { type: "withdraw", user: 0, amount: parseUnits("10000", 6) },
+      { type: "pause" },
+      { type: "emergencyWithdraw", user: 0 },
+    ];
+
+    const trace = formatFuzzTrace(actions);
+    expect(parseFuzzTrace(trace)).to.deep.equal(actions);
+
+    expect(await replayFuzzTrace({ setup }, parseFuzzTrace(trace))).to.deep.equal(actions);
+  });
+  it("Should shrink a failing trace to the actions that trigger it", async function () {
+    const limit = parseUnits("1000", 6);
+    const invariants: FuzzInvariant[] = [
+      ...defaultInvariants,
+      {
+        name: "no staker above the limit",
+        check: async ({ ctx, userAddresses }) => {
+          for (const address of userAddresses) {
+            if ((await ctx.staking.stakers(address)).amountStaked > limit) return `${address} staked more than ${limit}`;
+          }
+        },
+      },
+    ];
+    const actions: FuzzAction[] = [
+      { type: "stake", user: 0, amount: 100n },
+      { type: "increaseTime", seconds: ONE_DAY },
+      { type: "fund", amount: 1000n },
+      { type: "stake", user: 1, amount: limit },
+      { type: "claimRewards", user: 0 },
+      { type: "stake", user: 1, amount: 1n },
+      { type: "increaseTime", seconds: ONE_DAY },
+    ];
+
+    const violation = await replayFuzzTrace({ setup, invariants }, actions).then(
+      () => undefined,
+      (error) => error
+    );
+    expect(violation).to.be.instanceOf(FuzzInvariantViolation);
+    expect(violation.step).to.equal(5);
+
+    const shrunk = await shrinkFuzzTrace({ setup, invariants, seed: 0, steps: 0 }, violation);
+    expect(shrunk).to.deep.equal([
+      { type: "stake", user: 1, amount: limit },
+      { type: "stake", user: 1, amount: 1n },
+    ]);
+  });
+});
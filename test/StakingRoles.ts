@@ -0,0 +1,203 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { MaxUint256, parseUnits } from "ethers";
+import { ONE_DAY, tiersDurations, tiersMultipliers } from "../config/config";
+import { errors } from "../scripts/utils";
+import { deployStakingRolesFixture } from "./fixtures";
+
+describe("StakingRoles", function () {
+  describe("Deployment", function () {
+    it("Should make the deployer the admin, grant the configured roles and own the Staking contract", async function () {
+      const { staking, stakingRoles, owner, pauser, parameterManager, treasury } = await loadFixture(deployStakingRolesFixture);
+
+      expect(await stakingRoles.staking()).to.equal(await staking.getAddress());
+      expect(await staking.owner()).to.equal(await stakingRoles.getAddress());
+      expect(await stakingRoles.hasRole(await stakingRoles.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await stakingRoles.hasRole(await stakingRoles.PAUSER_ROLE(), pauser.address)).to.be.true;
+      expect(await stakingRoles.hasRole(await stakingRoles.PARAMETER_MANAGER_ROLE(), parameterManager.address)).to.be.true;
+      expect(await stakingRoles.hasRole(await stakingRoles.TREASURY_ROLE(), treasury.address)).to.be.true;
+      expect(await stakingRoles.hasRole(await stakingRoles.PAUSER_ROLE(), owner.address)).to.be.false;
+    });
+    it("Should leave the Staking admin functions to the roles contract only", async function () {
+      const { staking, owner } = await loadFixture(deployStakingRolesFixture);
+
+      await expect(staking.connect(owner).pause()).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
+      await expect(staking.connect(owner).setRewardRatio(500n)).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
+    });
+  });
+
+  describe("Pauser Functions", function () {
+    it("Should let a pauser pause but not unpause", async function () {
+      const { staking, stakingRoles, owner, pauser } = await loadFixture(deployStakingRolesFixture);
+
+      await expect(stakingRoles.connect(pauser).pause())
+        .to.emit(staking, "Paused")
+        .withArgs(await stakingRoles.getAddress());
+      expect(await staking.paused()).to.be.true;
+
+      await expect(stakingRoles.connect(pauser).unpause())
+        .to.be.revertedWithCustomError(stakingRoles, errors.missingRole)
+        .withArgs(pauser.address, await stakingRoles.DEFAULT_ADMIN_ROLE());
+      await stakingRoles.connect(owner).unpause();
+      expect(await staking.paused()).to.be.false;
+    });
+    it("Should revert if an account without the pauser role pauses", async function () {
+      const { stakingRoles, owner, parameterManager, treasury } = await loadFixture(deployStakingRolesFixture);
+      const pauserRole = await stakingRoles.PAUSER_ROLE();
+
+      for (const account of [owner, parameterManager, treasury]) {
+        await expect(stakingRoles.connect(account).pause())
+          .to.be.revertedWithCustomError(stakingRoles, errors.missingRole)
+          .withArgs(account.address, pauserRole);
+      }
+    });
+  });
+
+  describe("Parameter Manager Functions", function () {
+    it("Should let a parameter manager set the parameters", async function () {
+      const { staking, stakingRoles, stakingToken, parameterManager, otherAccount } = await loadFixture(deployStakingRolesFixture);
+      const decimals = await stakingToken.decimals();
+      const manager = stakingRoles.connect(parameterManager);
+
+      await expect(manager.setRewardRatio(500n)).to.emit(staking, "UpdatedRewardRatio");
+      await manager.setTiers(tiersDurations, tiersMultipliers);
+      await manager.setLockOptions([30 * ONE_DAY, 180 * ONE_DAY], [110, 130]);
+      await manager.setWithdrawCooldown(ONE_DAY);
+      await manager.addRewardStream(otherAccount.address, 100n);
+      await manager.setRewardStreamRatio(0n, 200n);
+      await manager.setStakeForAllowlistEnabled(true);
+      await manager.setStakeForAllowed(otherAccount.address, true);
+      await manager.setStakingTokenCap(parseUnits("1000000", decimals));
+      await manager.setMinStakingBoostAmount(parseUnits("10", decimals));
+
+      expect((await staking.getRewardRatio())._numerator).to.equal(500n);
+      expect((await staking.tiers(0)).multiplier).to.equal(tiersMultipliers[0]);
+      expect(await staking.getLockOptions()).to.have.lengthOf(2);
+      expect(await staking.withdrawCooldown()).to.equal(ONE_DAY);
+      expect((await staking.getRewardStreams())[0].rewardRatioNumerator).to.equal(200n);
+      expect(await staking.stakeForAllowlistEnabled()).to.be.true;
+      expect(await staking.stakeForAllowlist(otherAccount.address)).to.be.true;
+      expect(await staking.stakingTokenCap()).to.equal(parseUnits("1000000", decimals));
+      expect(await staking.minStakingBoostAmount()).to.equal(parseUnits("10", decimals));
+    });
+    it("Should let a parameter manager cancel the changes scheduled behind the notice delay set by the admin", async function () {
+      const { staking, stakingRoles, parameterManager } = await loadFixture(deployStakingRolesFixture);
+      const manager = stakingRoles.connect(parameterManager);
+
+      await expect(stakingRoles.setMinNoticeDelay(ONE_DAY)).to.emit(staking, "MinNoticeDelaySet").withArgs(ONE_DAY);
+      await expect(manager.setRewardRatio(500n)).to.emit(staking, "RewardRatioScheduled");
+      await expect(manager.setTiers(tiersDurations, tiersMultipliers)).to.emit(staking, "TiersScheduled");
+
+      await expect(manager.cancelScheduledRewardRatio()).to.emit(staking, "ScheduledRewardRatioCancelled");
+      await expect(manager.cancelScheduledTiers()).to.emit(staking, "ScheduledTiersCancelled");
+      expect(await staking.getScheduledRewardRatio()).to.deep.equal([0n, 0n]);
+      expect(await staking.getTierSetCount()).to.equal(1n);
+    });
+    it("Should revert if an account without the parameter manager role sets the parameters", async function () {
+      const { stakingRoles, owner, pauser, otherAccount } = await loadFixture(deployStakingRolesFixture);
+      const managerRole = await stakingRoles.PARAMETER_MANAGER_ROLE();
+
+      for (const account of [owner, pauser]) {
+        const roles = stakingRoles.connect(account);
+        for (const call of [
+          () => roles.setRewardRatio(500n),
+          () => roles.setTiers(tiersDurations, tiersMultipliers),
+          () => roles.cancelScheduledRewardRatio(),
+          () => roles.cancelScheduledTiers(),
+          () => roles.setLockOptions([], []),
+          () => roles.setWithdrawCooldown(0n),
+          () => roles.addRewardStream(otherAccount.address, 100n),
+          () => roles.setRewardStreamRatio(0n, 0n),
+          () => roles.setStakeForAllowlistEnabled(true),
+          () => roles.setStakeForAllowed(otherAccount.address, true),
+          () => roles.setStakingTokenCap(0n),
+          () => roles.setMinStakingBoostAmount(0n),
+        ]) {
+          await expect(call()).to.be.revertedWithCustomError(stakingRoles, errors.missingRole).withArgs(account.address, managerRole);
+        }
+      }
+    });
+  });
+
+  describe("Treasury Functions", function () {
+    it("Should send the excess tokens to the treasury", async function () {
+      const { staking, stakingRoles, stakingToken, treasury } = await loadFixture(deployStakingRolesFixture);
+      const amount = parseUnits("100", await stakingToken.decimals());
+      await stakingToken.transfer(await staking.getAddress(), amount);
+
+      const withdrawTx = stakingRoles.connect(treasury).withdrawExcessTokens(await stakingToken.getAddress(), amount);
+      await expect(withdrawTx).to.changeTokenBalances(
+        stakingToken,
+        [await staking.getAddress(), await stakingRoles.getAddress(), treasury.address],
+        [-amount, 0n, amount]
+      );
+      await expect(withdrawTx)
+        .to.emit(staking, "ExcessTokensWithdrawn")
+        .withArgs(await stakingToken.getAddress(), amount);
+    });
+    it("Should forward the excess tokens actually received for fee-on-transfer tokens", async function () {
+      const { staking, stakingRoles, treasury } = await loadFixture(deployStakingRolesFixture);
+      const feeToken = await hre.ethers.deployContract("FeeOnTransferToken");
+      await feeToken.transfer(await staking.getAddress(), parseUnits("100"));
+
+      // 1% is burnt on each transfer, from the Staking contract to the roles then to the treasury
+      const amount = await feeToken.balanceOf(await staking.getAddress());
+      const received = amount - amount / 100n;
+      const withdrawTx = stakingRoles.connect(treasury).withdrawExcessTokens(await feeToken.getAddress(), amount);
+      await expect(withdrawTx).to.changeTokenBalances(
+        feeToken,
+        [await staking.getAddress(), await stakingRoles.getAddress(), treasury.address],
+        [-amount, 0n, received - received / 100n]
+      );
+    });
+    it("Should revert if an account without the treasury role withdraws the excess tokens", async function () {
+      const { stakingRoles, stakingToken, owner, parameterManager } = await loadFixture(deployStakingRolesFixture);
+      const treasuryRole = await stakingRoles.TREASURY_ROLE();
+
+      for (const account of [owner, parameterManager]) {
+        await expect(stakingRoles.connect(account).withdrawExcessTokens(await stakingToken.getAddress(), 1n))
+          .to.be.revertedWithCustomError(stakingRoles, errors.missingRole)
+          .withArgs(account.address, treasuryRole);
+      }
+    });
+  });
+
+  describe("Admin Functions", function () {
+    it("Should let the admin compound for stakers, grant the roles and hand the ownership over", async function () {
+      const { staking, stakingRoles, stakingToken, owner, otherAccount } = await loadFixture(deployStakingRolesFixture);
+      const amount = parseUnits("1000", await stakingToken.decimals());
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await staking.stake(amount);
+      await time.increase(30 * ONE_DAY);
+
+      await expect(stakingRoles.compoundFor([owner.address])).to.emit(staking, "RewardsCompounded");
+
+      await stakingRoles.grantRole(await stakingRoles.PAUSER_ROLE(), otherAccount.address);
+      await stakingRoles.connect(otherAccount).pause();
+      expect(await staking.paused()).to.be.true;
+
+      await expect(stakingRoles.transferStakingOwnership(owner.address)).to.emit(staking, "OwnershipTransferred");
+      expect(await staking.owner()).to.equal(owner.address);
+      await expect(stakingRoles.connect(otherAccount).pause()).to.be.revertedWithCustomError(staking, errors.callerNotOwner);
+    });
+    it("Should revert if an account without the admin role calls the admin functions", async function () {
+      const { stakingRoles, pauser, parameterManager, treasury } = await loadFixture(deployStakingRolesFixture);
+      const adminRole = await stakingRoles.DEFAULT_ADMIN_ROLE();
+
+      for (const account of [pauser, parameterManager, treasury]) {
+        const roles = stakingRoles.connect(account);
+        for (const call of [
+          () => roles.unpause(),
+          () => roles.compoundFor([account.address]),
+          () => roles.setMinNoticeDelay(0n),
+          () => roles.transferStakingOwnership(account.address),
+          () => roles.grantRole(adminRole, account.address),
+        ]) {
+          await expect(call()).to.be.revertedWithCustomError(stakingRoles, errors.missingRole).withArgs(account.address, adminRole);
+        }
+      }
+    });
+  });
+});
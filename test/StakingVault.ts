@@ -0,0 +1,242 @@
+import { expect } from "chai";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import hre from "hardhat";
+import { MaxUint256, parseUnits, ZeroAddress } from "ethers";
+import { minStakingBoostAmount, ONE_DAY, rewardRatioNumerator, tiersDurations, tiersMultipliers } from "../config/config";
+import { calculateExpectedRewards, errors } from "../scripts/utils";
+import { deployStakingVaultFixture } from "./fixtures";
+
+describe("StakingVault", function () {
+  describe("Deployment", function () {
+    it("Should use the staking token as the asset and approve the Staking contract", async function () {
+      const { staking, stakingToken, vault, otherAccount } = await loadFixture(deployStakingVaultFixture);
+
+      expect(await vault.asset()).to.equal(await stakingToken.getAddress());
+      expect(await vault.staking()).to.equal(await staking.getAddress());
+      expect(await vault.streamRewardsRecipient()).to.equal(otherAccount.address);
+      expect(await vault.decimals()).to.equal(await stakingToken.decimals());
+      expect(await stakingToken.allowance(await vault.getAddress(), await staking.getAddress())).to.equal(MaxUint256);
+    });
+    it("Should not accept the zero address as the stream rewards recipient", async function () {
+      const { staking, vault } = await loadFixture(deployStakingVaultFixture);
+
+      await expect(
+        hre.ethers.deployContract("StakingVault", [await staking.getAddress(), "Vault Staked PurchaseToken", "vsPTK", ZeroAddress])
+      ).to.be.revertedWithCustomError(vault, errors.invalidStreamRewardsRecipient);
+    });
+  });
+
+  describe("deposit", function () {
+    it("Should stake the deposit and mint the shares", async function () {
+      const { staking, stakingToken, vault, depositors, decimals } = await loadFixture(deployStakingVaultFixture);
+      const [depositor] = depositors;
+
+      const amount = parseUnits("1000", decimals);
+      const depositTx = vault.connect(depositor).deposit(amount, depositor.address);
+      await expect(depositTx).to.changeTokenBalances(stakingToken, [depositor.address, await staking.getAddress()], [-amount, amount]);
+      await expect(depositTx).to.emit(staking, "TokensStaked").withArgs(await vault.getAddress(), amount);
+
+      expect(await vault.balanceOf(depositor.address)).to.equal(amount);
+      expect(await vault.totalAssets()).to.equal(amount);
+      expect((await staking.stakers(await vault.getAddress())).amountStaked).to.equal(amount);
+    });
+    it("Should limit the deposits to the room left under the staking token cap", async function () {
+      const { staking, stakingToken, vault, depositors, decimals } = await loadFixture(deployStakingVaultFixture);
+      const [depositor] = depositors;
+      await stakingToken.approve(await staking.getAddress(), MaxUint256);
+
+      await staking.stake(parseUnits("600", decimals));
+      await staking.setStakingTokenCap(parseUnits("1000", decimals));
+      expect(await vault.maxDeposit(depositor.address)).to.equal(parseUnits("400", decimals));
+      expect(await vault.maxMint(depositor.address)).to.equal(parseUnits("400", decimals));
+
+      await expect(vault.connect(depositor).deposit(parseUnits("400", decimals) + 1n, depositor.address)).to.be.revertedWithCustomError(
+        vault,
+        errors.exceededMaxDeposit
+      );
+      await vault.connect(depositor).deposit(parseUnits("400", decimals), depositor.address);
+      expect(await vault.maxDeposit(depositor.address)).to.equal(0n);
+
+      await staking.setStakingTokenCap(parseUnits("500", decimals));
+      expect(await vault.maxDeposit(depositor.address)).to.equal(0n);
+    });
+    it("Should not accept deposits while the Staking contract is paused", async function () {
+      const { staking, vault, depositors } = await loadFixture(deployStakingVaultFixture);
+      const [depositor] = depositors;
+
+      await staking.pause();
+
+      expect(await vault.maxDeposit(depositor.address)).to.equal(0n);
+      await expect(vault.connect(depositor).deposit(1n, depositor.address)).to.be.revertedWithCustomError(vault, errors.exceededMaxDeposit);
+    });
+  });
+
+  describe("harvest", function () {
+    it("Should compound the rewards of the vault and raise the share price", async function () {
+      const { staking, stakingToken, vault, depositors, decimals } = await loadFixture(deployStakingVaultFixture);
+      const [depositor1, depositor2] = depositors;
+
+      const amount = parseUnits("1000", decimals);
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      const depositTimestamp = (await (await vault.connect(depositor1).deposit(amount, depositor1.address)).getBlock())!.timestamp;
+      await time.increase(30 * ONE_DAY);
+
+      const harvestTx = vault.harvest();
+      const harvestTimestamp = (await (await harvestTx).getBlock())!.timestamp;
+      const rewards = calculateExpectedRewards(amount, 100, harvestTimestamp - depositTimestamp);
+      await expect(harvestTx).to.emit(vault, "Harvested").withArgs(rewards);
+      await expect(harvestTx).to.emit(staking, "RewardsCompounded").withArgs(await vault.getAddress(), rewards);
+      expect(await vault.totalAssets()).to.equal(amount + rewards);
+
+      // A later depositor gets fewer shares for the same amount, after the rewards accrued since the harvest are compounded too
+      await vault.connect(depositor2).deposit(amount, depositor2.address);
+      expect(await vault.balanceOf(depositor2.address)).to.be.lessThan(amount);
+      expect(await vault.previewRedeem(await vault.balanceOf(depositor2.address))).to.be.closeTo(amount, 1n);
+    });
+    it("Should skip the rewards while they are missing from the Staking contract", async function () {
+      const { staking, stakingToken, vault, depositors, decimals } = await loadFixture(deployStakingVaultFixture);
+      const [depositor1, depositor2] = depositors;
+
+      const amount = parseUnits("1000", decimals);
+      await vault.connect(depositor1).deposit(amount, depositor1.address);
+      await time.increase(30 * ONE_DAY);
+      expect((await staking.getStakeInfo(await vault.getAddress()))._rewards).to.be.greaterThan(await staking.getFreeSurplus());
+
+      await expect(vault.harvest()).not.to.emit(vault, "Harvested");
+      await vault.connect(depositor2).deposit(amount, depositor2.address);
+      expect(await vault.totalAssets()).to.equal(2n * amount);
+      expect(await vault.balanceOf(depositor2.address)).to.equal(amount);
+
+      // The rewards stay in the Staking contract until they are funded
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await expect(vault.harvest()).to.emit(vault, "Harvested");
+      expect(await vault.totalAssets()).to.be.greaterThan(2n * amount);
+    });
+    it("Should skip the rewards above the staking token cap", async function () {
+      const { staking, stakingToken, vault, depositors, decimals } = await loadFixture(deployStakingVaultFixture);
+      const [depositor] = depositors;
+
+      const amount = parseUnits("1000", decimals);
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await vault.connect(depositor).deposit(amount, depositor.address);
+      await staking.setStakingTokenCap(amount);
+      await time.increase(30 * ONE_DAY);
+
+      await expect(vault.harvest()).not.to.emit(vault, "Harvested");
+      expect(await vault.totalAssets()).to.equal(amount);
+    });
+    it("Should claim the reward streams of the vault and forward them to the recipient", async function () {
+      const { staking, stakingToken, vault, depositors, otherAccount, decimals } = await loadFixture(deployStakingVaultFixture);
+      const [depositor] = depositors;
+      const rewardToken = await hre.ethers.deployContract("FakeLucidao");
+      await rewardToken.approve(await staking.getAddress(), MaxUint256);
+      await staking.addRewardStream(await rewardToken.getAddress(), rewardRatioNumerator);
+
+      const amount = parseUnits("1000", decimals);
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await staking.fundRewardStream(0, amount);
+      const depositTimestamp = (await (await vault.connect(depositor).deposit(amount, depositor.address)).getBlock())!.timestamp;
+      await time.increase(30 * ONE_DAY);
+
+      const harvestTx = vault.harvest();
+      const streamRewards = calculateExpectedRewards(amount, 100, (await (await harvestTx).getBlock())!.timestamp - depositTimestamp);
+      await expect(harvestTx).to.emit(vault, "Harvested");
+      await expect(harvestTx).to.emit(staking, "StreamRewardsClaimed").withArgs(await vault.getAddress(), 0, streamRewards);
+      await expect(harvestTx).to.emit(vault, "StreamRewardsForwarded").withArgs(await rewardToken.getAddress(), streamRewards);
+      await expect(harvestTx).to.changeTokenBalances(rewardToken, [await staking.getAddress(), otherAccount.address], [-streamRewards, streamRewards]);
+      expect(await rewardToken.balanceOf(await vault.getAddress())).to.equal(0n);
+    });
+    it("Should keep the stream rewards of the vault while the stream is underfunded", async function () {
+      const { staking, stakingToken, vault, depositors, otherAccount, decimals } = await loadFixture(deployStakingVaultFixture);
+      const [depositor] = depositors;
+      const rewardToken = await hre.ethers.deployContract("FakeLucidao");
+      await rewardToken.approve(await staking.getAddress(), MaxUint256);
+      await staking.addRewardStream(await rewardToken.getAddress(), rewardRatioNumerator);
+
+      const amount = parseUnits("1000", decimals);
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await staking.fundRewardStream(0, 1n);
+      await vault.connect(depositor).deposit(amount, depositor.address);
+      await time.increase(30 * ONE_DAY);
+
+      await expect(vault.harvest()).to.emit(vault, "Harvested").and.not.to.emit(vault, "StreamRewardsForwarded");
+      expect((await staking.getStreamRewards(await vault.getAddress()))._rewards[0]).to.be.greaterThan(1n);
+
+      // The rewards credited so far are forwarded once the stream is funded
+      await staking.fundRewardStream(0, amount);
+      await expect(vault.harvest()).to.emit(vault, "StreamRewardsForwarded");
+      const forwarded = await rewardToken.balanceOf(otherAccount.address);
+      expect(forwarded).to.be.greaterThan(calculateExpectedRewards(amount, 100, 30 * ONE_DAY));
+      expect((await staking.getRewardStreams())[0].fundedBalance).to.equal(amount + 1n - forwarded);
+      expect((await staking.getStreamRewards(await vault.getAddress()))._rewards).to.deep.equal([0n]);
+      expect(await rewardToken.balanceOf(await vault.getAddress())).to.equal(0n);
+    });
+  });
+
+  describe("withdraw", function () {
+    it("Should withdraw through the Staking contract and restart the boost of the vault", async function () {
+      const { staking, stakingToken, vault, depositors, decimals } = await loadFixture(deployStakingVaultFixture);
+      const [depositor1, depositor2] = depositors;
+      await staking.setTiers(tiersDurations, tiersMultipliers);
+
+      const amount = minStakingBoostAmount(decimals) / 2n;
+      await vault.connect(depositor1).deposit(amount, depositor1.address);
+      await vault.connect(depositor2).deposit(amount, depositor2.address);
+      await time.increase(tiersDurations[1]);
+
+      // Neither depositor reaches the minimum boost amount on their own, but both share the multiplier of the vault
+      expect(await staking.getCurrentMultiplier(await vault.getAddress())).to.equal(tiersMultipliers[1]);
+
+      const withdrawTx = vault.connect(depositor1).withdraw(amount / 2n, depositor1.address, depositor1.address);
+      await expect(withdrawTx).to.changeTokenBalance(stakingToken, depositor1.address, amount / 2n);
+      await expect(withdrawTx).to.emit(staking, "TokensWithdrawn").withArgs(await vault.getAddress(), amount / 2n);
+      const withdrawTimestamp = (await (await withdrawTx).getBlock())!.timestamp;
+
+      expect((await staking.stakers(await vault.getAddress())).timeOfLastBoostUpdate).to.equal(withdrawTimestamp);
+      expect(await staking.getCurrentMultiplier(await vault.getAddress())).to.equal(100n);
+    });
+    it("Should redeem the shares of every depositor at the same share price", async function () {
+      const { stakingToken, staking, vault, depositors, decimals } = await loadFixture(deployStakingVaultFixture);
+      const [depositor1, depositor2] = depositors;
+
+      const amount = parseUnits("1000", decimals);
+      await stakingToken.transfer(await staking.getAddress(), amount);
+      await vault.connect(depositor1).deposit(amount, depositor1.address);
+      await vault.connect(depositor2).deposit(3n * amount, depositor2.address);
+      await time.increase(90 * ONE_DAY);
+
+      const before1 = await stakingToken.balanceOf(depositor1.address);
+      const before2 = await stakingToken.balanceOf(depositor2.address);
+      await vault.connect(depositor1).redeem(await vault.balanceOf(depositor1.address), depositor1.address, depositor1.address);
+      await vault.connect(depositor2).redeem(await vault.balanceOf(depositor2.address), depositor2.address, depositor2.address);
+      const gain1 = (await stakingToken.balanceOf(depositor1.address)) - before1 - amount;
+      const gain2 = (await stakingToken.balanceOf(depositor2.address)) - before2 - 3n * amount;
+
+      expect(gain1).to.be.greaterThan(0n);
+      expect(gain2).to.be.closeTo(3n * gain1, gain2 / 1000n);
+      expect(await vault.totalSupply()).to.equal(0n);
+      expect(await vault.totalAssets()).to.be.lessThanOrEqual(1n);
+    });
+    it("Should not allow withdrawals while the Staking contract is paused or has a withdraw cooldown", async function () {
+      const { staking, vault, depositors, decimals } = await loadFixture(deployStakingVaultFixture);
+      const [depositor] = depositors;
+
+      const amount = parseUnits("1000", decimals);
+      await vault.connect(depositor).deposit(amount, depositor.address);
+      expect(await vault.maxWithdraw(depositor.address)).to.equal(amount);
+
+      await staking.setWithdrawCooldown(ONE_DAY);
+      expect(await vault.maxWithdraw(depositor.address)).to.equal(0n);
+      expect(await vault.maxRedeem(depositor.address)).to.equal(0n);
+      await expect(vault.connect(depositor).withdraw(1n, depositor.address, depositor.address)).to.be.revertedWithCustomError(
+        vault,
+        errors.exceededMaxWithdraw
+      );
+
+      await staking.setWithdrawCooldown(0);
+      await staking.pause();
+      expect(await vault.maxWithdraw(depositor.address)).to.equal(0n);
+      await expect(vault.connect(depositor).redeem(1n, depositor.address, depositor.address)).to.be.revertedWithCustomError(vault, errors.exceededMaxRedeem);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import hre from "hardhat";
+import { MaxUint256 } from "ethers";
+import { minStakingBoostAmount, rewardRatioNumerator, stakingTokenCap } from "../config/config";
+import { deployLibraries } from "../scripts/deployments";
+
+// The Staking contract is deployed along with the libraries it links
+export async function deployStaking(args: unknown[]) {
+  return hre.ethers.deployContract("Staking", args, { libraries: await deployLibraries(hre, "Staking") });
+}
+
+// We define a fixture to reuse the same setup in every test.
+// We use loadFixture to run this setup once, snapshot that state,
+// and reset Hardhat Network to that snapshot in every test.
+export async function deployStakingFixture() {
+  // Contracts are deployed using the first signer/account by default
+  const [owner, otherAccount, ...accounts] = await hre.ethers.getSigners();
+
+  const stakingToken = await hre.ethers.deployContract("PurchaseToken");
+
+  const staking = await deployStaking([
+    await stakingToken.getAddress(),
+    rewardRatioNumerator,
+    stakingTokenCap(await stakingToken.decimals()),
+    minStakingBoostAmount(await stakingToken.decimals()),
+  ]);
+
+  // Assign the first 50 accounts for stress testing
+  const users = accounts.slice(0, 50);
+
+  return { staking, stakingToken, owner, otherAccount, users };
+}
+
+// Same setup with a reward stream paying a partner token at the default reward ratio
+export async function deployRewardStreamFixture() {
+  const fixture = await deployStakingFixture();
+
+  const rewardToken = await hre.ethers.deployContract("FakeLucidao");
+  await fixture.staking.addRewardStream(await rewardToken.getAddress(), rewardRatioNumerator);
+  await rewardToken.approve(await fixture.staking.getAddress(), MaxUint256);
+
+  return { ...fixture, rewardToken };
+}
+
+// Same setup with an auto-compounding vault forwarding its stream rewards to the other account, and two depositors funded and approved
+export async function deployStakingVaultFixture() {
+  const fixture = await deployStakingFixture();
+  const decimals = await fixture.stakingToken.decimals();
+
+  const vault = await hre.ethers.deployContract("StakingVault", [
+    await fixture.staking.getAddress(),
+    "Vault Staked PurchaseToken",
+    "vsPTK",
+    fixture.otherAccount.address,
+  ]);
+  const depositors = fixture.users.slice(0, 2);
+  for (const depositor of depositors) {
+    await fixture.stakingToken.transfer(depositor.address, minStakingBoostAmount(decimals));
+    await fixture.stakingToken.connect(depositor).approve(await vault.getAddress(), MaxUint256);
+  }
+
+  return { ...fixture, vault, depositors, decimals };
+}
+
+// Same setup with a StakingRoles owner splitting the admin functions between a pauser, a parameter manager and a treasury
+export async function deployStakingRolesFixture() {
+  const fixture = await deployStakingFixture();
+  const [pauser, parameterManager, treasury] = fixture.users.slice(0, 3);
+
+  const stakingRoles = await hre.ethers.deployContract("StakingRoles", [
+    await fixture.staking.getAddress(),
+    [pauser.address],
+    [parameterManager.address],
+    [treasury.address],
+  ]);
+  await fixture.staking.transferOwnership(await stakingRoles.getAddress());
+
+  return { ...fixture, stakingRoles, pauser, parameterManager, treasury };
+}
+
+// Same setup with the Lucidao token, whose EIP-2612 permit replaces the approval
+export async function deployLucidaoStakingFixture() {
+  const [owner, otherAccount] = await hre.ethers.getSigners();
+
+  const stakingToken = await hre.ethers.deployContract("FakeLucidao");
+
+  const staking = await deployStaking([
+    await stakingToken.getAddress(),
+    rewardRatioNumerator,
+    stakingTokenCap(await stakingToken.decimals()),
+    minStakingBoostAmount(await stakingToken.decimals()),
+  ]);
+
+  return { staking, stakingToken, owner, otherAccount };
+}